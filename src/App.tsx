@@ -1,3 +1,4 @@
+import { useState, useEffect } from 'react';
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import './App.css';
 
@@ -13,22 +14,36 @@ import { PatreonAuthProvider } from '@/contexts/PatreonAuthContext';
 // Components
 import { UserAvatar } from '@/components/UserAvatar';
 import { ProtectedRoute } from '@/components/ProtectedRoute';
+import { MediaDisplay } from '@/components/MediaDisplay';
+import { CaptionDisplay } from '@/components/CaptionDisplay';
 
 // Pages
 import { LoginPage } from '@/pages/LoginPage';
 import { RegisterPage } from '@/pages/RegisterPage';
 import { SettingsPage } from '@/pages/SettingsPage';
 import { SessionsPage } from '@/pages/SessionsPage';
+import { ExplorePage } from '@/pages/ExplorePage';
 import { SessionFormPage } from '@/pages/SessionFormPage';
 import { SessionPlayPage } from '@/pages/SessionPlayPage';
 import { SessionSharePage } from '@/pages/SessionSharePage';
 import { SessionSavePage } from '@/pages/SessionSavePage';
+import { SessionLinkPage } from '@/pages/SessionLinkPage';
 import { AdminPage } from '@/pages/AdminPage';
 
 // Hooks
 import { useAuth } from '@/contexts/AuthContext';
+import { useUserSettings } from '@/hooks/useUserSettings';
+import { useRedditPosts } from '@/hooks/useRedditPosts';
+import { useJoipPlayer } from '@/hooks/useJoipPlayer';
+import { useDeadMediaReporter } from '@/hooks/useDeadMediaReporter';
+import { useAICaption } from '@/hooks/useAICaption';
 
 // UI Components
+import {
+  ResizableHandle,
+  ResizablePanel,
+  ResizablePanelGroup,
+} from '@/components/ui/resizable';
 import { ThemeToggle } from './components/ThemeToggle';
 import { Button } from './components/ui/button';
 import { Toaster } from '@/components/ui/sonner';
@@ -38,6 +53,47 @@ import { useTheme } from './hooks/useTheme';
 function MainApp() {
   const { theme } = useTheme();
   const { profile } = useAuth();
+  const { preferences } = useUserSettings();
+  const [isPaused, setIsPaused] = useState(false);
+
+  // Quick play: run the player over the subreddits saved in the user's preferences
+  const { subreddits, isLoading, error, loadMore } = useRedditPosts(
+    preferences.subreddits,
+    preferences.interval * 2 // Refresh at twice the interval rate
+  );
+
+  const reportDeadMedia = useDeadMediaReporter();
+
+  const player = useJoipPlayer({
+    subreddits,
+    interval: preferences.interval,
+    transition: preferences.transition,
+    paused: isPaused || isLoading,
+    onNearEnd: loadMore,
+    onDeadMedia: reportDeadMedia,
+  });
+
+  const isPatron = profile?.is_patron === true;
+
+  const caption = useAICaption({
+    post: player.currentPost,
+    systemPrompt: preferences.systemPrompt,
+    upcoming: player.upNext,
+  });
+
+  // Set document title based on current post
+  useEffect(() => {
+    if (player.currentPost) {
+      document.title = `${player.currentPost.subreddit} - ${player.currentPost.title.slice(0, 50)}${player.currentPost.title.length > 50 ? '...' : ''}`;
+    } else {
+      document.title = 'Joip AI';
+    }
+
+    // Reset on unmount
+    return () => {
+      document.title = 'Joip AI';
+    };
+  }, [player.currentPost]);
   
   return (
     <div className="w-full h-screen flex flex-col">
@@ -68,23 +124,42 @@ function MainApp() {
         </div>
       </header>
 
-      <div className="flex flex-col items-center justify-center h-full p-6 text-center gap-8">
-        <div className="max-w-md space-y-3">
-          <h1 className="text-3xl font-bold">Welcome to Joip AI</h1>
-          <p className="text-muted-foreground">
-            Create and manage your JOIP sessions with custom settings and AI-generated captions.
-          </p>
-        </div>
-        
-        <div className="flex flex-col gap-3 items-center">
-          <Button asChild size="lg" className="px-8">
-            <Link to="/sessions">View Your Sessions</Link>
-          </Button>
-          
-          <Button asChild variant="outline" size="lg" className="px-8">
-            <Link to="/session/new">Create New Session</Link>
-          </Button>
-        </div>
+      <div className="flex-grow overflow-hidden">
+        <ResizablePanelGroup direction="horizontal" className="h-full">
+          <ResizablePanel defaultSize={50} minSize={30}>
+            <div className="h-full">
+              <MediaDisplay
+                post={player.currentPost}
+                isTransitioning={player.isTransitioning}
+                transitionDirection={player.transitionDirection}
+                transition={player.transition}
+                totalPosts={player.totalPosts}
+                galleryIndex={player.galleryIndex}
+                error={error}
+                isLoading={isLoading}
+                paused={isPaused}
+                onTogglePause={() => setIsPaused(prev => !prev)}
+                loopVideo={player.loopVideo}
+                onMediaEvent={player.reportMedia}
+                upcoming={player.upNext}
+                dataSaver={preferences.dataSaver}
+                onPreloadFailed={player.skipPost}
+              />
+            </div>
+          </ResizablePanel>
+
+          <ResizableHandle withHandle />
+
+          <ResizablePanel defaultSize={50} minSize={30}>
+            <div className="h-full">
+              <CaptionDisplay
+                caption={caption}
+                onRegenerate={caption.regenerate}
+                isApiKeySet={isPatron || !!caption.caption}
+              />
+            </div>
+          </ResizablePanel>
+        </ResizablePanelGroup>
       </div>
     </div>
   );
@@ -109,12 +184,14 @@ function App() {
               <Route path="/register" element={<RegisterPage />} />
               <Route path="/settings" element={<ProtectedRoute><SettingsPage /></ProtectedRoute>} />
               <Route path="/sessions" element={<ProtectedRoute><SessionsPage /></ProtectedRoute>} />
+              <Route path="/explore" element={<ProtectedRoute><ExplorePage /></ProtectedRoute>} />
               {/* Specific routes must be placed before dynamic routes */}
               <Route path="/session/play/:id" element={<ProtectedRoute><SessionPlayPage /></ProtectedRoute>} />
               <Route path="/session/new" element={<ProtectedRoute><SessionFormPage /></ProtectedRoute>} />
               <Route path="/session/edit/:id" element={<ProtectedRoute><SessionFormPage /></ProtectedRoute>} />
               <Route path="/session/share/:id" element={<ProtectedRoute><SessionSharePage /></ProtectedRoute>} />
               <Route path="/session/save/:id" element={<ProtectedRoute><SessionSavePage /></ProtectedRoute>} />
+              <Route path="/s/:token" element={<ProtectedRoute><SessionLinkPage /></ProtectedRoute>} />
               <Route path="/admin" element={<ProtectedRoute adminOnly={true}><AdminPage /></ProtectedRoute>} />
             </Routes>
             <Toaster />
@@ -154,10 +231,10 @@ function HomeRedirect() {
   const hasAuthRedirectParam = () => {
     // Look for URL parameters that indicate a redirect from OAuth
     const urlParams = new URLSearchParams(window.location.search);
-    return urlParams.has('reddit_tokens') || 
-           urlParams.has('state') || 
+    return urlParams.has('state') || 
            urlParams.has('code') || 
-           urlParams.has('reddit_success');
+           urlParams.has('reddit_code') ||
+           urlParams.has('patreon_code');
   };
   
   // If we have auth redirect params, don't replace the current URL
@@ -5,6 +5,34 @@ import { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { toast } from 'sonner';
 
+// End of a sentence: terminal punctuation, any closing quotes or brackets, then whitespace
+const SENTENCE_END = /[.!?…]+["'”’)\]]*\s+/g;
+
+/**
+ * Splits the complete sentences after `from` off a caption that may still be streaming.
+ * Once the caption is final, the trailing text counts as a sentence too.
+ */
+function takeSentences(text: string, from: number, final: boolean): { sentences: string[]; end: number } {
+  const sentences: string[] = [];
+  let end = from;
+
+  SENTENCE_END.lastIndex = from;
+  let match: RegExpExecArray | null;
+  while ((match = SENTENCE_END.exec(text)) !== null) {
+    const sentence = text.slice(end, match.index + match[0].length).trim();
+    if (sentence) sentences.push(sentence);
+    end = match.index + match[0].length;
+  }
+
+  if (final && end < text.length) {
+    const rest = text.slice(end).trim();
+    if (rest) sentences.push(rest);
+    end = text.length;
+  }
+
+  return { sentences, end };
+}
+
 interface CaptionDisplayProps {
   caption: AIResponse;
   onRegenerate: () => void;
@@ -22,19 +50,29 @@ export function CaptionDisplay({
   // const [isDragging, setIsDragging] = useState(false);
   const [showControls, setShowControls] = useState(false);
   const contentRef = useRef<HTMLDivElement>(null);
+  // Read captions aloud, sentence by sentence as they stream in
+  const [readAloud, setReadAloud] = useState(false);
+  // How much of the current caption has been handed to speech synthesis
+  const spokenUpToRef = useRef(0);
+  // Bumped for each new caption (not for streamed additions to the current one)
+  const [captionVersion, setCaptionVersion] = useState(0);
+  const lastCaptionRef = useRef('');
   
   // Handle text-to-speech
   const speak = () => {
-    if (!caption.caption || !window.speechSynthesis) return;
+    if (!window.speechSynthesis) return;
     
     // Cancel any ongoing speech
     window.speechSynthesis.cancel();
+    spokenUpToRef.current = 0;
     
-    const utterance = new SpeechSynthesisUtterance(caption.caption);
-    utterance.rate = 0.9; // Slightly slower than default
-    window.speechSynthesis.speak(utterance);
-    
-    toast.success("Text-to-speech activated");
+    if (readAloud) {
+      setReadAloud(false);
+      toast.success("Text-to-speech deactivated");
+    } else {
+      setReadAloud(true);
+      toast.success("Text-to-speech activated");
+    }
   };
   
   // Handle copy to clipboard
@@ -63,13 +101,35 @@ export function CaptionDisplay({
     setFontSize(prev => Math.max(prev - 0.125, 0.75));
   };
   
-  // Reset animation and handle side effects when caption changes
+  // Tell a new caption apart from more tokens of the one being streamed
   useEffect(() => {
+    const previous = lastCaptionRef.current;
+    lastCaptionRef.current = caption.caption;
+    if (previous && caption.caption.startsWith(previous)) return;
+
     // Cancel any ongoing speech synthesis when caption changes
     if (window.speechSynthesis) {
       window.speechSynthesis.cancel();
     }
+    spokenUpToRef.current = 0;
+    setCaptionVersion(version => version + 1);
+  }, [caption.caption]);
 
+  // Speak each sentence as soon as it is complete
+  useEffect(() => {
+    if (!readAloud || !window.speechSynthesis || caption.loading || !caption.caption) return;
+
+    const { sentences, end } = takeSentences(caption.caption, spokenUpToRef.current, !caption.streaming);
+    spokenUpToRef.current = end;
+    sentences.forEach(sentence => {
+      const utterance = new SpeechSynthesisUtterance(sentence);
+      utterance.rate = 0.9; // Slightly slower than default
+      window.speechSynthesis.speak(utterance);
+    });
+  }, [caption.caption, caption.streaming, caption.loading, readAloud]);
+
+  // Reset animation and handle side effects when a new caption starts
+  useEffect(() => {
     // Scroll to top of the caption panel on new caption
     if (contentRef.current) {
       contentRef.current.scrollTo({ top: 0, behavior: 'smooth' });
@@ -83,7 +143,7 @@ export function CaptionDisplay({
     }, 1000);
     
     return () => clearTimeout(timer);
-  }, [caption.caption]);
+  }, [captionVersion]);
   
   return (
     <div className="h-full flex flex-col relative overflow-hidden bg-card/60 backdrop-blur-[2px]">
@@ -126,9 +186,9 @@ export function CaptionDisplay({
                 size="icon" 
                 className="h-8 w-8 rounded-full"
                 onClick={speak}
-                title="Text-to-speech"
+                title={readAloud ? "Stop reading captions aloud" : "Read captions aloud"}
               >
-                <Volume2 className="h-4 w-4" />
+                <Volume2 className={`h-4 w-4 ${readAloud ? 'text-primary' : ''}`} />
               </Button>
               
               <Button 
@@ -149,7 +209,7 @@ export function CaptionDisplay({
                 variant="ghost" 
                 size="icon" 
                 onClick={onRegenerate}
-                disabled={caption.loading}
+                disabled={caption.loading || caption.streaming}
                 className="h-8 w-8 rounded-full"
                 title="Regenerate caption"
               >
@@ -194,19 +254,33 @@ export function CaptionDisplay({
               exit={{ opacity: 0 }}
               className="flex items-center justify-center h-full"
             >
-              <div className="text-center max-w-md bg-destructive/10 p-4 rounded-lg border border-destructive/20">
-                <p className="text-destructive font-medium mb-1">Error</p>
-                <p className="text-sm text-destructive/80">{caption.error}</p>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  className="mt-4"
-                  onClick={onRegenerate}
-                >
-                  <RefreshCwIcon className="h-3 w-3 mr-2" />
-                  Try Again
-                </Button>
-              </div>
+              {caption.quota ? (
+                <div className="text-center max-w-md bg-muted/50 p-4 rounded-lg border">
+                  <p className="font-medium mb-1">Daily caption limit reached</p>
+                  <p className="text-sm text-muted-foreground">
+                    You've used {caption.quota.used.toLocaleString()} of {caption.quota.limit.toLocaleString()}{' '}
+                    {caption.quota.kind === 'requests' ? 'captions' : 'tokens'} today.
+                    Captions are available again at {new Date(caption.quota.resetsAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.
+                  </p>
+                  {caption.quota.tier === 'free' && (
+                    <p className="text-xs text-muted-foreground mt-2">Patrons get a higher daily limit.</p>
+                  )}
+                </div>
+              ) : (
+                <div className="text-center max-w-md bg-destructive/10 p-4 rounded-lg border border-destructive/20">
+                  <p className="text-destructive font-medium mb-1">Error</p>
+                  <p className="text-sm text-destructive/80">{caption.error}</p>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="mt-4"
+                    onClick={onRegenerate}
+                  >
+                    <RefreshCwIcon className="h-3 w-3 mr-2" />
+                    Try Again
+                  </Button>
+                </div>
+              )}
             </motion.div>
           ) : !isApiKeySet ? (
             <motion.div 
@@ -251,6 +325,9 @@ export function CaptionDisplay({
                 style={{ fontSize: `${fontSize}rem` }}
               >
                 {caption.caption}
+                {caption.streaming && (
+                  <span className="ml-0.5 animate-pulse text-primary" aria-hidden="true">▍</span>
+                )}
               </p>
             </motion.div>
           )}
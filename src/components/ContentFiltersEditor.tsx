@@ -0,0 +1,192 @@
+import { useEffect, useState } from 'react';
+import { ContentFilters, NsfwMode, PostMediaType } from '@/types';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { NSFW_MODES, POST_MEDIA_TYPES, MIN_RESOLUTION_OPTIONS } from '@/lib/constants';
+
+type ListRule = 'titleInclude' | 'titleExclude' | 'authorBlocklist' | 'flairInclude' | 'flairExclude';
+
+interface ContentFiltersEditorProps {
+  filters: ContentFilters;
+  onChange: (filters: ContentFilters) => void;
+}
+
+function parseList(text: string): string[] {
+  return text.split(',').map(entry => entry.trim()).filter(Boolean);
+}
+
+// Comma-separated list input. Keeps its own text so typing a trailing comma or space
+// isn't undone by the round trip through the parsed list
+function ListField({ id, label, placeholder, value, onChange }: {
+  id: string;
+  label: string;
+  placeholder: string;
+  value: string[];
+  onChange: (value: string[]) => void;
+}) {
+  const joined = value.join(', ');
+  const [text, setText] = useState(joined);
+
+  // Follow outside changes, e.g. the session loading after the form mounted
+  useEffect(() => {
+    setText(current => parseList(current).join(', ') === joined ? current : joined);
+  }, [joined]);
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs text-muted-foreground">{label}</Label>
+      <Input
+        id={id}
+        placeholder={placeholder}
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          onChange(parseList(e.target.value));
+        }}
+        className="h-9"
+      />
+    </div>
+  );
+}
+
+export function ContentFiltersEditor({ filters, onChange }: ContentFiltersEditorProps) {
+  const mediaTypes = filters.mediaTypes ?? POST_MEDIA_TYPES.map(type => type.value);
+
+  const update = (updates: Partial<ContentFilters>) => {
+    onChange({ ...filters, ...updates });
+  };
+
+  const updateList = (rule: ListRule, value: string[]) => {
+    update({ [rule]: value.length > 0 ? value : undefined });
+  };
+
+  const handleMediaTypeChange = (type: PostMediaType, checked: boolean) => {
+    const next = checked ? [...mediaTypes, type] : mediaTypes.filter(value => value !== type);
+    // At least one kind has to stay selected; all of them is the same as no rule
+    if (next.length === 0) return;
+    update({ mediaTypes: next.length === POST_MEDIA_TYPES.length ? undefined : next });
+  };
+
+  const handleMinScoreChange = (value: string) => {
+    const score = parseInt(value, 10);
+    update({ minScore: Number.isNaN(score) ? undefined : score });
+  };
+
+  return (
+    <div className="rounded-md border bg-background/50 p-3 space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">NSFW posts</Label>
+          <Select
+            value={filters.nsfw ?? 'mixed'}
+            onValueChange={(value) => update({ nsfw: value === 'mixed' ? undefined : value as NsfwMode })}
+          >
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {NSFW_MODES.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="filter-min-score" className="text-xs text-muted-foreground">Minimum score</Label>
+          <Input
+            id="filter-min-score"
+            type="number"
+            placeholder="Any"
+            value={filters.minScore ?? ''}
+            onChange={(e) => handleMinScoreChange(e.target.value)}
+            className="h-9"
+          />
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Minimum resolution</Label>
+          <Select
+            value={String(filters.minResolution ?? 0)}
+            onValueChange={(value) => update({ minResolution: Number(value) || undefined })}
+          >
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MIN_RESOLUTION_OPTIONS.map(size => (
+                <SelectItem key={size} value={String(size)}>
+                  {size === 0 ? 'Any size' : `${size}p`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Media types</Label>
+        <div className="flex flex-wrap gap-4">
+          {POST_MEDIA_TYPES.map(option => (
+            <label key={option.value} className="flex items-center gap-2 text-sm cursor-pointer">
+              <Checkbox
+                checked={mediaTypes.includes(option.value)}
+                onCheckedChange={(checked) => handleMediaTypeChange(option.value, checked === true)}
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <ListField
+          id="filter-title-include"
+          label="Title contains one of"
+          placeholder="Any title"
+          value={filters.titleInclude ?? []}
+          onChange={(value) => updateList('titleInclude', value)}
+        />
+        <ListField
+          id="filter-title-exclude"
+          label="Title doesn't contain"
+          placeholder="e.g. selling, promo"
+          value={filters.titleExclude ?? []}
+          onChange={(value) => updateList('titleExclude', value)}
+        />
+        <ListField
+          id="filter-flair-include"
+          label="Flair is one of"
+          placeholder="Any flair"
+          value={filters.flairInclude ?? []}
+          onChange={(value) => updateList('flairInclude', value)}
+        />
+        <ListField
+          id="filter-flair-exclude"
+          label="Flair isn't"
+          placeholder="e.g. Meta, Discussion"
+          value={filters.flairExclude ?? []}
+          onChange={(value) => updateList('flairExclude', value)}
+        />
+      </div>
+
+      <ListField
+        id="filter-authors"
+        label="Blocked authors"
+        placeholder="e.g. u/spammer"
+        value={filters.authorBlocklist ?? []}
+        onChange={(value) => updateList('authorBlocklist', value)}
+      />
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { RedditPost, TransitionEffect } from '@/types';
 import cn from 'clsx';
 import './media-display.css'; // Import custom CSS
@@ -6,7 +6,8 @@ import {
   AlertTriangleIcon, 
   RefreshCwIcon as RefreshIcon, 
   LogIn, 
-  Image
+  Image,
+  VolumeX
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -15,6 +16,17 @@ import { useRedditAuth } from '@/contexts/RedditAuthContext';
 import { Link } from 'react-router-dom';
 // Progress is no longer used after UI simplification
 import { motion } from 'framer-motion';
+import { canCaptureFrames, captureVideoFrame } from '@/lib/utils/video-frame';
+import { useHlsStream } from '@/hooks/useHlsStream';
+import { MediaPlaybackEvent } from '@/lib/utils/slide-timing';
+import { displayImageUrl } from '@/lib/utils/media-preload';
+import { useMediaPreloader } from '@/hooks/useMediaPreloader';
+
+// Seconds into a video before grabbing a frame, past any fade-in from black
+const FRAME_CAPTURE_OFFSET = 1;
+
+// Stable default for `upcoming`, so the preload plan isn't rebuilt on every render
+const NO_POSTS: RedditPost[] = [];
 
 // Define available fallback stages for image loading
 type ImageLoadingStage = 'primary' | 'preview' | 'thumbnail' | 'failed';
@@ -25,10 +37,22 @@ interface MediaDisplayProps {
   transitionDirection: 'next' | 'prev';
   transition: TransitionEffect;
   totalPosts: number;
+  galleryIndex?: number; // Which gallery item to show for gallery posts
   error?: string | null;
   isLoading?: boolean;
   paused?: boolean;
   onTogglePause?: () => void;
+  onVideoFrame?: (postId: string, dataUrl: string) => void; // Receives a frame of each video post, e.g. for vision captions
+  muted?: boolean;
+  volume?: number; // 0-1
+  soundBlocked?: boolean; // Sound is wanted but the browser needs a user gesture first
+  onAutoplayBlocked?: () => void; // The browser refused to play with sound; the video plays muted instead
+  onUnmute?: () => void;
+  loopVideo?: boolean; // Videos that don't loop report 'ended' when they finish
+  onMediaEvent?: (event: MediaPlaybackEvent) => void; // Load, buffering, playback and end of the media on screen, for slide timing
+  upcoming?: RedditPost[]; // Posts queued after this one, loaded ahead in the background
+  dataSaver?: boolean; // Don't load anything ahead
+  onPreloadFailed?: (postId: string) => void; // An upcoming post's media won't load
 }
 
 export function MediaDisplay({
@@ -37,9 +61,21 @@ export function MediaDisplay({
   transitionDirection,
   transition,
   totalPosts,
+  galleryIndex = 0,
   error,
   isLoading = false,
   paused = false,
+  onVideoFrame,
+  muted = true,
+  volume = 1,
+  soundBlocked = false,
+  onAutoplayBlocked,
+  onUnmute,
+  loopVideo = true,
+  onMediaEvent,
+  upcoming = NO_POSTS,
+  dataSaver = false,
+  onPreloadFailed,
 }: MediaDisplayProps) {
   const [isImageLoading, setIsImageLoading] = useState(true);
   const [loadingStage, setLoadingStage] = useState<ImageLoadingStage>('primary');
@@ -48,8 +84,15 @@ export function MediaDisplay({
   const loadAttemptRef = useRef(0);
   const containerRef = useRef<HTMLDivElement>(null);
   const [authLoadingTimeout, setAuthLoadingTimeout] = useState(false);
-  const [isMuted] = useState(true);
-  const videoRef = useRef<HTMLVideoElement>(null);
+  // Media whose HLS stream failed; they play their fallback file instead
+  const [failedStreams, setFailedStreams] = useState<Set<string>>(() => new Set());
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  // The mounted <video>, as state so the stream attaches whenever it's replaced
+  const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(null);
+  const attachVideo = useCallback((node: HTMLVideoElement | null) => {
+    videoRef.current = node;
+    setVideoElement(node);
+  }, []);
   const fullscreenContainerRef = useRef<HTMLDivElement>(null);
   
   // Add refs to track current and previous posts for better transition handling
@@ -59,6 +102,35 @@ export function MediaDisplay({
   // Add a loading queue to prevent premature transitions
   const loadingCompleteRef = useRef(false);
 
+  // Post whose video frame has already been handed to onVideoFrame
+  const capturedFramePostRef = useRef<string | null>(null);
+
+  // The media actually on screen: the current gallery item, or the post itself
+  const galleryItem = post && post.gallery.length > 1
+    ? post.gallery[Math.min(galleryIndex, post.gallery.length - 1)]
+    : undefined;
+  const media = galleryItem ?? post;
+
+  // Adaptive stream with sound, when Reddit offers one and it hasn't failed for this media
+  const streamUrl = media?.isVideo && media.hlsUrl && loadingStage === 'primary' && !failedStreams.has(media.id)
+    ? media.hlsUrl
+    : undefined;
+
+  useHlsStream(videoElement, streamUrl, () => {
+    if (!media) return;
+    console.warn(`[MediaDisplay] Stream failed for ${media.id}, playing the fallback file`);
+    setFailedStreams(previous => new Set(previous).add(media.id));
+  });
+
+  useMediaPreloader({ current: post, galleryIndex, upcoming, enabled: !dataSaver, onFailed: onPreloadFailed });
+
+  // Volume has no attribute; it's set on the element
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.volume = volume;
+    }
+  }, [volume, media, loadingStage]);
+
   // Debug log to see what's in the auth state - minimized to reduce noise
   useEffect(() => {
     if (authState && process.env.NODE_ENV !== 'production') {
@@ -126,16 +198,16 @@ export function MediaDisplay({
       }
       
       // Initialize with the primary URL
-      if (post.isVideo && post.videoUrl) {
-        setCurrentMediaUrl(post.videoUrl);
+      if (media?.isVideo && media.videoUrl) {
+        setCurrentMediaUrl(media.videoUrl);
       } else {
-        setCurrentMediaUrl(post.url);
+        setCurrentMediaUrl(media?.url);
       }
       
       // Preload the image to improve transition performance
-      if (!post.isVideo && post.url) {
+      if (media && !media.isVideo && media.url) {
         const img = new (window.Image)();
-        img.src = post.url;
+        img.src = media.url;
         
         img.onload = () => {
           loadingCompleteRef.current = true;
@@ -145,9 +217,9 @@ export function MediaDisplay({
         
         img.onerror = () => {
           // If primary image fails, try to preload thumbnail
-          if (post.thumbnailUrl) {
+          if (media.thumbnailUrl) {
             const thumbImg = new (window.Image)();
-            thumbImg.src = post.thumbnailUrl;
+            thumbImg.src = media.thumbnailUrl;
             thumbImg.onload = () => {
               loadingCompleteRef.current = true;
               setIsImageLoading(false);
@@ -156,7 +228,7 @@ export function MediaDisplay({
         };
       }
     }
-  }, [post, isTransitioning]);
+  }, [post, media, isTransitioning]);
 
   // Image loading error handler with fallback system
   const handleImageError = () => {
@@ -164,10 +236,11 @@ export function MediaDisplay({
     loadAttemptRef.current += 1;
     if (loadAttemptRef.current <= 2) {
       setLoadingStage(loadAttemptRef.current === 1 ? 'preview' : 'thumbnail');
-      setCurrentMediaUrl(post?.thumbnailUrl);
+      setCurrentMediaUrl(media?.thumbnailUrl);
     } else {
       setLoadingStage('failed');
       setIsImageLoading(false);
+      if (media) onMediaEvent?.({ mediaId: media.id, type: 'error' });
     }
   };
 
@@ -651,66 +724,33 @@ export function MediaDisplay({
   const handleImageLoad = () => {
     setIsImageLoading(false);
     loadingCompleteRef.current = true;
+    if (media) {
+      onMediaEvent?.({ mediaId: media.id, type: 'loaded', duration: media.isVideo ? videoRef.current?.duration : undefined });
+    }
   };
 
-  // Generate appropriate URL transformations for direct Reddit URLs to optimize loading
-  const getTransformedUrl = (url: string | undefined) => {
-    if (!url) return '';
-    
-    // Avoid CORS issues by:
-    // 1. Preserving preview.redd.it URLs - they often have better CORS headers
-    // 2. Keeping parameters that help with access
-    // 3. Ensuring URLs are HTTPS
-    
-    // Ensure HTTPS
-    if (url.startsWith('http://')) {
-      url = url.replace('http://', 'https://');
+  // Report video playback so the player can time the slide by it
+  const reportVideoEvent = (type: MediaPlaybackEvent['type']) => () => {
+    if (media) {
+      onMediaEvent?.({ mediaId: media.id, type, duration: videoRef.current?.duration });
     }
-    
-    // Handle different URL types carefully
-    if (url.includes('preview.redd.it')) {
-      // Keep preview.redd.it URLs as they may have better CORS support
-      // But clean up unnecessary parameters that could be tracking-related
-      if (url.includes('?')) {
-        const [baseUrl, params] = url.split('?');
-        const validParams = params.split('&').filter(param => 
-          param.startsWith('width=') || 
-          param.startsWith('height=') || 
-          param.startsWith('auto=') || 
-          param.startsWith('s=') ||
-          param.startsWith('format=')
-        );
-        return validParams.length > 0 ? `${baseUrl}?${validParams.join('&')}` : baseUrl;
-      }
-      return url;
-    }
-    
-    // Clean up image URLs by removing unnecessary query parameters
-    if (/\.(jpg|jpeg|png|gif|webp)/i.test(url) && url.includes('?')) {
-      return url.split('?')[0];
-    }
-    
-    // Handle i.redd.it URLs
-    if (url.includes('i.redd.it')) {
-      // i.redd.it URLs work best without query parameters
-      return url.split('?')[0];
-    }
-    
-    // Handle imgur URLs
-    if (url.includes('imgur.com')) {
-      // Imgur direct links work better without parameters
-      if (/\.(jpg|jpeg|png|gif|webp)/i.test(url)) {
-        return url.split('?')[0];
-      }
+  };
+
+  // Grab one frame per video post once playback is under way
+  const handleVideoTimeUpdate = () => {
+    const video = videoRef.current;
+    if (!onVideoFrame || !post || !video || capturedFramePostRef.current === post.id) return;
+    if (video.currentTime < FRAME_CAPTURE_OFFSET) return;
+    capturedFramePostRef.current = post.id;
+    const frame = captureVideoFrame(video);
+    if (frame) {
+      onVideoFrame(post.id, frame);
     }
-    
-    // Return the URL as is for other cases
-    return url;
   };
 
   // Enhance video handling when post changes
   useEffect(() => {
-    if (post?.isVideo && videoRef.current) {
+    if (media?.isVideo && videoRef.current) {
       // Reset video when transitioning to avoid playback issues
       const videoElement = videoRef.current;
       
@@ -721,13 +761,24 @@ export function MediaDisplay({
         // Small delay to ensure animation completes before starting video
         setTimeout(() => {
           if (!paused) {
-            // Preload video content before playing
-            videoElement.load();
+            // Preload video content before playing; a stream is loaded by hls.js, and reloading would detach it
+            if (!streamUrl) {
+              videoElement.load();
+            }
             const playPromise = videoElement.play();
             
             // Handle potential play() promise rejection (can happen due to browser autoplay policies)
             if (playPromise !== undefined) {
               playPromise.catch(error => {
+                // Sound needs a user gesture: play muted and let the user turn it on
+                if (error instanceof DOMException && error.name === 'NotAllowedError' && !videoElement.muted) {
+                  videoElement.muted = true;
+                  onAutoplayBlocked?.();
+                  videoElement.play().catch(retryError => {
+                    console.warn('[MediaDisplay] Muted autoplay prevented:', retryError);
+                  });
+                  return;
+                }
                 console.warn('[MediaDisplay] Video autoplay prevented:', error);
                 // Video can't autoplay, but user can manually play it later
               });
@@ -736,7 +787,7 @@ export function MediaDisplay({
         }, 100); // Increase delay to ensure transitions complete before video starts
       }
     }
-  }, [post, isTransitioning, paused]);
+  }, [media, isTransitioning, paused, streamUrl, onAutoplayBlocked]);
 
   return (
     <div className="relative h-full flex flex-col" ref={fullscreenContainerRef}>
@@ -756,14 +807,14 @@ export function MediaDisplay({
 
         <div className={cn("h-full w-full flex items-center justify-center", getTransitionClasses())}>
           {/* Handle Video */}
-          {post?.isVideo && post.videoUrl ? (
+          {media?.isVideo && media.videoUrl ? (
             <video
-              ref={videoRef}
-              key={post.id + '-video-' + loadingStage}
-              src={currentMediaUrl}
+              ref={attachVideo}
+              key={media.id + '-video-' + loadingStage}
+              src={streamUrl ? undefined : currentMediaUrl}
               autoPlay={!isTransitioning && !paused}
-              loop
-              muted={isMuted}
+              loop={loopVideo}
+              muted={muted}
               controls={false}
               controlsList="nodownload nofullscreen noremoteplayback"
               disablePictureInPicture
@@ -771,6 +822,12 @@ export function MediaDisplay({
               className="max-h-full max-w-full object-contain rounded-md no-controls"
               onLoadedData={handleImageLoad}
               onError={handleImageError}
+              onWaiting={onMediaEvent ? reportVideoEvent('buffering') : undefined}
+              onPlaying={onMediaEvent ? reportVideoEvent('playing') : undefined}
+              onEnded={onMediaEvent ? reportVideoEvent('ended') : undefined}
+              onTimeUpdate={onVideoFrame ? handleVideoTimeUpdate : undefined}
+              // Only request CORS where the host supports it, or the video wouldn't load
+              crossOrigin={onVideoFrame && canCaptureFrames(streamUrl ?? currentMediaUrl) ? 'anonymous' : undefined}
               playsInline
               preload="auto"
               style={{ 
@@ -784,8 +841,8 @@ export function MediaDisplay({
             <>
               {loadingStage !== 'failed' ? (
                 <img
-                  key={post?.id + '-image-' + loadingStage}
-                  src={getTransformedUrl(currentMediaUrl)}
+                  key={media?.id + '-image-' + loadingStage}
+                  src={displayImageUrl(currentMediaUrl)}
                   alt={post?.title}
                   className="max-h-full max-w-full object-contain rounded-md"
                   onLoad={handleImageLoad}
@@ -803,9 +860,9 @@ export function MediaDisplay({
                 <div className="flex flex-col items-center justify-center text-center p-4 border rounded-md">
                   <AlertTriangleIcon className="h-6 w-6 text-amber-500 mb-2" />
                   <p className="text-muted-foreground">Media unavailable</p>
-                  {post?.thumbnailUrl && (
+                  {media?.thumbnailUrl && (
                     <img 
-                      src={post.thumbnailUrl} 
+                      src={media.thumbnailUrl} 
                       alt="Thumbnail" 
                       className="mt-4 max-w-[200px] max-h-[200px] object-contain opacity-70"
                     />
@@ -815,12 +872,12 @@ export function MediaDisplay({
                     size="sm"
                     className="mt-4"
                     onClick={() => {
-                      if (!post) return;
+                      if (!media) return;
                       // Reset loading state to try again
                       setLoadingStage('primary');
                       setIsImageLoading(true);
                       loadAttemptRef.current = 0;
-                      setCurrentMediaUrl(post.url);
+                      setCurrentMediaUrl(media.url);
                     }}
                   >
                     <RefreshIcon className="h-3 w-3 mr-1" />
@@ -832,6 +889,33 @@ export function MediaDisplay({
           )}
         </div>
 
+        {/* Sound was asked for but the browser wants a click first */}
+        {soundBlocked && onUnmute && media?.isVideo && media.hasAudio !== false && !isTransitioning && (
+          <Button
+            size="sm"
+            variant="secondary"
+            className="absolute top-6 left-1/2 -translate-x-1/2 z-20 bg-black/60 text-white hover:bg-black/75"
+            onClick={onUnmute}
+          >
+            <VolumeX className="h-4 w-4 mr-2" />
+            Tap for sound
+          </Button>
+        )}
+
+        {/* Position within a gallery post, e.g. 2/7 */}
+        {galleryItem && post && (
+          <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-20 flex flex-col items-center gap-1 pointer-events-none">
+            {galleryItem.caption && (
+              <span className="max-w-xs truncate rounded-md bg-black/60 px-2 py-0.5 text-xs text-white">
+                {galleryItem.caption}
+              </span>
+            )}
+            <span className="rounded-full bg-black/60 px-3 py-1 text-xs font-medium text-white tabular-nums">
+              {Math.min(galleryIndex, post.gallery.length - 1) + 1}/{post.gallery.length}
+            </span>
+          </div>
+        )}
+
         {/* Remove the playback controls from here completely */}
       </div>
     </div>
@@ -0,0 +1,40 @@
+import { Card, CardContent } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useUserSettings } from '@/hooks/useUserSettings';
+
+export function PlaybackSettings() {
+  const { preferences, updatePreferences } = useUserSettings();
+
+  return (
+    <Card className="rounded-xl border bg-card shadow-sm">
+      <CardContent className="p-6 md:p-8">
+        <div className="space-y-6">
+          <div>
+            <h2 className="text-2xl font-semibold mb-2">Playback</h2>
+            <p className="text-muted-foreground mb-4">
+              How the player loads media on this account
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-0.5">
+              <Label htmlFor="data-saver" className="text-base cursor-pointer">
+                Data Saver
+              </Label>
+              <p className="text-sm text-muted-foreground">
+                Only load each image or video when it comes on screen instead of a few slides ahead.
+                Saves bandwidth, but slides may take a moment to appear.
+              </p>
+            </div>
+            <Switch
+              id="data-saver"
+              checked={preferences.dataSaver || false}
+              onCheckedChange={(checked) => updatePreferences({ dataSaver: checked })}
+            />
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,113 @@
+import { useNavigate } from 'react-router-dom';
+import { PublicSession } from '@/types';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { AspectRatio } from '@/components/ui/aspect-ratio';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { PlayCircle, Copy, ImageIcon, Play, Bookmark } from 'lucide-react';
+
+interface PublicSessionCardProps {
+  session: PublicSession;
+  isOwn?: boolean; // The viewer's own session, which they don't need to copy
+  onTagClick?: (tag: string) => void;
+}
+
+export function PublicSessionCard({ session, isOwn = false, onTagClick }: PublicSessionCardProps) {
+  const navigate = useNavigate();
+  const tags = session.tags ?? [];
+
+  return (
+    <Card className="overflow-hidden h-full flex flex-col">
+      {session.thumbnail_url ? (
+        <div className="w-full h-40 overflow-hidden">
+          <AspectRatio ratio={16/9}>
+            <img
+              src={session.thumbnail_url}
+              alt={`Thumbnail for ${session.title}`}
+              className="w-full h-full object-cover transition-transform hover:scale-105"
+              loading="lazy"
+            />
+          </AspectRatio>
+        </div>
+      ) : (
+        <div className="w-full h-40 bg-muted/40 flex items-center justify-center">
+          <ImageIcon className="h-12 w-12 text-muted-foreground/40" />
+        </div>
+      )}
+      <CardHeader className="pb-3">
+        <CardTitle className="line-clamp-1">{session.title}</CardTitle>
+        <CardDescription>
+          By {session.owner_name ?? 'Unknown user'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pb-3 flex-grow">
+        {session.description && (
+          <p className="text-sm text-muted-foreground line-clamp-2 mb-3">{session.description}</p>
+        )}
+        <div className="flex flex-wrap gap-2 mb-3">
+          {session.subreddits.slice(0, 3).map((subreddit) => (
+            <Badge key={subreddit} variant="secondary">
+              r/{subreddit}
+            </Badge>
+          ))}
+          {session.subreddits.length > 3 && (
+            <Badge variant="outline">
+              +{session.subreddits.length - 3} more
+            </Badge>
+          )}
+        </div>
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {tags.map((tag) => (
+              <button
+                key={tag}
+                type="button"
+                className="text-xs text-primary hover:underline"
+                onClick={() => onTagClick?.(tag)}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
+        <div className="flex gap-4 mt-4 text-sm text-muted-foreground">
+          <div className="flex items-center gap-1" title="Plays">
+            <Play className="h-3.5 w-3.5" />
+            <span className="font-medium">{session.play_count ?? 0}</span>
+          </div>
+          <div className="flex items-center gap-1" title="Saved copies">
+            <Bookmark className="h-3.5 w-3.5" />
+            <span className="font-medium">{session.save_count ?? 0}</span>
+          </div>
+        </div>
+      </CardContent>
+      <Separator />
+      <CardFooter className="pt-3 flex justify-between">
+        <Button
+          variant="default"
+          onClick={() => navigate(`/session/play/${session.id}`)}
+        >
+          <PlayCircle className="h-4 w-4 mr-2" />
+          Play
+        </Button>
+        {!isOwn && (
+          <Button
+            variant="outline"
+            onClick={() => navigate(`/session/save/${session.id}`)}
+          >
+            <Copy className="h-4 w-4 mr-2" />
+            Save a copy
+          </Button>
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
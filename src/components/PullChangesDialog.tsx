@@ -0,0 +1,208 @@
+import { useState, useEffect, useMemo } from 'react';
+import { toast } from 'sonner';
+import { JoiSession, SessionLineage, SessionUpstream } from '@/types';
+import { upstreamChanges, mergeUpstream, MergeChoices } from '@/lib/utils/fork-merge';
+import { ChangeDetails } from '@/components/SessionHistoryPanel';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+
+interface PullChangesDialogProps {
+  session: JoiSession | null; // The copy; the dialog is open while set
+  lineage?: SessionLineage;
+  fetchUpstream: (sessionId: string) => Promise<SessionUpstream | null>;
+  onApply: (sessionId: string, updates: Partial<JoiSession>) => Promise<void>;
+  onClose: () => void;
+}
+
+const toggle = (list: string[], entry: string, on: boolean) =>
+  on ? [...list.filter(item => item !== entry), entry] : list.filter(item => item !== entry);
+
+/**
+ * Brings changes from the original into a saved copy, one field at a time: each
+ * subreddit the original added or dropped, and its prompt or the copy's own.
+ */
+export function PullChangesDialog({ session, lineage, fetchUpstream, onApply, onClose }: PullChangesDialogProps) {
+  const [upstream, setUpstream] = useState<SessionUpstream | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [choices, setChoices] = useState<MergeChoices>({ add: [], remove: [], prompt: 'mine' });
+  const [applying, setApplying] = useState(false);
+
+  const sessionId = session?.id;
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    let cancelled = false;
+    setUpstream(null);
+    setError(null);
+    setLoading(true);
+
+    fetchUpstream(sessionId)
+      .then(result => {
+        if (cancelled) return;
+        if (result) {
+          setUpstream(result);
+        } else {
+          setError('The original session has no saved versions');
+        }
+      })
+      .catch(err => {
+        console.error('Error fetching upstream session:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load the original session');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, fetchUpstream]);
+
+  const changes = useMemo(
+    () => session && upstream ? upstreamChanges(session, upstream) : null,
+    [session, upstream]
+  );
+
+  // Take everything by default, except a prompt the user edited themselves
+  useEffect(() => {
+    if (!changes) return;
+    setChoices({
+      add: changes.added,
+      remove: changes.removed,
+      prompt: changes.prompt.changed && !changes.prompt.conflict ? 'theirs' : 'mine',
+    });
+  }, [changes]);
+
+  const nothingToPull = !!changes
+    && changes.added.length === 0
+    && changes.removed.length === 0
+    && !changes.prompt.changed;
+
+  const handleApply = async () => {
+    if (!session || !upstream) return;
+
+    const updates: Partial<JoiSession> = { forked_from_revision: upstream.latest_revision_id };
+    const merged = mergeUpstream(session, upstream, choices);
+    if (choices.add.length > 0 || choices.remove.length > 0) {
+      updates.subreddits = merged.subreddits;
+      updates.subreddit_settings = merged.subreddit_settings;
+    }
+    if (choices.prompt === 'theirs') {
+      updates.system_prompt = merged.system_prompt;
+    }
+
+    setApplying(true);
+    try {
+      await onApply(session.id, updates);
+      onClose();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to pull changes');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const original = lineage?.parent_title ? `"${lineage.parent_title}"` : 'the original';
+
+  return (
+    <Dialog open={!!session} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Pull changes</DialogTitle>
+          <DialogDescription>
+            {upstream
+              ? `Pick what to take from revision ${upstream.latest_revision} of ${original}.`
+              : `Pick what to take from the latest version of ${original}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : changes && nothingToPull ? (
+          <p className="text-sm text-muted-foreground">
+            Your copy already has everything that changed in the original.
+          </p>
+        ) : changes && (
+          <div className="space-y-6 max-h-[60vh] overflow-y-auto">
+            {(changes.added.length > 0 || changes.removed.length > 0) && (
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Subreddits</Label>
+                {changes.added.map(name => (
+                  <label key={`+${name}`} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={choices.add.includes(name)}
+                      onCheckedChange={(checked) => setChoices(prev => ({ ...prev, add: toggle(prev.add, name, checked === true) }))}
+                    />
+                    Add <span className="text-green-700 dark:text-green-400">r/{name}</span>
+                  </label>
+                ))}
+                {changes.removed.map(name => (
+                  <label key={`-${name}`} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={choices.remove.includes(name)}
+                      onCheckedChange={(checked) => setChoices(prev => ({ ...prev, remove: toggle(prev.remove, name, checked === true) }))}
+                    />
+                    Remove <span className="text-red-700 dark:text-red-400">r/{name}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+
+            {changes.prompt.changed && (
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Caption prompt</Label>
+                {changes.prompt.conflict && (
+                  <p className="text-xs text-muted-foreground">
+                    You edited the prompt in your copy as well. Taking theirs replaces your edits.
+                  </p>
+                )}
+                <RadioGroup
+                  value={choices.prompt}
+                  onValueChange={(value) => setChoices(prev => ({ ...prev, prompt: value as MergeChoices['prompt'] }))}
+                  className="flex gap-6"
+                >
+                  <label className="flex items-center gap-2 text-sm cursor-pointer">
+                    <RadioGroupItem value="mine" />
+                    Keep mine
+                  </label>
+                  <label className="flex items-center gap-2 text-sm cursor-pointer">
+                    <RadioGroupItem value="theirs" />
+                    Take theirs
+                  </label>
+                </RadioGroup>
+                <ChangeDetails change={{ field: 'system_prompt', label: 'Caption prompt', lines: changes.prompt.lines }} />
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={applying}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={!changes || applying}>
+            {applying && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {nothingToPull ? 'Mark as up to date' : 'Pull changes'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
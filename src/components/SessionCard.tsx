@@ -2,7 +2,8 @@
 // import { Link } from 'react-router-dom';
 import { format } from 'date-fns';
 import { useNavigate } from 'react-router-dom';
-import { JoiSession, SharedSession } from '@/types';
+import { JoiSession, SessionLineage, SharedSession, ShareRole } from '@/types';
+import { SHARE_ROLES } from '@/lib/constants';
 import { useJoiSessions } from '@/hooks/useJoiSessions';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -16,7 +17,7 @@ import {
   CardHeader,
   CardTitle,
 } from '@/components/ui/card';
-import { Star, StarOff, Share2, Trash2, PlayCircle, Copy, Pencil, ImageIcon } from 'lucide-react';
+import { Star, StarOff, Share2, Trash2, PlayCircle, Copy, Pencil, ImageIcon, GitFork, GitMerge } from 'lucide-react';
 import { UserProfile } from '@/types';
 
 interface SessionCardProps {
@@ -24,7 +25,10 @@ interface SessionCardProps {
   isShared?: boolean;
   owner?: UserProfile;
   sharedId?: string;
+  shareRole?: ShareRole; // What the user may do with a session shared with them
+  lineage?: SessionLineage; // Set when the session is a copy of another session
   onDeleteClick?: (session: JoiSession) => void;
+  onPullChanges?: (session: JoiSession) => void;
 }
 
 export function SessionCard({
@@ -32,7 +36,10 @@ export function SessionCard({
   isShared = false,
   owner,
   sharedId,
+  shareRole = 'viewer',
+  lineage,
   onDeleteClick,
+  onPullChanges,
 }: SessionCardProps) {
   const navigate = useNavigate();
   const { toggleFavorite, saveSharedSession, removeSharedAccess } = useJoiSessions();
@@ -91,7 +98,9 @@ export function SessionCard({
         <div className="flex justify-between items-start">
           <CardTitle className="line-clamp-1">{session.title}</CardTitle>
           {isShared ? (
-            <Badge variant="outline">Shared</Badge>
+            <Badge variant="outline">
+              {shareRole === 'viewer' ? 'Shared' : SHARE_ROLES.find(role => role.value === shareRole)?.label}
+            </Badge>
           ) : (
             <Button
               variant="ghost"
@@ -114,6 +123,13 @@ export function SessionCard({
             <>Last updated {format(new Date(session.updated_at), 'MMM d, yyyy')}</>
           )}
         </CardDescription>
+        {lineage && (
+          <p className="text-xs text-muted-foreground line-clamp-1">
+            {lineage.upstream_visible
+              ? <>Based on {lineage.parent_title} by {lineage.parent_owner_name ?? 'Unknown user'}</>
+              : <>Based on a session that is no longer available</>}
+          </p>
+        )}
       </CardHeader>
       <CardContent className="pb-3 flex-grow">
         <div className="flex flex-wrap gap-2 mb-3">
@@ -137,7 +153,29 @@ export function SessionCard({
             <span>Transition:</span>
             <span className="font-medium">{session.transition}</span>
           </div>
+          {!isShared && !!session.save_count && (
+            <div className="flex items-center gap-1" title="Copies other users saved">
+              <GitFork className="h-4 w-4" />
+              <span className="font-medium">{session.save_count}</span>
+              <span>{session.save_count === 1 ? 'fork' : 'forks'}</span>
+            </div>
+          )}
         </div>
+        {lineage?.update_available && onPullChanges && (
+          <Button
+            variant="secondary"
+            size="sm"
+            className="mt-4 w-full"
+            onClick={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              onPullChanges(session);
+            }}
+          >
+            <GitMerge className="h-4 w-4 mr-2" />
+            Update available: pull changes
+          </Button>
+        )}
       </CardContent>
       <Separator />
       <CardFooter className="pt-3 flex justify-between">
@@ -155,6 +193,20 @@ export function SessionCard({
         <div className="flex gap-2">
           {isShared ? (
             <>
+              {shareRole !== 'viewer' && (
+                <Button
+                  variant="outline"
+                  size="icon"
+                  title="Edit"
+                  onClick={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    navigate(`/session/edit/${session.id}`);
+                  }}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+              )}
               <Button
                 variant="outline"
                 size="icon"
@@ -238,6 +290,7 @@ export function SharedSessionCard({ sharedSession, onDeleteClick }: SharedSessio
       isShared={true}
       owner={sharedSession.owner}
       sharedId={sharedSession.id}
+      shareRole={sharedSession.role}
       onDeleteClick={
         onDeleteClick 
           ? () => onDeleteClick(sharedSession.id) 
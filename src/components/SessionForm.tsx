@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useJoiSessions } from '@/hooks/useJoiSessions';
-import { JoiSession, TransitionEffect } from '@/types';
+import { useContentFilterPreview } from '@/hooks/useContentFilterPreview';
+import { ContentFilters, JoiSession, SessionRole, SubredditSource, TransitionEffect, VideoAudioDefault, VideoTiming } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -8,6 +9,8 @@ import { Textarea } from '@/components/ui/textarea';
 import { Slider } from '@/components/ui/slider';
 import { Switch } from '@/components/ui/switch';
 import { SessionThumbnailUpload } from '@/components/SessionThumbnailUpload';
+import { SubredditSettingsEditor } from '@/components/SubredditSettingsEditor';
+import { ContentFiltersEditor } from '@/components/ContentFiltersEditor';
 import {
   Select,
   SelectContent,
@@ -24,24 +27,42 @@ import {
   CardTitle,
 } from '@/components/ui/card';
 
-import { TRANSITION_EFFECTS, DEFAULT_SYSTEM_PROMPT } from '@/lib/constants';
+import {
+  TRANSITION_EFFECTS,
+  DEFAULT_SYSTEM_PROMPT,
+  VIDEO_TIMINGS,
+  DEFAULT_VIDEO_TIMING,
+  DEFAULT_VIDEO_MAX_SECONDS,
+  DEFAULT_GALLERY_INTERVAL,
+  MAX_SESSION_TAGS,
+} from '@/lib/constants';
 import { parseSubreddits } from '@/lib/utils/subreddit-parser';
+import { resolveSubredditSources } from '@/lib/utils/subreddit-sources';
+import { parseContentFilters } from '@/lib/utils/content-filters';
+import { parseTags } from '@/lib/utils/session-tags';
 import { SaveIcon, RefreshCw } from 'lucide-react';
 import { toast } from 'sonner';
 import { useNavigate } from 'react-router-dom';
 
+// Select value for sessions that leave video sound to each viewer (stored as NULL)
+const VIDEO_AUDIO_PLAYER = 'player';
+
 interface SessionFormProps {
   sessionId?: string;
   defaultValues?: Partial<JoiSession>;
   isEditing?: boolean;
+  role?: SessionRole; // Editors only see the subreddits and prompt; only the owner sees visibility
 }
 
 export function SessionForm({
   sessionId,
   defaultValues,
   isEditing = false,
+  role = 'owner',
 }: SessionFormProps) {
   const navigate = useNavigate();
+  const canEditSettings = role !== 'editor';
+  const canManageVisibility = role === 'owner';
   const {
     createSession,
     updateSession,
@@ -59,6 +80,18 @@ export function SessionForm({
     is_favorite: defaultValues?.is_favorite || false,
     is_public: defaultValues?.is_public || false,
     thumbnail_url: defaultValues?.thumbnail_url || undefined,
+    subreddit_settings: resolveSubredditSources(
+      defaultValues?.subreddits || [],
+      defaultValues?.subreddit_settings || []
+    ),
+    vision_captions: defaultValues?.vision_captions || false,
+    video_audio: defaultValues?.video_audio ?? null,
+    video_timing: defaultValues?.video_timing || DEFAULT_VIDEO_TIMING,
+    video_max_seconds: defaultValues?.video_max_seconds || DEFAULT_VIDEO_MAX_SECONDS,
+    gallery_interval: defaultValues?.gallery_interval || DEFAULT_GALLERY_INTERVAL,
+    content_filters: defaultValues?.content_filters || {},
+    tags: defaultValues?.tags || [],
+    is_listed: defaultValues?.is_listed ?? true,
     // TTS feature removed for now
   });
 
@@ -67,6 +100,7 @@ export function SessionForm({
   const [subredditsInput, setSubredditsInput] = useState(
     formData.subreddits?.join(', ') || ''
   );
+  const [tagsInput, setTagsInput] = useState(formData.tags?.join(', ') || '');
   const [formErrors, setFormErrors] = useState({
     title: '',
     subreddits: '',
@@ -74,6 +108,8 @@ export function SessionForm({
   });
   // Track if there are unsaved changes to warn user before navigation
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  // How many currently fetched posts the filters let through
+  const filterPreview = useContentFilterPreview(formData.subreddit_settings || [], formData.content_filters);
   
 
   // Load session data if editing
@@ -90,8 +126,21 @@ export function SessionForm({
           is_favorite: sessionToEdit.is_favorite,
           is_public: sessionToEdit.is_public,
           thumbnail_url: sessionToEdit.thumbnail_url,
+          subreddit_settings: resolveSubredditSources(
+            sessionToEdit.subreddits,
+            sessionToEdit.subreddit_settings || []
+          ),
+          vision_captions: sessionToEdit.vision_captions || false,
+          video_audio: sessionToEdit.video_audio ?? null,
+          video_timing: sessionToEdit.video_timing || DEFAULT_VIDEO_TIMING,
+          video_max_seconds: sessionToEdit.video_max_seconds || DEFAULT_VIDEO_MAX_SECONDS,
+          gallery_interval: sessionToEdit.gallery_interval || DEFAULT_GALLERY_INTERVAL,
+          content_filters: sessionToEdit.content_filters || {},
+          tags: sessionToEdit.tags || [],
+          is_listed: sessionToEdit.is_listed ?? true,
         });
         setSubredditsInput(sessionToEdit.subreddits.join(', '));
+        setTagsInput((sessionToEdit.tags || []).join(', '));
         // Reset unsaved changes flag after loading data
         setHasUnsavedChanges(false);
       }
@@ -119,7 +168,7 @@ export function SessionForm({
   // Update form handlers
   const handleChange = (
     field: keyof JoiSession,
-    value: string | number | boolean | string[]
+    value: string | number | boolean | string[] | SubredditSource[] | ContentFilters
   ) => {
     setFormData(prev => ({ ...prev, [field]: value }));
     setHasUnsavedChanges(true);
@@ -172,6 +221,8 @@ export function SessionForm({
       } else {
         setFormErrors(prev => ({ ...prev, subreddits: '' }));
         handleChange('subreddits', parsedSubreddits);
+        // Keep settings for subreddits that are still listed, add defaults for new ones
+        handleChange('subreddit_settings', resolveSubredditSources(parsedSubreddits, formData.subreddit_settings));
       }
     } catch (error) {
       setFormErrors(prev => ({ 
@@ -181,15 +232,29 @@ export function SessionForm({
     }
   };
 
+  const handleTagsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setTagsInput(e.target.value);
+    handleChange('tags', parseTags(e.target.value));
+  };
+
   const handleIntervalChange = (values: number[]) => {
     const newInterval = values[0];
     handleChange('interval', newInterval);
   };
 
+  const handleSubredditSettingsChange = (sources: SubredditSource[]) => {
+    handleChange('subreddit_settings', sources);
+  };
+
   const handleTransitionChange = (value: TransitionEffect) => {
     handleChange('transition', value);
   };
 
+  const handleVideoAudioChange = (value: string) => {
+    setFormData(prev => ({ ...prev, video_audio: value === VIDEO_AUDIO_PLAYER ? null : value as VideoAudioDefault }));
+    setHasUnsavedChanges(true);
+  };
+
   const handleThumbnailUpload = (url: string) => {
     handleChange('thumbnail_url', url);
   };
@@ -249,15 +314,39 @@ export function SessionForm({
         transition: formData.transition || 'fade',
         is_favorite: !!formData.is_favorite,
         is_public: !!formData.is_public,
-        thumbnail_url: formData.thumbnail_url || ''
+        thumbnail_url: formData.thumbnail_url || '',
+        subreddit_settings: resolveSubredditSources(
+          formData.subreddits || [],
+          formData.subreddit_settings || []
+        ),
+        vision_captions: !!formData.vision_captions,
+        video_audio: formData.video_audio ?? null,
+        video_timing: formData.video_timing || DEFAULT_VIDEO_TIMING,
+        video_max_seconds: formData.video_max_seconds || DEFAULT_VIDEO_MAX_SECONDS,
+        gallery_interval: formData.gallery_interval || DEFAULT_GALLERY_INTERVAL,
+        content_filters: parseContentFilters(formData.content_filters),
+        tags: formData.tags || [],
+        is_listed: formData.is_listed ?? true
       };
       
+      // Collaborators only send what their role lets them change
+      const { is_favorite, is_public, tags, is_listed, ...sharedFields } = cleanedData;
+      const updates: Partial<JoiSession> = role === 'editor'
+        ? {
+            subreddits: cleanedData.subreddits,
+            subreddit_settings: cleanedData.subreddit_settings,
+            system_prompt: cleanedData.system_prompt,
+          }
+        : role === 'co_owner'
+          ? sharedFields
+          : { ...sharedFields, is_favorite, is_public, tags, is_listed };
+
       // Session operation with automatic retry
       const performOperation = async (attempt = 1): Promise<JoiSession | null> => {
         try {
           if (isEditing && sessionId) {
             console.log(`Updating session (attempt ${attempt})...`);
-            return await updateSession(sessionId, cleanedData);
+            return await updateSession(sessionId, updates);
           } else {
             console.log(`Creating session (attempt ${attempt})...`);
             return await createSession(cleanedData);
@@ -332,35 +421,39 @@ export function SessionForm({
         </CardHeader>
         
         <CardContent className="space-y-6">
-          <div className="space-y-2">
-            <Label htmlFor="title" className="text-base">Session Title</Label>
-            <Input
-              id="title"
-              placeholder="Enter a name for this session"
-              value={formData.title || ''}
-              onChange={(e) => handleChange('title', e.target.value)}
-              onBlur={() => validateField('title', formData.title)}
-              className={`bg-background/50 focus:bg-background transition-colors ${
-                formErrors.title ? 'border-destructive' : ''
-              }`}
-            />
-            {formErrors.title && (
-              <p className="text-sm text-destructive form-error">{formErrors.title}</p>
-            )}
-          </div>
+          {canEditSettings && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="title" className="text-base">Session Title</Label>
+                <Input
+                  id="title"
+                  placeholder="Enter a name for this session"
+                  value={formData.title || ''}
+                  onChange={(e) => handleChange('title', e.target.value)}
+                  onBlur={() => validateField('title', formData.title)}
+                  className={`bg-background/50 focus:bg-background transition-colors ${
+                    formErrors.title ? 'border-destructive' : ''
+                  }`}
+                />
+                {formErrors.title && (
+                  <p className="text-sm text-destructive form-error">{formErrors.title}</p>
+                )}
+              </div>
           
-          <div className="space-y-2">
-            <Label className="text-base">Session Thumbnail</Label>
-            <SessionThumbnailUpload
-              thumbnailUrl={formData.thumbnail_url}
-              onUpload={handleThumbnailUpload}
-              onRemove={handleThumbnailRemove}
-              sessionId={sessionId}
-            />
-            <p className="text-sm text-muted-foreground">
-              Upload a custom thumbnail for your session or leave empty to use an image from your selected subreddits.
-            </p>
-          </div>
+              <div className="space-y-2">
+                <Label className="text-base">Session Thumbnail</Label>
+                <SessionThumbnailUpload
+                  thumbnailUrl={formData.thumbnail_url}
+                  onUpload={handleThumbnailUpload}
+                  onRemove={handleThumbnailRemove}
+                  sessionId={sessionId}
+                />
+                <p className="text-sm text-muted-foreground">
+                  Upload a custom thumbnail for your session or leave empty to use an image from your selected subreddits.
+                </p>
+              </div>
+            </>
+          )}
           
           <div className="space-y-2">
             <Label htmlFor="subreddits" className="text-base">Subreddits</Label>
@@ -381,43 +474,139 @@ export function SessionForm({
               Comma-separated subreddit names. Can also include r/subreddit or full URLs.
             </p>
           </div>
-          
-          <div className="space-y-4 pt-1">
-            <div className="flex justify-between items-center">
-              <Label htmlFor="interval" className="text-base">JOIP Interval</Label>
-              <span className="text-sm font-medium bg-primary/10 text-primary px-2 py-1 rounded-md">
-                {formData.interval} seconds
-              </span>
+
+          {(formData.subreddit_settings?.length ?? 0) > 0 && (
+            <div className="space-y-2">
+              <Label className="text-base">Subreddit Mix</Label>
+              <p className="text-sm text-muted-foreground">
+                Choose how each subreddit is sorted and how much of the slideshow it makes up.
+              </p>
+              <SubredditSettingsEditor
+                sources={formData.subreddit_settings || []}
+                onChange={handleSubredditSettingsChange}
+              />
             </div>
-            <Slider
-              id="interval"
-              min={3}
-              max={30}
-              step={1}
-              value={[formData.interval || 10]}
-              onValueChange={handleIntervalChange}
-              className="py-2"
-            />
-          </div>
+          )}
+
+          {canEditSettings && (
+            <>
+              <div className="space-y-2">
+                <div className="flex justify-between items-center">
+                  <Label className="text-base">Content Filters</Label>
+                  {filterPreview.available && filterPreview.total > 0 && (
+                    <span className="text-sm font-medium bg-primary/10 text-primary px-2 py-1 rounded-md">
+                      {filterPreview.passing} of {filterPreview.total} posts pass
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {!filterPreview.available
+                    ? 'Connect your Reddit account to preview how many posts pass.'
+                    : filterPreview.loading
+                      ? 'Checking current posts...'
+                      : filterPreview.error ?? 'Choose which posts from these subreddits are played.'}
+                </p>
+                <ContentFiltersEditor
+                  filters={formData.content_filters || {}}
+                  onChange={(filters) => handleChange('content_filters', filters)}
+                />
+              </div>
           
-          <div className="space-y-2 pt-1">
-            <Label htmlFor="transition" className="text-base">Transition Effect</Label>
-            <Select
-              value={formData.transition as string}
-              onValueChange={handleTransitionChange as (value: string) => void}
-            >
-              <SelectTrigger className="bg-background/50 focus:bg-background transition-colors">
-                <SelectValue placeholder="Select a transition effect" />
-              </SelectTrigger>
-              <SelectContent>
-                {TRANSITION_EFFECTS.map((effect) => (
-                  <SelectItem key={effect.value} value={effect.value}>
-                    {effect.label}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
+              <div className="space-y-4 pt-1">
+                <div className="flex justify-between items-center">
+                  <Label htmlFor="interval" className="text-base">JOIP Interval</Label>
+                  <span className="text-sm font-medium bg-primary/10 text-primary px-2 py-1 rounded-md">
+                    {formData.interval} seconds
+                  </span>
+                </div>
+                <Slider
+                  id="interval"
+                  min={3}
+                  max={30}
+                  step={1}
+                  value={[formData.interval || 10]}
+                  onValueChange={handleIntervalChange}
+                  className="py-2"
+                />
+              </div>
+          
+              <div className="space-y-4 pt-1">
+                <div className="flex justify-between items-center">
+                  <Label htmlFor="gallery-interval" className="text-base">Gallery Item Interval</Label>
+                  <span className="text-sm font-medium bg-primary/10 text-primary px-2 py-1 rounded-md">
+                    {formData.gallery_interval} seconds
+                  </span>
+                </div>
+                <Slider
+                  id="gallery-interval"
+                  min={2}
+                  max={15}
+                  step={1}
+                  value={[formData.gallery_interval || DEFAULT_GALLERY_INTERVAL]}
+                  onValueChange={([value]) => handleChange('gallery_interval', value)}
+                  className="py-2"
+                />
+              </div>
+
+              <div className="space-y-2 pt-1">
+                <Label htmlFor="video-timing" className="text-base">Video Length</Label>
+                <Select
+                  value={formData.video_timing || DEFAULT_VIDEO_TIMING}
+                  onValueChange={(value) => handleChange('video_timing', value as VideoTiming)}
+                >
+                  <SelectTrigger id="video-timing" className="bg-background/50 focus:bg-background transition-colors">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {VIDEO_TIMINGS.map((timing) => (
+                      <SelectItem key={timing.value} value={timing.value}>
+                        {timing.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {formData.video_timing === 'max' && (
+                <div className="space-y-4 pt-1">
+                  <div className="flex justify-between items-center">
+                    <Label htmlFor="video-max" className="text-base">Maximum Video Length</Label>
+                    <span className="text-sm font-medium bg-primary/10 text-primary px-2 py-1 rounded-md">
+                      {formData.video_max_seconds} seconds
+                    </span>
+                  </div>
+                  <Slider
+                    id="video-max"
+                    min={5}
+                    max={180}
+                    step={5}
+                    value={[formData.video_max_seconds || DEFAULT_VIDEO_MAX_SECONDS]}
+                    onValueChange={([value]) => handleChange('video_max_seconds', value)}
+                    className="py-2"
+                  />
+                </div>
+              )}
+
+              <div className="space-y-2 pt-1">
+                <Label htmlFor="transition" className="text-base">Transition Effect</Label>
+                <Select
+                  value={formData.transition as string}
+                  onValueChange={handleTransitionChange as (value: string) => void}
+                >
+                  <SelectTrigger className="bg-background/50 focus:bg-background transition-colors">
+                    <SelectValue placeholder="Select a transition effect" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TRANSITION_EFFECTS.map((effect) => (
+                      <SelectItem key={effect.value} value={effect.value}>
+                        {effect.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
           
           <div className="space-y-2 pt-2">
             <Label htmlFor="systemPrompt" className="text-base">AI Caption Prompt</Label>
@@ -438,61 +627,139 @@ export function SessionForm({
               Instructions for how the AI should generate captions for each image.
             </p>
           </div>
+
+          {canEditSettings && (
+            <>
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="vision-captions" className="text-base cursor-pointer">
+                    Caption From the Image
+                  </Label>
+                  <p className="text-sm text-muted-foreground">
+                    Let the AI look at the image (or a video frame) instead of only the post title
+                  </p>
+                </div>
+                <Switch
+                  id="vision-captions"
+                  checked={formData.vision_captions || false}
+                  onCheckedChange={(checked) => handleChange('vision_captions', checked)}
+                />
+              </div>
           
-          <div className="border-t border-b py-4 my-4">
-            <div className="flex items-center justify-between">
-              <div className="space-y-0.5">
-                <Label htmlFor="tts-enabled" className="text-base cursor-pointer flex items-center gap-2">
-                  Text-to-Speech
-                  <span className="bg-muted text-muted-foreground text-xs px-2 py-0.5 rounded-full">
-                    Coming Soon
-                  </span>
-                </Label>
+              <div className="space-y-2">
+                <Label htmlFor="video-audio" className="text-base">Video Sound</Label>
+                <Select
+                  value={formData.video_audio ?? VIDEO_AUDIO_PLAYER}
+                  onValueChange={handleVideoAudioChange}
+                >
+                  <SelectTrigger id="video-audio" className="bg-background/50 focus:bg-background transition-colors">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={VIDEO_AUDIO_PLAYER}>Use my player setting</SelectItem>
+                    <SelectItem value="muted">Start muted</SelectItem>
+                    <SelectItem value="sound">Start with sound</SelectItem>
+                  </SelectContent>
+                </Select>
                 <p className="text-sm text-muted-foreground">
-                  Have captions read aloud during the session (feature will be available soon)
+                  Your browser may still hold the sound back until you click the player
                 </p>
               </div>
-              <Switch
-                id="tts-enabled"
-                checked={false}
-                disabled={true}
-              />
-            </div>
-          </div>
 
-          <div className="space-y-5 pt-4">
-            <div className="flex items-center justify-between">
-              <div className="space-y-0.5">
-                <Label htmlFor="favorite" className="text-base cursor-pointer">
-                  Add to Favorites
-                </Label>
-                <p className="text-sm text-muted-foreground">
-                  Mark this session as a favorite for quick access
-                </p>
+              <div className="border-t border-b py-4 my-4">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="tts-enabled" className="text-base cursor-pointer flex items-center gap-2">
+                      Text-to-Speech
+                      <span className="bg-muted text-muted-foreground text-xs px-2 py-0.5 rounded-full">
+                        Coming Soon
+                      </span>
+                    </Label>
+                    <p className="text-sm text-muted-foreground">
+                      Have captions read aloud during the session (feature will be available soon)
+                    </p>
+                  </div>
+                  <Switch
+                    id="tts-enabled"
+                    checked={false}
+                    disabled={true}
+                  />
+                </div>
               </div>
-              <Switch
-                id="favorite"
-                checked={formData.is_favorite || false}
-                onCheckedChange={(checked) => handleChange('is_favorite', checked)}
-              />
-            </div>
+            </>
+          )}
+
+          {canManageVisibility && (
+            <>
+              <div className="space-y-5 pt-4">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="favorite" className="text-base cursor-pointer">
+                      Add to Favorites
+                    </Label>
+                    <p className="text-sm text-muted-foreground">
+                      Mark this session as a favorite for quick access
+                    </p>
+                  </div>
+                  <Switch
+                    id="favorite"
+                    checked={formData.is_favorite || false}
+                    onCheckedChange={(checked) => handleChange('is_favorite', checked)}
+                  />
+                </div>
             
-            <div className="flex items-center justify-between">
-              <div className="space-y-0.5">
-                <Label htmlFor="public" className="text-base cursor-pointer">
-                  Make Public
-                </Label>
-                <p className="text-sm text-muted-foreground">
-                  Allow sharing this session with others
-                </p>
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="public" className="text-base cursor-pointer">
+                      Make Public
+                    </Label>
+                    <p className="text-sm text-muted-foreground">
+                      Allow sharing this session with others
+                    </p>
+                  </div>
+                  <Switch
+                    id="public"
+                    checked={formData.is_public || false}
+                    onCheckedChange={(checked) => handleChange('is_public', checked)}
+                  />
+                </div>
+
+                {formData.is_public && (
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <Label htmlFor="listed" className="text-base cursor-pointer">
+                        List in Explore
+                      </Label>
+                      <p className="text-sm text-muted-foreground">
+                        Turn off to keep the session reachable by link without showing it in the public gallery
+                      </p>
+                    </div>
+                    <Switch
+                      id="listed"
+                      checked={formData.is_listed ?? true}
+                      onCheckedChange={(checked) => handleChange('is_listed', checked)}
+                    />
+                  </div>
+                )}
+
+                {formData.is_public && (
+                  <div className="space-y-2">
+                    <Label htmlFor="tags" className="text-base">Tags</Label>
+                    <Input
+                      id="tags"
+                      placeholder="e.g. nature, city-lights, travel"
+                      value={tagsInput}
+                      onChange={handleTagsChange}
+                      className="bg-background/50 focus:bg-background transition-colors"
+                    />
+                    <p className="text-sm text-muted-foreground">
+                      Comma-separated, up to {MAX_SESSION_TAGS}. Helps people find the session in Explore.
+                    </p>
+                  </div>
+                )}
               </div>
-              <Switch
-                id="public"
-                checked={formData.is_public || false}
-                onCheckedChange={(checked) => handleChange('is_public', checked)}
-              />
-            </div>
-          </div>
+            </>
+          )}
         </CardContent>
         
         <CardFooter className="pt-2">
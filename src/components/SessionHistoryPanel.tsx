@@ -0,0 +1,167 @@
+import { useState, useMemo } from 'react';
+import { format } from 'date-fns';
+import { SessionRevision } from '@/types';
+import { diffRevisions, RevisionChange } from '@/lib/utils/session-diff';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface SessionHistoryPanelProps {
+  revisions: SessionRevision[]; // Newest first
+  loading: boolean;
+  error: string | null;
+  onRestore?: (revision: SessionRevision) => void; // Left out for editors, who can't restore every field
+  restoringId?: string | null;
+}
+
+export function ChangeDetails({ change }: { change: RevisionChange }) {
+  if (change.lines) {
+    return (
+      <pre className="text-xs whitespace-pre-wrap rounded-md border bg-background/50 p-2 font-mono">
+        {change.lines.map((line, index) => (
+          <div
+            key={index}
+            className={cn(
+              line.type === 'added' && 'bg-green-500/10 text-green-700 dark:text-green-400',
+              line.type === 'removed' && 'bg-red-500/10 text-red-700 dark:text-red-400 line-through'
+            )}
+          >
+            {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text || ' '}
+          </div>
+        ))}
+      </pre>
+    );
+  }
+
+  if (change.added || change.removed) {
+    return (
+      <div className="flex flex-wrap gap-1">
+        {change.removed?.map(entry => (
+          <Badge key={`-${entry}`} variant="outline" className="text-red-700 dark:text-red-400 line-through">{entry}</Badge>
+        ))}
+        {change.added?.map(entry => (
+          <Badge key={`+${entry}`} variant="outline" className="text-green-700 dark:text-green-400">{entry}</Badge>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <p className="text-sm">
+      {change.before !== undefined && <span className="text-muted-foreground line-through mr-2">{change.before}</span>}
+      <span>{change.after}</span>
+    </p>
+  );
+}
+
+/**
+ * Every saved version of a session with what changed in it, and a way back to any of
+ * them. Restoring saves the old version again, so it shows up as the newest revision.
+ */
+export function SessionHistoryPanel({ revisions, loading, error, onRestore, restoringId }: SessionHistoryPanelProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const selectedIndex = Math.max(0, revisions.findIndex(revision => revision.id === selectedId));
+  const selected = revisions[selectedIndex];
+  const previous = revisions[selectedIndex + 1] ?? null;
+  const changes = useMemo(() => selected ? diffRevisions(previous, selected) : [], [selected, previous]);
+
+  return (
+    <Card className="border bg-card">
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          History
+        </CardTitle>
+        <CardDescription>
+          {onRestore
+            ? 'Every save is kept. Pick a version to see what changed, who changed it, and restore it.'
+            : 'Every save is kept. Pick a version to see what changed and who changed it.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading && revisions.length === 0 ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No saved versions yet.</p>
+        ) : (
+          <>
+            <ScrollArea className="h-40 rounded-md border">
+              <div className="p-1">
+                {revisions.map((revision, index) => (
+                  <button
+                    key={revision.id}
+                    type="button"
+                    onClick={() => setSelectedId(revision.id)}
+                    className={cn(
+                      'w-full flex items-center justify-between rounded-sm px-3 py-2 text-left text-sm hover:bg-muted',
+                      revision.id === selected?.id && 'bg-muted'
+                    )}
+                  >
+                    <span>
+                      <span className="font-medium">Revision {revision.revision}</span>
+                      <span className="text-muted-foreground"> by {revision.author_name ?? 'Unknown user'}</span>
+                    </span>
+                    <span className="flex items-center gap-2 text-muted-foreground">
+                      {index === 0 && <Badge variant="secondary">Current</Badge>}
+                      {format(new Date(revision.created_at), 'MMM d, yyyy HH:mm')}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            {selected && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm font-medium">
+                    {previous ? `Changes since revision ${previous.revision}` : 'First version'}
+                  </h3>
+                  {selectedIndex > 0 && onRestore && (
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      onClick={() => onRestore(selected)}
+                      disabled={!!restoringId}
+                    >
+                      {restoringId === selected.id ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                      )}
+                      Restore this version
+                    </Button>
+                  )}
+                </div>
+                {changes.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No changes to the tracked settings.</p>
+                ) : (
+                  changes.map(change => (
+                    <div key={change.field} className="space-y-1">
+                      <p className="text-xs text-muted-foreground">{change.label}</p>
+                      <ChangeDetails change={change} />
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { ShareLink } from '@/types';
+import { useShareLinks } from '@/hooks/useShareLinks';
+import { SHARE_LINK_EXPIRIES } from '@/lib/constants';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Copy, KeyRound, Loader2, Plus, XCircle } from 'lucide-react';
+
+interface ShareLinksPanelProps {
+  sessionId: string;
+}
+
+const linkUrl = (link: ShareLink) => `${window.location.origin}/s/${link.token}`;
+
+// Empty input = no limit
+const parseLimit = (value: string): number | null => {
+  const limit = parseInt(value, 10);
+  return Number.isFinite(limit) && limit > 0 ? limit : null;
+};
+
+function linkStatus(link: ShareLink): { label: string; active: boolean } {
+  if (link.revoked_at) return { label: 'Turned off', active: false };
+  if (link.expires_at && new Date(link.expires_at) <= new Date()) return { label: 'Expired', active: false };
+  if (link.max_plays !== null && link.play_count >= link.max_plays) return { label: 'No plays left', active: false };
+  return { label: 'Active', active: true };
+}
+
+const usage = (count: number, max: number | null) => (max === null ? `${count}` : `${count}/${max}`);
+
+/**
+ * Private links to a session that work without making it public, each with its own
+ * expiry, passphrase, limits and counters. Turning a link off can't be undone.
+ */
+export function ShareLinksPanel({ sessionId }: ShareLinksPanelProps) {
+  const { links, loading, error, createLink, revokeLink } = useShareLinks(sessionId);
+
+  const [expiry, setExpiry] = useState(SHARE_LINK_EXPIRIES[0].value);
+  const [passphrase, setPassphrase] = useState('');
+  const [allowSave, setAllowSave] = useState(false);
+  const [maxPlays, setMaxPlays] = useState('');
+  const [maxSaves, setMaxSaves] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const handleCreate = async () => {
+    const hours = SHARE_LINK_EXPIRIES.find(option => option.value === expiry)?.hours ?? null;
+
+    setCreating(true);
+    try {
+      const token = await createLink({
+        expiresAt: hours === null ? null : new Date(Date.now() + hours * 60 * 60 * 1000).toISOString(),
+        passphrase,
+        allowSave,
+        maxPlays: parseLimit(maxPlays),
+        maxSaves: allowSave ? parseLimit(maxSaves) : null,
+      });
+
+      if (token) {
+        await navigator.clipboard.writeText(`${window.location.origin}/s/${token}`);
+        toast.success('Link created and copied to clipboard');
+        setPassphrase('');
+        setMaxPlays('');
+        setMaxSaves('');
+      }
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleCopy = (link: ShareLink) => {
+    navigator.clipboard.writeText(linkUrl(link));
+    toast.success('Link copied to clipboard');
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    if (!window.confirm('Turn this link off? Anyone who has it will no longer be able to open the session.')) return;
+
+    setRevokingId(link.id);
+    try {
+      if (await revokeLink(link.id)) {
+        toast.success('Link turned off');
+      }
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4 rounded-md border p-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="link-expiry">Expires</Label>
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger id="link-expiry">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SHARE_LINK_EXPIRIES.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="link-passphrase">Passphrase</Label>
+            <Input
+              id="link-passphrase"
+              type="password"
+              placeholder="Optional"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="link-max-plays">Maximum plays</Label>
+            <Input
+              id="link-max-plays"
+              type="number"
+              min={1}
+              placeholder="Unlimited"
+              value={maxPlays}
+              onChange={(e) => setMaxPlays(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="link-max-saves">Maximum saves</Label>
+            <Input
+              id="link-max-saves"
+              type="number"
+              min={1}
+              placeholder="Unlimited"
+              value={maxSaves}
+              onChange={(e) => setMaxSaves(e.target.value)}
+              disabled={!allowSave}
+            />
+          </div>
+        </div>
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label htmlFor="link-allow-save" className="cursor-pointer">Allow saving a copy</Label>
+            <p className="text-sm text-muted-foreground">
+              {allowSave ? 'People with the link can play it and save a copy' : 'Play only: people with the link can\'t copy it'}
+            </p>
+          </div>
+          <Switch id="link-allow-save" checked={allowSave} onCheckedChange={setAllowSave} />
+        </div>
+        <Button onClick={() => { void handleCreate(); }} disabled={creating}>
+          {creating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+          Create link
+        </Button>
+      </div>
+
+      {loading && links.length === 0 ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : error ? (
+        <p className="text-sm text-destructive">{error}</p>
+      ) : links.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center">No links yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {links.map((link) => {
+            const status = linkStatus(link);
+            return (
+              <div key={link.id} className="rounded-md border p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <Badge variant={status.active ? 'default' : 'outline'}>{status.label}</Badge>
+                  {link.has_passphrase && (
+                    <KeyRound className="h-4 w-4 text-muted-foreground" aria-label="Passphrase protected" />
+                  )}
+                  <Badge variant="secondary">{link.allow_save ? 'Allows saving' : 'Play only'}</Badge>
+                  <span className="ml-auto flex gap-1">
+                    <Button variant="ghost" size="icon" title="Copy link" onClick={() => handleCopy(link)} disabled={!status.active}>
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    {!link.revoked_at && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Turn off"
+                        onClick={() => { void handleRevoke(link); }}
+                        disabled={revokingId === link.id}
+                      >
+                        <XCircle className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </span>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {link.view_count} views · {usage(link.play_count, link.max_plays)} plays
+                  {link.allow_save && <> · {usage(link.save_count, link.max_saves)} saves</>}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Created {format(new Date(link.created_at), 'MMM d, yyyy')}
+                  {link.expires_at && <>, expires {format(new Date(link.expires_at), 'MMM d, yyyy HH:mm')}</>}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
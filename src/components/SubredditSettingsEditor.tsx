@@ -0,0 +1,141 @@
+import { RedditSort, RedditTimeWindow, SubredditSource } from '@/types';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  REDDIT_SORT_OPTIONS,
+  REDDIT_TIME_WINDOWS,
+  DEFAULT_POSTS_PER_SORT,
+  MAX_POSTS_PER_SORT,
+  DEFAULT_SUBREDDIT_WEIGHT,
+} from '@/lib/constants';
+
+// Select value used for "no explicit sort" (the default hot + top of the day mix)
+const DEFAULT_SORT_VALUE = 'default';
+
+interface SubredditSettingsEditorProps {
+  sources: SubredditSource[];
+  onChange: (sources: SubredditSource[]) => void;
+}
+
+export function SubredditSettingsEditor({ sources, onChange }: SubredditSettingsEditorProps) {
+  const totalWeight = sources.reduce((sum, source) => sum + (source.weight ?? DEFAULT_SUBREDDIT_WEIGHT), 0);
+
+  const updateSource = (name: string, updates: Partial<SubredditSource>) => {
+    onChange(sources.map(source => source.name === name ? { ...source, ...updates } : source));
+  };
+
+  const handleSortChange = (name: string, value: string) => {
+    if (value === DEFAULT_SORT_VALUE) {
+      updateSource(name, { sort: undefined, time: undefined });
+      return;
+    }
+    const sort = value as RedditSort;
+    updateSource(name, { sort, time: sort === 'top' ? 'day' : undefined });
+  };
+
+  const handleLimitChange = (name: string, value: string) => {
+    const limit = parseInt(value, 10);
+    if (Number.isNaN(limit)) return;
+    updateSource(name, { limit: Math.min(Math.max(limit, 1), MAX_POSTS_PER_SORT) });
+  };
+
+  if (sources.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      {sources.map(source => {
+        const weight = source.weight ?? DEFAULT_SUBREDDIT_WEIGHT;
+        const share = totalWeight > 0 ? Math.round((weight / totalWeight) * 100) : 0;
+
+        return (
+          <div key={source.name} className="rounded-md border bg-background/50 p-3 space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="font-medium">r/{source.name}</span>
+              <span className="text-xs font-medium bg-primary/10 text-primary px-2 py-0.5 rounded-md">
+                {share}% of the mix
+              </span>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Sort</Label>
+                <Select
+                  value={source.sort ?? DEFAULT_SORT_VALUE}
+                  onValueChange={(value) => handleSortChange(source.name, value)}
+                >
+                  <SelectTrigger className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_SORT_VALUE}>Hot + top today</SelectItem>
+                    {REDDIT_SORT_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Time window</Label>
+                <Select
+                  value={source.time ?? 'day'}
+                  onValueChange={(value) => updateSource(source.name, { time: value as RedditTimeWindow })}
+                  disabled={source.sort !== 'top'}
+                >
+                  <SelectTrigger className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REDDIT_TIME_WINDOWS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Posts per fetch</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={MAX_POSTS_PER_SORT}
+                  value={source.limit ?? DEFAULT_POSTS_PER_SORT}
+                  onChange={(e) => handleLimitChange(source.name, e.target.value)}
+                  className="h-9"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <div className="flex justify-between items-center">
+                <Label className="text-xs text-muted-foreground">Mix weight</Label>
+                <span className="text-xs text-muted-foreground">{weight}</span>
+              </div>
+              <Slider
+                min={1}
+                max={10}
+                step={1}
+                value={[weight]}
+                onValueChange={(values) => updateSource(source.name, { weight: values[0] })}
+              />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import { useEffect, useMemo, useState } from 'react';
+import { SessionPlay, TranscriptEntry } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Download, ExternalLink, Search } from 'lucide-react';
+import { downloadTranscript, searchTranscript, TranscriptFormat } from '@/lib/utils/transcript';
+
+// Select value for the play in progress
+const CURRENT_PLAY_VALUE = 'current';
+
+const EXPORT_FORMATS: { value: TranscriptFormat; label: string }[] = [
+  { value: 'markdown', label: 'Markdown' },
+  { value: 'json', label: 'JSON' },
+  { value: 'srt', label: 'SRT' },
+];
+
+interface TranscriptDrawerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  interval: number;
+  entries: TranscriptEntry[];
+  pastPlays: SessionPlay[];
+  loadingPlays: boolean;
+  onLoadPastPlays: () => void;
+  canSave: boolean;
+}
+
+export function TranscriptDrawer({
+  open,
+  onOpenChange,
+  title,
+  interval,
+  entries,
+  pastPlays,
+  loadingPlays,
+  onLoadPastPlays,
+  canSave,
+}: TranscriptDrawerProps) {
+  const [selectedPlay, setSelectedPlay] = useState(CURRENT_PLAY_VALUE);
+  const [query, setQuery] = useState('');
+
+  // Refresh the list of past plays each time the drawer opens
+  useEffect(() => {
+    if (open && canSave) {
+      onLoadPastPlays();
+    }
+  }, [open, canSave, onLoadPastPlays]);
+
+  const play = pastPlays.find(item => item.id === selectedPlay);
+  const transcript = play ? play.transcript : entries;
+  const results = useMemo(() => searchTranscript(transcript, query), [transcript, query]);
+  const exportTitle = play
+    ? `${title} ${new Date(play.started_at).toLocaleDateString()}`
+    : title;
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="flex flex-col gap-4 w-full sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>Transcript</SheetTitle>
+          <SheetDescription>
+            {canSave
+              ? 'Every caption shown while playing, saved with the session.'
+              : 'Every caption shown while playing. Sign in to keep transcripts of past plays.'}
+          </SheetDescription>
+        </SheetHeader>
+
+        {canSave && (
+          <Select value={selectedPlay} onValueChange={setSelectedPlay}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={CURRENT_PLAY_VALUE}>Current play ({entries.length})</SelectItem>
+              {pastPlays.map(item => (
+                <SelectItem key={item.id} value={item.id}>
+                  {new Date(item.started_at).toLocaleString()} ({item.transcript.length})
+                </SelectItem>
+              ))}
+              {loadingPlays && pastPlays.length === 0 && (
+                <div className="px-2 py-1.5 text-sm text-muted-foreground">Loading past plays...</div>
+              )}
+            </SelectContent>
+          </Select>
+        )}
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search captions"
+            className="pl-9"
+          />
+        </div>
+
+        <ScrollArea className="flex-1 -mx-2 px-2">
+          {results.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              {transcript.length === 0 ? 'No captions yet.' : 'No captions match your search.'}
+            </p>
+          ) : (
+            <ol className="space-y-3">
+              {results.map(entry => (
+                <li key={`${entry.postId}-${entry.timestamp}`} className="rounded-md border bg-background/50 p-3 space-y-1">
+                  <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                    <span>r/{entry.subreddit} · {new Date(entry.timestamp).toLocaleTimeString()}</span>
+                    <a
+                      href={entry.permalink}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="hover:text-foreground"
+                      title={entry.title}
+                    >
+                      <ExternalLink className="h-3.5 w-3.5" />
+                      <span className="sr-only">Open post on Reddit</span>
+                    </a>
+                  </div>
+                  <p className="text-sm">{entry.caption}</p>
+                  {entry.model && (
+                    <p className="text-xs text-muted-foreground">{entry.model}</p>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </ScrollArea>
+
+        <div className="flex items-center gap-2">
+          {EXPORT_FORMATS.map(format => (
+            <Button
+              key={format.value}
+              variant="outline"
+              size="sm"
+              className="flex-1 gap-1"
+              disabled={transcript.length === 0}
+              onClick={() => downloadTranscript(transcript, format.value, exportTitle, interval)}
+            >
+              <Download className="h-4 w-4" />
+              {format.label}
+            </Button>
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,50 @@
+import { Volume1, Volume2, VolumeX } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { cn } from '@/lib/utils';
+
+interface VideoAudioControlProps {
+  muted: boolean;
+  volume: number; // 0-1
+  onToggleMuted: () => void;
+  onVolumeChange: (volume: number) => void;
+  compact?: boolean; // Mute button only, e.g. in the mobile header
+  className?: string;
+}
+
+export function VideoAudioControl({
+  muted,
+  volume,
+  onToggleMuted,
+  onVolumeChange,
+  compact = false,
+  className,
+}: VideoAudioControlProps) {
+  const Icon = muted || volume === 0 ? VolumeX : volume < 0.5 ? Volume1 : Volume2;
+
+  return (
+    <div className={cn('flex items-center gap-2', className)}>
+      <Button
+        variant="ghost"
+        size="icon"
+        className={cn(compact && 'h-10 w-10 p-0')}
+        onClick={onToggleMuted}
+        title={muted ? 'Unmute videos (M)' : 'Mute videos (M)'}
+      >
+        <Icon className={compact ? 'h-5 w-5' : 'h-4 w-4'} />
+        <span className="sr-only">{muted ? 'Unmute videos' : 'Mute videos'}</span>
+      </Button>
+      {!compact && (
+        <Slider
+          className="w-24"
+          min={0}
+          max={100}
+          step={5}
+          value={[muted ? 0 : Math.round(volume * 100)]}
+          onValueChange={([value]) => onVolumeChange(value / 100)}
+          aria-label="Video volume"
+        />
+      )}
+    </div>
+  );
+}
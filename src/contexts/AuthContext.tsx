@@ -1,6 +1,7 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { supabase } from '@/lib/supabase';
 import { AuthState, User, UserProfile } from '@/lib/types';
+import { clearCaptionCache } from '@/lib/utils/caption-cache';
 import { AuthError } from '@supabase/supabase-js';
 
 interface AuthContextType extends AuthState {
@@ -86,6 +87,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
               initialized: true,
             });
           } else if (event === 'SIGNED_OUT') {
+            // Captions cached on this device belong to the account that just left
+            void clearCaptionCache();
             setState({
               user: null,
               profile: null,
@@ -14,32 +14,60 @@ export function PatreonAuthProvider({ children }: { children: ReactNode }) {
   const { user, session, refreshProfile } = useAuth();
   const [isConnecting, setIsConnecting] = useState(false);
 
-  // Check for Patreon success callback in the URL
+  // Finish a connection when Patreon's callback sent the user back with a code. The server
+  // only accepts it from the account that started the flow
   useEffect(() => {
+    if (!session) return;
+
     const params = new URLSearchParams(window.location.search);
-    const patreonConnected = params.get('patreonConnected');
-    
-    if (patreonConnected === 'true') {
-      console.log('[PatreonAuth] Detected successful Patreon connection callback');
-      // Clean up URL - using full origin + pathname to avoid security errors
+    const code = params.get('patreon_code');
+    const state = params.get('patreon_state');
+    if (!code || !state) return;
+
+    // Out of the URL before anything else, so the code is only ever sent once
+    window.history.replaceState({}, document.title, window.location.origin + window.location.pathname);
+
+    (async () => {
       try {
-        const cleanUrl = window.location.origin + window.location.pathname;
-        window.history.replaceState({}, document.title, cleanUrl);
+        const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/patreon-auth/complete`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${session.access_token}`
+          },
+          body: JSON.stringify({ code, state })
+        });
+        const result = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new Error(result.error_code === 'invalid_state'
+            ? 'Patreon connection expired or was started by another account. Please try again.'
+            : `Error connecting to Patreon: ${result.error_code || result.error || response.status}`);
+        }
+
+        toast.success('Successfully connected to Patreon');
+        
+        // Refresh profile to get latest Patreon data
+        await refreshProfile();
       } catch (error) {
-        console.warn('[PatreonAuth] Could not clean up URL:', error);
-        // Fall back to redirect if replaceState fails
-        window.location.href = window.location.origin + window.location.pathname;
+        console.error('[PatreonAuth] Error finishing Patreon connection:', error);
+        toast.error(error instanceof Error ? error.message : 'Error connecting to Patreon');
       }
-      
-      // Show success toast
-      toast.success('Successfully connected to Patreon');
-      
-      // Refresh profile to get latest Patreon data
-      refreshProfile().catch(err => {
-        console.error('[PatreonAuth] Error refreshing profile after connection:', err);
-      });
+    })();
+  }, [session, refreshProfile]);
+
+  // Errors the callback sent back before there was anything to finish
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const patreonError = params.get('patreonError');
+    if (patreonError) {
+      window.history.replaceState({}, document.title, window.location.origin + window.location.pathname);
+      toast.error(
+        patreonError === 'invalid_state'
+          ? 'Patreon connection expired or was already used. Please try again.'
+          : `Error connecting to Patreon: ${patreonError}`
+      );
     }
-  }, [refreshProfile]);
+  }, []);
 
   // Function to connect to Patreon
   const connectPatreon = async () => {
@@ -60,7 +88,8 @@ export function PatreonAuthProvider({ children }: { children: ReactNode }) {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${session.access_token}`
         },
-        body: JSON.stringify({ userId: user.id })
+        // The server ties the OAuth state to the signed-in user; we only say where to come back to
+        body: JSON.stringify({ returnPath: window.location.pathname })
       });
       
       if (!response.ok) {
@@ -1,12 +1,76 @@
-import { useState, useEffect, useCallback } from 'react';
-import { RedditPost, AIResponse } from '@/types';
-import { API_ENDPOINTS, OPENROUTER_MODEL } from '@/lib/constants';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { RedditPost, AIResponse, VideoFrame, CaptionQuota } from '@/types';
+import {
+  API_ENDPOINTS,
+  CAPTION_PREFETCH_COUNT,
+  MAX_CONCURRENT_CAPTION_REQUESTS,
+  MAX_VISION_IMAGES,
+  VIDEO_FRAME_WAIT_MS
+} from '@/lib/constants';
 import { supabase } from '@/lib/supabase';
+import {
+  CaptionResult,
+  captionKey,
+  getCachedCaption,
+  peekCachedCaption,
+  storeCaption
+} from '@/lib/utils/caption-cache';
 
 interface UseAICaptionProps {
   post: RedditPost | null;
   systemPrompt: string;
   apiKey?: string; // Made optional as we won't need it directly anymore
+  vision?: boolean; // Send the media itself so a vision model can see it
+  videoFrame?: VideoFrame | null; // Latest frame grabbed from the playing video
+  upcoming?: RedditPost[]; // Next posts in the play queue, captioned ahead of time
+}
+
+interface CaptionRequestOptions {
+  vision: boolean;
+  videoFrame?: VideoFrame | null;
+  signal?: AbortSignal;
+  onToken?: (text: string) => void; // Streams the caption; called with the text so far
+}
+
+// A caption request in progress, shared by the current post and the prefetcher
+interface PendingCaption {
+  controller: AbortController;
+  promise: Promise<CaptionResult>;
+}
+
+// The caption proxy refused the request because the user's daily allowance is used up
+class CaptionQuotaError extends Error {
+  constructor(message: string, public quota: CaptionQuota) {
+    super(message);
+    this.name = 'CaptionQuotaError';
+  }
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+// Video posts whose vision caption is worth a frame of the playing video (galleries send their items)
+function wantsVideoFrame(post: RedditPost, vision: boolean): boolean {
+  return vision && post.isVideo && post.gallery.length <= 1;
+}
+
+/**
+ * Images to attach to a vision caption request: every gallery item (up to a cap), the
+ * grabbed frame or thumbnail for videos, and the image itself otherwise.
+ */
+function getVisionImages(post: RedditPost, videoFrame: VideoFrame | null | undefined): string[] {
+  if (post.gallery.length > 1) {
+    return post.gallery
+      .slice(0, MAX_VISION_IMAGES)
+      .map(item => item.isVideo ? item.thumbnailUrl || item.url : item.url);
+  }
+  if (post.isVideo) {
+    if (videoFrame?.postId === post.id) return [videoFrame.dataUrl];
+    const still = post.thumbnailUrl || post.url;
+    return still ? [still] : [];
+  }
+  return post.url ? [post.url] : [];
 }
 
 // Helper function for fetch with retry logic
@@ -18,7 +82,8 @@ async function fetchWithRetry(
 ): Promise<Response> {
   try {
     const response = await fetch(url, options);
-    if (response.ok || retries <= 1) return response;
+    // Client errors (auth, quota, validation) won't go away by retrying
+    if (response.ok || response.status < 500 || retries <= 1) return response;
     
     // Wait for backoff time
     await new Promise(resolve => setTimeout(resolve, backoff));
@@ -26,7 +91,8 @@ async function fetchWithRetry(
     // Retry with increased backoff
     return fetchWithRetry(url, options, retries - 1, backoff * 2);
   } catch (error) {
-    if (retries <= 1) throw error;
+    // Cancelled requests are not retried
+    if (retries <= 1 || options.signal?.aborted) throw error;
     
     // Wait for backoff time
     await new Promise(resolve => setTimeout(resolve, backoff));
@@ -36,13 +102,259 @@ async function fetchWithRetry(
   }
 }
 
-export function useAICaption({ post, systemPrompt }: UseAICaptionProps) {
+/**
+ * Reads an OpenRouter SSE stream, reporting the caption text so far after every chunk.
+ */
+async function readCaptionStream(
+  body: ReadableStream<Uint8Array>,
+  onToken: (text: string) => void
+): Promise<CaptionResult> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  let model: string | undefined;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      // Anything else is an SSE comment (OpenRouter sends keep-alives) or a blank separator
+      if (!line.startsWith('data:')) continue;
+      const payload = line.slice(5).trim();
+      if (payload === '[DONE]') return { caption: text || 'No caption generated.', model };
+
+      let chunk;
+      try {
+        chunk = JSON.parse(payload);
+      } catch {
+        continue;
+      }
+      if (chunk.error) {
+        throw new Error(chunk.error.message || 'Caption stream failed');
+      }
+      model = chunk.model || model;
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onToken(text);
+      }
+    }
+  }
+
+  return { caption: text || 'No caption generated.', model };
+}
+
+/**
+ * Asks the caption proxy for a caption for one post. With `onToken` the caption is
+ * streamed and reported as it is written.
+ */
+async function requestCaption(
+  post: RedditPost,
+  systemPrompt: string,
+  { vision, videoFrame, signal, onToken }: CaptionRequestOptions
+): Promise<CaptionResult> {
+  // Gallery posts: describe the whole set, including the poster's per-item captions
+  const galleryLines = post.gallery.length > 1
+    ? [
+        `Gallery: ${post.gallery.length} items`,
+        ...post.gallery
+          .map((item, index) => item.caption ? `Item ${index + 1} Caption: ${item.caption}` : null)
+          .filter((line): line is string => line !== null)
+      ]
+    : [];
+
+  // Prepare content for AI prompt
+  const postContent = `
+    Title: ${post.title}
+    Subreddit: r/${post.subreddit}
+    URL: ${post.url}
+    Author: u/${post.author}
+    Media Type: ${post.isImage ? 'Image' : post.isVideo ? 'Video' : 'Other'}
+    ${galleryLines.join('\n    ')}
+  `;
+
+  const prompt = `Generate a caption for this Reddit post: ${postContent}`;
+  const images = vision ? getVisionImages(post, videoFrame) : [];
+  const userContent = images.length > 0
+    ? [
+        { type: 'text', text: prompt },
+        ...images.map(url => ({ type: 'image_url', image_url: { url } }))
+      ]
+    : prompt;
+
+  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+  if (!supabaseUrl) {
+    throw new Error('Missing Supabase configuration');
+  }
+
+  // The proxy spends tokens against the signed-in user's quota
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Sign in to generate captions');
+  }
+  
+  // Call our proxy Edge Function instead of OpenRouter directly
+  const response = await fetchWithRetry(
+    `${supabaseUrl}/functions/v1/openrouter-proxy`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+      signal,
+      body: JSON.stringify({
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userContent }
+        ],
+        max_tokens: 150,
+        stream: !!onToken,
+        vision: images.length > 0 // Proxy picks the vision model, or strips the images if it has none
+      })
+    },
+    3, // 3 retries
+    300 // 300ms initial backoff
+  );
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    const apiError = errorData.error;
+    if (response.status === 429 && apiError?.code === 'quota_exceeded' && apiError.quota) {
+      throw new CaptionQuotaError(apiError.message, {
+        tier: apiError.quota.tier,
+        kind: apiError.quota.kind,
+        limit: apiError.quota.limit,
+        used: apiError.quota.used,
+        resetsAt: apiError.quota.resets_at
+      });
+    }
+    throw new Error(
+      (typeof apiError === 'string' ? apiError : apiError?.message) || `API error: ${response.status}`
+    );
+  }
+
+  const isStream = response.headers.get('Content-Type')?.includes('text/event-stream');
+  if (onToken && isStream && response.body) {
+    return readCaptionStream(response.body, onToken);
+  }
+
+  const data = await response.json();
+  return {
+    caption: data.choices[0]?.message?.content || 'No caption generated.',
+    model: data.model
+  };
+}
+
+/**
+ * Captions the current post and, in the background, the next few posts in the queue.
+ * Captions are cached per post and prompt (memory, IndexedDB and server - see
+ * `caption-cache`), so revisits and replays are instant and cost no tokens. The current
+ * post's caption streams in token by token. At most MAX_CONCURRENT_CAPTION_REQUESTS
+ * requests run at once, and requests for posts that are neither on screen nor coming
+ * up (e.g. after the slide changed) are cancelled.
+ */
+export function useAICaption({ post, systemPrompt, vision = false, videoFrame, upcoming = [] }: UseAICaptionProps) {
   const [response, setResponse] = useState<AIResponse>({
     caption: '',
     loading: false
   });
 
-  const generateCaption = useCallback(async () => {
+  // Read the frame at request time so a newly grabbed frame doesn't trigger a new caption
+  const videoFrameRef = useRef(videoFrame);
+  videoFrameRef.current = videoFrame;
+  // Requests waiting for a frame of the post on screen, by post ID
+  const frameWaitersRef = useRef(new Map<string, (frame: VideoFrame) => void>());
+
+  useEffect(() => {
+    if (!videoFrame) return;
+    frameWaitersRef.current.get(videoFrame.postId)?.(videoFrame);
+  }, [videoFrame]);
+
+  // The player grabs a frame about a second into playback; captions wait that long, then use the thumbnail
+  const waitForVideoFrame = useCallback((postId: string, signal: AbortSignal) => {
+    const current = videoFrameRef.current;
+    if (current?.postId === postId) return Promise.resolve(current);
+
+    return new Promise<VideoFrame | null>(resolve => {
+      const waiters = frameWaitersRef.current;
+      const finish = (frame: VideoFrame | null) => {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', onAbort);
+        if (waiters.get(postId) === finish) waiters.delete(postId);
+        resolve(frame);
+      };
+      const onAbort = () => finish(null);
+      const timer = setTimeout(() => finish(null), VIDEO_FRAME_WAIT_MS);
+      signal.addEventListener('abort', onAbort);
+      waiters.set(postId, finish);
+    });
+  }, []);
+
+  const pendingRef = useRef(new Map<string, PendingCaption>());
+  // Key of the caption the panel is currently waiting for, so late answers for other posts are ignored
+  const activeKeyRef = useRef<string | null>(null);
+  // Bumped when a request settles so the prefetcher can fill the freed slot
+  const [settledCount, setSettledCount] = useState(0);
+  // Prefetches that failed aren't retried in the background; the post is tried again once it is on screen
+  const failedKeysRef = useRef(new Set<string>());
+  // No prefetching until the daily quota resets
+  const quotaResetRef = useRef(0);
+
+  const startRequest = useCallback((
+    target: RedditPost,
+    { force = false, onToken }: { force?: boolean; onToken?: (text: string) => void } = {}
+  ) => {
+    const key = captionKey(target.id, systemPrompt, vision);
+    const pending = pendingRef.current.get(key);
+    if (pending && !force) {
+      return pending.promise;
+    }
+    pending?.controller.abort();
+
+    const controller = new AbortController();
+    const promise = (async () => {
+      if (!force) {
+        const cached = await getCachedCaption(key, target.id);
+        if (cached) return cached;
+      }
+      const videoFrame = wantsVideoFrame(target, vision)
+        ? await waitForVideoFrame(target.id, controller.signal)
+        : null;
+      const result = await requestCaption(target, systemPrompt, {
+        vision,
+        videoFrame,
+        signal: controller.signal,
+        onToken
+      });
+      storeCaption(key, target.id, result);
+      return result;
+    })().catch(error => {
+      if (!isAbortError(error)) {
+        failedKeysRef.current.add(key);
+        if (error instanceof CaptionQuotaError) {
+          quotaResetRef.current = new Date(error.quota.resetsAt).getTime();
+        }
+      }
+      throw error;
+    }).finally(() => {
+      if (pendingRef.current.get(key)?.promise === promise) {
+        pendingRef.current.delete(key);
+      }
+      setSettledCount(count => count + 1);
+    });
+
+    pendingRef.current.set(key, { controller, promise });
+    return promise;
+  }, [systemPrompt, vision, waitForVideoFrame]);
+
+  const loadCaption = useCallback(async (force: boolean) => {
     if (!post) {
       setResponse({
         caption: 'No post selected.',
@@ -50,76 +362,57 @@ export function useAICaption({ post, systemPrompt }: UseAICaptionProps) {
       });
       return;
     }
-    
+
+    const key = captionKey(post.id, systemPrompt, vision);
+    activeKeyRef.current = key;
+    failedKeysRef.current.delete(key);
+
+    // Already captioned: show it straight away, without a loading flash
+    const cached = force ? null : peekCachedCaption(key);
+    if (cached) {
+      setResponse({ ...cached, loading: false });
+      return;
+    }
+
     setResponse(prev => ({ ...prev, loading: true, error: undefined }));
-    
-    try {
-      // Prepare content for AI prompt
-      const postContent = `
-        Title: ${post.title}
-        Subreddit: r/${post.subreddit}
-        URL: ${post.url}
-        Author: u/${post.author}
-        Media Type: ${post.isImage ? 'Image' : post.isVideo ? 'Video' : 'Other'}
-      `;
-
-      // Get the Supabase URL and anon key for auth
-      const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-      const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
-      
-      if (!supabaseUrl || !supabaseAnonKey) {
-        throw new Error('Missing Supabase configuration');
-      }
-      
-      // Call our proxy Edge Function instead of OpenRouter directly
-      const response = await fetchWithRetry(
-        `${supabaseUrl}/functions/v1/openrouter-proxy`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${supabaseAnonKey}`,
-          },
-          body: JSON.stringify({
-            model: OPENROUTER_MODEL, // Send model, but proxy will use default if not available
-            messages: [
-              { role: 'system', content: systemPrompt },
-              { role: 'user', content: `Generate a caption for this Reddit post: ${postContent}` }
-            ],
-            max_tokens: 150
-          })
-        },
-        3, // 3 retries
-        300 // 300ms initial backoff
-      );
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error?.message || `API error: ${response.status}`);
-      }
 
-      const data = await response.json();
-      const caption = data.choices[0]?.message?.content || 'No caption generated.';
-      
+    try {
+      const result = await startRequest(post, {
+        force,
+        onToken: text => {
+          if (activeKeyRef.current === key) {
+            setResponse({ caption: text, loading: false, streaming: true });
+          }
+        }
+      });
+      if (activeKeyRef.current !== key) return;
       setResponse({
-        caption,
+        ...result,
         loading: false
       });
     } catch (error) {
+      if (activeKeyRef.current !== key || isAbortError(error)) return;
       console.error('Error generating caption:', error);
       setResponse({
         caption: '',
         loading: false,
-        error: error instanceof Error ? error.message : 'Unknown error generating caption'
+        error: error instanceof Error ? error.message : 'Unknown error generating caption',
+        quota: error instanceof CaptionQuotaError ? error.quota : undefined
       });
     }
-  }, [post, systemPrompt]);
+  }, [post, systemPrompt, vision, startRequest]);
+
+  const generateCaption = useCallback(() => loadCaption(false), [loadCaption]);
+
+  // Skips the cache and replaces the stored caption
+  const regenerate = useCallback(() => loadCaption(true), [loadCaption]);
 
   // Generate caption whenever post changes
   useEffect(() => {
     if (post) {
       generateCaption();
     } else {
+      activeKeyRef.current = null;
       setResponse({
         caption: '',
         loading: false
@@ -127,8 +420,55 @@ export function useAICaption({ post, systemPrompt }: UseAICaptionProps) {
     }
   }, [post, generateCaption]);
 
+  // Caption the next few posts ahead of time
+  const upcomingRef = useRef(upcoming);
+  upcomingRef.current = upcoming;
+  const currentPostId = post?.id;
+  const upcomingIds = upcoming.slice(0, CAPTION_PREFETCH_COUNT).map(item => item.id).join(',');
+
+  useEffect(() => {
+    const targets = upcomingRef.current.slice(0, CAPTION_PREFETCH_COUNT);
+    const wanted = new Set(targets.map(target => captionKey(target.id, systemPrompt, vision)));
+    if (currentPostId) {
+      wanted.add(captionKey(currentPostId, systemPrompt, vision));
+    }
+
+    // Cancel requests for posts that left the screen and the upcoming window
+    pendingRef.current.forEach((pending, key) => {
+      if (!wanted.has(key)) {
+        pending.controller.abort();
+        pendingRef.current.delete(key);
+      }
+    });
+
+    if (Date.now() < quotaResetRef.current) return;
+
+    for (const target of targets) {
+      // Only the video on screen has frames to show a vision model; it is captioned once it plays
+      if (wantsVideoFrame(target, vision)) continue;
+      const key = captionKey(target.id, systemPrompt, vision);
+      if (pendingRef.current.has(key) || peekCachedCaption(key) || failedKeysRef.current.has(key)) continue;
+      if (pendingRef.current.size >= MAX_CONCURRENT_CAPTION_REQUESTS) break;
+      startRequest(target).catch(error => {
+        if (!isAbortError(error)) {
+          console.warn(`[Caption] Prefetch failed for post ${target.id}:`, error);
+        }
+      });
+    }
+  }, [upcomingIds, currentPostId, settledCount, systemPrompt, vision, startRequest]);
+
+  // Cancel everything still running when the player goes away
+  useEffect(() => {
+    const pending = pendingRef.current;
+    return () => {
+      pending.forEach(entry => entry.controller.abort());
+      pending.clear();
+    };
+  }, []);
+
   return {
     ...response,
-    generateCaption
+    generateCaption,
+    regenerate
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,91 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ContentFilters, RedditPost, SubredditSource } from '@/types';
+import { useRedditAuth } from '@/contexts/RedditAuthContext';
+import { DEFAULT_POSTS_PER_SORT } from '@/lib/constants';
+import { applyContentFilters } from '@/lib/utils/content-filters';
+import { getListingSpecs, sourcesKey } from '@/lib/utils/subreddit-sources';
+import { RateLimitState, fetchListingPage } from '@/hooks/useRedditPosts';
+
+// Wait for the subreddit list to settle while the user is typing
+const FETCH_DELAY_MS = 800;
+
+/**
+ * How many of the posts a session would currently fetch pass its content filters.
+ * The first page of every listing is fetched unfiltered once per subreddit setup (the
+ * proxy usually serves it from its cache); changing the filters only recounts.
+ */
+export function useContentFilterPreview(sources: SubredditSource[], filters: ContentFilters | null | undefined) {
+  const { authState } = useRedditAuth();
+  const [samples, setSamples] = useState<RedditPost[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const rateLimitState = useRef<RateLimitState>({
+    isRateLimited: false,
+    rateLimitExpiry: 0,
+    consecutiveErrors: 0,
+    lastErrorTime: 0
+  });
+
+  const key = sourcesKey(sources);
+  const sourcesRef = useRef(sources);
+  sourcesRef.current = sources;
+
+  useEffect(() => {
+    const current = sourcesRef.current;
+    if (!authState.isAuthenticated || current.length === 0) {
+      setSamples([]);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      if (rateLimitState.current.isRateLimited && Date.now() < rateLimitState.current.rateLimitExpiry) {
+        setError('Reddit is rate limiting requests, try again in a minute');
+        return;
+      }
+
+      setLoading(true);
+      setError(null);
+
+      const settled = await Promise.allSettled(current.flatMap(source =>
+        getListingSpecs(source).map(listing =>
+          fetchListingPage(source.name, listing, source.limit ?? DEFAULT_POSTS_PER_SORT, rateLimitState.current)
+        )
+      ));
+      if (cancelled) return;
+
+      const posts = new Map<string, RedditPost>();
+      settled.forEach(result => {
+        if (result.status === 'fulfilled') {
+          result.value.posts.forEach(post => posts.set(post.id, post));
+        } else {
+          console.warn('[Filters] Preview fetch failed:', result.reason);
+        }
+      });
+
+      setSamples(Array.from(posts.values()));
+      if (settled.every(result => result.status === 'rejected')) {
+        setError('Could not load posts to preview');
+      }
+      setLoading(false);
+    }, FETCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      setLoading(false);
+    };
+  }, [key, authState.isAuthenticated]);
+
+  const passing = useMemo(() => applyContentFilters(samples, filters).length, [samples, filters]);
+
+  return {
+    total: samples.length,
+    passing,
+    loading,
+    error,
+    available: authState.isAuthenticated, // Previews need a connected Reddit account
+  };
+}
@@ -0,0 +1,35 @@
+import { useCallback, useRef } from 'react';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { RedditPost } from '@/types';
+import { mediaDomain } from '@/lib/utils/reddit-normalize';
+
+/**
+ * Reports posts whose media failed to load to the shared `dead_media` table; once
+ * enough players have reported one, the reddit-proxy stops serving it. Nothing is
+ * reported while offline, where every load fails, or for signed-out viewers; each
+ * post is reported once per page.
+ */
+export function useDeadMediaReporter() {
+  const { user } = useAuth();
+  const reportedRef = useRef(new Set<string>());
+
+  return useCallback((post: RedditPost) => {
+    if (!user || !navigator.onLine || reportedRef.current.has(post.id)) return;
+    reportedRef.current.add(post.id);
+
+    const lead = post.gallery[0] ?? post;
+    void supabase
+      .rpc('report_dead_media', {
+        p_post_id: post.id,
+        p_subreddit: post.subreddit,
+        p_media_domain: mediaDomain(post),
+        p_media_url: lead.videoUrl || lead.url,
+      })
+      .then(({ error }) => {
+        if (error) {
+          console.error('[DeadMedia] Could not report post', post.id, error);
+        }
+      });
+  }, [user]);
+}
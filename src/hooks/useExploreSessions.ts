@@ -0,0 +1,77 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/lib/supabase';
+import { ExploreSort, PublicSession } from '@/types';
+import { EXPLORE_PAGE_SIZE } from '@/lib/constants';
+
+interface ExploreTag {
+  tag: string;
+  sessions: number;
+}
+
+/**
+ * Public, listed sessions for the Explore gallery, matching a search over title,
+ * description and subreddits and carrying every selected tag. The first page is
+ * fetched whenever the query changes; `loadMore` appends the next one. Responses
+ * to an older query are dropped.
+ */
+export function useExploreSessions(search: string, tags: string[], sort: ExploreSort) {
+  const [sessions, setSessions] = useState<PublicSession[]>([]);
+  const [popularTags, setPopularTags] = useState<ExploreTag[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+
+  // Bumped with every new query so late pages of the previous one are ignored
+  const queryIdRef = useRef(0);
+  const tagsKey = tags.join(',');
+
+  const fetchPage = useCallback(async (offset: number, queryId: number) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: rpcError } = await supabase.rpc('explore_sessions', {
+        p_search: search.trim() || null,
+        p_tags: tagsKey ? tagsKey.split(',') : [],
+        p_sort: sort,
+        p_limit: EXPLORE_PAGE_SIZE,
+        p_offset: offset,
+      });
+      if (rpcError) throw rpcError;
+      if (queryId !== queryIdRef.current) return;
+
+      const page = (data || []) as PublicSession[];
+      setSessions(prev => offset === 0 ? page : [...prev, ...page.filter(session => !prev.some(p => p.id === session.id))]);
+      setHasMore(page.length === EXPLORE_PAGE_SIZE);
+    } catch (err) {
+      if (queryId !== queryIdRef.current) return;
+      console.error('Error fetching public sessions:', err);
+      setError('Failed to load public sessions');
+    } finally {
+      if (queryId === queryIdRef.current) setLoading(false);
+    }
+  }, [search, tagsKey, sort]);
+
+  useEffect(() => {
+    const queryId = ++queryIdRef.current;
+    void fetchPage(0, queryId);
+  }, [fetchPage]);
+
+  const loadMore = useCallback(() => {
+    if (loading || !hasMore) return;
+    void fetchPage(sessions.length, queryIdRef.current);
+  }, [loading, hasMore, sessions.length, fetchPage]);
+
+  // Tags to filter by; they change rarely, so once per visit is enough
+  useEffect(() => {
+    supabase.rpc('explore_tags', { p_limit: 30 }).then(({ data, error: rpcError }) => {
+      if (rpcError) {
+        console.error('Error fetching explore tags:', rpcError);
+        return;
+      }
+      setPopularTags(((data || []) as ExploreTag[]).map(row => ({ tag: row.tag, sessions: Number(row.sessions) })));
+    });
+  }, []);
+
+  return { sessions, popularTags, loading, error, hasMore, loadMore };
+}
@@ -0,0 +1,79 @@
+import { useEffect, useRef } from 'react';
+
+const HLS_MIME_TYPE = 'application/vnd.apple.mpegurl';
+
+/**
+ * Plays an HLS manifest in a <video>. Safari plays HLS natively; everywhere else
+ * hls.js is loaded on demand and feeds the element through Media Source Extensions.
+ * `onFatal` is called when the stream can't be played at all, so the caller can
+ * fall back to a plain file (v.redd.it's fallback MP4 has no audio, but plays).
+ *
+ * @param video The element to play in; the stream restarts when it is replaced
+ * @param src Manifest URL, or undefined to leave the element alone
+ * @param onFatal Called once when the stream fails beyond recovery
+ */
+export function useHlsStream(
+  video: HTMLVideoElement | null,
+  src: string | undefined,
+  onFatal: () => void
+) {
+  // Kept in a ref so a new callback each render doesn't restart the stream
+  const onFatalRef = useRef(onFatal);
+  onFatalRef.current = onFatal;
+
+  useEffect(() => {
+    if (!src || !video) return;
+
+    if (video.canPlayType(HLS_MIME_TYPE)) {
+      video.src = src;
+      return () => {
+        video.removeAttribute('src');
+        video.load();
+      };
+    }
+
+    let cancelled = false;
+    let destroy: (() => void) | undefined;
+
+    import('hls.js')
+      .then(({ default: Hls }) => {
+        if (cancelled) return;
+        if (!Hls.isSupported()) {
+          onFatalRef.current();
+          return;
+        }
+
+        const hls = new Hls({ capLevelToPlayerSize: true });
+        destroy = () => hls.destroy();
+
+        let recoveredMedia = false;
+        hls.on(Hls.Events.ERROR, (_event, data) => {
+          if (!data.fatal) return;
+
+          // Decoding hiccups are worth one retry; anything else means the stream is gone
+          if (data.type === Hls.ErrorTypes.MEDIA_ERROR && !recoveredMedia) {
+            recoveredMedia = true;
+            hls.recoverMediaError();
+            return;
+          }
+
+          console.warn('[useHlsStream] Stream failed:', data.details);
+          hls.destroy();
+          destroy = undefined;
+          onFatalRef.current();
+        });
+
+        hls.loadSource(src);
+        hls.attachMedia(video);
+      })
+      .catch(error => {
+        console.error('[useHlsStream] Could not load hls.js:', error);
+        if (!cancelled) onFatalRef.current();
+      });
+
+    return () => {
+      cancelled = true;
+      destroy?.();
+    };
+  }, [video, src]);
+}
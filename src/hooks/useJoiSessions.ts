@@ -3,6 +3,7 @@ import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
 import { JoiSession, SharedSession, UserPreferences } from '@/types';
 import { toast } from 'sonner';
+import { DEFAULT_GALLERY_INTERVAL, DEFAULT_VIDEO_MAX_SECONDS, DEFAULT_VIDEO_TIMING } from '@/lib/constants';
 
 export function useJoiSessions() {
   const { user } = useAuth();
@@ -36,6 +37,7 @@ export function useJoiSessions() {
           session_id,
           owner_id,
           shared_with_id,
+          role,
           created_at,
           session:joi_sessions(*),
           owner:profiles!shared_sessions_owner_id_fkey(username, avatar_url)
@@ -111,7 +113,17 @@ export function useJoiSessions() {
           interval: sessionData.interval || 10,
           transition: sessionData.transition || 'fade',
           is_favorite: sessionData.is_favorite || false,
-          is_public: sessionData.is_public || false
+          is_public: sessionData.is_public || false,
+          subreddit_settings: sessionData.subreddit_settings || [],
+          vision_captions: sessionData.vision_captions || false,
+          video_audio: sessionData.video_audio ?? null,
+          video_timing: sessionData.video_timing || DEFAULT_VIDEO_TIMING,
+          video_max_seconds: sessionData.video_max_seconds || DEFAULT_VIDEO_MAX_SECONDS,
+          gallery_interval: sessionData.gallery_interval || DEFAULT_GALLERY_INTERVAL,
+          content_filters: sessionData.content_filters || {},
+          tags: sessionData.tags || [],
+          is_listed: sessionData.is_listed ?? true,
+          forked_from: sessionData.forked_from ?? null
         })
         .select()
         .single();
@@ -182,12 +194,12 @@ export function useJoiSessions() {
         updatesFields: Object.keys(updates)
       });
 
-      // First check if the session exists and belongs to the user
+      // First check if the session exists and is the user's or shared with them;
+      // the database decides which fields a collaborator may change
       const { data: existingSession, error: checkError } = await supabase
         .from('joi_sessions')
-        .select('id')
+        .select('id, user_id')
         .eq('id', id)
-        .eq('user_id', user.id)
         .maybeSingle();
 
       if (checkError) {
@@ -204,7 +216,7 @@ export function useJoiSessions() {
         const { data: duplicateTitle, error: titleCheckError } = await supabase
           .from('joi_sessions')
           .select('id')
-          .eq('user_id', user.id)
+          .eq('user_id', existingSession.user_id) // Titles are unique per owner
           .eq('title', updates.title)
           .neq('id', id) // Exclude current session
           .maybeSingle();
@@ -220,8 +232,7 @@ export function useJoiSessions() {
       const { data, error } = await supabase
         .from('joi_sessions')
         .update(updates)
-        .eq('id', id)
-        .eq('user_id', user.id) // Ensure user can only update their own sessions
+        .eq('id', id) // Row-level security limits this to the owner, editors and co-owners
         .select()
         .single();
 
@@ -229,7 +240,7 @@ export function useJoiSessions() {
         // Parse the error for better user feedback
         if (error.code === '23505') {
           throw new Error('A session with this title already exists. Please choose a different title.');
-        } else if (error.code === '42501') {
+        } else if (error.code === '42501' || error.code === 'PGRST116') {
           throw new Error('You don\'t have permission to update this session.');
         } else if (error.code?.startsWith('22')) {
           throw new Error('Invalid data format. Please check your inputs.');
@@ -424,25 +435,6 @@ export function useJoiSessions() {
     }
   };
 
-  // Load session by shared URL ID
-  const loadSessionByShareId = async (shareId: string): Promise<JoiSession | null> => {
-    try {
-      const { data, error } = await supabase
-        .from('joi_sessions')
-        .select('*')
-        .eq('shared_url_id', shareId)
-        .eq('is_public', true)
-        .single();
-
-      if (error) throw error;
-      return data;
-    } catch (err) {
-      console.error('Error loading shared session:', err);
-      toast.error('Failed to load shared session');
-      return null;
-    }
-  };
-
   // Save a shared session as your own (creates a copy)
   const saveSharedSession = async (session: JoiSession): Promise<JoiSession | null> => {
     if (!user) {
@@ -457,7 +449,9 @@ export function useJoiSessions() {
       const newSession = await createSession({
         ...sessionData,
         title: `Copy of ${session.title}`,
-        is_public: false
+        is_public: false,
+        // The database records which revision of the original this copy starts from
+        forked_from: session.id
       });
 
       toast.success('Session saved to your library');
@@ -538,7 +532,6 @@ export function useJoiSessions() {
     shareSessionWithUser,
     unshareSession,
     removeSharedAccess,
-    loadSessionByShareId,
     saveSharedSession,
     createSessionFromPreferences,
     applySessionToPreferences,
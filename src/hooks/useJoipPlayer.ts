@@ -1,66 +1,174 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { Subreddit, RedditPost, TransitionEffect } from '@/types';
+import { useState, useEffect, useCallback, useRef, useMemo, useReducer } from 'react';
+import { Subreddit, RedditPost, TransitionEffect, VideoTiming } from '@/types';
+import {
+  DEFAULT_GALLERY_INTERVAL,
+  DEFAULT_VIDEO_MAX_SECONDS,
+  DEFAULT_VIDEO_TIMING,
+  MEDIA_STALL_TIMEOUT_SECONDS,
+  PAGINATION_PREFETCH_THRESHOLD,
+  TRANSITION_DURATIONS
+} from '@/lib/constants';
+import {
+  createPlayQueue,
+  interleaveByWeight,
+  playQueueReducer,
+  PlayQueueAction,
+  RepeatMode
+} from '@/lib/utils/play-queue';
+import {
+  MediaPlaybackEvent,
+  MediaStatus,
+  mediaStatusFor,
+  shouldLoopVideo,
+  slideDuration
+} from '@/lib/utils/slide-timing';
 
 interface UseJoipPlayerProps {
   subreddits: Subreddit[];
   interval: number;
+  galleryInterval?: number; // Seconds per gallery item; galleries play fully before the next post
+  videoTiming?: VideoTiming; // How long video slides stay up
+  videoMaxSeconds?: number; // Cap for the 'max' video timing
   transition: TransitionEffect;
   paused?: boolean;
+  repeat?: RepeatMode;
+  onNearEnd?: () => void; // Called when playback gets within nearEndThreshold posts of the end
+  onDeadMedia?: (post: RedditPost) => void; // Called when a post is skipped because its media failed on screen
+  nearEndThreshold?: number;
 }
 
-// Define transition durations for each effect type - MUST match MediaDisplay.tsx durations
-const TRANSITION_DURATIONS: { [key in TransitionEffect]: number } = {
-  fade: 300,  // Matches duration-300
-  slide: 300, // Matches duration-300
-  zoom: 300,  // Matches duration-300
-  flip: 400,  // Matches duration-400
-};
-
-export function useJoipPlayer({ 
-  subreddits, 
-  interval, 
+/**
+ * Playback engine shared by every slideshow view.
+ * Keeps an explicit play queue built from the fetched subreddits and handles
+ * auto-advance, transitions, "play next" inserts, repeat modes and a history
+ * stack so "previous" returns to what was actually shown, even after the post
+ * list has been refreshed. Gallery posts step through their items as sub-slides
+ * before auto-advance moves on. `onNearEnd` lets the caller fetch more posts before the
+ * queue runs out.
+ *
+ * Slide time only runs while the media is actually on screen: the display reports
+ * load, buffering, playback and end events through `reportMedia`, and the timer waits
+ * for the first and pauses on stalls. Videos are timed by `videoTiming`. Posts whose
+ * media fails to load on screen are skipped and handed to `onDeadMedia`.
+ */
+export function useJoipPlayer({
+  subreddits,
+  interval,
+  galleryInterval = DEFAULT_GALLERY_INTERVAL,
+  videoTiming = DEFAULT_VIDEO_TIMING,
+  videoMaxSeconds = DEFAULT_VIDEO_MAX_SECONDS,
   transition,
-  paused = false 
+  paused = false,
+  repeat: initialRepeat = 'all',
+  onNearEnd,
+  onDeadMedia,
+  nearEndThreshold = PAGINATION_PREFETCH_THRESHOLD
 }: UseJoipPlayerProps) {
-  // Flatten all posts from all subreddits into a single array
-  const allPosts = subreddits.flatMap(sub => sub.posts);
-  
-  const [currentIndex, setCurrentIndex] = useState(0);
-  const [currentPost, setCurrentPost] = useState<RedditPost | null>(null);
+  const [queue, dispatch] = useReducer(playQueueReducer, undefined, createPlayQueue);
+  const [repeat, setRepeat] = useState<RepeatMode>(initialRepeat);
   const [isTransitioning, setIsTransitioning] = useState(false);
   const [transitionDirection, setTransitionDirection] = useState<'next' | 'prev'>('next');
-  
+
   // Ref to keep track of the transition animation ID (for cleanup)
   const transitionTimerRef = useRef<number | null>(null);
-  
+
   // Flag to prevent triggering multiple transitions simultaneously
   const isTransitioningRef = useRef(false);
-  
-  // Calculate total number of posts
-  const totalPosts = allPosts.length;
 
-  // Get current post
+  // Posts whose media turned out to be unplayable; kept out of the queue across refreshes
+  const skippedIdsRef = useRef(new Set<string>());
+  // Skipped posts that were on screen, taken out of the queue once playback has moved on
+  const pendingRemovalRef = useRef<string[]>([]);
+
+  // Interleave posts from all subreddits, honouring each subreddit's mix weight
+  const allPosts = useMemo(() => {
+    const posts = interleaveByWeight(subreddits);
+    // Skipped posts the listings no longer carry can't come back; forget them
+    const fetchedIds = new Set(posts.map(post => post.id));
+    skippedIdsRef.current.forEach(id => {
+      if (!fetchedIds.has(id)) skippedIdsRef.current.delete(id);
+    });
+    return posts.filter(post => !skippedIdsRef.current.has(post.id));
+  }, [subreddits]);
+
+  // Rebuild the queue whenever the post list changes; the current post is kept in place
   useEffect(() => {
-    if (totalPosts > 0 && allPosts[currentIndex]) {
-      console.log(`[JoipPlayer] Setting current post: ${allPosts[currentIndex].id}`, {
-        title: allPosts[currentIndex].title.substring(0, 30) + '...',
-        isImage: allPosts[currentIndex].isImage, 
-        isVideo: allPosts[currentIndex].isVideo,
-        subreddit: allPosts[currentIndex].subreddit,
-        hasUrl: !!allPosts[currentIndex].url,
-        hasVideoUrl: !!allPosts[currentIndex].videoUrl
-      });
-      setCurrentPost(allPosts[currentIndex]);
-    } else {
-      console.log(`[JoipPlayer] No posts available to display:`, { 
-        totalPosts, 
-        subredditCount: subreddits.length,
-        subreddits: subreddits.map(s => s.name).join(', '),
-        subredditErrors: subreddits.filter(s => s.error).map(s => `${s.name}: ${s.error}`).join(', ')
-      });
-      setCurrentPost(null);
+    dispatch({ type: 'sync', posts: allPosts });
+  }, [allPosts]);
+
+  useEffect(() => {
+    setRepeat(initialRepeat);
+  }, [initialRepeat]);
+
+  const currentPost: RedditPost | null = queue.items[queue.position] ?? null;
+  const currentPostId = currentPost?.id;
+  const currentIndex = Math.max(queue.position, 0);
+
+  // Skipped posts that were on screen leave the queue (including "play next" inserts) once it moves on
+  useEffect(() => {
+    if (pendingRemovalRef.current.length === 0) return;
+    const ids = pendingRemovalRef.current.filter(id => id !== currentPostId);
+    pendingRemovalRef.current = pendingRemovalRef.current.filter(id => id === currentPostId);
+    if (ids.length > 0) {
+      dispatch({ type: 'remove', ids });
     }
-  }, [currentIndex, allPosts, totalPosts, subreddits]);
+  }, [currentPostId]);
+  const totalPosts = queue.items.length;
+  const upNext = useMemo(() => queue.items.slice(queue.position + 1), [queue.items, queue.position]);
+
+  // Position inside the current post's gallery. Keyed to the post and queue cycle so it
+  // starts over from the first item whenever a post comes (back) on screen.
+  const galleryKey = `${currentPost?.id ?? ''}:${queue.cycle}`;
+  const [galleryState, setGalleryState] = useState({ key: '', index: 0 });
+  const galleryLength = currentPost?.gallery.length ?? 0;
+  const galleryIndex = galleryState.key === galleryKey ? Math.min(galleryState.index, Math.max(galleryLength - 1, 0)) : 0;
+
+  // The media on screen and what the display last said about it. Keyed by media ID, so a
+  // slide that stays up (repeat-one) keeps its status instead of waiting for a reload.
+  const currentMedia = galleryLength > 1 ? currentPost?.gallery[galleryIndex] : currentPost;
+  const currentMediaId = currentMedia?.id ?? '';
+  const [mediaState, setMediaState] = useState<{ mediaId: string; status: MediaStatus; duration?: number }>({
+    mediaId: '',
+    status: 'loading'
+  });
+  const mediaStatus: MediaStatus = mediaState.mediaId === currentMediaId ? mediaState.status : 'loading';
+  const mediaDuration = mediaState.mediaId === currentMediaId ? mediaState.duration : undefined;
+
+  // Display time already spent on the current slide, kept across pauses and stalls
+  const slideKey = `${galleryKey}:${galleryIndex}`;
+  const elapsedRef = useRef({ key: '', ms: 0 });
+
+  const holdsSlide = repeat === 'one' || totalPosts <= 1;
+  const loopVideo = shouldLoopVideo(videoTiming, holdsSlide);
+
+  // Called by the display with load/playback events for the media it shows. Late events
+  // from the slide that just left (e.g. its video pausing) are ignored.
+  const currentMediaIdRef = useRef(currentMediaId);
+  currentMediaIdRef.current = currentMediaId;
+  const reportMedia = useCallback((event: MediaPlaybackEvent) => {
+    if (event.mediaId !== currentMediaIdRef.current) return;
+    setMediaState(previous => ({
+      mediaId: event.mediaId,
+      status: mediaStatusFor(event.type),
+      duration: event.duration ?? (previous.mediaId === event.mediaId ? previous.duration : undefined)
+    }));
+  }, []);
+
+  // Keep the latest callback without re-running the near-end check on every render
+  const onNearEndRef = useRef(onNearEnd);
+  onNearEndRef.current = onNearEnd;
+  const onDeadMediaRef = useRef(onDeadMedia);
+  onDeadMediaRef.current = onDeadMedia;
+  const currentPostIdRef = useRef(currentPostId);
+  currentPostIdRef.current = currentPostId;
+
+  // Ask for more posts as playback approaches the end of the queue
+  useEffect(() => {
+    if (!onNearEndRef.current || totalPosts === 0 || queue.position < 0) return;
+    if (totalPosts - queue.position - 1 <= nearEndThreshold) {
+      onNearEndRef.current();
+    }
+  }, [queue.position, totalPosts, nearEndThreshold]);
 
   // Cleanup function for transition timers
   const clearTransitionTimers = useCallback(() => {
@@ -71,7 +179,7 @@ export function useJoipPlayer({
   }, []);
 
   // Handle transition sequence with proper timing
-  const handleTransition = useCallback((direction: 'next' | 'prev', newIndex: number) => {
+  const handleTransition = useCallback((direction: 'next' | 'prev', action: PlayQueueAction) => {
     if (isTransitioningRef.current) return;  // Skip without logging
     isTransitioningRef.current = true;
     setTransitionDirection(direction);
@@ -79,7 +187,7 @@ export function useJoipPlayer({
     clearTransitionTimers();
     const duration = TRANSITION_DURATIONS[transition] || 300;
     transitionTimerRef.current = window.setTimeout(() => {
-      setCurrentIndex(newIndex);
+      dispatch(action);
       setIsTransitioning(false);
       isTransitioningRef.current = false;
       transitionTimerRef.current = null;
@@ -88,33 +196,108 @@ export function useJoipPlayer({
 
   // Set up timer for auto-advancing
   useEffect(() => {
-    if (paused || totalPosts <= 1 || interval <= 0 || isTransitioningRef.current) {
+    if (paused || queue.ended || totalPosts === 0 || interval <= 0 || isTransitioningRef.current) {
       return;  // Early return without logging
     }
+    if (elapsedRef.current.key !== slideKey) {
+      elapsedRef.current = { key: slideKey, ms: 0 };
+    }
+
+    // Wait for the media, but not forever: a slide that never loads still moves on
+    if (mediaStatus === 'loading' || mediaStatus === 'buffering') {
+      const stallTimer = setTimeout(() => {
+        setMediaState({ mediaId: currentMediaId, status: 'ready', duration: mediaDuration });
+      }, MEDIA_STALL_TIMEOUT_SECONDS * 1000);
+      return () => {
+        clearTimeout(stallTimer);
+      };
+    }
+
+    const hasMoreGalleryItems = galleryIndex < galleryLength - 1;
+    const failed = mediaStatus === 'failed';
+    // A failed slide that would just be held again stays up as the "unavailable" card
+    if (failed && holdsSlide && !hasMoreGalleryItems) return;
+
+    const isVideo = Boolean(currentMedia?.isVideo);
+    const delay = failed || (mediaStatus === 'ended' && !loopVideo)
+      ? 0
+      : slideDuration(isVideo, galleryLength > 1, mediaDuration, { interval, galleryInterval, videoTiming, videoMaxSeconds });
+    const startedAt = Date.now();
     const timer = setTimeout(() => {
-      const nextIndex = (currentIndex + 1) % totalPosts;
-      handleTransition('next', nextIndex);
-    }, interval * 1000);
+      // A dead post is dropped for good; a dead gallery item only skips to the next item
+      if (failed && galleryLength <= 1 && currentPost) {
+        skippedIdsRef.current.add(currentPost.id);
+        pendingRemovalRef.current.push(currentPost.id);
+        onDeadMediaRef.current?.(currentPost);
+      }
+      if (hasMoreGalleryItems) {
+        setGalleryState({ key: galleryKey, index: galleryIndex + 1 });
+        return;
+      }
+      const isLast = queue.position >= totalPosts - 1;
+      if (repeat === 'one' || totalPosts <= 1 || (repeat === 'off' && isLast)) {
+        // Nothing to animate - just let the queue record the hold or the end
+        dispatch({ type: 'advance', repeat, manual: false });
+      } else {
+        handleTransition('next', { type: 'advance', repeat, manual: false });
+      }
+    }, Math.max(0, delay * 1000 - elapsedRef.current.ms));
     return () => {
       clearTimeout(timer);
-      clearTransitionTimers();
+      elapsedRef.current.ms += Date.now() - startedAt;
     };
-  }, [currentIndex, interval, totalPosts, paused, handleTransition, clearTransitionTimers]);
+  }, [
+    queue.cycle, queue.position, queue.ended, interval, galleryInterval, videoTiming, videoMaxSeconds,
+    galleryKey, galleryIndex, galleryLength, slideKey, currentPost, currentMedia, currentMediaId, mediaStatus, mediaDuration,
+    loopVideo, holdsSlide, totalPosts, paused, repeat, handleTransition
+  ]);
 
   // Navigation functions
   const goToNext = useCallback(() => {
     if (totalPosts <= 1 || isTransitioningRef.current) return;
-    
-    const nextIndex = (currentIndex + 1) % totalPosts;
-    handleTransition('next', nextIndex);
-  }, [totalPosts, currentIndex, handleTransition]);
+    handleTransition('next', { type: 'advance', repeat, manual: true });
+  }, [totalPosts, repeat, handleTransition]);
 
   const goToPrevious = useCallback(() => {
-    if (totalPosts <= 1 || isTransitioningRef.current) return;
-    
-    const prevIndex = (currentIndex - 1 + totalPosts) % totalPosts;
-    handleTransition('prev', prevIndex);
-  }, [totalPosts, currentIndex, handleTransition]);
+    if (isTransitioningRef.current) return;
+    if (queue.history.length === 0 && totalPosts <= 1) return;
+    handleTransition('prev', { type: 'back', repeat });
+  }, [queue.history.length, totalPosts, repeat, handleTransition]);
+
+  // Jump straight to a queue index
+  const jumpTo = useCallback((index: number) => {
+    if (index === queue.position || index < 0 || index >= totalPosts) return;
+    handleTransition(index > queue.position ? 'next' : 'prev', { type: 'jump', index });
+  }, [queue.position, totalPosts, handleTransition]);
+
+  // Show a specific item of the current gallery; auto-advance continues from there
+  const jumpToGalleryItem = useCallback((index: number) => {
+    if (index < 0 || index >= galleryLength) return;
+    setGalleryState({ key: galleryKey, index });
+  }, [galleryKey, galleryLength]);
+
+  // Queue a post to play right after the current one
+  const playNext = useCallback((post: RedditPost) => {
+    dispatch({ type: 'playNext', post });
+  }, []);
+
+  // Take a post out of the queue before it comes up because its media won't preload.
+  // Not handed to `onDeadMedia`: a preload can fail for reasons of its own
+  const skipPost = useCallback((postId: string) => {
+    if (skippedIdsRef.current.has(postId)) return;
+    skippedIdsRef.current.add(postId);
+    if (postId === currentPostIdRef.current) {
+      pendingRemovalRef.current.push(postId);
+    } else {
+      dispatch({ type: 'remove', ids: [postId] });
+    }
+  }, []);
+
+  // Start over from the top of the queue (e.g. after stopping at the end)
+  const restart = useCallback(() => {
+    if (totalPosts === 0) return;
+    handleTransition('next', { type: 'restart' });
+  }, [totalPosts, handleTransition]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -127,10 +310,27 @@ export function useJoipPlayer({
     currentPost,
     currentIndex,
     totalPosts,
+    galleryIndex,
+    galleryLength,
+    queue: queue.items,
+    upNext,
+    history: queue.history,
+    hasEnded: queue.ended,
+    repeat,
+    setRepeat,
     isTransitioning,
     transitionDirection,
     transition,
+    mediaStatus,
+    loopVideo,
+    reportMedia,
     goToNext,
-    goToPrevious
+    goToPrevious,
+    skip: goToNext,
+    jumpTo,
+    jumpToGalleryItem,
+    playNext,
+    skipPost,
+    restart
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,135 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { RedditPost } from '@/types';
+import { PRELOAD_AHEAD, PRELOAD_BUDGET_BYTES } from '@/lib/constants';
+import { PreloadTarget, planPreloads } from '@/lib/utils/media-preload';
+
+interface UseMediaPreloaderProps {
+  current: RedditPost | null;
+  galleryIndex: number;
+  upcoming: RedditPost[];
+  enabled?: boolean; // Off in data saver mode
+  onFailed?: (postId: string) => void; // A post's lead media couldn't be loaded
+}
+
+// Browsers that implement the Network Information API report the OS-level data saver
+function systemDataSaver(): boolean {
+  const connection = (navigator as Navigator & { connection?: { saveData?: boolean } }).connection;
+  return connection?.saveData === true;
+}
+
+// Decodes the image so showing it later doesn't stall on decoding either
+function preloadImage(url: string, onDone: (ok: boolean) => void): () => void {
+  const img = new window.Image();
+  let settled = false;
+  let cancelled = false;
+  img.decoding = 'async';
+  img.src = url;
+  img.decode()
+    .then(() => { settled = true; if (!cancelled) onDone(true); })
+    .catch(() => { settled = true; if (!cancelled) onDone(false); });
+  return () => {
+    cancelled = true;
+    // A finished image stays in the browser's cache for the display; only abort downloads
+    if (!settled) img.src = '';
+  };
+}
+
+// Buffers the start of the video in a detached, muted element
+function preloadVideo(url: string, onDone: (ok: boolean) => void): () => void {
+  const video = document.createElement('video');
+  const handleReady = () => onDone(true);
+  const handleError = () => onDone(false);
+  video.muted = true;
+  video.preload = 'auto';
+  video.addEventListener('canplaythrough', handleReady, { once: true });
+  video.addEventListener('error', handleError, { once: true });
+  video.src = url;
+  return () => {
+    video.removeEventListener('canplaythrough', handleReady);
+    video.removeEventListener('error', handleError);
+    // Stops the download
+    video.removeAttribute('src');
+    video.load();
+  };
+}
+
+function startPreload(target: PreloadTarget, onFailed: () => void): () => void {
+  let release = () => {};
+  const attempt = (index: number) => {
+    const url = target.urls[index];
+    if (!url) {
+      onFailed();
+      return;
+    }
+    const load = target.kind === 'video' ? preloadVideo : preloadImage;
+    release = load(url, ok => {
+      if (!ok) attempt(index + 1);
+    });
+  };
+  attempt(0);
+  return () => release();
+}
+
+/**
+ * Loads the next few slides in the background so they show without a spinner:
+ * images are fetched and decoded, videos buffered in hidden elements. How far ahead it
+ * looks is capped by a memory budget, and nothing is preloaded when the user or the
+ * system asks to save data. Preloads leaving the window are cancelled. A post whose
+ * media fails every fallback is reported through `onFailed` so it can be skipped
+ * before it comes up.
+ */
+export function useMediaPreloader({
+  current,
+  galleryIndex,
+  upcoming,
+  enabled = true,
+  onFailed,
+}: UseMediaPreloaderProps) {
+  // Release function per media key
+  const preloadsRef = useRef(new Map<string, () => void>());
+  // Posts already reported, so a failure is only passed on once
+  const reportedRef = useRef(new Set<string>());
+
+  const onFailedRef = useRef(onFailed);
+  onFailedRef.current = onFailed;
+
+  const active = enabled && !systemDataSaver();
+  const plan = useMemo(
+    () => active ? planPreloads(current, galleryIndex, upcoming, { count: PRELOAD_AHEAD, bytes: PRELOAD_BUDGET_BYTES }) : [],
+    [active, current, galleryIndex, upcoming]
+  );
+
+  useEffect(() => {
+    const preloads = preloadsRef.current;
+    const wanted = new Set(plan.map(target => target.key));
+
+    // Cancel what dropped out of the window (usually because it is on screen now)
+    preloads.forEach((release, key) => {
+      if (!wanted.has(key)) {
+        release();
+        preloads.delete(key);
+      }
+    });
+
+    for (const target of plan) {
+      if (preloads.has(target.key)) continue;
+      const release = startPreload(target, () => {
+        const postId = target.postId;
+        if (!postId || reportedRef.current.has(postId)) return;
+        reportedRef.current.add(postId);
+        console.warn(`[Preload] Media of post ${postId} failed to load, skipping it`);
+        onFailedRef.current?.(postId);
+      });
+      preloads.set(target.key, release);
+    }
+  }, [plan]);
+
+  // Cancel everything on unmount
+  useEffect(() => {
+    const preloads = preloadsRef.current;
+    return () => {
+      preloads.forEach(release => release());
+      preloads.clear();
+    };
+  }, []);
+}
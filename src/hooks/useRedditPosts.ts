@@ -1,99 +1,155 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
-import { Subreddit, RedditPost } from '@/types';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Subreddit, RedditPost, SubredditSource, ContentFilters } from '@/types';
 import { useRedditAuth } from '@/contexts/RedditAuthContext';
-import { API_ENDPOINTS, REDDIT_USER_AGENT } from '@/lib/constants';
+import { DEFAULT_POSTS_PER_SORT } from '@/lib/constants';
+import { supabase } from '@/lib/supabase';
 import { shuffle } from 'lodash';
 import { toast } from 'sonner';
+import { mergePosts } from '@/lib/utils/post-merge';
+import { getListingSpecs, ListingSpec, resolveSubredditSources } from '@/lib/utils/subreddit-sources';
+import { applyContentFilters, parseContentFilters } from '@/lib/utils/content-filters';
 
-// Helper function to decode HTML entities in URLs
-function decodeHTMLEntities(html: string): string {
-  const textarea = document.createElement('textarea');
-  textarea.innerHTML = html;
-  return textarea.value;
+// Reddit API rate limiting handler
+export interface RateLimitState {
+  isRateLimited: boolean;
+  rateLimitExpiry: number;
+  consecutiveErrors: number;
+  lastErrorTime: number;
 }
 
-// Helper function to clean and decode Reddit URLs
-function cleanRedditUrl(url: string): string {
-  if (!url) return '';
-  
-  // First decode any HTML entities
-  let cleanUrl = decodeHTMLEntities(url);
-  
-  // Reddit often has escaped characters in URLs
-  cleanUrl = cleanUrl.replace(/&amp;/g, '&');
-  
-  // Fix common URL escaping issues
-  cleanUrl = cleanUrl.replace(/\\"/g, '"')
-                     .replace(/\\\//g, '/');
-  
-  // Transform preview.redd.it URLs to i.redd.it for direct image access
-  // This often gives better quality and avoids CORS issues
-  if (cleanUrl.includes('preview.redd.it')) {
-    cleanUrl = cleanUrl.replace('preview.redd.it', 'i.redd.it');
-    // Remove all query parameters after the transformation
-    cleanUrl = cleanUrl.split('?')[0];
-  }
-  
-  // Remove query parameters that break image loading
-  // but preserve video parameters for Reddit videos that need them
-  if ((cleanUrl.includes('.jpg?') || 
-       cleanUrl.includes('.png?') || 
-       cleanUrl.includes('.gif?') || 
-       cleanUrl.includes('.webp?')) && 
-      !cleanUrl.includes('v.redd.it')) {
-    cleanUrl = cleanUrl.split('?')[0];
+// A page of a subreddit listing as served by the reddit-proxy function, already normalized
+interface ListingPage {
+  posts: RedditPost[];
+  removedIds: string[];
+  after: string | null; // Cursor for the next page, null on the last page
+}
+
+/**
+ * Turns the normalized posts fetched for one subreddit into the order we play them:
+ * deduplicated and shuffled. Whether NSFW posts are played at all is up to the
+ * session's content filters.
+ */
+function buildSubredditPosts(posts: RedditPost[]): RedditPost[] {
+  // Deduplicate posts based on ID; the same post often shows up in several listings
+  const uniquePostsMap = new Map<string, RedditPost>();
+  posts.forEach(post => {
+    if (!uniquePostsMap.has(post.id)) {
+      uniquePostsMap.set(post.id, post);
+    }
+  });
+
+  // Only posts new to the viewer take this order - the merge keeps seen posts in place
+  return shuffle(Array.from(uniquePostsMap.values()));
+}
+
+// Key for the pagination cursor of one listing of one subreddit
+function cursorKey(name: string, listing: ListingSpec): string {
+  return `${name}|${listing.label}`;
+}
+
+/**
+ * Fetches one page of a subreddit listing through the reddit-proxy function, which
+ * normalizes it, shares it with every other viewer for a short while and leaves out
+ * posts failing the given content filters. A 429 puts the shared rate limit state into
+ * backoff for as long as the proxy's Retry-After asks before the error is thrown.
+ */
+export async function fetchListingPage(
+  name: string,
+  listing: ListingSpec,
+  limit: number,
+  rateLimit: RateLimitState,
+  after?: string,
+  filters?: ContentFilters
+): Promise<ListingPage> {
+  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+  if (!supabaseUrl) {
+    throw new Error('Missing required Supabase environment variables');
   }
-  
-  // For v.redd.it video URLs, keep only necessary parameters
-  if (cleanUrl.includes('v.redd.it') && cleanUrl.includes('?')) {
-    // Extract the base URL and parameters
-    const [baseUrl, params] = cleanUrl.split('?');
-    // Parse parameters
-    const paramPairs = params.split('&');
-    // Keep only necessary parameters (like 'source' but not tracking params)
-    const necessaryParams = paramPairs.filter(pair => 
-      pair.startsWith('source=') || 
-      pair.startsWith('x=') || 
-      pair.startsWith('is_copy_url=')
-    );
-    
-    // Reconstruct the URL with only necessary parameters
-    cleanUrl = necessaryParams.length > 0 
-      ? `${baseUrl}?${necessaryParams.join('&')}` 
-      : baseUrl;
+
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('You must be logged in to view content');
   }
-  
-  // Ensure HTTPS
-  if (cleanUrl.startsWith('http://')) {
-    cleanUrl = cleanUrl.replace('http://', 'https://');
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/reddit-proxy`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`
+    },
+    body: JSON.stringify({
+      subreddit: name,
+      sort: listing.sort,
+      time: listing.params.t,
+      limit,
+      after,
+      filters
+    })
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error(`[Reddit] Error fetching r/${name}/${listing.sort}:`, response.status, errorData?.error?.message);
+
+    // Handle rate limiting specifically
+    if (response.status === 429) {
+      const retryAfter = response.headers.get('Retry-After');
+      const retrySeconds = retryAfter && /^\d+$/.test(retryAfter) ? parseInt(retryAfter, 10) : 60;
+
+      // Back off for as long as the proxy says the Reddit account needs
+      rateLimit.isRateLimited = true;
+      rateLimit.rateLimitExpiry = Date.now() + (retrySeconds * 1000);
+      throw new Error(`Rate limited by Reddit API. Retry after ${retrySeconds} seconds.`);
+    }
+
+    // Throw an error to be caught by Promise.allSettled
+    throw new Error(errorData?.error?.code === 'not_connected'
+      ? 'Please reconnect your Reddit account to continue'
+      : `Failed to fetch ${listing.sort}: ${response.status}`);
   }
-  
-  return cleanUrl;
-}
 
-// Reddit API rate limiting handler
-interface RateLimitState {
-  isRateLimited: boolean;
-  rateLimitExpiry: number;
-  consecutiveErrors: number;
-  lastErrorTime: number;
+  return response.json();
 }
 
 /**
- * Gets the current Reddit posts from a list of subreddits with enhanced NSFW content handling.
- * This hook fetches posts from Reddit with special handling to ensure NSFW content is properly included:
+ * Gets the current Reddit posts from a list of subreddits.
+ * Listings come from the reddit-proxy edge function, which fetches them with the user's
+ * Reddit account, extracts the media (preferring NSFW preview variants), flags NSFW posts,
+ * caches each page for every viewer and applies the session's content filters. This hook then:
  * 
- * 1. Uses multiple NSFW URL parameters to maximize the chances of including adult content
- * 2. Prioritizes NSFW preview variants when available in image and video content
- * 3. Implements special detection for NSFW content based on post attributes and title keywords
- * 4. Sorts results to prioritize NSFW content over other content
- * 5. Provides detailed logging to help debug content loading issues
+ * 1. Shuffles each subreddit's posts
+ * 2. Backs off when the proxy reports that the Reddit account is rate limited
+ * 3. Provides detailed logging to help debug content loading issues
+ *
+ * Each subreddit can be given as a plain name (default mix of hot + top of the day) or as a
+ * `SubredditSource` with its own sort, time window, post limit and mix weight.
+ *
+ * Background refreshes are merged into the existing order (see `mergePosts`) rather than
+ * replacing it, so the player's position stays valid and posts aren't shown twice.
+ *
+ * Deeper pages are fetched on demand with `loadMore`, which follows each listing's `after`
+ * cursor (kept per subreddit and sort) and appends the new posts behind the existing ones.
  */
-export function useRedditPosts(subredditNames: string[], refreshInterval: number) {
+export function useRedditPosts(
+  subredditInput: Array<string | SubredditSource>,
+  refreshInterval: number,
+  filterInput?: ContentFilters | null
+) {
+  // Normalize names and sources into full sources, keeping the array stable while the content is unchanged
+  const inputKey = JSON.stringify(subredditInput.map(entry => typeof entry === 'string' ? { name: entry } : entry));
+  const sources = useMemo(() => {
+    const inputSources = JSON.parse(inputKey) as SubredditSource[];
+    return resolveSubredditSources(inputSources.map(source => source.name), inputSources);
+  }, [inputKey]);
+  const subredditNames = useMemo(() => sources.map(source => source.name), [sources]);
+  // Same for the filters, which usually arrive as a fresh object with every session load
+  const filterKey = JSON.stringify(parseContentFilters(filterInput));
+  const contentFilters = useMemo(() => JSON.parse(filterKey) as ContentFilters, [filterKey]);
+
   const [subreddits, setSubreddits] = useState<Subreddit[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const { authState, getAccessToken } = useRedditAuth();
+  const { authState } = useRedditAuth();
   
   // Rate limit state tracking with exponential backoff
   const rateLimitState = useRef<RateLimitState>({
@@ -103,6 +159,16 @@ export function useRedditPosts(subredditNames: string[], refreshInterval: number
     lastErrorTime: 0
   });
 
+  // Next-page cursor per subreddit listing (see cursorKey); null once a listing is exhausted
+  const cursorsRef = useRef<Map<string, string | null>>(new Map());
+  const isLoadingMoreRef = useRef(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+
+  const updateHasMore = useCallback(() => {
+    setHasMore(Array.from(cursorsRef.current.values()).some(cursor => typeof cursor === 'string'));
+  }, []);
+
   // Helper function to calculate backoff time using exponential backoff algorithm
   const calculateBackoffTime = (consecutiveErrors: number): number => {
     // Base backoff time: 5 seconds
@@ -155,90 +221,49 @@ export function useRedditPosts(subredditNames: string[], refreshInterval: number
     setError(null);
 
     try {
-      // Get a fresh access token
-      const accessToken = await getAccessToken();
-      
-      if (!accessToken) {
-        // Instead of throwing an error, let's set a more user-friendly message
-        setError('Please reconnect your Reddit account to continue');
-        setIsLoading(false);
-        return;
-      }
-
       // console.log('[Reddit] Fetching posts for subreddits:', subredditNames); // Keep higher-level log in App.tsx if needed
 
       // Create an array to hold results for all subreddits
       const results: Subreddit[] = [];
+      // Posts each listing reported as removed, so the merge can drop them
+      const removedBySubreddit = new Map<string, Set<string>>();
       
-      // Reduced number of sort types to minimize API requests
-      // This helps with rate limiting while still providing diverse content
-      const sortTypes = ['hot', 'top?t=day']; // Removed 'new' and 'controversial' to reduce API load
-      const limitPerSort = 15; // Increased slightly to compensate for fewer sorts
-
       // Process each subreddit separately
-      for (const name of subredditNames) {
+      for (const source of sources) {
+        const { name } = source;
+        // Listings come from the subreddit's own settings; the default is a light
+        // mix of hot + top of the day to keep API usage down
+        const listings = getListingSpecs(source);
+        const sortTypes = listings.map(listing => listing.label);
+        const limitPerSort = source.limit ?? DEFAULT_POSTS_PER_SORT;
         let combinedPosts: RedditPost[] = [];
         let fetchError: string | undefined = undefined;
+        const removedIds = new Set<string>();
+        removedBySubreddit.set(name, removedIds);
 
         try {
           console.log(`[Reddit] Fetching posts for r/${name} using sort types: ${sortTypes.join(', ')}`);
 
           // Fetch from all sort types concurrently
-          const fetchPromises = sortTypes.map(sort => {
-            // Ensure NSFW content is included by adding all possible NSFW parameters
-            // Reddit has multiple parameters for NSFW content, and we include all of them
-            // to maximize chances of getting NSFW content correctly
-            const apiUrl = `${API_ENDPOINTS.REDDIT}/r/${name}/${sort}?limit=${limitPerSort}&raw_json=1&include_over_18=true&include_nsfw=1&nsfw=1&allow_over18=1&over_18=true&show_media=1`;
-            console.log(`[Reddit] Fetching from URL with NSFW params: ${apiUrl}`);
-            return fetch(apiUrl, {
-              headers: {
-                'Authorization': `Bearer ${accessToken}`,
-                'Content-Type': 'application/json',
-                'User-Agent': REDDIT_USER_AGENT
-              }
-            }).then(async response => {
-              if (!response.ok) {
-                const errorText = await response.text();
-                console.error(`[Reddit] Error fetching r/${name}/${sort}:`, response.status, errorText);
-                
-                // Handle rate limiting specifically
-                if (response.status === 429) {
-                  const retryAfter = response.headers.get('Retry-After');
-                  let retrySeconds = 60; // Default to 60 seconds if no header
-                  
-                  if (retryAfter) {
-                    // Parse the Retry-After header (could be seconds or a date)
-                    if (/^\d+$/.test(retryAfter)) {
-                      retrySeconds = parseInt(retryAfter, 10);
-                    } else {
-                      // It's a HTTP date
-                      const retryDate = new Date(retryAfter);
-                      retrySeconds = Math.max(10, Math.ceil((retryDate.getTime() - Date.now()) / 1000));
-                    }
-                  }
-                  
-                  // Apply rate limiting with the official time from Reddit
-                  rateLimitState.current.isRateLimited = true;
-                  rateLimitState.current.rateLimitExpiry = Date.now() + (retrySeconds * 1000);
-                  throw new Error(`Rate limited by Reddit API. Retry after ${retrySeconds} seconds.`);
-                }
-                
-                // Throw an error to be caught by Promise.allSettled
-                throw new Error(`Failed to fetch ${sort}: ${response.status}`);
-              }
-              return response.json();
-            });
-          });
+          const fetchPromises = listings.map(listing =>
+            fetchListingPage(name, listing, limitPerSort, rateLimitState.current, undefined, contentFilters)
+          );
 
           const settledResults = await Promise.allSettled(fetchPromises);
 
           // Process results from successful fetches
-          const allFetchedChildren: Record<string, unknown>[] = [];
+          const allFetchedPosts: RedditPost[] = [];
           settledResults.forEach((result, index) => {
             if (result.status === 'fulfilled') {
-              const data = result.value as { data?: { children?: Record<string, unknown>[] } };
-              if (data?.data?.children) {
-                allFetchedChildren.push(...data.data.children);
+              const data = result.value;
+              // Paging starts from the first page's cursor; later refreshes leave a deeper cursor alone
+              const key = cursorKey(name, listings[index]);
+              if (!cursorsRef.current.has(key)) {
+                cursorsRef.current.set(key, data?.after ?? null);
+              }
+              data?.removedIds?.forEach(id => removedIds.add(id));
+              if (data?.posts) {
+                allFetchedPosts.push(...data.posts);
               } else {
                  console.warn(`[Reddit] Invalid or empty response for r/${name}/${sortTypes[index]}`);
               }
@@ -248,362 +273,15 @@ export function useRedditPosts(subredditNames: string[], refreshInterval: number
             }
           });
 
-          console.log(`[Reddit] Fetched a total of ${allFetchedChildren.length} raw posts for r/${name} across all sort types.`);
+          console.log(`[Reddit] Fetched a total of ${allFetchedPosts.length} media posts for r/${name} across all sort types.`);
 
-          if (allFetchedChildren.length === 0 && settledResults.every(r => r.status === 'rejected')) {
+          if (allFetchedPosts.length === 0 && settledResults.every(r => r.status === 'rejected')) {
              throw new Error(`Failed to fetch any posts for r/${name} from any sort type.`);
           }
 
-          interface RedditApiPost {
-            id: string;
-            title: string;
-            url: string;
-            permalink: string;
-            author: string;
-            subreddit: string;
-            created_utc: number;
-            over_18: boolean;
-            removed_by_category?: unknown;
-            removed?: boolean;
-            post_hint?: string;
-            is_video?: boolean;
-            is_gallery?: boolean;
-            media?: {
-              reddit_video?: {
-                fallback_url?: string;
-              };
-              oembed?: {
-                thumbnail_url?: string;
-              };
-            };
-            preview?: {
-              images?: Array<{
-                source?: {
-                  url?: string;
-                };
-                variants?: {
-                  nsfw?: {
-                    source?: {
-                      url?: string;
-                    };
-                  };
-                  mp4?: {
-                    source?: {
-                      url?: string;
-                    };
-                  };
-                };
-              }>;
-              reddit_video_preview?: {
-                fallback_url?: string;
-              };
-            };
-            gallery_data?: {
-              items?: Array<{
-                media_id: string;
-              }>;
-            };
-            media_metadata?: Record<string, {
-              s?: {
-                u?: string;
-                gif?: string;
-              };
-              p?: Array<{
-                u: string;
-                x: number;
-                y: number;
-              }>;
-            }>;
-            thumbnail?: string;
-            crosspost_parent_list?: RedditApiPost[];
-          }
-
-          // Process posts (Map raw data to RedditPost structure)
-          const processedPosts: (RedditPost | null)[] = allFetchedChildren.map((child: Record<string, unknown>) => {
-            const post = child.data as RedditApiPost;
-            
-            // Skip if the post is removed or deleted
-            if (post.removed_by_category || post.removed) {
-              return null;
-            }
-            
-            // Log and prioritize NSFW content
-            if (post.over_18) {
-              console.log(`[Reddit] Processing NSFW post: ${post.id} (${post.title})`);
-              // This application prioritizes NSFW content
-            } else {
-              // Still process all content, but log non-NSFW for debugging
-              console.log(`[Reddit] Processing SFW post: ${post.id}`);
-            }
-            
-            // console.log('[Reddit] Post data:', JSON.stringify(post, null, 2).substring(0, 500) + '...'); // Too verbose for combined list
-            
-            // --- Start Refactored Media Logic ---
-
-            let imageUrl: string | undefined = undefined;
-            let videoUrl: string | undefined = undefined;
-            let isImage = false;
-            let isVideo = false;
-            let thumbnailUrl: string | undefined = (post.thumbnail && post.thumbnail !== 'self' && post.thumbnail !== 'default') ? post.thumbnail : undefined;
-
-            // console.log(`[Reddit Debug ${post.id}] Raw post data hint: ${post.post_hint}, url: ${post.url}, is_video: ${post.is_video}, is_gallery: ${post.is_gallery}`); // Verbose
-
-            // 1. Handle Reddit-Hosted Video (v.redd.it)
-            if (post.is_video && post.media?.reddit_video) {
-                // Process the video content
-                isVideo = true;
-                const fallbackUrl = post.media.reddit_video.fallback_url;
-                
-                if (fallbackUrl) {
-                    videoUrl = fallbackUrl;
-                    
-                    // Handle DASH playlist URLs
-                    if (videoUrl && videoUrl.includes('DASHPlaylist.mpd')) {
-                        const baseUrl = videoUrl.split('DASHPlaylist.mpd')[0];
-                        // Try to get the highest quality version available (720p preferred)
-                        videoUrl = `${baseUrl}DASH_720.mp4`;
-                        console.log(`[Reddit Debug ${post.id}] Constructed high-quality MP4 URL: ${videoUrl?.substring(0, 50)}...`);
-                    }
-                    
-                    // Remove redundant parameters
-                    if (videoUrl) {
-                        videoUrl = videoUrl.replace('?source=fallback', '');
-                    }
-                }
-                
-                // Handle video thumbnails - prioritize NSFW variants for NSFW content
-                if (post.over_18) {
-                    console.log(`[Reddit Debug ${post.id}] Processing NSFW video content`);
-                    
-                    // First priority: Use NSFW variant if available
-                    if (post.preview?.images?.[0]?.variants?.nsfw?.source?.url) {
-                        imageUrl = cleanRedditUrl(post.preview.images[0].variants.nsfw.source.url);
-                        console.log(`[Reddit Debug ${post.id}] Using NSFW preview variant for video: ${imageUrl?.substring(0, 50)}...`);
-                    } 
-                    // Second: Use normal preview image 
-                    else if (post.preview?.images?.[0]?.source?.url) {
-                        imageUrl = cleanRedditUrl(post.preview.images[0].source.url);
-                        console.log(`[Reddit Debug ${post.id}] Using standard preview for NSFW video: ${imageUrl?.substring(0, 50)}...`);
-                    }
-                    // Last resort: Use thumbnail
-                    else {
-                        imageUrl = post.thumbnail || '';
-                        console.log(`[Reddit Debug ${post.id}] Using thumbnail for NSFW video: ${imageUrl?.substring(0, 50)}...`);
-                    }
-                } 
-                // For SFW videos, use standard thumbnail hierarchy
-                else {
-                    if (post.preview?.images?.[0]?.source?.url) {
-                        imageUrl = cleanRedditUrl(post.preview.images[0].source.url);
-                        console.log(`[Reddit Debug ${post.id}] Using standard preview for video: ${imageUrl?.substring(0, 50)}...`);
-                    } else {
-                        imageUrl = post.thumbnail || '';
-                        console.log(`[Reddit Debug ${post.id}] Using thumbnail for video: ${imageUrl?.substring(0, 50)}...`);
-                    }
-                }
-                
-                thumbnailUrl = thumbnailUrl || imageUrl;
-            }
-            // 2. Handle Reddit Galleries
-            else if (post.is_gallery && post.gallery_data?.items && post.gallery_data.items.length > 0 && post.media_metadata) {
-                // console.log(`[Reddit Debug ${post.id}] Type: Gallery`); // Verbose
-                isImage = true;
-                const firstItemId = post.gallery_data.items[0].media_id;
-                const firstItemMeta = post.media_metadata[firstItemId];
-                
-                if (firstItemMeta?.s?.u) {
-                    imageUrl = cleanRedditUrl(firstItemMeta.s.u);
-                    console.log(`[Reddit Debug ${post.id}] Using gallery high-res source URL`);
-                } else if (firstItemMeta?.s?.gif) {
-                    imageUrl = cleanRedditUrl(firstItemMeta.s.gif);
-                    console.log(`[Reddit Debug ${post.id}] Using gallery GIF source URL`);
-                } else if (firstItemMeta?.p && firstItemMeta.p.length > 0) {
-                    const highestResPreview = firstItemMeta.p[firstItemMeta.p.length - 1];
-                    imageUrl = cleanRedditUrl(highestResPreview.u);
-                    console.log(`[Reddit Debug ${post.id}] Using gallery preview URL (resolution: ${highestResPreview.x}x${highestResPreview.y})`);
-                }
-                
-                thumbnailUrl = thumbnailUrl || imageUrl;
-                console.log(`[Reddit Debug ${post.id}] Gallery URLs - Image: ${imageUrl}, Thumbnail: ${thumbnailUrl}`);
-            }
-            // 3. Handle Rich Videos (Gfycat, Redgifs, Imgur GIFV, Streamable etc.)
-            else if (post.post_hint === 'rich:video' || (post.url && post.url.includes('.gifv'))) {
-                 // console.log(`[Reddit Debug ${post.id}] Type: Rich Video/Gifv`); // Verbose
-                 isVideo = true;
-                 if (post.preview?.reddit_video_preview?.fallback_url) {
-                     videoUrl = cleanRedditUrl(post.preview.reddit_video_preview.fallback_url.replace('?source=fallback', ''));
-                 } else if (post.url.includes('.gifv')) {
-                     videoUrl = cleanRedditUrl(post.url.replace('.gifv', '.mp4'));
-                 } else if (post.preview?.images?.[0]?.variants?.mp4?.source?.url) {
-                     videoUrl = cleanRedditUrl(post.preview.images[0].variants.mp4.source.url);
-                 }
-                 imageUrl = cleanRedditUrl(post.media?.oembed?.thumbnail_url || thumbnailUrl || '');
-                 thumbnailUrl = thumbnailUrl || imageUrl;
-            }
-            // 4. Handle Direct Image Links (including i.redd.it, imgur direct)
-            else if (post.post_hint === 'image' || (post.url && /\.(jpg|jpeg|png|gif|webp)$/i.test(post.url))) {
-                // console.log(`[Reddit Debug ${post.id}] Type: Direct Image`); // Verbose
-                isImage = true;
-                
-                // Check for NSFW content first - prefer NSFW variants when available
-                if (post.over_18) {
-                  console.log(`[Reddit Debug ${post.id}] Processing NSFW image content`);
-                  
-                  // 1. Check for NSFW variant in preview (highest priority for NSFW content)
-                  if (post.preview?.images?.[0]?.variants?.nsfw?.source?.url) {
-                    imageUrl = cleanRedditUrl(post.preview.images[0].variants.nsfw.source.url);
-                    console.log(`[Reddit Debug ${post.id}] Using NSFW variant URL: ${imageUrl?.substring(0, 50)}...`);
-                  } 
-                  // 2. Check for direct NSFW URL
-                  else if (post.url && (
-                    post.url.includes('i.redd.it') ||
-                    post.url.includes('i.imgur.com') ||
-                    /\.(jpg|jpeg|png|gif|webp)$/i.test(post.url)
-                  )) {
-                    imageUrl = cleanRedditUrl(post.url);
-                    console.log(`[Reddit Debug ${post.id}] Using direct NSFW image URL: ${imageUrl?.substring(0, 50)}...`);
-                  }
-                  // 3. Fall back to regular source
-                  else if (post.preview?.images?.[0]?.source?.url) {
-                    imageUrl = cleanRedditUrl(post.preview.images[0].source.url);
-                    console.log(`[Reddit Debug ${post.id}] Using regular source for NSFW content: ${imageUrl?.substring(0, 50)}...`);
-                  }
-                  // 4. Last resort, use any URL provided
-                  else {
-                    imageUrl = cleanRedditUrl(post.url || '');
-                    console.log(`[Reddit Debug ${post.id}] Falling back to post URL for NSFW content: ${imageUrl?.substring(0, 50)}...`);
-                  }
-                }
-                // For SFW content, use normal logic
-                else {
-                  if (post.url && (
-                    post.url.includes('i.redd.it') ||
-                    post.url.includes('i.imgur.com') ||
-                    /\.(jpg|jpeg|png|gif|webp)$/i.test(post.url)
-                  )) {
-                    imageUrl = cleanRedditUrl(post.url);
-                    console.log(`[Reddit Debug ${post.id}] Using direct image URL: ${imageUrl?.substring(0, 50)}...`);
-                  } else if (post.preview?.images?.[0]?.source?.url) {
-                    imageUrl = cleanRedditUrl(post.preview.images[0].source.url);
-                    console.log(`[Reddit Debug ${post.id}] Using high-res preview source: ${imageUrl?.substring(0, 50)}...`);
-                  } else {
-                    imageUrl = cleanRedditUrl(post.url || '');
-                    console.log(`[Reddit Debug ${post.id}] Falling back to post URL: ${imageUrl?.substring(0, 50)}...`);
-                  }
-                }
-                
-                thumbnailUrl = thumbnailUrl || imageUrl;
-            }
-            // 5. Handle Linked Videos (MP4/WebM direct links, less common)
-            else if (post.post_hint === 'link' && post.url && /\.(mp4|webm)$/i.test(post.url)) {
-                // console.log(`[Reddit Debug ${post.id}] Type: Linked Video`); // Verbose
-                isVideo = true;
-                videoUrl = cleanRedditUrl(post.url);
-                imageUrl = thumbnailUrl;
-            }
-            // 6. Handle Crossposts if no media found yet
-            else if (!isVideo && !isImage && post.crosspost_parent_list && post.crosspost_parent_list.length > 0) {
-                // console.log(`[Reddit Debug ${post.id}] Type: Crosspost - Checking parent`); // Verbose
-                const parent = post.crosspost_parent_list[0];
-                if (parent.is_video && parent.media?.reddit_video?.fallback_url) {
-                    isVideo = true;
-                    videoUrl = cleanRedditUrl(parent.media.reddit_video.fallback_url.replace('?source=fallback', ''));
-                    imageUrl = cleanRedditUrl(parent.preview?.images?.[0]?.source?.url || parent.thumbnail || '');
-                    console.log(`[Reddit Debug ${post.id}] Using Crosspost Parent Video`);
-                } else if (parent.post_hint === 'image' || /\.(jpg|jpeg|png|gif|webp)$/i.test(parent.url)) {
-                    isImage = true;
-                    imageUrl = cleanRedditUrl(parent.preview?.images?.[0]?.source?.url || parent.url || '');
-                     console.log(`[Reddit Debug ${post.id}] Using Crosspost Parent Image`);
-                }
-                thumbnailUrl = thumbnailUrl || imageUrl || parent.thumbnail;
-            }
-
-            // 7. Final Fallback - Use thumbnail as image if nothing else worked
-            if (!isImage && !isVideo && thumbnailUrl) {
-               // console.log(`[Reddit Debug ${post.id}] Type: Fallback to Thumbnail`); // Verbose
-               isImage = true;
-               imageUrl = thumbnailUrl;
-            }
-
-            imageUrl = imageUrl || undefined;
-            videoUrl = videoUrl || undefined;
-            thumbnailUrl = thumbnailUrl || imageUrl;
-
-            if (!isImage && !isVideo) {
-                // console.warn(`[Reddit Skip ${post.id}] No media identified. URL: ${post.url}, Hint: ${post.post_hint}`); // Verbose
-                return null;
-            }
-
-            // console.log(`[Reddit Processed ${post.id}] Result - isImage: ${isImage}, isVideo: ${isVideo}, imageUrl: ${imageUrl}, videoUrl: ${videoUrl}, thumbnailUrl: ${thumbnailUrl}`); // Too verbose
-
-            // --- End Refactored Media Logic ---
-
-            // Final check: Ensure we have a usable URL for display
-            if (!imageUrl) {
-                console.warn(`[Reddit Skip ${post.id}] Final URL check failed. No valid imageUrl derived.`);
-                return null;
-            }
-
-            return {
-              id: post.id,
-              title: post.title,
-              url: imageUrl, // Now guaranteed to be string here
-              permalink: `https://reddit.com${post.permalink}`,
-              author: post.author,
-              subreddit: post.subreddit,
-              created: post.created_utc,
-              isImage,
-              isVideo,
-              videoUrl, // Specific URL for video playback
-              thumbnailUrl, // Thumbnail specific URL
-            };
-          });
-
-          // Filter out null values (including those where imageUrl was missing)
-          const validPosts = processedPosts.filter((post): post is RedditPost => post !== null);
-
-          // Deduplicate posts based on ID
-          const uniquePostsMap = new Map<string, RedditPost>();
-          validPosts.forEach(post => {
-            if (!uniquePostsMap.has(post.id)) {
-              uniquePostsMap.set(post.id, post);
-            }
-          });
-          const uniquePosts = Array.from(uniquePostsMap.values());
-
-          console.log(`[Reddit] Processed ${uniquePosts.length} unique posts with media for r/${name} after deduplication.`);
-
-          // We need to add an over_18 property to our RedditPost type internally to track NSFW content
-          // Since we don't want to modify the type definition, we'll use a temporary array with assertion
-          const postsWithNsfwFlag = uniquePosts.map(post => ({
-            ...post,
-            isNSFW: Boolean(
-              // Check if title contains NSFW markers (common on Reddit)
-              post.title?.toLowerCase().includes('nsfw') || 
-              post.title?.toLowerCase().includes('[over 18]') ||
-              post.title?.toLowerCase().includes('over18') ||
-              post.title?.toLowerCase().includes('over 18') ||
-              post.title?.toLowerCase().includes('18+') ||
-              post.title?.toLowerCase().includes('adult') ||
-              // For debugging, we can inspect the ID pattern (t3_ prefix is common for Reddit posts)
-              (post.id.includes('t3_') && 'over_18' in post && post.over_18 === true)
-            )
-          }));
-          
-          // Now separate posts - prioritize anything that might be NSFW
-          const nsfwPosts = postsWithNsfwFlag.filter(post => post.isNSFW);
-          const otherPosts = postsWithNsfwFlag.filter(post => !post.isNSFW);
-          
-          console.log(`[Reddit] Found ${nsfwPosts.length} NSFW-flagged posts and ${otherPosts.length} other posts for r/${name}`);
+          combinedPosts = buildSubredditPosts(allFetchedPosts);
           
-          // Shuffle each group separately to maintain randomness within groups
-          const shuffledNsfw = shuffle(nsfwPosts);
-          const shuffledOther = shuffle(otherPosts);
-          
-          // Prioritize NSFW content by putting it first in the array
-          combinedPosts = [...shuffledNsfw, ...shuffledOther];
-          
-          console.log(`[Reddit] Shuffled and prioritized ${combinedPosts.length} total posts for r/${name} with NSFW prioritization.`);
+          console.log(`[Reddit] Shuffled ${combinedPosts.length} total posts for r/${name}.`);
 
         } catch (err) {
           // Catch errors specific to fetching/processing this subreddit
@@ -626,12 +304,24 @@ export function useRedditPosts(subredditNames: string[], refreshInterval: number
         results.push({
           name,
           posts: combinedPosts, // Empty if error occurred
-          error: fetchError // Undefined if successful
+          error: fetchError, // Undefined if successful
+          weight: source.weight
         });
       } // End loop over subredditNames
 
-      // Set all subreddits results, even those with errors
-      setSubreddits(results);
+      // Merge into the existing order instead of replacing it. A subreddit that failed
+      // this time keeps the posts it already had, with the error attached.
+      setSubreddits(prev => results.map(result => {
+        const existing = prev.find(sub => sub.name === result.name);
+        if (!existing) return result;
+        return {
+          ...result,
+          posts: result.error && result.posts.length === 0
+            ? existing.posts
+            : mergePosts(existing.posts, result.posts, removedBySubreddit.get(result.name))
+        };
+      }));
+      updateHasMore();
 
       // Only set overall error if ALL subreddits failed
       const allFailed = results.every(subreddit => subreddit.error && subreddit.posts.length === 0);
@@ -686,7 +376,84 @@ export function useRedditPosts(subredditNames: string[], refreshInterval: number
     } finally {
       setIsLoading(false);
     }
-  }, [authState.isAuthenticated, authState.refreshToken, getAccessToken, rateLimitState, setError, setIsLoading, setSubreddits, subredditNames]);
+  }, [authState.isAuthenticated, rateLimitState, setError, setIsLoading, setSubreddits, subredditNames, sources, contentFilters, updateHasMore]);
+
+  /**
+   * Fetches the next page of every listing that still has a cursor and appends the new
+   * posts to their subreddits. Runs in the background: failures are logged rather than
+   * surfaced, and nothing is fetched while Reddit has us rate limited.
+   */
+  const loadMore = useCallback(async () => {
+    if (isLoadingMoreRef.current || !authState.isAuthenticated) return;
+
+    if (rateLimitState.current.isRateLimited && Date.now() < rateLimitState.current.rateLimitExpiry) {
+      console.log('[Reddit] Skipping next page fetch due to rate limiting');
+      return;
+    }
+
+    const pending = sources.flatMap(source => getListingSpecs(source).map(listing => ({
+      source,
+      listing,
+      after: cursorsRef.current.get(cursorKey(source.name, listing))
+    }))).filter((page): page is typeof page & { after: string } => typeof page.after === 'string');
+
+    if (pending.length === 0) return;
+
+    isLoadingMoreRef.current = true;
+    setIsLoadingMore(true);
+
+    try {
+      console.log(`[Reddit] Fetching next page for ${pending.length} listing(s)`);
+
+      const settledResults = await Promise.allSettled(pending.map(({ source, listing, after }) =>
+        fetchListingPage(source.name, listing, source.limit ?? DEFAULT_POSTS_PER_SORT, rateLimitState.current, after, contentFilters)
+      ));
+
+      const fetchedBySubreddit = new Map<string, { posts: RedditPost[]; removedIds: Set<string> }>();
+      settledResults.forEach((result, index) => {
+        const { source, listing } = pending[index];
+        if (result.status === 'fulfilled') {
+          const data = result.value;
+          cursorsRef.current.set(cursorKey(source.name, listing), data?.after ?? null);
+          const fetched = fetchedBySubreddit.get(source.name) ?? { posts: [], removedIds: new Set<string>() };
+          fetched.posts.push(...(data?.posts ?? []));
+          data?.removedIds?.forEach(id => fetched.removedIds.add(id));
+          fetchedBySubreddit.set(source.name, fetched);
+        } else {
+          // Keep the cursor so the page is retried next time
+          console.warn(`[Reddit] Next page fetch failed for r/${source.name}/${listing.label}:`, result.reason);
+        }
+      });
+
+      const pages = new Map<string, { posts: RedditPost[]; removedIds: Set<string> }>();
+      fetchedBySubreddit.forEach(({ posts, removedIds }, name) => {
+        pages.set(name, { posts: buildSubredditPosts(posts), removedIds });
+      });
+
+      setSubreddits(prev => prev.map(subreddit => {
+        const page = pages.get(subreddit.name);
+        if (!page) return subreddit;
+        return { ...subreddit, posts: mergePosts(subreddit.posts, page.posts, page.removedIds) };
+      }));
+      updateHasMore();
+    } catch (err) {
+      console.error('[Reddit] Error fetching next page:', err);
+    } finally {
+      isLoadingMoreRef.current = false;
+      setIsLoadingMore(false);
+    }
+  }, [authState.isAuthenticated, sources, contentFilters, updateHasMore]);
+
+  // A different set of listings starts paging from the first page again
+  useEffect(() => {
+    cursorsRef.current = new Map();
+    setHasMore(false);
+  }, [sources]);
+
+  // Posts already loaded under other filters have to pass the new ones too
+  useEffect(() => {
+    setSubreddits(prev => prev.map(subreddit => ({ ...subreddit, posts: applyContentFilters(subreddit.posts, contentFilters) })));
+  }, [contentFilters]);
 
   // Fetch on mount and when subreddit names change
   useEffect(() => {
@@ -702,24 +469,7 @@ export function useRedditPosts(subredditNames: string[], refreshInterval: number
       if (subredditNames.length > 0) {
         // Note: We're calling fetchPosts directly rather than using the dependency
         // to avoid creating a circular dependency with useCallback
-        (async () => {
-          try {
-            // Get a fresh access token
-            const accessToken = await getAccessToken();
-            if (!accessToken) {
-              setError('Please reconnect your Reddit account to continue');
-              setIsLoading(false);
-              return;
-            }
-            
-            // Call fetchPosts with the current values from the closure
-            fetchPosts();
-          } catch (error) {
-            console.error('Error initializing Reddit fetch:', error);
-            setError('Failed to initialize Reddit fetch');
-            setIsLoading(false);
-          }
-        })();
+        fetchPosts();
       } else {
         // Clear data and set a specific error when no subreddits are specified
         console.log('[Reddit] No subreddits specified in the session settings');
@@ -754,7 +504,7 @@ export function useRedditPosts(subredditNames: string[], refreshInterval: number
     
     // Remove fetchPosts from dependencies to avoid circular reference
     // The function is stable due to useCallback, but its dependencies create a cycle
-  }, [subredditNames, refreshInterval, authState.isAuthenticated, getAccessToken, setError, setIsLoading, setSubreddits, rateLimitState]);
+  }, [subredditNames, sources, contentFilters, refreshInterval, authState.isAuthenticated, setError, setIsLoading, setSubreddits, rateLimitState]);
 
-  return { subreddits, isLoading, error, refetch: fetchPosts };
+  return { subreddits, isLoading, error, refetch: fetchPosts, loadMore, isLoadingMore, hasMore };
 }
\ No newline at end of file
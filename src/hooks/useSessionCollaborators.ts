@@ -0,0 +1,61 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '@/lib/supabase';
+import { SessionCollaborator, ShareRole } from '@/types';
+
+/**
+ * The people a session is shared with and their roles, for the session's owner.
+ * Call `refetch` after sharing or unsharing.
+ */
+export function useSessionCollaborators(sessionId: string | undefined) {
+  const [collaborators, setCollaborators] = useState<SessionCollaborator[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCollaborators = useCallback(async () => {
+    if (!sessionId) {
+      setCollaborators([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .rpc('session_collaborators', { p_session_id: sessionId });
+
+      if (fetchError) throw fetchError;
+      setCollaborators((data || []) as SessionCollaborator[]);
+    } catch (err) {
+      console.error('Error fetching collaborators:', err);
+      setError('Failed to load who this session is shared with');
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    void fetchCollaborators();
+  }, [fetchCollaborators]);
+
+  const setRole = async (shareId: string, role: ShareRole): Promise<boolean> => {
+    try {
+      const { error: roleError } = await supabase
+        .rpc('set_share_role', { p_share_id: shareId, p_role: role });
+
+      if (roleError) throw roleError;
+
+      setCollaborators(prev => prev.map(collaborator =>
+        collaborator.share_id === shareId ? { ...collaborator, role } : collaborator
+      ));
+      return true;
+    } catch (err) {
+      console.error('Error changing share role:', err);
+      toast.error(`Failed to change the role: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      return false;
+    }
+  };
+
+  return { collaborators, loading, error, refetch: fetchCollaborators, setRole };
+}
@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/lib/supabase';
+import { JoiSession, SessionLineage, SessionUpstream } from '@/types';
+
+/**
+ * Where the user's copies came from and whether their originals changed since, keyed
+ * by the copy's id. Refetches when a copy is added, removed or saved.
+ */
+export function useSessionLineage(sessions: JoiSession[]) {
+  const [lineage, setLineage] = useState<Record<string, SessionLineage>>({});
+  const [loading, setLoading] = useState(false);
+
+  // Only copies have lineage; their save times tell when it may have changed
+  const copiesKey = useMemo(() => sessions
+    .filter(session => session.forked_from)
+    .map(session => `${session.id}:${session.updated_at}`)
+    .join(','), [sessions]);
+
+  const fetchLineage = useCallback(async () => {
+    if (!copiesKey) {
+      setLineage({});
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('session_lineage');
+      if (error) throw error;
+
+      const byCopy: Record<string, SessionLineage> = {};
+      for (const row of (data || []) as SessionLineage[]) {
+        byCopy[row.session_id] = row;
+      }
+      setLineage(byCopy);
+    } catch (err) {
+      // The cards just go without the "based on" line
+      console.error('Error fetching session lineage:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [copiesKey]);
+
+  useEffect(() => {
+    void fetchLineage();
+  }, [fetchLineage]);
+
+  // Base and latest version of a copy's original, for pulling its changes
+  const fetchUpstream = useCallback(async (sessionId: string): Promise<SessionUpstream | null> => {
+    const { data, error } = await supabase.rpc('session_upstream', { p_session_id: sessionId });
+    if (error) throw error;
+
+    const row = (data as SessionUpstream[] | null)?.[0];
+    if (!row) return null;
+    return {
+      ...row,
+      latest_subreddits: row.latest_subreddits ?? [],
+      latest_subreddit_settings: row.latest_subreddit_settings ?? [],
+      latest_system_prompt: row.latest_system_prompt ?? '',
+    };
+  }, []);
+
+  return { lineage, loading, refetch: fetchLineage, fetchUpstream };
+}
@@ -0,0 +1,55 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { SessionEditorPresence } from '@/types';
+
+/**
+ * Who else has the session's edit form open, through a private Realtime presence
+ * channel that only the owner, editors and co-owners can join. The current user
+ * is tracked but not returned.
+ */
+export function useSessionPresence(sessionId: string | undefined) {
+  const { user, profile } = useAuth();
+  const [editors, setEditors] = useState<SessionEditorPresence[]>([]);
+
+  const userId = user?.id;
+  const name = profile?.display_name || profile?.username || user?.email || 'Someone';
+  const avatarUrl = profile?.avatar_url ?? null;
+
+  useEffect(() => {
+    if (!sessionId || !userId) {
+      setEditors([]);
+      return;
+    }
+
+    const channel = supabase.channel(`session-editors:${sessionId}`, {
+      config: { private: true, presence: { key: userId } },
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<SessionEditorPresence>();
+        // Keyed by user, so someone with the form open in two tabs shows up once
+        setEditors(Object.entries(state)
+          .filter(([key, entries]) => key !== userId && entries.length > 0)
+          .map(([, entries]) => ({
+            user_id: entries[0].user_id,
+            name: entries[0].name,
+            avatar_url: entries[0].avatar_url,
+          })));
+      })
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          void channel.track({ user_id: userId, name, avatar_url: avatarUrl });
+        } else if (status === 'CHANNEL_ERROR') {
+          console.error('Could not join the session presence channel');
+        }
+      });
+
+    return () => {
+      void supabase.removeChannel(channel);
+    };
+  }, [sessionId, userId, name, avatarUrl]);
+
+  return editors;
+}
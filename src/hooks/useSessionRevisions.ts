@@ -0,0 +1,43 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import { SessionRevision } from '@/types';
+
+/**
+ * Saved versions of a session, newest first. The database writes one on every save;
+ * call `refetch` after saving to pick up the new one.
+ */
+export function useSessionRevisions(sessionId: string | undefined) {
+  const [revisions, setRevisions] = useState<SessionRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRevisions = useCallback(async () => {
+    if (!sessionId) {
+      setRevisions([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      // Comes with the name of whoever saved each revision, for the owner and editors alike
+      const { data, error: fetchError } = await supabase
+        .rpc('session_revision_history', { p_session_id: sessionId });
+
+      if (fetchError) throw fetchError;
+      setRevisions((data || []) as SessionRevision[]);
+    } catch (err) {
+      console.error('Error fetching session revisions:', err);
+      setError('Failed to load the session history');
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    void fetchRevisions();
+  }, [fetchRevisions]);
+
+  return { revisions, loading, error, refetch: fetchRevisions };
+}
@@ -0,0 +1,142 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { AIResponse, RedditPost, SessionPlay, TranscriptEntry } from '@/types';
+import { appendTranscriptEntry } from '@/lib/utils/transcript';
+import { MAX_SAVED_PLAYS_LISTED, TRANSCRIPT_SAVE_DELAY_MS } from '@/lib/constants';
+
+interface UseSessionTranscriptProps {
+  sessionId: string | undefined;
+  post: RedditPost | null;
+  caption: AIResponse;
+}
+
+/**
+ * Records every caption shown while a session plays, and saves the transcript as a
+ * `session_plays` row so past runs can be looked back at. Signed-out viewers still get
+ * a transcript for the current play; it just isn't saved.
+ */
+export function useSessionTranscript({ sessionId, post, caption }: UseSessionTranscriptProps) {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<TranscriptEntry[]>([]);
+  const [pastPlays, setPastPlays] = useState<SessionPlay[]>([]);
+  const [loadingPlays, setLoadingPlays] = useState(false);
+
+  // Row for this play, created with the first caption
+  const playIdRef = useRef<Promise<string | null> | null>(null);
+  const entriesRef = useRef(entries);
+  entriesRef.current = entries;
+  // Last transcript handed to `save`, so unchanged transcripts aren't written again
+  const savedRef = useRef<TranscriptEntry[]>(entries);
+
+  // A new session starts a new play
+  useEffect(() => {
+    setEntries([]);
+    playIdRef.current = null;
+  }, [sessionId]);
+
+  // Record the caption once it has finished generating
+  useEffect(() => {
+    if (!post || !caption.caption || caption.loading || caption.streaming || caption.error) return;
+
+    setEntries(prev => appendTranscriptEntry(prev, {
+      postId: post.id,
+      permalink: post.permalink,
+      subreddit: post.subreddit,
+      title: post.title,
+      caption: caption.caption,
+      model: caption.model,
+      timestamp: new Date().toISOString()
+    }));
+  }, [post, caption.caption, caption.loading, caption.streaming, caption.error, caption.model]);
+
+  const save = useCallback(async (transcript: TranscriptEntry[]) => {
+    if (!user || !sessionId || transcript.length === 0) return;
+
+    try {
+      if (!playIdRef.current) {
+        playIdRef.current = (async () => {
+          const { data, error } = await supabase
+            .from('session_plays')
+            .insert({ session_id: sessionId, user_id: user.id, transcript })
+            .select('id')
+            .single();
+          if (error) throw error;
+          return data.id as string;
+        })().catch(error => {
+          console.error('Error saving transcript:', error);
+          playIdRef.current = null;
+          return null;
+        });
+        await playIdRef.current;
+        return;
+      }
+
+      const playId = await playIdRef.current;
+      if (!playId) return;
+
+      const { error } = await supabase
+        .from('session_plays')
+        .update({ transcript, updated_at: new Date().toISOString() })
+        .eq('id', playId);
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error saving transcript:', error);
+    }
+  }, [user, sessionId]);
+
+  // Save shortly after each new caption, batching quick slide changes
+  useEffect(() => {
+    if (entries === savedRef.current) return;
+
+    const timer = setTimeout(() => {
+      savedRef.current = entries;
+      void save(entries);
+    }, TRANSCRIPT_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [entries, save]);
+
+  // Save whatever is pending when the player closes
+  useEffect(() => {
+    return () => {
+      const pending = entriesRef.current;
+      if (pending !== savedRef.current) {
+        savedRef.current = pending;
+        void save(pending);
+      }
+    };
+  }, [save]);
+
+  // Earlier plays of this session, newest first
+  const fetchPastPlays = useCallback(async () => {
+    if (!user || !sessionId) return;
+
+    setLoadingPlays(true);
+    try {
+      const { data, error } = await supabase
+        .from('session_plays')
+        .select('*')
+        .eq('session_id', sessionId)
+        .eq('user_id', user.id)
+        .order('started_at', { ascending: false })
+        .limit(MAX_SAVED_PLAYS_LISTED);
+
+      if (error) throw error;
+
+      const currentId = await playIdRef.current;
+      setPastPlays((data as SessionPlay[] || []).filter(play => play.id !== currentId));
+    } catch (error) {
+      console.error('Error loading past plays:', error);
+    } finally {
+      setLoadingPlays(false);
+    }
+  }, [user, sessionId]);
+
+  return {
+    entries,
+    pastPlays,
+    loadingPlays,
+    fetchPastPlays,
+    canSave: !!user && !!sessionId
+  };
+}
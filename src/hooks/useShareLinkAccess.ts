@@ -0,0 +1,110 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '@/lib/supabase';
+import { ShareLinkAccess, ShareLinkErrorCode } from '@/types';
+
+export interface ShareLinkError {
+  code: ShareLinkErrorCode | null; // Null for failures that aren't about the link itself
+  message: string;
+}
+
+function toShareLinkError(err: unknown): ShareLinkError {
+  const { hint, message } = (err ?? {}) as { hint?: string; message?: string };
+  return {
+    code: (hint as ShareLinkErrorCode) || null,
+    message: message || 'Something went wrong opening this link',
+  };
+}
+
+// Running out of plays or saves leaves the session on screen; anything else closes it
+const LIMIT_ERRORS: ShareLinkErrorCode[] = ['play_limit', 'save_limit', 'save_not_allowed'];
+
+/**
+ * Opens a session through a share link. The database checks the link (expiry,
+ * limits) on every call and remembers who got past its passphrase, so playing
+ * and saving don't send it again.
+ */
+export function useShareLinkAccess(token: string | undefined) {
+  const [access, setAccess] = useState<ShareLinkAccess | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<ShareLinkError | null>(null);
+
+  const handleActionError = (err: unknown) => {
+    const linkError = toShareLinkError(err);
+    if (linkError.code && LIMIT_ERRORS.includes(linkError.code)) {
+      toast.error(linkError.message);
+    } else {
+      setError(linkError);
+    }
+  };
+
+  const open = useCallback(async (passphrase?: string) => {
+    if (!token) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: openError } = await supabase
+        .rpc('open_share_link', { p_token: token, p_passphrase: passphrase || null });
+
+      if (openError) throw openError;
+
+      // A wrong passphrase comes back as a result, so the database keeps count of the attempt
+      const refused = data as { error?: ShareLinkErrorCode; message?: string };
+      if (refused.error) {
+        setError({ code: refused.error, message: refused.message || 'Wrong passphrase' });
+        return;
+      }
+
+      setAccess(data as ShareLinkAccess);
+    } catch (err) {
+      console.error('Error opening share link:', err);
+      setError(toShareLinkError(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    void open();
+  }, [open]);
+
+  // Counts a play against the link and returns the one-time token the player opens it with
+  const play = async (): Promise<ShareLinkAccess | null> => {
+    if (!token) return null;
+
+    try {
+      const { data, error: playError } = await supabase
+        .rpc('play_share_link', { p_token: token });
+
+      if (playError) throw playError;
+
+      setAccess(data as ShareLinkAccess);
+      return data as ShareLinkAccess;
+    } catch (err) {
+      console.error('Error playing share link:', err);
+      handleActionError(err);
+      return null;
+    }
+  };
+
+  // Saves a copy to the user's library and returns its id
+  const save = async (): Promise<string | null> => {
+    if (!token) return null;
+
+    try {
+      const { data, error: saveError } = await supabase
+        .rpc('save_share_link', { p_token: token });
+
+      if (saveError) throw saveError;
+      return data as string;
+    } catch (err) {
+      console.error('Error saving from share link:', err);
+      handleActionError(err);
+      return null;
+    }
+  };
+
+  return { access, loading, error, open, play, save };
+}
@@ -0,0 +1,86 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '@/lib/supabase';
+import { ShareLink, ShareLinkOptions } from '@/types';
+
+/**
+ * A session's share links with their counters, for the session's owner.
+ */
+export function useShareLinks(sessionId: string | undefined) {
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchLinks = useCallback(async () => {
+    if (!sessionId) {
+      setLinks([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .rpc('list_share_links', { p_session_id: sessionId });
+
+      if (fetchError) throw fetchError;
+      setLinks((data || []) as ShareLink[]);
+    } catch (err) {
+      console.error('Error fetching share links:', err);
+      setError('Failed to load the share links');
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    void fetchLinks();
+  }, [fetchLinks]);
+
+  // Returns the new link's token
+  const createLink = async (options: ShareLinkOptions): Promise<string | null> => {
+    if (!sessionId) return null;
+
+    try {
+      const { data, error: createError } = await supabase
+        .rpc('create_share_link', {
+          p_session_id: sessionId,
+          p_expires_at: options.expiresAt,
+          p_passphrase: options.passphrase?.trim() || null,
+          p_allow_save: options.allowSave,
+          p_max_plays: options.maxPlays,
+          p_max_saves: options.maxSaves
+        });
+
+      if (createError) throw createError;
+
+      await fetchLinks();
+      return data as string;
+    } catch (err) {
+      console.error('Error creating share link:', err);
+      toast.error(`Failed to create the link: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      return null;
+    }
+  };
+
+  const revokeLink = async (linkId: string): Promise<boolean> => {
+    try {
+      const { error: revokeError } = await supabase
+        .rpc('revoke_share_link', { p_link_id: linkId });
+
+      if (revokeError) throw revokeError;
+
+      setLinks(prev => prev.map(link =>
+        link.id === linkId ? { ...link, revoked_at: link.revoked_at ?? new Date().toISOString() } : link
+      ));
+      return true;
+    } catch (err) {
+      console.error('Error revoking share link:', err);
+      toast.error(`Failed to turn off the link: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      return false;
+    }
+  };
+
+  return { links, loading, error, refetch: fetchLinks, createLink, revokeLink };
+}
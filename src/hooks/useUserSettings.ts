@@ -10,6 +10,8 @@ import {
   DEFAULT_INTERVAL,
   DEFAULT_TRANSITION,
   DEFAULT_SUBREDDITS,
+  DEFAULT_VIDEO_MUTED,
+  DEFAULT_VIDEO_VOLUME,
 } from '@/lib/constants';
 
 // Debounce helper function
@@ -39,6 +41,9 @@ export function useUserSettings() {
     interval: DEFAULT_INTERVAL,
     transition: DEFAULT_TRANSITION,
     systemPrompt: DEFAULT_SYSTEM_PROMPT,
+    videoMuted: DEFAULT_VIDEO_MUTED,
+    videoVolume: DEFAULT_VIDEO_VOLUME,
+    dataSaver: false,
     apiKeys: {
       openRouter: '',
     },
@@ -0,0 +1,73 @@
+import { useState, useEffect, useCallback } from 'react';
+import { UserPreferences, VideoAudioDefault } from '@/types';
+import { DEFAULT_VIDEO_MUTED, DEFAULT_VIDEO_VOLUME } from '@/lib/constants';
+
+// True once the user has clicked, tapped or pressed a key on the page, which is what
+// browsers require before a video may play with sound
+function hasUserActivation(): boolean {
+  return navigator.userActivation?.hasBeenActive ?? false;
+}
+
+/**
+ * Mute state and volume for the player's videos.
+ * The viewer's choice is remembered in their preferences; a session can override
+ * whether its videos start muted. Sound is only turned on from a user gesture: until
+ * the page has one, or after the browser refused to autoplay with sound,
+ * `soundBlocked` is set and videos play muted until `unmute` is called from a click.
+ */
+export function useVideoAudio(
+  preferences: UserPreferences,
+  updatePreferences: (changes: Partial<UserPreferences>) => Promise<void>,
+  sessionDefault?: VideoAudioDefault | null
+) {
+  const volume = preferences.videoVolume ?? DEFAULT_VIDEO_VOLUME;
+
+  // The session's default applies when it starts; after that the viewer is in charge
+  const [muted, setMuted] = useState(() =>
+    sessionDefault ? sessionDefault === 'muted' : preferences.videoMuted ?? DEFAULT_VIDEO_MUTED
+  );
+  const [soundBlocked, setSoundBlocked] = useState(() => !hasUserActivation());
+
+  // The session loads after the player mounts
+  useEffect(() => {
+    if (sessionDefault) {
+      setMuted(sessionDefault === 'muted');
+    }
+  }, [sessionDefault]);
+
+  // Called from click and key handlers, so this counts as the gesture that allows sound
+  const setMutedByUser = useCallback((next: boolean) => {
+    setMuted(next);
+    if (!next) setSoundBlocked(false);
+    void updatePreferences({ videoMuted: next });
+  }, [updatePreferences]);
+
+  const toggleMuted = useCallback(() => {
+    setMutedByUser(!(muted || soundBlocked));
+  }, [muted, soundBlocked, setMutedByUser]);
+
+  const unmute = useCallback(() => setMutedByUser(false), [setMutedByUser]);
+
+  const setVolume = useCallback((next: number) => {
+    const clamped = Math.min(1, Math.max(0, next));
+    void updatePreferences({ videoVolume: clamped, ...(clamped > 0 && { videoMuted: false }) });
+    if (clamped > 0) {
+      setMuted(false);
+      setSoundBlocked(false);
+    }
+  }, [updatePreferences]);
+
+  const handleAutoplayBlocked = useCallback(() => setSoundBlocked(true), []);
+
+  return {
+    // What the video element should do right now
+    muted: muted || soundBlocked,
+    volume,
+    // Sound is wanted but waiting for a user gesture
+    soundBlocked: soundBlocked && !muted,
+    toggleMuted,
+    unmute,
+    setVolume,
+    handleAutoplayBlocked,
+  };
+}
@@ -1,3 +1,5 @@
+import { TransitionEffect, RedditSort, RedditTimeWindow, VideoTiming, NsfwMode, PostMediaType, ExploreSort, ShareRole } from '@/types';
+
 export const DEFAULT_SYSTEM_PROMPT = 
 `You are a witty commentator for a Joip AI slideshow. 
 Given an image or post from Reddit, provide a short, 
@@ -16,6 +18,99 @@ export const TRANSITION_EFFECTS = [
 
 export const DEFAULT_TRANSITION = 'fade';
 
+// Videos start muted until the viewer turns the sound on (browsers block autoplay with sound anyway)
+export const DEFAULT_VIDEO_MUTED = true;
+export const DEFAULT_VIDEO_VOLUME = 0.8;
+
+// Transition durations for each effect type - MUST match MediaDisplay.tsx durations
+export const TRANSITION_DURATIONS: { [key in TransitionEffect]: number } = {
+  fade: 300,  // Matches duration-300
+  slide: 300, // Matches duration-300
+  zoom: 300,  // Matches duration-300
+  flip: 400,  // Matches duration-400
+};
+
+// Listing options for per-subreddit session settings
+export const REDDIT_SORT_OPTIONS: { value: RedditSort; label: string }[] = [
+  { value: 'hot', label: 'Hot' },
+  { value: 'new', label: 'New' },
+  { value: 'top', label: 'Top' },
+  { value: 'rising', label: 'Rising' }
+];
+
+export const REDDIT_TIME_WINDOWS: { value: RedditTimeWindow; label: string }[] = [
+  { value: 'hour', label: 'Past hour' },
+  { value: 'day', label: 'Today' },
+  { value: 'week', label: 'This week' },
+  { value: 'month', label: 'This month' },
+  { value: 'year', label: 'This year' },
+  { value: 'all', label: 'All time' }
+];
+
+export const DEFAULT_POSTS_PER_SORT = 15;
+export const MAX_POSTS_PER_SORT = 100; // Reddit's own cap per listing request
+export const DEFAULT_SUBREDDIT_WEIGHT = 1;
+// Fetch the next page once the player is this many posts from the end of the queue
+export const PAGINATION_PREFETCH_THRESHOLD = 5;
+// Seconds each gallery item stays on screen before the next one
+export const DEFAULT_GALLERY_INTERVAL = 4;
+// Videos play once, but no longer than a minute
+export const DEFAULT_VIDEO_TIMING: VideoTiming = 'max';
+export const DEFAULT_VIDEO_MAX_SECONDS = 60;
+// Upcoming posts whose media is loaded in the background, and the memory all of it may take
+export const PRELOAD_AHEAD = 3;
+export const PRELOAD_BUDGET_BYTES = 64 * 1024 * 1024;
+// Slides whose media hasn't loaded (or has stalled) this long start their timer anyway
+export const MEDIA_STALL_TIMEOUT_SECONDS = 15;
+
+export const VIDEO_TIMINGS: { value: VideoTiming; label: string }[] = [
+  { value: 'max', label: 'Play once, up to a maximum length' },
+  { value: 'complete', label: 'Play to the end' },
+  { value: 'interval', label: 'Loop for the slide interval' },
+];
+
+export const NSFW_MODES: { value: NsfwMode; label: string }[] = [
+  { value: 'mixed', label: 'Play NSFW and SFW posts' },
+  { value: 'only', label: 'Only NSFW posts' },
+  { value: 'exclude', label: 'No NSFW posts' },
+];
+
+export const POST_MEDIA_TYPES: { value: PostMediaType; label: string }[] = [
+  { value: 'image', label: 'Images' },
+  { value: 'video', label: 'Videos' },
+  { value: 'gallery', label: 'Galleries' },
+];
+
+// Shorter-side sizes offered for the minimum resolution filter (0 = any size)
+export const MIN_RESOLUTION_OPTIONS = [0, 480, 720, 1080, 1440];
+
+// Session tags, as limited by the database
+export const MAX_SESSION_TAGS = 10;
+export const MAX_TAG_LENGTH = 30;
+
+// Public sessions fetched per page in Explore
+export const EXPLORE_PAGE_SIZE = 24;
+
+export const EXPLORE_SORTS: { value: ExploreSort; label: string }[] = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'played', label: 'Most played' },
+  { value: 'saved', label: 'Most saved' },
+];
+
+export const SHARE_ROLES: { value: ShareRole; label: string; description: string }[] = [
+  { value: 'viewer', label: 'Viewer', description: 'Can play the session and save a copy' },
+  { value: 'editor', label: 'Editor', description: 'Can also change the subreddits and the prompt' },
+  { value: 'co_owner', label: 'Co-owner', description: 'Can change every setting except visibility and tags' },
+];
+
+// How long a new share link stays valid
+export const SHARE_LINK_EXPIRIES: { value: string; label: string; hours: number | null }[] = [
+  { value: 'never', label: 'Never expires', hours: null },
+  { value: '1d', label: '1 day', hours: 24 },
+  { value: '7d', label: '7 days', hours: 24 * 7 },
+  { value: '30d', label: '30 days', hours: 24 * 30 },
+];
+
 export const DEFAULT_SUBREDDITS = ['EarthPorn', 'CityPorn', 'SpacePorn', 'itookapicture', 'travel'];
 
 export const API_ENDPOINTS = {
@@ -25,12 +120,12 @@ export const API_ENDPOINTS = {
   OPENROUTER: 'https://openrouter.ai/api/v1/chat/completions'
 };
 
-// Reddit API requires a proper User-Agent following format:
-// <platform>:<app ID>:<version string> (by /u/<reddit username>)
-export const REDDIT_USER_AGENT = 'web:com.joip.slideshow:v1.0.0 (by /u/joip_dev)';
-
 export const OPENROUTER_MODEL = 'meta-llama/llama-4-maverick';
+export const MAX_VISION_IMAGES = 4; // Gallery items sent along with a vision caption request
+export const VIDEO_FRAME_WAIT_MS = 3000; // How long a vision caption waits for a frame of the playing video
+export const CAPTION_PREFETCH_COUNT = 3; // Upcoming posts captioned ahead of time
+export const MAX_CONCURRENT_CAPTION_REQUESTS = 2;
+export const TRANSCRIPT_SAVE_DELAY_MS = 2000; // Batches transcript saves during quick slide changes
+export const MAX_SAVED_PLAYS_LISTED = 20; // Past plays offered in the transcript drawer
 
 export const DEFAULT_OPENROUTER_API_KEY = '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';
-
-export const REDDIT_OAUTH_SCOPES = 'read identity history';
\ No newline at end of file
@@ -27,7 +27,7 @@ const envVars: EnvVar[] = [
   },
   {
     name: 'VITE_REDDIT_CLIENT_ID',
-    required: true,
+    required: false, // The reddit-auth edge function builds the consent URL now
   },
   {
     name: 'VITE_OPENROUTER_API_KEY',
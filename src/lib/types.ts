@@ -16,6 +16,7 @@ export interface AuthState {
 
 export interface UserProfile {
   id: string;
+  display_name?: string | null;
   username: string | null;
   full_name: string | null;
   avatar_url: string | null;
@@ -36,6 +37,7 @@ export interface RedditAuthToken {
   access_token: string | null;
   refresh_token: string | null;
   expires_at: string | null;
+  scope: string | null;
   username: string | null;
   created_at: string;
   updated_at: string;
@@ -0,0 +1,242 @@
+import { supabase } from '@/lib/supabase';
+
+// Captions older than this are generated again
+const CAPTION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Most recently used captions kept in memory
+const MEMORY_CACHE_LIMIT = 500;
+
+const DB_NAME = 'joip-captions';
+const DB_VERSION = 1;
+const STORE_NAME = 'captions';
+
+// A caption and the model that wrote it (unknown for captions cached before models were recorded)
+export interface CaptionResult {
+  caption: string;
+  model?: string;
+}
+
+interface CachedCaption extends CaptionResult {
+  key: string;
+  postId: string;
+  createdAt: number;
+}
+
+const memoryCache = new Map<string, CachedCaption>();
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * Small, stable string hash (cyrb53). Used to key captions by system prompt
+ * without storing the prompt itself.
+ *
+ * @param value String to hash
+ * @returns Hex digest
+ */
+export function hashString(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const char = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
+
+/**
+ * Cache key for a post's caption. Captions depend on the system prompt and on
+ * whether the model saw the media, so both are part of the key.
+ *
+ * @param postId Reddit post ID
+ * @param systemPrompt System prompt the caption was generated with
+ * @param vision Whether the media was sent to a vision model
+ * @returns Cache key
+ */
+export function captionKey(postId: string, systemPrompt: string, vision = false): string {
+  return `${postId}:${hashString(`${vision ? 'vision' : 'text'}:${systemPrompt}`)}`;
+}
+
+function isFresh(entry: CachedCaption | undefined): entry is CachedCaption {
+  return !!entry && Date.now() - entry.createdAt < CAPTION_TTL_MS;
+}
+
+function remember(entry: CachedCaption) {
+  // Re-insert so the Map's order doubles as least-recently-used order
+  memoryCache.delete(entry.key);
+  memoryCache.set(entry.key, entry);
+  if (memoryCache.size > MEMORY_CACHE_LIMIT) {
+    const oldestKey = memoryCache.keys().next().value;
+    if (oldestKey !== undefined) memoryCache.delete(oldestKey);
+  }
+}
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('[CaptionCache] IndexedDB unavailable:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function readFromDb(key: string): Promise<CachedCaption | undefined> {
+  const db = await openDb();
+  if (!db) return undefined;
+  return new Promise(resolve => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key);
+    request.onsuccess = () => resolve(request.result as CachedCaption | undefined);
+    request.onerror = () => resolve(undefined);
+  });
+}
+
+async function writeToDb(entry: CachedCaption): Promise<void> {
+  const db = await openDb();
+  if (!db) return;
+  return new Promise(resolve => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).put(entry);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => resolve();
+  });
+}
+
+// Server copies are per user, so only signed-in users have one
+async function isSignedIn(): Promise<boolean> {
+  const { data } = await supabase.auth.getSession();
+  return !!data.session;
+}
+
+// Server copy: lets a replay on another device (or after clearing storage) skip the model
+async function readFromServer(key: string, postId: string): Promise<CachedCaption | undefined> {
+  if (!await isSignedIn()) return undefined;
+
+  const { data, error } = await supabase
+    .from('post_captions')
+    .select('caption, model, created_at')
+    .eq('post_id', postId)
+    .eq('cache_key', key)
+    .maybeSingle();
+
+  if (error || !data) return undefined;
+  return {
+    key,
+    postId,
+    caption: data.caption,
+    model: data.model ?? undefined,
+    createdAt: new Date(data.created_at).getTime()
+  };
+}
+
+async function writeToServer(entry: CachedCaption): Promise<void> {
+  if (!await isSignedIn()) return;
+
+  const { error } = await supabase
+    .from('post_captions')
+    .upsert({
+      post_id: entry.postId,
+      cache_key: entry.key,
+      caption: entry.caption,
+      model: entry.model ?? null,
+      created_at: new Date(entry.createdAt).toISOString()
+    }, { onConflict: 'user_id,cache_key' });
+
+  if (error) {
+    console.warn('[CaptionCache] Failed to save caption to server:', error.message);
+  }
+}
+
+/**
+ * Synchronous memory-only lookup, for showing a cached caption without a loading flash.
+ *
+ * @param key Key from `captionKey`
+ * @returns The caption, or null when it isn't in memory
+ */
+export function peekCachedCaption(key: string): CaptionResult | null {
+  const entry = memoryCache.get(key);
+  return isFresh(entry) ? { caption: entry.caption, model: entry.model } : null;
+}
+
+/**
+ * Looks a caption up in memory, then IndexedDB, then on the server. Hits from the
+ * slower tiers are copied into the faster ones.
+ *
+ * @param key Key from `captionKey`
+ * @param postId Reddit post ID (the server copy is indexed by it)
+ * @returns The caption, or null when no tier has a fresh copy
+ */
+export async function getCachedCaption(key: string, postId: string): Promise<CaptionResult | null> {
+  const inMemory = memoryCache.get(key);
+  if (isFresh(inMemory)) {
+    remember(inMemory);
+    return { caption: inMemory.caption, model: inMemory.model };
+  }
+
+  try {
+    const stored = await readFromDb(key);
+    if (isFresh(stored)) {
+      remember(stored);
+      return { caption: stored.caption, model: stored.model };
+    }
+
+    const remote = await readFromServer(key, postId);
+    if (isFresh(remote)) {
+      remember(remote);
+      void writeToDb(remote);
+      return { caption: remote.caption, model: remote.model };
+    }
+  } catch (error) {
+    console.warn('[CaptionCache] Lookup failed:', error);
+  }
+
+  return null;
+}
+
+/**
+ * Stores a freshly generated caption in every tier. Persistence happens in the
+ * background; failures are logged and never reach the caller.
+ *
+ * @param key Key from `captionKey`
+ * @param postId Reddit post ID
+ * @param result Generated caption and the model that wrote it
+ */
+export function storeCaption(key: string, postId: string, result: CaptionResult): void {
+  const entry: CachedCaption = { key, postId, ...result, createdAt: Date.now() };
+  remember(entry);
+  void writeToDb(entry).catch(error => console.warn('[CaptionCache] Failed to save caption locally:', error));
+  void writeToServer(entry).catch(error => console.warn('[CaptionCache] Failed to save caption to server:', error));
+}
+
+/**
+ * Forgets every caption kept on this device, in memory and in IndexedDB. Called
+ * on sign-out so the next account on the browser doesn't get the last one's
+ * captions; the server copies are per user and stay.
+ */
+export async function clearCaptionCache(): Promise<void> {
+  memoryCache.clear();
+
+  const db = await openDb();
+  if (!db) return;
+  return new Promise(resolve => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).clear();
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => {
+      console.warn('[CaptionCache] Failed to clear local captions:', transaction.error);
+      resolve();
+    };
+  });
+}
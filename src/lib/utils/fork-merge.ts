@@ -0,0 +1,80 @@
+import { JoiSession, SessionUpstream } from '@/types';
+import { diffLines, LineChange } from '@/lib/utils/session-diff';
+import { resolveSubredditSources } from '@/lib/utils/subreddit-sources';
+
+type ForkFields = Pick<JoiSession, 'subreddits' | 'subreddit_settings' | 'system_prompt'>;
+
+// What the original changed since a copy was made, limited to what the copy doesn't have yet
+export interface UpstreamChanges {
+  added: string[]; // Subreddits the original added that the copy lacks
+  removed: string[]; // Subreddits the original dropped that the copy still has
+  prompt: {
+    changed: boolean; // The original's prompt differs from both the base and the copy
+    conflict: boolean; // The copy's prompt was edited too, so taking theirs loses those edits
+    lines: LineChange[]; // From the copy's prompt to the original's
+  };
+}
+
+// The user's pick for each change
+export interface MergeChoices {
+  add: string[];
+  remove: string[];
+  prompt: 'mine' | 'theirs';
+}
+
+const hasName = (list: string[], name: string) =>
+  list.some(entry => entry.toLowerCase() === name.toLowerCase());
+
+/**
+ * Three-way comparison of a copy against the original it was saved from. Copies saved
+ * before revisions were kept have no base, so their current state stands in for it.
+ *
+ * @param copy The user's copy
+ * @param upstream Base and latest version of the original
+ * @returns The subreddit and prompt changes that could be pulled
+ */
+export function upstreamChanges(copy: ForkFields, upstream: SessionUpstream): UpstreamChanges {
+  const mine = copy.subreddits ?? [];
+  const myPrompt = copy.system_prompt ?? '';
+  const baseSubreddits = upstream.base_subreddits ?? mine;
+  const basePrompt = upstream.base_system_prompt ?? myPrompt;
+  const theirs = upstream.latest_subreddits;
+
+  const changed = upstream.latest_system_prompt !== basePrompt && upstream.latest_system_prompt !== myPrompt;
+
+  return {
+    added: theirs.filter(name => !hasName(baseSubreddits, name) && !hasName(mine, name)),
+    removed: baseSubreddits.filter(name => !hasName(theirs, name) && hasName(mine, name)),
+    prompt: {
+      changed,
+      conflict: changed && myPrompt !== basePrompt,
+      lines: changed ? diffLines(myPrompt, upstream.latest_system_prompt) : [],
+    },
+  };
+}
+
+/**
+ * Applies the chosen upstream changes to a copy. Subreddits pulled in bring the
+ * original's settings for them; the copy's own settings are kept for the rest.
+ *
+ * @param copy The user's copy
+ * @param upstream Base and latest version of the original
+ * @param choices Which changes to take
+ * @returns The updated subreddit list, settings and prompt
+ */
+export function mergeUpstream(copy: ForkFields, upstream: SessionUpstream, choices: MergeChoices): ForkFields {
+  const subreddits = [
+    ...(copy.subreddits ?? []).filter(name => !hasName(choices.remove, name)),
+    ...choices.add.filter(name => !hasName(copy.subreddits ?? [], name)),
+  ];
+  const settings = [
+    ...(copy.subreddit_settings ?? []),
+    ...upstream.latest_subreddit_settings.filter(source => hasName(choices.add, source.name)),
+  ];
+
+  return {
+    subreddits,
+    subreddit_settings: resolveSubredditSources(subreddits, settings),
+    system_prompt: choices.prompt === 'theirs' ? upstream.latest_system_prompt : copy.system_prompt ?? '',
+  };
+}
@@ -0,0 +1,127 @@
+import { MediaItem, RedditPost } from '@/types';
+
+// Decoded size assumed for images that don't say how big they are (a 1920x1080 RGBA bitmap)
+const DEFAULT_IMAGE_BYTES = 1920 * 1080 * 4;
+// What a preloaded video is assumed to buffer; browsers stop around here with preload="auto"
+const VIDEO_PRELOAD_BYTES = 8 * 1024 * 1024;
+
+export interface PreloadTarget {
+  key: string;            // Media ID, unique across posts and gallery items
+  postId?: string;        // Set for a post's lead media; a failure there skips the post
+  kind: 'image' | 'video';
+  urls: string[];         // Tried in order, like the display's fallback stages
+  bytes: number;          // Estimated memory the preload holds
+}
+
+export interface PreloadBudget {
+  count: number;          // Most posts to look ahead
+  bytes: number;          // Most memory all preloads may hold together
+}
+
+/**
+ * The URL the display actually requests for an image, so a preload lands in the
+ * same cache entry. Reddit and Imgur image URLs carry query parameters that only
+ * get in the way; preview.redd.it keeps the ones its signature needs.
+ *
+ * @param url Image URL as normalized from Reddit
+ * @returns The URL to load, HTTPS and without tracking parameters
+ */
+export function displayImageUrl(url: string | undefined): string {
+  if (!url) return '';
+
+  // Ensure HTTPS
+  if (url.startsWith('http://')) {
+    url = url.replace('http://', 'https://');
+  }
+
+  // Keep preview.redd.it URLs as they may have better CORS support,
+  // but clean up unnecessary parameters that could be tracking-related
+  if (url.includes('preview.redd.it')) {
+    if (url.includes('?')) {
+      const [baseUrl, params] = url.split('?');
+      const validParams = params.split('&').filter(param =>
+        param.startsWith('width=') ||
+        param.startsWith('height=') ||
+        param.startsWith('auto=') ||
+        param.startsWith('s=') ||
+        param.startsWith('format=')
+      );
+      return validParams.length > 0 ? `${baseUrl}?${validParams.join('&')}` : baseUrl;
+    }
+    return url;
+  }
+
+  // Clean up image URLs by removing unnecessary query parameters
+  if (/\.(jpg|jpeg|png|gif|webp)/i.test(url) && url.includes('?')) {
+    return url.split('?')[0];
+  }
+
+  // i.redd.it URLs work best without query parameters
+  if (url.includes('i.redd.it')) {
+    return url.split('?')[0];
+  }
+
+  return url;
+}
+
+function mediaTarget(media: MediaItem | RedditPost, postId?: string): PreloadTarget | null {
+  // Streams are fetched by hls.js in pieces; only their still frame can be loaded ahead
+  if (media.isVideo && media.videoUrl && !media.hlsUrl) {
+    return { key: media.id, postId, kind: 'video', urls: [media.videoUrl], bytes: VIDEO_PRELOAD_BYTES };
+  }
+
+  const urls = [displayImageUrl(media.url), media.thumbnailUrl]
+    .filter((url): url is string => !!url && url.startsWith('http'));
+  if (urls.length === 0) return null;
+
+  const width = 'width' in media ? media.width : undefined;
+  const height = 'height' in media ? media.height : undefined;
+  return {
+    key: media.id,
+    postId,
+    kind: 'image',
+    urls: Array.from(new Set(urls)),
+    bytes: width && height ? width * height * 4 : DEFAULT_IMAGE_BYTES,
+  };
+}
+
+/**
+ * What to load ahead of the slideshow: the next item of the gallery on screen, then
+ * the first item of each upcoming post, until either the count or the memory budget
+ * runs out. Always includes at least the very next slide.
+ *
+ * @param current The post on screen
+ * @param galleryIndex Item of its gallery on screen
+ * @param upcoming Posts queued after it, in play order
+ * @param budget How far ahead to look and how much memory to spend
+ * @returns Preloads in the order they should start
+ */
+export function planPreloads(
+  current: RedditPost | null,
+  galleryIndex: number,
+  upcoming: RedditPost[],
+  budget: PreloadBudget
+): PreloadTarget[] {
+  const candidates: PreloadTarget[] = [];
+
+  const nextGalleryItem = current && current.gallery.length > 1 ? current.gallery[galleryIndex + 1] : undefined;
+  if (nextGalleryItem) {
+    const target = mediaTarget(nextGalleryItem);
+    if (target) candidates.push(target);
+  }
+
+  for (const post of upcoming.slice(0, budget.count)) {
+    const lead = post.gallery.length > 1 ? post.gallery[0] : post;
+    const target = mediaTarget(lead, post.id);
+    if (target) candidates.push(target);
+  }
+
+  const plan: PreloadTarget[] = [];
+  let spent = 0;
+  for (const target of candidates) {
+    if (plan.length > 0 && spent + target.bytes > budget.bytes) break;
+    plan.push(target);
+    spent += target.bytes;
+  }
+  return plan;
+}
@@ -0,0 +1,2 @@
+// Shared with the reddit-proxy edge function, which can only bundle code under supabase/functions
+export * from '../../../supabase/functions/_shared/media-resolvers.ts';
@@ -0,0 +1,264 @@
+import { describe, expect, it } from 'vitest';
+import type { RedditPost } from '../../types/index.ts';
+import {
+  createPlayQueue,
+  interleaveByWeight,
+  playQueueReducer,
+  PlayQueueAction,
+  PlayQueueState,
+} from './play-queue.ts';
+
+function post(id: string, subreddit = 'pics'): RedditPost {
+  return {
+    id,
+    title: `Post ${id}`,
+    url: `https://i.redd.it/${id}.jpg`,
+    permalink: `https://reddit.com/r/${subreddit}/comments/${id}/`,
+    author: 'someone',
+    subreddit,
+    created: 0,
+    isImage: true,
+    isVideo: false,
+    gallery: [],
+  };
+}
+
+function posts(...ids: string[]): RedditPost[] {
+  return ids.map(id => post(id));
+}
+
+function run(state: PlayQueueState, ...actions: PlayQueueAction[]): PlayQueueState {
+  return actions.reduce(playQueueReducer, state);
+}
+
+function ids(state: PlayQueueState): string[] {
+  return state.items.map(item => item.id);
+}
+
+function currentId(state: PlayQueueState): string | undefined {
+  return state.items[state.position]?.id;
+}
+
+// A queue of a-e playing "c"
+function playingC(): PlayQueueState {
+  return run(createPlayQueue(), { type: 'sync', posts: posts('a', 'b', 'c', 'd', 'e') }, { type: 'jump', index: 2 });
+}
+
+describe('sync', () => {
+  it('starts an empty queue at the first post', () => {
+    const state = run(createPlayQueue(), { type: 'sync', posts: posts('a', 'b', 'a', 'c') });
+    expect(ids(state)).toEqual(['a', 'b', 'c']);
+    expect(state.position).toBe(0);
+  });
+
+  it('keeps the current post on screen when a refresh reorders the list', () => {
+    const state = run(playingC(), { type: 'sync', posts: posts('e', 'c', 'x', 'a') });
+    expect(ids(state)).toEqual(['e', 'c', 'x', 'a']);
+    expect(currentId(state)).toBe('c');
+  });
+
+  it('keeps the current post on screen when a refresh drops it', () => {
+    const state = run(playingC(), { type: 'sync', posts: posts('a', 'b', 'x', 'y') });
+    expect(ids(state)).toEqual(['a', 'b', 'c', 'x', 'y']);
+    expect(currentId(state)).toBe('c');
+  });
+
+  it('picks up new data for the current post', () => {
+    const updated = { ...post('c'), title: 'Edited' };
+    const state = run(playingC(), { type: 'sync', posts: [post('a'), post('b'), updated] });
+    expect(state.items[state.position]).toBe(updated);
+  });
+
+  it('does not count a refresh as navigation', () => {
+    const before = playingC();
+    const state = run(before, { type: 'sync', posts: posts('a', 'b', 'c', 'd', 'e', 'f') });
+    expect(state.cycle).toBe(before.cycle);
+    expect(state.history).toEqual(before.history);
+  });
+
+  it('empties the queue when no posts are left', () => {
+    const state = run(playingC(), { type: 'sync', posts: [] });
+    expect(state.items).toEqual([]);
+    expect(state.position).toBe(-1);
+  });
+});
+
+describe('advance', () => {
+  it('moves to the next post and records the one that was shown', () => {
+    const state = run(playingC(), { type: 'advance', repeat: 'all', manual: false });
+    expect(currentId(state)).toBe('d');
+    expect(state.history.map(item => item.id)).toEqual(['a', 'c']);
+  });
+
+  it('holds the current post with repeat-one, but not when skipped by hand', () => {
+    const held = run(playingC(), { type: 'advance', repeat: 'one', manual: false });
+    expect(currentId(held)).toBe('c');
+    expect(held.cycle).toBe(playingC().cycle + 1);
+
+    const skipped = run(playingC(), { type: 'advance', repeat: 'one', manual: true });
+    expect(currentId(skipped)).toBe('d');
+  });
+
+  it('loops back to the start at the end with repeat-all', () => {
+    const state = run(playingC(), { type: 'jump', index: 4 }, { type: 'advance', repeat: 'all', manual: false });
+    expect(currentId(state)).toBe('a');
+    expect(state.ended).toBe(false);
+  });
+
+  it('stops on the last post with repeat off until skipped by hand', () => {
+    const ended = run(playingC(), { type: 'jump', index: 4 }, { type: 'advance', repeat: 'off', manual: false });
+    expect(currentId(ended)).toBe('e');
+    expect(ended.ended).toBe(true);
+
+    const skipped = run(ended, { type: 'advance', repeat: 'off', manual: true });
+    expect(currentId(skipped)).toBe('a');
+    expect(skipped.ended).toBe(false);
+  });
+
+  it('stays put with a single post', () => {
+    const single = run(createPlayQueue(), { type: 'sync', posts: posts('a') });
+    expect(run(single, { type: 'advance', repeat: 'all', manual: true })).toBe(single);
+  });
+});
+
+describe('back', () => {
+  it('returns to the post that was actually shown before', () => {
+    const state = run(playingC(), { type: 'back', repeat: 'all' });
+    expect(currentId(state)).toBe('a');
+    expect(state.history).toEqual([]);
+  });
+
+  it('puts a post a refresh dropped back in front of the current one', () => {
+    const state = run(
+      playingC(),
+      { type: 'sync', posts: posts('b', 'c', 'd') },
+      { type: 'back', repeat: 'all' }
+    );
+    expect(ids(state)).toEqual(['b', 'a', 'c', 'd']);
+    expect(currentId(state)).toBe('a');
+  });
+
+  it('steps back through the list once history is used up', () => {
+    const state = run(playingC(), { type: 'back', repeat: 'all' }, { type: 'jump', index: 3 });
+    const noHistory = { ...state, history: [] };
+    expect(currentId(run(noHistory, { type: 'back', repeat: 'all' }))).toBe('c');
+  });
+
+  it('wraps to the last post from the first unless repeat is off', () => {
+    const atStart = run(createPlayQueue(), { type: 'sync', posts: posts('a', 'b', 'c') });
+    expect(currentId(run(atStart, { type: 'back', repeat: 'all' }))).toBe('c');
+    expect(run(atStart, { type: 'back', repeat: 'off' })).toBe(atStart);
+  });
+
+  it('clears the end of playback', () => {
+    const ended = run(playingC(), { type: 'jump', index: 4 }, { type: 'advance', repeat: 'off', manual: false });
+    expect(run(ended, { type: 'back', repeat: 'off' }).ended).toBe(false);
+  });
+});
+
+describe('jump', () => {
+  it('moves to any post in the queue', () => {
+    const state = run(playingC(), { type: 'jump', index: 0 });
+    expect(currentId(state)).toBe('a');
+    expect(state.history.map(item => item.id)).toEqual(['a', 'c']);
+  });
+
+  it('ignores positions outside the queue and the current one', () => {
+    const state = playingC();
+    expect(run(state, { type: 'jump', index: -1 })).toBe(state);
+    expect(run(state, { type: 'jump', index: 5 })).toBe(state);
+    expect(run(state, { type: 'jump', index: 2 })).toBe(state);
+  });
+});
+
+describe('playNext', () => {
+  it('puts the post right after the current one, latest first', () => {
+    const state = run(
+      playingC(),
+      { type: 'playNext', post: post('x') },
+      { type: 'playNext', post: post('a') }
+    );
+    expect(ids(state)).toEqual(['b', 'c', 'a', 'x', 'd', 'e']);
+    expect(currentId(state)).toBe('c');
+    expect(state.upNext).toEqual(['a', 'x']);
+  });
+
+  it('keeps pinned posts after the current one across refreshes', () => {
+    const state = run(
+      playingC(),
+      { type: 'playNext', post: post('x') },
+      { type: 'sync', posts: posts('e', 'd', 'c', 'b', 'a') }
+    );
+    expect(ids(state)).toEqual(['e', 'd', 'c', 'x', 'b', 'a']);
+    expect(currentId(state)).toBe('c');
+  });
+
+  it('unpins a post once it is shown', () => {
+    const state = run(
+      playingC(),
+      { type: 'playNext', post: post('x') },
+      { type: 'advance', repeat: 'all', manual: false }
+    );
+    expect(currentId(state)).toBe('x');
+    expect(state.upNext).toEqual([]);
+  });
+
+  it('ignores the post on screen', () => {
+    const state = playingC();
+    expect(run(state, { type: 'playNext', post: post('c') })).toBe(state);
+  });
+
+  it('starts an empty queue with the post', () => {
+    const state = run(createPlayQueue(), { type: 'playNext', post: post('x') });
+    expect(ids(state)).toEqual(['x']);
+    expect(state.position).toBe(0);
+  });
+});
+
+describe('remove', () => {
+  it('drops posts and keeps the position on the current one', () => {
+    const state = run(playingC(), { type: 'remove', ids: ['a', 'e'] });
+    expect(ids(state)).toEqual(['b', 'c', 'd']);
+    expect(currentId(state)).toBe('c');
+  });
+
+  it('leaves the post on screen until playback moves on', () => {
+    const state = run(playingC(), { type: 'remove', ids: ['c', 'd'] });
+    expect(ids(state)).toEqual(['a', 'b', 'c', 'e']);
+    expect(currentId(state)).toBe('c');
+  });
+
+  it('unpins removed "play next" posts', () => {
+    const state = run(playingC(), { type: 'playNext', post: post('x') }, { type: 'remove', ids: ['x'] });
+    expect(state.upNext).toEqual([]);
+  });
+
+  it('returns the same state when nothing is removed', () => {
+    const state = playingC();
+    expect(run(state, { type: 'remove', ids: ['zz', 'c'] })).toBe(state);
+  });
+});
+
+describe('restart', () => {
+  it('goes back to the first post after playback ended', () => {
+    const state = run(
+      playingC(),
+      { type: 'jump', index: 4 },
+      { type: 'advance', repeat: 'off', manual: false },
+      { type: 'restart' }
+    );
+    expect(currentId(state)).toBe('a');
+    expect(state.ended).toBe(false);
+  });
+});
+
+describe('interleaveByWeight', () => {
+  it('mixes subreddits by their weight and lets the others fill in when one runs dry', () => {
+    const order = interleaveByWeight([
+      { name: 'a', weight: 2, posts: ['a1', 'a2', 'a3', 'a4', 'a5'].map(id => post(id, 'a')) },
+      { name: 'b', posts: ['b1', 'b2'].map(id => post(id, 'b')) },
+      { name: 'empty', posts: [] },
+    ]);
+    expect(order.map(item => item.id)).toEqual(['a1', 'b1', 'a2', 'a3', 'b2', 'a4', 'a5']);
+  });
+});
@@ -0,0 +1,242 @@
+import { RedditPost, Subreddit } from '@/types';
+
+/**
+ * What the player does when it reaches the end of the queue:
+ * - 'off': stop on the last item
+ * - 'all': loop back to the start
+ * - 'one': keep replaying the current item on auto-advance
+ */
+export type RepeatMode = 'off' | 'one' | 'all';
+
+// Cap on how many previously shown posts we keep for "previous"
+const MAX_HISTORY = 100;
+
+export interface PlayQueueState {
+  items: RedditPost[];     // Play order
+  position: number;        // Index of the current item in items, -1 when empty
+  upNext: string[];        // IDs inserted with "play next" that haven't been shown yet
+  history: RedditPost[];   // Posts actually shown before the current one, most recent last
+  ended: boolean;          // True once the end was reached with repeat 'off'
+  cycle: number;           // Bumped on every navigation so timers can re-arm on the same index
+}
+
+export type PlayQueueAction =
+  | { type: 'sync'; posts: RedditPost[] }
+  | { type: 'advance'; repeat: RepeatMode; manual: boolean }
+  | { type: 'back'; repeat: RepeatMode }
+  | { type: 'jump'; index: number }
+  | { type: 'playNext'; post: RedditPost }
+  | { type: 'remove'; ids: string[] }
+  | { type: 'restart' };
+
+export function createPlayQueue(): PlayQueueState {
+  return {
+    items: [],
+    position: -1,
+    upNext: [],
+    history: [],
+    ended: false,
+    cycle: 0
+  };
+}
+
+/**
+ * Interleaves each subreddit's posts into a single play order that respects the
+ * subreddits' relative weights (smooth weighted round-robin). The result is
+ * deterministic for a given input, so appending posts to a subreddit keeps the
+ * existing prefix of the order intact as long as no subreddit ran dry.
+ * A subreddit that runs out of posts drops out and the others fill the gap.
+ */
+export function interleaveByWeight(subreddits: Subreddit[]): RedditPost[] {
+  const lanes = subreddits
+    .filter(sub => sub.posts.length > 0)
+    .map(sub => ({
+      posts: sub.posts,
+      next: 0,
+      weight: sub.weight && sub.weight > 0 ? sub.weight : 1,
+      score: 0
+    }));
+
+  const total = lanes.reduce((sum, lane) => sum + lane.posts.length, 0);
+  const result: RedditPost[] = [];
+
+  while (result.length < total) {
+    const active = lanes.filter(lane => lane.next < lane.posts.length);
+    const activeWeight = active.reduce((sum, lane) => sum + lane.weight, 0);
+
+    let picked = active[0];
+    for (const lane of active) {
+      lane.score += lane.weight;
+      if (lane.score > picked.score) picked = lane;
+    }
+    picked.score -= activeWeight;
+    result.push(picked.posts[picked.next]);
+    picked.next += 1;
+  }
+
+  return result;
+}
+
+function dedupe(posts: RedditPost[]): RedditPost[] {
+  const seen = new Set<string>();
+  return posts.filter(post => {
+    if (seen.has(post.id)) return false;
+    seen.add(post.id);
+    return true;
+  });
+}
+
+function pushHistory(history: RedditPost[], post: RedditPost | undefined): RedditPost[] {
+  if (!post) return history;
+  const next = [...history, post];
+  return next.length > MAX_HISTORY ? next.slice(next.length - MAX_HISTORY) : next;
+}
+
+// Move to a new position, recording the outgoing post in history
+function moveTo(state: PlayQueueState, position: number): PlayQueueState {
+  const target = state.items[position];
+  return {
+    ...state,
+    position,
+    history: pushHistory(state.history, state.items[state.position]),
+    upNext: target ? state.upNext.filter(id => id !== target.id) : state.upNext,
+    ended: false,
+    cycle: state.cycle + 1
+  };
+}
+
+/**
+ * Rebuilds the queue from a fresh post list without disturbing playback.
+ * The current post stays on screen (even if it was dropped from the list) and
+ * pending "play next" items stay directly after it.
+ */
+function syncQueue(state: PlayQueueState, posts: RedditPost[]): PlayQueueState {
+  const incoming = dedupe(posts);
+  const current = state.items[state.position];
+
+  if (incoming.length === 0) {
+    return { ...state, items: [], position: -1, upNext: [], ended: false };
+  }
+
+  if (!current) {
+    return { ...state, items: incoming, position: 0, upNext: [], ended: false, cycle: state.cycle + 1 };
+  }
+
+  const pinned = state.upNext
+    .map(id => state.items.find(item => item.id === id) ?? incoming.find(item => item.id === id))
+    .filter((post): post is RedditPost => !!post && post.id !== current.id);
+  const pinnedIds = new Set(pinned.map(post => post.id));
+
+  const items = incoming.filter(post => !pinnedIds.has(post.id));
+  let position = items.findIndex(post => post.id === current.id);
+  if (position === -1) {
+    position = Math.min(state.position, items.length);
+    items.splice(position, 0, current);
+  } else {
+    // Pick up any changes to the current post's data without re-rendering a different post
+    items[position] = incoming.find(post => post.id === current.id) ?? current;
+  }
+  items.splice(position + 1, 0, ...pinned);
+
+  return {
+    ...state,
+    items,
+    position,
+    upNext: pinned.map(post => post.id)
+  };
+}
+
+export function playQueueReducer(state: PlayQueueState, action: PlayQueueAction): PlayQueueState {
+  switch (action.type) {
+    case 'sync':
+      return syncQueue(state, action.posts);
+
+    case 'advance': {
+      if (state.items.length === 0) return state;
+
+      // Repeat-one only holds the current item for automatic advances; skip still moves on
+      if (action.repeat === 'one' && !action.manual) {
+        return { ...state, cycle: state.cycle + 1 };
+      }
+
+      const nextPosition = state.position + 1;
+      if (nextPosition < state.items.length) {
+        return moveTo(state, nextPosition);
+      }
+      if (action.repeat === 'off' && !action.manual) {
+        return { ...state, ended: true };
+      }
+      return state.items.length > 1 ? moveTo(state, 0) : state;
+    }
+
+    case 'back': {
+      const previous = state.history[state.history.length - 1];
+      if (previous) {
+        const history = state.history.slice(0, -1);
+        const items = [...state.items];
+        let position = items.findIndex(post => post.id === previous.id);
+        if (position === -1) {
+          // The post was dropped by a refresh - put it back just before the current one
+          position = Math.max(state.position, 0);
+          items.splice(position, 0, previous);
+        }
+        return { ...state, items, position, history, ended: false, cycle: state.cycle + 1 };
+      }
+
+      if (state.position > 0) {
+        return { ...state, position: state.position - 1, ended: false, cycle: state.cycle + 1 };
+      }
+      if (action.repeat !== 'off' && state.items.length > 1) {
+        return { ...state, position: state.items.length - 1, ended: false, cycle: state.cycle + 1 };
+      }
+      return state;
+    }
+
+    case 'jump': {
+      if (action.index < 0 || action.index >= state.items.length || action.index === state.position) {
+        return state;
+      }
+      return moveTo(state, action.index);
+    }
+
+    case 'playNext': {
+      const current = state.items[state.position];
+      if (!current) {
+        return { ...state, items: [action.post, ...state.items], position: 0, cycle: state.cycle + 1 };
+      }
+      if (current.id === action.post.id) return state;
+
+      const items = state.items.filter(post => post.id !== action.post.id);
+      const position = items.findIndex(post => post.id === current.id);
+      items.splice(position + 1, 0, action.post);
+
+      return {
+        ...state,
+        items,
+        position,
+        upNext: [action.post.id, ...state.upNext.filter(id => id !== action.post.id)]
+      };
+    }
+
+    case 'remove': {
+      // Drops posts that can't be shown; the one on screen stays until playback moves on
+      const current = state.items[state.position];
+      const ids = new Set(action.ids.filter(id => id !== current?.id));
+      if (!state.items.some(post => ids.has(post.id))) return state;
+
+      const items = state.items.filter(post => !ids.has(post.id));
+      return {
+        ...state,
+        items,
+        position: current ? items.findIndex(post => post.id === current.id) : -1,
+        upNext: state.upNext.filter(id => !ids.has(id))
+      };
+    }
+
+    case 'restart':
+      return state.items.length > 0 ? moveTo(state, 0) : state;
+
+    default:
+      return state;
+  }
+}
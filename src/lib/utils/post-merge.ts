@@ -0,0 +1,49 @@
+import { RedditPost } from '@/types';
+
+// Upper bound on how many posts we keep per subreddit across refreshes
+export const MAX_POSTS_PER_SUBREDDIT = 200;
+
+/**
+ * Merges a freshly fetched post list into the order the viewer has already seen.
+ * Posts we already have keep their position (with their data refreshed), unseen
+ * posts are appended in the order they were fetched, and posts Reddit reports as
+ * removed are dropped. When the list grows past the cap, the oldest posts that
+ * are no longer in the listing are trimmed first.
+ *
+ * @param previous Posts currently in the play order
+ * @param incoming Posts from the latest fetch, already deduplicated and ordered
+ * @param removedIds IDs of posts the latest fetch reported as removed or deleted
+ * @returns The merged post list
+ */
+export function mergePosts(
+  previous: RedditPost[],
+  incoming: RedditPost[],
+  removedIds: Set<string> = new Set()
+): RedditPost[] {
+  const incomingById = new Map(incoming.map(post => [post.id, post]));
+  const seenIds = new Set<string>();
+
+  const kept: RedditPost[] = [];
+  for (const post of previous) {
+    if (removedIds.has(post.id) || seenIds.has(post.id)) continue;
+    seenIds.add(post.id);
+    kept.push(incomingById.get(post.id) ?? post);
+  }
+
+  const appended = incoming.filter(post => !seenIds.has(post.id) && !removedIds.has(post.id));
+  const merged = [...kept, ...appended];
+
+  if (merged.length <= MAX_POSTS_PER_SUBREDDIT) {
+    return merged;
+  }
+
+  // Trim stale posts (no longer in the listing) from the front until we fit
+  let excess = merged.length - MAX_POSTS_PER_SUBREDDIT;
+  return merged.filter(post => {
+    if (excess > 0 && !incomingById.has(post.id)) {
+      excess -= 1;
+      return false;
+    }
+    return true;
+  });
+}
@@ -0,0 +1,260 @@
+import { describe, expect, it } from 'vitest';
+import type { MediaItem } from '../../types/index.ts';
+import {
+  cleanRedditUrl,
+  collectMediaLinks,
+  mediaDomain,
+  normalizeListingPage,
+  normalizeRedditListing,
+} from './reddit-normalize.ts';
+import imgur from './__fixtures__/reddit/imgur.json';
+import redgifs from './__fixtures__/reddit/redgifs.json';
+import gfycat from './__fixtures__/reddit/gfycat.json';
+import vreddit from './__fixtures__/reddit/vreddit.json';
+import gallery from './__fixtures__/reddit/gallery.json';
+import crosspost from './__fixtures__/reddit/crosspost.json';
+
+// Fixtures are listing pages as Reddit returns them from /r/<name>/<sort>.json,
+// trimmed to the fields the normalizer reads
+
+function postById(json: unknown, id: string) {
+  const post = normalizeRedditListing(json).find(candidate => candidate.id === id);
+  if (!post) throw new Error(`No post ${id} in the normalized listing`);
+  return post;
+}
+
+describe('cleanRedditUrl', () => {
+  it('decodes entities and points preview.redd.it at the original on i.redd.it', () => {
+    expect(cleanRedditUrl('https://preview.redd.it/abc.jpg?width=640&amp;crop=smart&amp;s=1'))
+      .toBe('https://i.redd.it/abc.jpg');
+  });
+
+  it('keeps the signature of external-preview.redd.it URLs', () => {
+    expect(cleanRedditUrl('https://external-preview.redd.it/abc.jpg?auto=webp&amp;s=0f1e'))
+      .toBe('https://external-preview.redd.it/abc.jpg?auto=webp&s=0f1e');
+  });
+
+  it('upgrades http to https and handles empty input', () => {
+    expect(cleanRedditUrl('http://i.redd.it/abc.png')).toBe('https://i.redd.it/abc.png');
+    expect(cleanRedditUrl('')).toBe('');
+  });
+});
+
+describe('imgur', () => {
+  it('uses direct i.imgur.com images as they are', () => {
+    expect(postById(imgur, '1c0imga')).toMatchObject({
+      url: 'https://i.imgur.com/Xk3pQ7a.jpg',
+      isImage: true,
+      isVideo: false,
+      thumbnailUrl: 'https://b.thumbs.redditmedia.com/a1b2c3d4e5.jpg',
+      width: 3024,
+      height: 4032,
+      gallery: [],
+    });
+  });
+
+  it('plays .gifv links as the MP4 behind them', () => {
+    expect(postById(imgur, '1c0imgb')).toMatchObject({
+      url: 'https://i.imgur.com/Rb9ZtQw.jpg',
+      isImage: false,
+      isVideo: true,
+      videoUrl: 'https://i.imgur.com/Rb9ZtQw.mp4',
+      thumbnailUrl: 'https://i.imgur.com/Rb9ZtQwm.jpg',
+    });
+  });
+
+  it('turns single image pages into the image file', () => {
+    expect(postById(imgur, '1c0imgc')).toMatchObject({
+      url: 'https://i.imgur.com/Hq72LmN.jpg',
+      isImage: true,
+      isVideo: false,
+    });
+  });
+
+  it('leaves albums to a network resolver and shows the thumbnail until then', () => {
+    expect(collectMediaLinks(imgur)).toEqual(new Map([['1c0imgd', 'https://imgur.com/a/Pz4Kd2B']]));
+    expect(postById(imgur, '1c0imgd')).toMatchObject({
+      url: 'https://b.thumbs.redditmedia.com/j0k1l2m3.jpg',
+      isImage: true,
+      gallery: [],
+    });
+  });
+
+  it('plays resolved albums like galleries', () => {
+    const album: MediaItem[] = [
+      { id: 'Aa1', url: 'https://i.imgur.com/Aa1.jpg', isVideo: false, width: 800, height: 600 },
+      { id: 'Bb2', url: 'https://i.imgur.com/Bb2.jpg', isVideo: true, videoUrl: 'https://i.imgur.com/Bb2.mp4' },
+    ];
+    const [post] = normalizeListingPage(imgur, new Map([['1c0imgd', album]])).posts
+      .filter(candidate => candidate.id === '1c0imgd');
+
+    expect(post).toMatchObject({
+      url: 'https://i.imgur.com/Aa1.jpg',
+      isImage: true,
+      isVideo: false,
+      gallery: album,
+      width: 800,
+      height: 600,
+    });
+  });
+
+  it('keeps Reddit\'s order and the next-page cursor', () => {
+    const page = normalizeListingPage(imgur);
+    expect(page.posts.map(post => post.id)).toEqual(['1c0imga', '1c0imgb', '1c0imgc', '1c0imgd']);
+    expect(page.after).toBe('t3_1c0imgd');
+    expect(page.removedIds).toEqual([]);
+  });
+});
+
+describe('redgifs', () => {
+  it('is looked up by the network resolver', () => {
+    expect(collectMediaLinks(redgifs)).toEqual(new Map([['1c1rga', 'https://www.redgifs.com/watch/gleamingshinyseal']]));
+  });
+
+  it('falls back to Reddit\'s video preview without the resolver', () => {
+    expect(postById(redgifs, '1c1rga')).toMatchObject({
+      url: 'https://thumbs44.redgifs.com/GleamingShinySeal-poster.jpg',
+      isImage: false,
+      isVideo: true,
+      videoUrl: 'https://v.redd.it/abc123preview/DASH_480.mp4',
+      isNSFW: true,
+      width: 640,
+      height: 1138,
+    });
+  });
+
+  it('prefers what the resolver found', () => {
+    const clip: MediaItem = {
+      id: 'gleamingshinyseal',
+      url: 'https://media.redgifs.com/GleamingShinySeal-poster.jpg',
+      isVideo: true,
+      videoUrl: 'https://media.redgifs.com/GleamingShinySeal.mp4',
+      thumbnailUrl: 'https://media.redgifs.com/GleamingShinySeal-mobile.jpg',
+      width: 1080,
+      height: 1920,
+    };
+    const [post] = normalizeListingPage(redgifs, new Map([['1c1rga', [clip]]])).posts;
+
+    expect(post).toMatchObject({
+      url: clip.url,
+      isVideo: true,
+      videoUrl: clip.videoUrl,
+      gallery: [],
+      width: 1080,
+      height: 1920,
+    });
+  });
+});
+
+describe('gfycat', () => {
+  it('is looked up on redgifs by the network resolver', () => {
+    expect(collectMediaLinks(gfycat)).toEqual(new Map([['7xgfya', 'https://gfycat.com/ThankfulEasyBadger-dog-fridge']]));
+  });
+
+  it('falls back to the MP4 variant of Reddit\'s preview', () => {
+    expect(postById(gfycat, '7xgfya')).toMatchObject({
+      url: 'https://thumbs.gfycat.com/ThankfulEasyBadger-size_restricted.gif',
+      isVideo: true,
+      videoUrl: 'https://external-preview.redd.it/ThankfulEasyBadger.gif?format=mp4&s=beef02',
+      thumbnailUrl: 'https://b.thumbs.redditmedia.com/gfy123thumb.jpg',
+      isNSFW: false,
+    });
+  });
+});
+
+describe('v.redd.it', () => {
+  it('uses the silent MP4 fallback and the HLS stream with sound', () => {
+    expect(postById(vreddit, '1c2vra')).toMatchObject({
+      url: 'https://external-preview.redd.it/k7m2xq9slp3c1.png?format=pjpg&auto=webp&s=aa11',
+      isImage: false,
+      isVideo: true,
+      videoUrl: 'https://v.redd.it/k7m2xq9slp3c1/DASH_1080.mp4',
+      hlsUrl: 'https://v.redd.it/k7m2xq9slp3c1/HLSPlaylist.m3u8?a=1715000000%2CZmFrZQ%3D%3D&v=1&f=sd',
+      hasAudio: true,
+      thumbnailUrl: 'https://b.thumbs.redditmedia.com/vr1thumb.jpg',
+      flair: 'Timelapse & Hyperlapse',
+      width: 1920,
+      height: 1080,
+    });
+  });
+
+  it('rewrites DASH playlist fallbacks to an MP4 and shows NSFW videos with the blurred still', () => {
+    const post = postById(vreddit, '1c2vrb');
+    expect(post).toMatchObject({
+      url: 'https://external-preview.redd.it/p0q9r8s7t6u5-blurred.png?blur=40&s=cc33',
+      isVideo: true,
+      videoUrl: 'https://v.redd.it/p0q9r8s7t6u5/DASH_720.mp4',
+      hasAudio: false,
+      isNSFW: true,
+    });
+    expect(post.hlsUrl).toBeUndefined();
+    expect(mediaDomain(post)).toBe('v.redd.it');
+  });
+});
+
+describe('galleries', () => {
+  const post = postById(gallery, '1c3gla');
+
+  it('keeps the items in gallery order and skips ones Reddit is still processing', () => {
+    expect(post.gallery.map(item => item.id)).toEqual(['m1starter', 'm2rising', 'm4crumb']);
+    expect(post.gallery.map(item => item.caption)).toEqual(['Day 1 starter', undefined, 'The crumb']);
+  });
+
+  it('shows the first item as the post', () => {
+    expect(post).toMatchObject({
+      url: 'https://i.redd.it/m1starter.jpg',
+      isImage: true,
+      isVideo: false,
+      width: 3000,
+      height: 4000,
+    });
+    expect(mediaDomain(post)).toBe('i.redd.it');
+  });
+
+  it('plays animated items from their MP4 rendition', () => {
+    expect(post.gallery[1]).toMatchObject({
+      url: 'https://i.redd.it/m2rising.gif',
+      isVideo: true,
+      videoUrl: 'https://preview.redd.it/m2rising.gif?format=mp4&s=221',
+      width: 480,
+      height: 480,
+    });
+  });
+});
+
+describe('crossposts', () => {
+  it('plays a crossposted v.redd.it video from the original', () => {
+    expect(postById(crosspost, '1c4xpa')).toMatchObject({
+      subreddit: 'sunsets',
+      permalink: 'https://reddit.com/r/sunsets/comments/1c4xpa/saw_this_on_rtimelapse_had_to_share/',
+      isVideo: true,
+      videoUrl: 'https://v.redd.it/k7m2xq9slp3c1/DASH_1080.mp4',
+      hlsUrl: 'https://v.redd.it/k7m2xq9slp3c1/HLSPlaylist.m3u8?a=1715000000%2CZmFrZQ%3D%3D&v=1&f=sd',
+      hasAudio: true,
+      width: 1920,
+      height: 1080,
+    });
+  });
+
+  it('plays a crossposted gallery from the original', () => {
+    expect(postById(crosspost, '1c4xpb')).toMatchObject({
+      url: 'https://i.redd.it/m4crumb.png',
+      isImage: true,
+      gallery: [{ id: 'm4crumb', url: 'https://i.redd.it/m4crumb.png', caption: 'The crumb' }],
+    });
+  });
+
+  it('reports removed posts instead of returning them', () => {
+    const page = normalizeListingPage(crosspost);
+    expect(page.posts.map(post => post.id)).toEqual(['1c4xpa', '1c4xpb']);
+    expect(page.removedIds).toEqual(['1c4xpc']);
+  });
+});
+
+describe('normalizeRedditListing', () => {
+  it('returns nothing for empty or malformed input', () => {
+    expect(normalizeRedditListing(null)).toEqual([]);
+    expect(normalizeRedditListing({})).toEqual([]);
+    expect(normalizeRedditListing({ data: { children: [] } })).toEqual([]);
+  });
+});
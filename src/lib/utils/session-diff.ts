@@ -0,0 +1,130 @@
+import { ContentFilters, SessionRevision, SubredditSource } from '@/types';
+import { DEFAULT_POSTS_PER_SORT, DEFAULT_SUBREDDIT_WEIGHT } from '@/lib/constants';
+import { parseContentFilters } from '@/lib/utils/content-filters';
+
+export interface LineChange {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// What changed in one field between two revisions. List-like fields come as added and
+// removed entries, the prompt as a line diff, single values as before/after
+export interface RevisionChange {
+  field: 'subreddits' | 'subreddit_settings' | 'system_prompt' | 'interval' | 'transition' | 'content_filters' | 'thumbnail_url';
+  label: string;
+  before?: string;
+  after?: string;
+  added?: string[];
+  removed?: string[];
+  lines?: LineChange[];
+}
+
+/**
+ * Line-by-line diff of two texts (longest common subsequence), in the order of the
+ * newer text with removed lines placed where they used to be.
+ *
+ * @param before Older text
+ * @param after Newer text
+ * @returns Every line of both texts, marked as kept, added or removed
+ */
+export function diffLines(before: string, after: string): LineChange[] {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+
+  // lengths[i][j] = length of the common subsequence of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const changes: LineChange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      changes.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      changes.push({ type: 'removed', text: a[i++] });
+    } else {
+      changes.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) changes.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) changes.push({ type: 'added', text: b[j++] });
+  return changes;
+}
+
+function describeSource(source: SubredditSource): string {
+  const sort = source.sort ? `${source.sort}${source.sort === 'top' ? ` (${source.time ?? 'day'})` : ''}` : 'hot + top today';
+  return `r/${source.name}: ${sort}, ${source.limit ?? DEFAULT_POSTS_PER_SORT} per fetch, weight ${source.weight ?? DEFAULT_SUBREDDIT_WEIGHT}`;
+}
+
+function describeFilters(filters: ContentFilters): string[] {
+  const rules = parseContentFilters(filters);
+  const lines: string[] = [];
+  if (rules.nsfw) lines.push(rules.nsfw === 'only' ? 'Only NSFW posts' : 'No NSFW posts');
+  if (rules.mediaTypes) lines.push(`Media types: ${rules.mediaTypes.join(', ')}`);
+  if (rules.minScore !== undefined) lines.push(`Minimum score: ${rules.minScore}`);
+  if (rules.minResolution) lines.push(`Minimum resolution: ${rules.minResolution}p`);
+  if (rules.titleInclude) lines.push(`Title contains one of: ${rules.titleInclude.join(', ')}`);
+  if (rules.titleExclude) lines.push(`Title doesn't contain: ${rules.titleExclude.join(', ')}`);
+  if (rules.flairInclude) lines.push(`Flair is one of: ${rules.flairInclude.join(', ')}`);
+  if (rules.flairExclude) lines.push(`Flair isn't: ${rules.flairExclude.join(', ')}`);
+  if (rules.authorBlocklist) lines.push(`Blocked authors: ${rules.authorBlocklist.join(', ')}`);
+  return lines;
+}
+
+function listChange(field: RevisionChange['field'], label: string, before: string[], after: string[]): RevisionChange | null {
+  const added = after.filter(entry => !before.includes(entry));
+  const removed = before.filter(entry => !after.includes(entry));
+  return added.length > 0 || removed.length > 0 ? { field, label, added, removed } : null;
+}
+
+/**
+ * The fields that differ between two revisions of a session.
+ *
+ * @param before The older revision, or null to describe the first one as all new
+ * @param after The newer revision
+ * @returns One entry per changed field, in form order
+ */
+export function diffRevisions(before: SessionRevision | null, after: SessionRevision): RevisionChange[] {
+  const changes: Array<RevisionChange | null> = [
+    listChange('subreddits', 'Subreddits',
+      (before?.subreddits ?? []).map(name => `r/${name}`),
+      after.subreddits.map(name => `r/${name}`)),
+    listChange('subreddit_settings', 'Subreddit mix',
+      (before?.subreddit_settings ?? []).map(describeSource),
+      (after.subreddit_settings ?? []).map(describeSource)),
+    listChange('content_filters', 'Content filters',
+      describeFilters(before?.content_filters ?? {}),
+      describeFilters(after.content_filters ?? {})),
+  ];
+
+  if (before?.interval !== after.interval) {
+    changes.push({ field: 'interval', label: 'Interval', before: before ? `${before.interval}s` : undefined, after: `${after.interval}s` });
+  }
+  if (before?.transition !== after.transition) {
+    changes.push({ field: 'transition', label: 'Transition', before: before?.transition, after: after.transition });
+  }
+  // The form stores a removed thumbnail as an empty string
+  if ((before?.thumbnail_url || null) !== (after.thumbnail_url || null)) {
+    changes.push({
+      field: 'thumbnail_url',
+      label: 'Thumbnail',
+      before: before?.thumbnail_url ? 'Custom image' : 'None',
+      after: after.thumbnail_url ? (before?.thumbnail_url ? 'New image' : 'Custom image') : 'None',
+    });
+  }
+  if ((before?.system_prompt ?? '') !== after.system_prompt) {
+    changes.push({ field: 'system_prompt', label: 'Caption prompt', lines: diffLines(before?.system_prompt ?? '', after.system_prompt) });
+  }
+
+  const order: RevisionChange['field'][] = ['subreddits', 'subreddit_settings', 'interval', 'transition', 'content_filters', 'system_prompt', 'thumbnail_url'];
+  return changes
+    .filter((change): change is RevisionChange => change !== null)
+    .sort((a, b) => order.indexOf(a.field) - order.indexOf(b.field));
+}
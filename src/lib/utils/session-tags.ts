@@ -0,0 +1,24 @@
+import { MAX_SESSION_TAGS, MAX_TAG_LENGTH } from '@/lib/constants';
+
+/**
+ * Parses user input into session tags: split on commas, lower-cased, with anything but
+ * letters, digits and dashes turned into dashes. Duplicates are dropped and at most
+ * `MAX_SESSION_TAGS` are kept, in the order given.
+ *
+ * @param input User input string, e.g. "Nature, city lights, #travel"
+ * @returns Tags such as ['nature', 'city-lights', 'travel']
+ */
+export function parseTags(input: string): string[] {
+  const tags = input
+    .split(/[,;\n]+/)
+    .map(item => item
+      .trim()
+      .toLowerCase()
+      .replace(/^#/, '')
+      .replace(/[^a-z0-9-]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, MAX_TAG_LENGTH))
+    .filter(tag => tag.length > 0);
+
+  return Array.from(new Set(tags)).slice(0, MAX_SESSION_TAGS);
+}
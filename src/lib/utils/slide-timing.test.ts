@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { mediaStatusFor, shouldLoopVideo, slideDuration, SlideTimingOptions } from './slide-timing.ts';
+
+const options: SlideTimingOptions = {
+  interval: 8,
+  galleryInterval: 3,
+  videoTiming: 'complete',
+  videoMaxSeconds: 30,
+};
+
+describe('slideDuration', () => {
+  it('shows images for the interval, or the gallery interval inside a gallery', () => {
+    expect(slideDuration(false, false, undefined, options)).toBe(8);
+    expect(slideDuration(false, true, undefined, options)).toBe(3);
+  });
+
+  it("plays a video once with 'complete', falling back to the interval until its length is known", () => {
+    expect(slideDuration(true, false, 42.5, options)).toBe(42.5);
+    expect(slideDuration(true, false, undefined, options)).toBe(8);
+    expect(slideDuration(true, true, undefined, options)).toBe(3);
+  });
+
+  it("loops a video for the interval with 'interval'", () => {
+    const looping = { ...options, videoTiming: 'interval' as const };
+    expect(slideDuration(true, false, 42.5, looping)).toBe(8);
+    expect(slideDuration(true, true, 42.5, looping)).toBe(3);
+  });
+
+  it("caps a video at the maximum with 'max'", () => {
+    const capped = { ...options, videoTiming: 'max' as const };
+    expect(slideDuration(true, false, 12, capped)).toBe(12);
+    expect(slideDuration(true, false, 95, capped)).toBe(30);
+    expect(slideDuration(true, false, undefined, capped)).toBe(30);
+  });
+
+  it('treats endless or broken durations as unknown', () => {
+    expect(slideDuration(true, false, Infinity, options)).toBe(8);
+    expect(slideDuration(true, false, NaN, options)).toBe(8);
+    expect(slideDuration(true, false, 0, options)).toBe(8);
+    expect(slideDuration(true, false, Infinity, { ...options, videoTiming: 'max' })).toBe(30);
+  });
+});
+
+describe('shouldLoopVideo', () => {
+  it("only loops with 'interval', or when the slide is held anyway", () => {
+    expect(shouldLoopVideo('interval', false)).toBe(true);
+    expect(shouldLoopVideo('complete', false)).toBe(false);
+    expect(shouldLoopVideo('max', false)).toBe(false);
+    expect(shouldLoopVideo('complete', true)).toBe(true);
+    expect(shouldLoopVideo('max', true)).toBe(true);
+  });
+});
+
+describe('mediaStatusFor', () => {
+  it('maps display events to the status the slide timer waits on', () => {
+    expect(mediaStatusFor('loaded')).toBe('ready');
+    expect(mediaStatusFor('playing')).toBe('ready');
+    expect(mediaStatusFor('buffering')).toBe('buffering');
+    expect(mediaStatusFor('ended')).toBe('ended');
+    expect(mediaStatusFor('error')).toBe('failed');
+  });
+});
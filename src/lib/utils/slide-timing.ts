@@ -0,0 +1,84 @@
+import { VideoTiming } from '@/types';
+
+/**
+ * Where the media on screen is, as reported by the display:
+ * - 'loading': not shown yet, the timer waits
+ * - 'ready': on screen (image loaded, video playing)
+ * - 'buffering': a video stalled mid-playback, the timer waits
+ * - 'ended': a video that doesn't loop played to its end
+ * - 'failed': nothing could be loaded, not even the fallbacks; the slide is skipped
+ */
+export type MediaStatus = 'loading' | 'ready' | 'buffering' | 'ended' | 'failed';
+
+export interface MediaPlaybackEvent {
+  mediaId: string; // ID of the post, or of the gallery item for galleries
+  type: 'loaded' | 'playing' | 'buffering' | 'ended' | 'error';
+  duration?: number; // Seconds, for videos once their metadata is in
+}
+
+export interface SlideTimingOptions {
+  interval: number;        // Seconds per post
+  galleryInterval: number; // Seconds per gallery item
+  videoTiming: VideoTiming;
+  videoMaxSeconds: number; // Cap for 'max'
+}
+
+/**
+ * The status a display event puts the media in.
+ */
+export function mediaStatusFor(event: MediaPlaybackEvent['type']): MediaStatus {
+  switch (event) {
+    case 'buffering':
+      return 'buffering';
+    case 'ended':
+      return 'ended';
+    case 'error':
+      return 'failed';
+    default:
+      return 'ready';
+  }
+}
+
+/**
+ * How long a slide stays on screen, in seconds of actual display time.
+ * Images get the interval (or the gallery interval inside a gallery). Videos depend on
+ * the timing rule: 'complete' lasts one play-through, 'interval' loops for the interval
+ * and 'max' plays once but no longer than the cap. Until a video's duration is known,
+ * 'complete' falls back to the interval and 'max' to the cap.
+ *
+ * @param isVideo Whether the slide is a video
+ * @param inGallery Whether the slide is one item of a gallery
+ * @param duration Video length in seconds, when known
+ * @param options The session's timing settings
+ * @returns Seconds to show the slide
+ */
+export function slideDuration(
+  isVideo: boolean,
+  inGallery: boolean,
+  duration: number | undefined,
+  options: SlideTimingOptions
+): number {
+  const base = inGallery ? options.galleryInterval : options.interval;
+  if (!isVideo) return base;
+
+  // Live streams and broken metadata report Infinity or NaN
+  const knownDuration = duration !== undefined && Number.isFinite(duration) && duration > 0 ? duration : undefined;
+
+  switch (options.videoTiming) {
+    case 'complete':
+      return knownDuration ?? base;
+    case 'max':
+      return Math.min(knownDuration ?? options.videoMaxSeconds, options.videoMaxSeconds);
+    default:
+      return base;
+  }
+}
+
+/**
+ * Whether a video slide should loop. Only looping videos never end, so the rules that
+ * advance on the end play once; the exception is when the slide will be held anyway
+ * (repeat-one, or nothing else in the queue), where stopping on the last frame would look broken.
+ */
+export function shouldLoopVideo(videoTiming: VideoTiming, holdsSlide: boolean): boolean {
+  return videoTiming === 'interval' || holdsSlide;
+}
@@ -0,0 +1,86 @@
+import { JoiSession, SubredditSource } from '@/types';
+import {
+  DEFAULT_POSTS_PER_SORT,
+  DEFAULT_SUBREDDIT_WEIGHT,
+  MAX_POSTS_PER_SORT
+} from '@/lib/constants';
+
+// One listing request for a subreddit, e.g. /r/pics/top?t=week
+export interface ListingSpec {
+  sort: string; // Listing path segment
+  params: Record<string, string>;
+  label: string; // Human-readable key used in logs and cursors
+}
+
+/**
+ * Builds the full per-subreddit settings for a session, filling in defaults for
+ * subreddits that have no saved settings and dropping settings for subreddits
+ * that are no longer in the list.
+ *
+ * @param subreddits Subreddit names in session order
+ * @param settings Saved per-subreddit settings (matched by name, case-insensitive)
+ * @returns One source per subreddit name
+ */
+export function resolveSubredditSources(
+  subreddits: string[],
+  settings: SubredditSource[] = []
+): SubredditSource[] {
+  return subreddits.map(name => {
+    const saved = settings.find(source => source.name.toLowerCase() === name.toLowerCase());
+    return {
+      name,
+      sort: saved?.sort,
+      time: saved?.sort === 'top' ? saved.time ?? 'day' : undefined,
+      limit: clampLimit(saved?.limit),
+      weight: clampWeight(saved?.weight)
+    };
+  });
+}
+
+/**
+ * Convenience wrapper for a session row
+ */
+export function getSessionSources(session: Pick<JoiSession, 'subreddits' | 'subreddit_settings'> | null | undefined): SubredditSource[] {
+  if (!session) return [];
+  return resolveSubredditSources(session.subreddits ?? [], session.subreddit_settings ?? []);
+}
+
+/**
+ * Listing requests to make for a source. Sources without an explicit sort keep the
+ * original mix of hot + top of the day.
+ */
+export function getListingSpecs(source: SubredditSource): ListingSpec[] {
+  if (!source.sort) {
+    return [
+      { sort: 'hot', params: {}, label: 'hot' },
+      { sort: 'top', params: { t: 'day' }, label: 'top?t=day' }
+    ];
+  }
+
+  if (source.sort === 'top') {
+    const time = source.time ?? 'day';
+    return [{ sort: 'top', params: { t: time }, label: `top?t=${time}` }];
+  }
+
+  return [{ sort: source.sort, params: {}, label: source.sort }];
+}
+
+/**
+ * Stable string for a list of sources, used to avoid refetching when a parent
+ * re-renders with an equal but newly allocated array.
+ */
+export function sourcesKey(sources: SubredditSource[]): string {
+  return sources
+    .map(source => [source.name, source.sort ?? '', source.time ?? '', source.limit ?? '', source.weight ?? ''].join(':'))
+    .join('|');
+}
+
+function clampLimit(limit: number | undefined): number {
+  if (!limit || Number.isNaN(limit)) return DEFAULT_POSTS_PER_SORT;
+  return Math.min(Math.max(Math.round(limit), 1), MAX_POSTS_PER_SORT);
+}
+
+function clampWeight(weight: number | undefined): number {
+  if (weight === undefined || Number.isNaN(weight) || weight <= 0) return DEFAULT_SUBREDDIT_WEIGHT;
+  return weight;
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import type { TranscriptEntry } from '../../types/index.ts';
+import { appendTranscriptEntry, transcriptToSrt } from './transcript.ts';
+
+function entry(postId: string, caption: string, timestamp: string): TranscriptEntry {
+  return {
+    postId,
+    permalink: `https://reddit.com/r/pics/comments/${postId}/`,
+    subreddit: 'pics',
+    title: `Post ${postId}`,
+    caption,
+    timestamp,
+  };
+}
+
+describe('appendTranscriptEntry', () => {
+  const first = entry('a1', 'A sunrise over the bay', '2025-06-01T10:00:00.000Z');
+
+  it('adds captions for new posts at the end', () => {
+    const second = entry('b2', 'A dog on a skateboard', '2025-06-01T10:00:08.000Z');
+    expect(appendTranscriptEntry([first], second)).toEqual([first, second]);
+  });
+
+  it('replaces a regenerated caption for the last post, keeping when it was first shown', () => {
+    const regenerated = { ...entry('a1', 'Dawn breaking over calm water', '2025-06-01T10:00:05.000Z'), model: 'vision-model' };
+    expect(appendTranscriptEntry([first], regenerated)).toEqual([
+      { ...regenerated, timestamp: first.timestamp },
+    ]);
+  });
+
+  it('returns the same array when the last caption is shown again', () => {
+    const transcript = [first];
+    expect(appendTranscriptEntry(transcript, { ...first, timestamp: '2025-06-01T10:01:00.000Z' })).toBe(transcript);
+  });
+
+  it('records a post again once another post came in between', () => {
+    const other = entry('b2', 'A dog on a skateboard', '2025-06-01T10:00:08.000Z');
+    const again = entry('a1', 'A sunrise over the bay', '2025-06-01T10:00:16.000Z');
+    expect(appendTranscriptEntry([first, other], again)).toHaveLength(3);
+  });
+});
+
+describe('transcriptToSrt', () => {
+  it('times each cue from the first caption until the next one', () => {
+    const srt = transcriptToSrt([
+      entry('a1', 'First', '2025-06-01T10:00:00.000Z'),
+      entry('b2', 'Second', '2025-06-01T10:00:08.250Z'),
+      entry('c3', 'Third', '2025-06-01T11:01:02.000Z'),
+    ], 10);
+
+    expect(srt).toBe([
+      '1',
+      '00:00:00,000 --> 00:00:08,250',
+      'First',
+      '',
+      '2',
+      '00:00:08,250 --> 01:01:02,000',
+      'Second',
+      '',
+      '3',
+      '01:01:02,000 --> 01:01:12,000',
+      'Third',
+      '',
+    ].join('\n'));
+  });
+
+  it('keeps multi-paragraph captions inside one cue', () => {
+    const srt = transcriptToSrt([
+      entry('a1', 'Look at that light.\n\n\nPure gold.\r\n  \r\nStay a while.\n', '2025-06-01T10:00:00.000Z'),
+      entry('b2', 'Next', '2025-06-01T10:00:05.000Z'),
+    ], 5);
+
+    const cues = srt.split('\n\n');
+    expect(cues[0]).toBe('1\n00:00:00,000 --> 00:00:05,000\nLook at that light.\nPure gold.\nStay a while.');
+    expect(cues[1]).toBe('2\n00:00:05,000 --> 00:00:10,000\nNext\n');
+  });
+
+  it('keeps single line breaks', () => {
+    const srt = transcriptToSrt([entry('a1', 'Line one\nLine two', '2025-06-01T10:00:00.000Z')], 3);
+    expect(srt).toBe('1\n00:00:00,000 --> 00:00:03,000\nLine one\nLine two\n');
+  });
+
+  it('never lets a cue end before it starts', () => {
+    const srt = transcriptToSrt([
+      entry('a1', 'Later', '2025-06-01T10:00:10.000Z'),
+      entry('b2', 'Clock went back', '2025-06-01T10:00:05.000Z'),
+    ], 4);
+    expect(srt.split('\n')[1]).toBe('00:00:00,000 --> 00:00:00,000');
+  });
+
+  it('is empty without entries', () => {
+    expect(transcriptToSrt([], 8)).toBe('');
+  });
+});
@@ -0,0 +1,154 @@
+import { TranscriptEntry } from '@/types';
+
+export type TranscriptFormat = 'markdown' | 'json' | 'srt';
+
+/**
+ * Entries whose caption, title, subreddit or model contain the query (case-insensitive).
+ *
+ * @param entries Transcript entries
+ * @param query Search text; blank returns every entry
+ * @returns Matching entries, in order
+ */
+export function searchTranscript(entries: TranscriptEntry[], query: string): TranscriptEntry[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return entries;
+
+  return entries.filter(entry =>
+    [entry.caption, entry.title, entry.subreddit, entry.model ?? '']
+      .some(field => field.toLowerCase().includes(needle))
+  );
+}
+
+/**
+ * Adds a caption to a transcript. A new caption for the post that was last recorded
+ * (e.g. after regenerating) replaces that entry instead of adding another one.
+ *
+ * @param entries Current transcript
+ * @param entry Caption that was just shown
+ * @returns The updated transcript, or the same array when nothing changed
+ */
+export function appendTranscriptEntry(entries: TranscriptEntry[], entry: TranscriptEntry): TranscriptEntry[] {
+  const last = entries[entries.length - 1];
+  if (last?.postId !== entry.postId) {
+    return [...entries, entry];
+  }
+  if (last.caption === entry.caption) {
+    return entries;
+  }
+  return [...entries.slice(0, -1), { ...entry, timestamp: last.timestamp }];
+}
+
+/**
+ * Markdown transcript: a heading per caption with a link to the post.
+ *
+ * @param entries Transcript entries
+ * @param title Session title, used as the document heading
+ * @returns Markdown document
+ */
+export function transcriptToMarkdown(entries: TranscriptEntry[], title: string): string {
+  const sections = entries.map((entry, index) => {
+    const time = new Date(entry.timestamp).toLocaleString();
+    const meta = [`r/${entry.subreddit}`, time, entry.model].filter(Boolean).join(' · ');
+    return [
+      `## ${index + 1}. [${entry.title.replace(/[[\]]/g, '\\$&')}](${entry.permalink})`,
+      '',
+      `_${meta}_`,
+      '',
+      entry.caption
+    ].join('\n');
+  });
+
+  return [`# ${title}`, '', ...sections.flatMap(section => [section, ''])].join('\n');
+}
+
+/**
+ * JSON transcript, as stored on the play.
+ *
+ * @param entries Transcript entries
+ * @returns Pretty-printed JSON array
+ */
+export function transcriptToJson(entries: TranscriptEntry[]): string {
+  return JSON.stringify(entries, null, 2);
+}
+
+function formatSrtTime(ms: number): string {
+  const clamped = Math.max(0, Math.round(ms));
+  const hours = Math.floor(clamped / 3_600_000);
+  const minutes = Math.floor((clamped % 3_600_000) / 60_000);
+  const seconds = Math.floor((clamped % 60_000) / 1000);
+  const millis = clamped % 1000;
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)},${pad(millis, 3)}`;
+}
+
+// SRT ends a cue at the first blank line, so paragraphs in a caption become plain line breaks
+function srtCueText(caption: string): string {
+  return caption
+    .replace(/\r\n?/g, '\n')
+    .trim()
+    .replace(/\n[ \t]*(?:\n[ \t]*)+/g, '\n');
+}
+
+/**
+ * SRT-style timed text. Times are relative to the first caption; each caption runs
+ * until the next one was shown.
+ *
+ * @param entries Transcript entries
+ * @param lastDurationSeconds How long the final caption is shown (the session interval)
+ * @returns SRT document
+ */
+export function transcriptToSrt(entries: TranscriptEntry[], lastDurationSeconds: number): string {
+  if (entries.length === 0) return '';
+
+  const start = new Date(entries[0].timestamp).getTime();
+  return entries.map((entry, index) => {
+    const from = new Date(entry.timestamp).getTime() - start;
+    const next = entries[index + 1];
+    const to = next
+      ? new Date(next.timestamp).getTime() - start
+      : from + lastDurationSeconds * 1000;
+    return [
+      String(index + 1),
+      `${formatSrtTime(from)} --> ${formatSrtTime(Math.max(to, from))}`,
+      srtCueText(entry.caption),
+      ''
+    ].join('\n');
+  }).join('\n');
+}
+
+const FORMAT_FILES: Record<TranscriptFormat, { extension: string; type: string }> = {
+  markdown: { extension: 'md', type: 'text/markdown' },
+  json: { extension: 'json', type: 'application/json' },
+  srt: { extension: 'srt', type: 'application/x-subrip' },
+};
+
+/**
+ * Saves a transcript as a file through the browser's download prompt.
+ *
+ * @param entries Transcript entries
+ * @param format Export format
+ * @param title Session title, used for the file name and Markdown heading
+ * @param lastDurationSeconds Duration of the final caption in SRT exports
+ */
+export function downloadTranscript(
+  entries: TranscriptEntry[],
+  format: TranscriptFormat,
+  title: string,
+  lastDurationSeconds: number
+): void {
+  const content = format === 'markdown'
+    ? transcriptToMarkdown(entries, title)
+    : format === 'json'
+      ? transcriptToJson(entries)
+      : transcriptToSrt(entries, lastDurationSeconds);
+
+  const { extension, type } = FORMAT_FILES[format];
+  const fileName = `${title.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || 'transcript'}.${extension}`;
+
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,49 @@
+// Frames are scaled down to this width; plenty for a caption model and keeps the request small
+const MAX_FRAME_WIDTH = 768;
+
+// Video hosts known to send CORS headers, so their frames can be read back from a canvas
+const FRAME_CAPTURE_HOSTS = ['v.redd.it'];
+
+/**
+ * Whether frames of a video can be captured. The video element must be loaded with
+ * `crossOrigin="anonymous"` for this to work, which only succeeds on hosts that send
+ * CORS headers - other hosts would fail to load at all.
+ *
+ * @param url Video source URL
+ * @returns True when the host allows frame capture
+ */
+export function canCaptureFrames(url: string | undefined): boolean {
+  if (!url) return false;
+  try {
+    return FRAME_CAPTURE_HOSTS.includes(new URL(url).hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Grabs the frame a video is currently showing as a JPEG data URL.
+ *
+ * @param video A video element with at least one decoded frame
+ * @returns The frame, or null when it can't be read (no frame yet or a tainted canvas)
+ */
+export function captureVideoFrame(video: HTMLVideoElement): string | null {
+  if (!video.videoWidth || !video.videoHeight) return null;
+
+  const scale = Math.min(1, MAX_FRAME_WIDTH / video.videoWidth);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+
+  try {
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.8);
+  } catch (error) {
+    // Cross-origin video without CORS headers taints the canvas
+    console.warn('[VideoFrame] Could not capture video frame:', error);
+    return null;
+  }
+}
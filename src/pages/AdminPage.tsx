@@ -12,6 +12,10 @@ import logoDark from '../assets/Joip App Logo Dark.png';
 // New extracted components
 import { AdminHeader } from './admin/AdminHeader';
 import { AdminTabs } from './admin/AdminTabs';
+import { MediaFailureRow } from './admin/AdminMediaReport';
+
+// Days of fetched posts the broken-media report covers
+const MEDIA_REPORT_DAYS = 30;
 
 // Define types for statistics and profiles
 interface AdminStats {
@@ -38,6 +42,9 @@ interface UserProfile {
 interface GlobalSettings {
   openrouter_api_key: string;
   openrouter_model: string;
+  openrouter_vision_model: string;
+  openrouter_allowed_models: string; // Comma-separated while editing
+  openrouter_max_tokens: number;
   default_system_prompt: string;
 }
 
@@ -49,9 +56,13 @@ export function AdminPage() {
   // State for admin data
   const [stats, setStats] = useState<AdminStats | null>(null);
   const [users, setUsers] = useState<UserProfile[]>([]);
+  const [mediaReport, setMediaReport] = useState<MediaFailureRow[]>([]);
   const [settings, setSettings] = useState<GlobalSettings>({
     openrouter_api_key: '',
     openrouter_model: 'meta-llama/llama-4-maverick',
+    openrouter_vision_model: '',
+    openrouter_allowed_models: '',
+    openrouter_max_tokens: 300,
     default_system_prompt: ''
   });
   
@@ -116,6 +127,9 @@ export function AdminPage() {
         setSettings({
           openrouter_api_key: settingsData.openrouter_api_key || '',
           openrouter_model: settingsData.openrouter_model || 'meta-llama/llama-4-maverick',
+          openrouter_vision_model: settingsData.openrouter_vision_model || '',
+          openrouter_allowed_models: (settingsData.openrouter_allowed_models || []).join(', '),
+          openrouter_max_tokens: settingsData.openrouter_max_tokens ?? 300,
           default_system_prompt: settingsData.default_system_prompt || ''
         });
       }
@@ -143,6 +157,22 @@ export function AdminPage() {
         .select('id', { count: 'exact', head: true });
       
       if (sessionsError) throw sessionsError;
+
+      // Broken media by host and subreddit; the rest of the dashboard works without it
+      const { data: mediaReportData, error: mediaReportError } = await supabase
+        .rpc('dead_media_report', { p_days: MEDIA_REPORT_DAYS });
+
+      if (mediaReportError) {
+        console.error('Error fetching broken media report:', mediaReportError);
+      } else {
+        setMediaReport((mediaReportData ?? []).map((row: MediaFailureRow) => ({
+          ...row,
+          // BIGINT and NUMERIC columns arrive as strings
+          seen_posts: Number(row.seen_posts),
+          dead_posts: Number(row.dead_posts),
+          failure_rate: Number(row.failure_rate),
+        })));
+      }
       
       // Set statistics
       setStats({
@@ -175,6 +205,12 @@ export function AdminPage() {
           id: 1, // Use a single row for global settings
           openrouter_api_key: settings.openrouter_api_key,
           openrouter_model: settings.openrouter_model,
+          openrouter_vision_model: settings.openrouter_vision_model || null,
+          openrouter_allowed_models: settings.openrouter_allowed_models
+            .split(',')
+            .map(model => model.trim())
+            .filter(Boolean),
+          openrouter_max_tokens: settings.openrouter_max_tokens,
           default_system_prompt: settings.default_system_prompt,
           updated_at: new Date().toISOString(),
           updated_by: user.id
@@ -309,6 +345,8 @@ export function AdminPage() {
             deleteUser={deleteUser}
             makeUserAdmin={makeUserAdmin}
             setSettings={setSettings}
+            mediaReport={mediaReport}
+            mediaReportDays={MEDIA_REPORT_DAYS}
           />
         </div>
       </main>
@@ -0,0 +1,179 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { ThemeToggle } from '@/components/ThemeToggle';
+import { UserAvatar } from '@/components/UserAvatar';
+import { PublicSessionCard } from '@/components/PublicSessionCard';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTheme } from '@/hooks/useTheme';
+import { useExploreSessions } from '@/hooks/useExploreSessions';
+import { ExploreSort } from '@/types';
+import { EXPLORE_SORTS } from '@/lib/constants';
+import { ArrowLeft, Loader2, Search, X } from 'lucide-react';
+
+// Import logo images
+import logoLight from '../assets/Joip App Logo Light.png';
+import logoDark from '../assets/Joip App Logo Dark.png';
+
+// Wait for the user to stop typing before searching
+const SEARCH_DELAY_MS = 300;
+
+export function ExplorePage() {
+  const { user } = useAuth();
+  const { theme } = useTheme();
+
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [sort, setSort] = useState<ExploreSort>('newest');
+
+  const { sessions, popularTags, loading, error, hasMore, loadMore } = useExploreSessions(search, selectedTags, sort);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const toggleTag = (tag: string) => {
+    setSelectedTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+  };
+
+  // Selected tags stay visible even when they aren't among the most used ones
+  const tagChoices = Array.from(new Set([...selectedTags, ...popularTags.map(({ tag }) => tag)]));
+
+  return (
+    <div className="flex flex-col bg-background min-h-screen">
+      <header className="flex items-center justify-between p-4 border-b bg-card/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="flex items-center gap-4">
+          <Link to="/sessions" className="mr-2">
+            <Button variant="ghost" size="icon">
+              <ArrowLeft className="h-5 w-5" />
+              <span className="sr-only">Back</span>
+            </Button>
+          </Link>
+          <img
+            src={theme === 'dark' ? logoDark : logoLight}
+            alt="Joip AI"
+            className="h-auto w-auto max-h-9 object-contain"
+          />
+        </div>
+        <div className="flex items-center gap-4">
+          <ThemeToggle />
+          <UserAvatar />
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-y-auto p-4 md:p-8 pt-8">
+        <div className="max-w-6xl mx-auto">
+          <div className="mb-6">
+            <h1 className="text-3xl font-bold tracking-tight">Explore</h1>
+            <p className="text-muted-foreground mt-1">
+              Discover sessions other people have made public
+            </p>
+          </div>
+
+          <div className="bg-card rounded-xl border shadow-sm p-4 md:p-6 mb-8">
+            <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center mb-4">
+              <div className="relative flex-1 w-full">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search titles, descriptions and subreddits..."
+                  className="pl-10"
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                />
+              </div>
+              <Select value={sort} onValueChange={(value) => setSort(value as ExploreSort)}>
+                <SelectTrigger className="sm:w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPLORE_SORTS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {tagChoices.length > 0 && (
+              <div className="flex flex-wrap gap-2 mb-6">
+                {tagChoices.map((tag) => {
+                  const selected = selectedTags.includes(tag);
+                  return (
+                    <Badge
+                      key={tag}
+                      variant={selected ? 'default' : 'outline'}
+                      className="cursor-pointer"
+                      onClick={() => toggleTag(tag)}
+                    >
+                      #{tag}
+                      {selected && <X className="h-3 w-3 ml-1" />}
+                    </Badge>
+                  );
+                })}
+              </div>
+            )}
+
+            {error ? (
+              <div className="text-center py-12">
+                <h3 className="text-lg font-medium mb-2">Couldn't load sessions</h3>
+                <p className="text-muted-foreground">{error}</p>
+              </div>
+            ) : sessions.length === 0 && !loading ? (
+              <div className="text-center py-12">
+                <h3 className="text-lg font-medium mb-2">No public sessions found</h3>
+                <p className="text-muted-foreground">
+                  {search || selectedTags.length > 0
+                    ? 'Try a different search or fewer tags'
+                    : 'Make one of your sessions public to get things started'}
+                </p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {sessions.map((session) => (
+                  <PublicSessionCard
+                    key={session.id}
+                    session={session}
+                    isOwn={session.user_id === user?.id}
+                    onTagClick={(tag) => !selectedTags.includes(tag) && toggleTag(tag)}
+                  />
+                ))}
+              </div>
+            )}
+
+            {loading && (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            )}
+
+            {hasMore && !loading && !error && (
+              <div className="flex justify-center mt-6">
+                <Button variant="outline" onClick={loadMore}>
+                  Load more
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      </main>
+
+      <footer className="py-4 border-t">
+        <div className="max-w-6xl mx-auto px-4 text-center text-sm text-muted-foreground">
+          <p>Joip AI &copy; {new Date().getFullYear()}</p>
+        </div>
+      </footer>
+    </div>
+  );
+}
@@ -5,11 +5,16 @@ import { UserAvatar } from '@/components/UserAvatar';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/contexts/AuthContext';
 import { useJoiSessions } from '@/hooks/useJoiSessions';
-import { JoiSession } from '@/types';
+import { useSessionRevisions } from '@/hooks/useSessionRevisions';
+import { useSessionPresence } from '@/hooks/useSessionPresence';
+import { JoiSession, SessionRevision, SessionRole } from '@/types';
 import { ArrowLeft, RefreshCw } from 'lucide-react';
 import { useTheme } from '@/hooks/useTheme';
 import { SessionForm } from '@/components/SessionForm';
+import { SessionHistoryPanel } from '@/components/SessionHistoryPanel';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { supabase } from '@/lib/supabase';
+import { toast } from 'sonner';
 import React from 'react';
 
 // Import logo images
@@ -26,7 +31,9 @@ export function SessionFormPage() {
   const navigate = useNavigate();
   const { user, loading: userLoading } = useAuth();
   const { theme } = useTheme();
-  const { sessions, loading: sessionsLoading, fetchSessions } = useJoiSessions();
+  const { sessions, loading: sessionsLoading, fetchSessions, updateSession } = useJoiSessions();
+  const history = useSessionRevisions(isEditing ? id : undefined);
+  const otherEditors = useSessionPresence(isEditing ? id : undefined);
   
   // Debug current route and mode
   console.log('SessionFormPage mode:', {
@@ -40,6 +47,11 @@ export function SessionFormPage() {
   const [notFound, setNotFound] = useState(false);
   const [loadingTimeout, setLoadingTimeout] = useState(false);
   const [isDirectFetching, setIsDirectFetching] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  // Collaborators edit sessions shared with them, within what their role allows
+  const [role, setRole] = useState<SessionRole>('owner');
+  // Bumped to reload the form from the database after a restore
+  const [formKey, setFormKey] = useState(0);
   
   // Flag to prevent multiple notFound state updates
   const hasSetNotFoundRef = React.useRef(false);
@@ -52,12 +64,12 @@ export function SessionFormPage() {
     try {
       setIsDirectFetching(true);
       
-      // Try to fetch the session directly from the database
+      // Try to fetch the session directly from the database; sessions shared with
+      // the user are readable too
       const { data: ownSession, error: ownError } = await supabase
         .from('joi_sessions')
         .select('*')
         .eq('id', sessionId)
-        .eq('user_id', user.id)
         .maybeSingle();
       
       if (ownError) {
@@ -65,12 +77,27 @@ export function SessionFormPage() {
         return null;
       }
       
-      if (ownSession) {
-        console.log('Successfully fetched session directly:', ownSession.title);
-        return ownSession;
+      if (!ownSession) {
+        return null;
       }
-      
-      return null;
+
+      if (ownSession.user_id !== user.id) {
+        const { data: sharedRole, error: roleError } = await supabase
+          .rpc('session_role', { p_session_id: sessionId });
+
+        if (roleError) {
+          console.error('Error checking session role:', roleError);
+          return null;
+        }
+        if (sharedRole !== 'editor' && sharedRole !== 'co_owner') {
+          console.log('Session is shared with the user but not for editing');
+          return null;
+        }
+        setRole(sharedRole);
+      }
+
+      console.log('Successfully fetched session directly:', ownSession.title);
+      return ownSession;
     } catch (err) {
       console.error('Error in direct session fetch:', err);
       return null;
@@ -172,6 +199,35 @@ export function SessionFormPage() {
     }
   }, [isEditing, id, sessions, sessionsLoading, sessionData, fetchSessionDirectly, isDirectFetching]);
   
+  // Saves an old version over the current one; the database records it as a new revision
+  const handleRestore = async (revision: SessionRevision) => {
+    if (!id) return;
+    if (!window.confirm(`Restore revision ${revision.revision}? Unsaved changes in the form will be lost.`)) return;
+
+    setRestoringId(revision.id);
+    try {
+      const restored = await updateSession(id, {
+        subreddits: revision.subreddits,
+        subreddit_settings: revision.subreddit_settings,
+        system_prompt: revision.system_prompt,
+        interval: revision.interval,
+        transition: revision.transition,
+        content_filters: revision.content_filters,
+        thumbnail_url: revision.thumbnail_url ?? '',
+      });
+      if (!restored) return;
+
+      setSessionData(restored);
+      setFormKey(key => key + 1);
+      await history.refetch();
+    } catch (err) {
+      console.error('Error restoring revision:', err);
+      toast.error(`Failed to restore revision: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
   // Handle excessive loading with a retry option
   if (loadingTimeout) {
     return (
@@ -265,23 +321,53 @@ export function SessionFormPage() {
             </h1>
             <p className="text-muted-foreground mt-1">
               {isEditing 
-                ? 'Update your session configuration'
+                ? (role === 'owner' ? 'Update your session configuration' : 'Update a session shared with you')
                 : 'Configure a new slideshow session'
               }
             </p>
           </div>
           
+          {otherEditors.length > 0 && (
+            <div className="flex items-center gap-3 mb-4 rounded-md border bg-card px-3 py-2">
+              <div className="flex -space-x-2">
+                {otherEditors.map((editor) => (
+                  <Avatar key={editor.user_id} className="h-7 w-7 border-2 border-background" title={editor.name}>
+                    <AvatarImage src={editor.avatar_url || undefined} alt={editor.name} />
+                    <AvatarFallback className="text-xs">{editor.name.substring(0, 2).toUpperCase()}</AvatarFallback>
+                  </Avatar>
+                ))}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {otherEditors.map((editor) => editor.name).join(', ')} {otherEditors.length === 1 ? 'is' : 'are'} editing this session too
+              </p>
+            </div>
+          )}
+
           {isEditing && !sessionData && !notFound ? (
             <div className="flex items-center justify-center h-60">
               <RefreshCw className="h-8 w-8 animate-spin text-muted-foreground" />
             </div>
           ) : (
             <SessionForm
+              key={formKey}
               sessionId={isEditing ? id : undefined}
               defaultValues={sessionData || undefined}
               isEditing={isEditing}
+              role={role}
             />
           )}
+
+          {isEditing && sessionData && (
+            <div className="mt-8">
+              <SessionHistoryPanel
+                revisions={history.revisions}
+                loading={history.loading}
+                error={history.error}
+                onRestore={role === 'editor' ? undefined : handleRestore}
+                restoringId={restoringId}
+              />
+            </div>
+          )}
         </div>
       </main>
       
@@ -0,0 +1,211 @@
+import { useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { ThemeToggle } from '@/components/ThemeToggle';
+import { UserAvatar } from '@/components/UserAvatar';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { useTheme } from '@/hooks/useTheme';
+import { useShareLinkAccess } from '@/hooks/useShareLinkAccess';
+import { ArrowLeft, Copy, KeyRound, Loader2, PlayCircle } from 'lucide-react';
+
+// Import logo images
+import logoLight from '../assets/Joip App Logo Light.png';
+import logoDark from '../assets/Joip App Logo Dark.png';
+
+/**
+ * Where a share link lands: asks for the passphrase if the link has one, then
+ * shows the session with what the link allows.
+ */
+export function SessionLinkPage() {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const { theme } = useTheme();
+  const { access, loading, error, open, play, save } = useShareLinkAccess(token);
+
+  const [passphrase, setPassphrase] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const needsPassphrase = error?.code === 'passphrase_required' || error?.code === 'passphrase_incorrect'
+    || error?.code === 'too_many_attempts';
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+    await open(passphrase);
+  };
+
+  const handlePlay = async () => {
+    setIsProcessing(true);
+    try {
+      const played = await play();
+      if (played?.play_token) {
+        // The player can't read the session from the database; it trades the token for it once
+        navigate(`/session/play/${played.session.id}`, { state: { sharePlayToken: played.play_token } });
+      }
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsProcessing(true);
+    try {
+      const newId = await save();
+      if (newId) {
+        toast.success('Session saved to your library');
+        navigate(`/session/edit/${newId}`);
+      }
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const session = access?.session;
+
+  return (
+    <div className="flex flex-col bg-background min-h-screen">
+      <header className="flex items-center justify-between p-4 border-b bg-card/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="flex items-center gap-4">
+          <Link to="/sessions" className="mr-2">
+            <Button variant="ghost" size="icon">
+              <ArrowLeft className="h-5 w-5" />
+              <span className="sr-only">Back</span>
+            </Button>
+          </Link>
+          <img
+            src={theme === 'dark' ? logoDark : logoLight}
+            alt="Joip AI"
+            className="h-auto w-auto max-h-9 object-contain"
+          />
+        </div>
+        <div className="flex items-center gap-4">
+          <ThemeToggle />
+          <UserAvatar />
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-y-auto p-4 md:p-8 pt-8">
+        <div className="max-w-xl mx-auto">
+          {loading && !access ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : needsPassphrase ? (
+            <Card>
+              <form onSubmit={handleUnlock}>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <KeyRound className="h-5 w-5" />
+                    Passphrase needed
+                  </CardTitle>
+                  <CardDescription>
+                    The person who shared this session protected the link with a passphrase.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  <Label htmlFor="passphrase">Passphrase</Label>
+                  <Input
+                    id="passphrase"
+                    type="password"
+                    autoFocus
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                  />
+                  {(error?.code === 'passphrase_incorrect' || error?.code === 'too_many_attempts') && (
+                    <p className="text-sm text-destructive">{error.message}</p>
+                  )}
+                </CardContent>
+                <CardFooter>
+                  <Button type="submit" disabled={!passphrase || loading}>
+                    {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Open session
+                  </Button>
+                </CardFooter>
+              </form>
+            </Card>
+          ) : error || !session ? (
+            <Card>
+              <CardHeader>
+                <CardTitle>Can't open this link</CardTitle>
+                <CardDescription>{error?.message ?? 'Share link not found'}</CardDescription>
+              </CardHeader>
+              <CardFooter>
+                <Button asChild>
+                  <Link to="/sessions">Back to Sessions</Link>
+                </Button>
+              </CardFooter>
+            </Card>
+          ) : (
+            <Card>
+              <CardHeader>
+                <CardTitle>{session.title}</CardTitle>
+                {session.description && <CardDescription>{session.description}</CardDescription>}
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap gap-2">
+                  {session.subreddits.map((subreddit) => (
+                    <Badge key={subreddit} variant="secondary">r/{subreddit}</Badge>
+                  ))}
+                </div>
+                <div className="flex gap-4 text-sm text-muted-foreground">
+                  <span>Interval: <span className="font-medium">{session.interval}s</span></span>
+                  <span>Transition: <span className="font-medium">{session.transition}</span></span>
+                </div>
+                <ul className="text-sm text-muted-foreground space-y-1">
+                  {access.expires_at && (
+                    <li>Link expires {format(new Date(access.expires_at), 'MMM d, yyyy HH:mm')}</li>
+                  )}
+                  {access.plays_left !== null && (
+                    <li>{access.plays_left} {access.plays_left === 1 ? 'play' : 'plays'} left on this link</li>
+                  )}
+                  {!access.allow_save ? (
+                    <li>This link is for playing only</li>
+                  ) : access.saves_left !== null && (
+                    <li>{access.saves_left} {access.saves_left === 1 ? 'copy' : 'copies'} left to save</li>
+                  )}
+                </ul>
+              </CardContent>
+              <CardFooter className="flex justify-between">
+                <Button
+                  onClick={() => { void handlePlay(); }}
+                  disabled={isProcessing || access.plays_left === 0}
+                >
+                  <PlayCircle className="h-4 w-4 mr-2" />
+                  Play
+                </Button>
+                {access.allow_save && (
+                  <Button
+                    variant="outline"
+                    onClick={() => { void handleSave(); }}
+                    disabled={isProcessing || access.saves_left === 0}
+                  >
+                    <Copy className="h-4 w-4 mr-2" />
+                    Save a copy
+                  </Button>
+                )}
+              </CardFooter>
+            </Card>
+          )}
+        </div>
+      </main>
+
+      <footer className="py-4 border-t">
+        <div className="max-w-6xl mx-auto px-4 text-center text-sm text-muted-foreground">
+          <p>Joip AI &copy; {new Date().getFullYear()}</p>
+        </div>
+      </footer>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { useParams, Navigate, useNavigate } from 'react-router-dom';
+import { useParams, Navigate, useNavigate, useLocation } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { UserAvatar } from '@/components/UserAvatar';
@@ -8,16 +8,24 @@ import { useJoiSessions } from '@/hooks/useJoiSessions';
 import { useRedditPosts } from '@/hooks/useRedditPosts';
 import { useJoipPlayer } from '@/hooks/useJoipPlayer';
 import { useAICaption } from '@/hooks/useAICaption';
+import { useSessionTranscript } from '@/hooks/useSessionTranscript';
+import { useVideoAudio } from '@/hooks/useVideoAudio';
+import { useUserSettings } from '@/hooks/useUserSettings';
+import { useDeadMediaReporter } from '@/hooks/useDeadMediaReporter';
 import { useTheme } from '@/hooks/useTheme';
 import { MediaDisplay } from '@/components/MediaDisplay';
 import { CaptionDisplay } from '@/components/CaptionDisplay';
+import { TranscriptDrawer } from '@/components/TranscriptDrawer';
+import { VideoAudioControl } from '@/components/VideoAudioControl';
 import { ResizablePanel, ResizablePanelGroup, ResizableHandle } from '@/components/ui/resizable';
-import { ArrowLeft, RefreshCw, Pause, Play, Menu, X } from 'lucide-react';
+import { ArrowLeft, RefreshCw, Pause, Play, Menu, X, Repeat, Repeat1, RotateCcw, ScrollText } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
 import { DEFAULT_INTERVAL, DEFAULT_TRANSITION } from '@/lib/constants';
 import { useMediaQuery } from '@/hooks/useMediaQuery';
 import { motion, AnimatePresence } from 'framer-motion';
 import { cn } from '@/lib/utils';
+import { getSessionSources } from '@/lib/utils/subreddit-sources';
+import { ShareLinkPlaySession, VideoFrame } from '@/types';
 
 // Import logo images
 import logoLight from '../assets/Joip App Logo Light.png';
@@ -26,13 +34,14 @@ import logoDark from '../assets/Joip App Logo Dark.png';
 export function SessionPlayPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const location = useLocation();
   const { user, loading: userLoading } = useAuth();
   const { theme } = useTheme();
   const { sessions, sharedWithMe, loading: sessionsLoading } = useJoiSessions();
   const isMobile = useMediaQuery('(max-width: 768px)');
   const [isMobileHeaderVisible, setIsMobileHeaderVisible] = useState(false);
   
-  const [sessionData, setSessionData] = useState<typeof sessions[number] | null>(null);
+  const [sessionData, setSessionData] = useState<typeof sessions[number] | ShareLinkPlaySession | null>(null);
   const [isPaused, setIsPaused] = useState(false);
   const [notFound, setNotFound] = useState(false);
   
@@ -46,6 +55,29 @@ export function SessionPlayPage() {
   const [playerReady, setPlayerReady] = useState(false);
   // Add a flag to track content loading progress
   const [contentLoaded, setContentLoaded] = useState(false);
+  // Latest frame grabbed from a video post, for vision captions
+  const [videoFrame, setVideoFrame] = useState<VideoFrame | null>(null);
+
+  // Sessions played from a share link come as a one-time token with the navigation; the viewer
+  // can't read them from the database. Reloading or going back to the page can't use it again
+  const sharePlayToken = (location.state as { sharePlayToken?: string } | null)?.sharePlayToken;
+  const [linkSession, setLinkSession] = useState<ShareLinkPlaySession | null>(null);
+  const [linkPlayError, setLinkPlayError] = useState<string | null>(null);
+  const redeemedTokenRef = React.useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!sharePlayToken || redeemedTokenRef.current === sharePlayToken) return;
+    redeemedTokenRef.current = sharePlayToken;
+
+    supabase.rpc('redeem_share_play', { p_play_token: sharePlayToken }).then(({ data, error }) => {
+      if (error) {
+        console.error('Error opening shared session:', error);
+        setLinkPlayError(error.message);
+        return;
+      }
+      setLinkSession(data as ShareLinkPlaySession);
+    });
+  }, [sharePlayToken]);
 
   // Direct session fetch function to get session data directly from database
   const fetchSessionDirectly = useCallback(async (sessionId: string) => {
@@ -124,6 +156,11 @@ export function SessionPlayPage() {
       console.log('No session ID provided');
       return;
     }
+
+    if (sharePlayToken) {
+      if (linkSession?.id === id) setSessionData(linkSession);
+      return;
+    }
     
     // FIRST APPROACH: Check sessionStorage cache for immediate display
     const cachedSessionJson = sessionStorage.getItem(`session_${id}`);
@@ -246,12 +283,13 @@ export function SessionPlayPage() {
         }
       };
     }
-  }, [id, sessions, sharedWithMe, sessionsLoading, user, sessionData, fetchSessionDirectly]);
+  }, [id, sessions, sharedWithMe, sessionsLoading, user, sessionData, fetchSessionDirectly, sharePlayToken, linkSession]);
   
   // Fetch reddit posts using session data
-  const { subreddits, isLoading, error } = useRedditPosts(
-    sessionData?.subreddits ?? [],
-    sessionData?.interval ? sessionData.interval * 2 : 20 // Already safe
+  const { subreddits, isLoading, error, loadMore } = useRedditPosts(
+    getSessionSources(sessionData), // Per-subreddit sort, limit and mix weight
+    sessionData?.interval ? sessionData.interval * 2 : 20, // Already safe
+    sessionData?.content_filters // Which posts the session plays
   );
 
   // Add an effect to set player ready after subreddits are loaded
@@ -269,14 +307,38 @@ export function SessionPlayPage() {
     }
   }, [isLoading, subreddits]);
 
+  // Count one play per visit once slides start, for Explore's "most played"; the
+  // database ignores the owner's own plays
+  const countedPlayRef = React.useRef<string | null>(null);
+  useEffect(() => {
+    const sessionId = sessionData?.id;
+    if (!playerReady || !sessionId || countedPlayRef.current === sessionId) return;
+    countedPlayRef.current = sessionId;
+    supabase.rpc('record_session_play', { p_session_id: sessionId }).then(({ error }) => {
+      if (error) console.error('Error recording session play:', error);
+    });
+  }, [playerReady, sessionData?.id]);
+
+  const reportDeadMedia = useDeadMediaReporter();
+
   // JOIP player controller
   const joipPlayer = useJoipPlayer({
     subreddits,
     interval: sessionData?.interval ?? DEFAULT_INTERVAL, 
     transition: sessionData?.transition ?? DEFAULT_TRANSITION, 
+    galleryInterval: sessionData?.gallery_interval ?? undefined,
+    videoTiming: sessionData?.video_timing ?? undefined,
+    videoMaxSeconds: sessionData?.video_max_seconds ?? undefined,
     paused: isPaused || isLoading || !playerReady, // Also pause until player is ready
+    onNearEnd: loadMore, // Page deeper into the listings before the queue runs out
+    onDeadMedia: reportDeadMedia,
   });
 
+  // Mute and volume for video posts, starting from the session's default
+  const { preferences, updatePreferences } = useUserSettings();
+  const videoAudio = useVideoAudio(preferences, updatePreferences, sessionData?.video_audio);
+  const { toggleMuted: toggleVideoMuted } = videoAudio;
+
   // Helper function to safely check if user is a patron
   const isUserPatron = useCallback(() => {
     if (!user) return false;
@@ -294,7 +356,22 @@ export function SessionPlayPage() {
     post: joipPlayer.currentPost,
     systemPrompt: sessionData?.system_prompt ?? '',
     apiKey: isUserPatron() ? 'patron' : '', // Not a coalesce scenario
+    vision: !!sessionData?.vision_captions,
+    videoFrame,
+    upcoming: joipPlayer.upNext,
+  });
+
+  // Every caption shown during this play, saved against the session
+  const transcript = useSessionTranscript({
+    sessionId: sessionData?.id,
+    post: joipPlayer.currentPost,
+    caption,
   });
+  const [isTranscriptOpen, setIsTranscriptOpen] = useState(false);
+
+  const handleVideoFrame = useCallback((postId: string, dataUrl: string) => {
+    setVideoFrame({ postId, dataUrl });
+  }, []);
 
   // Set document title based on current post
   useEffect(() => {
@@ -316,6 +393,12 @@ export function SessionPlayPage() {
   const togglePause = useCallback(() => {
     setIsPaused(prev => !prev);
   }, []);
+
+  // Cycle the repeat mode: loop the queue -> repeat the current post -> stop at the end
+  const { repeat, setRepeat } = joipPlayer;
+  const cycleRepeat = useCallback(() => {
+    setRepeat(repeat === 'all' ? 'one' : repeat === 'one' ? 'off' : 'all');
+  }, [repeat, setRepeat]);
   
   // Handle browser back button
   useEffect(() => {
@@ -365,6 +448,10 @@ export function SessionPlayPage() {
           e.preventDefault(); // Prevent page scroll
           togglePause();
           break;
+        case 'm':
+        case 'M':
+          toggleVideoMuted();
+          break;
         case 'Escape': // Handle escape key for navigation
           if (document.fullscreenElement) {
             // If in fullscreen, exit fullscreen instead of navigating
@@ -389,7 +476,7 @@ export function SessionPlayPage() {
     return () => {
       window.removeEventListener('keydown', handleKeyDown);
     };
-  }, [joipPlayer, togglePause, sessionData, navigate]);
+  }, [joipPlayer, togglePause, toggleVideoMuted, sessionData, navigate]);
   
   // Handle notFound redirect via a dedicated useEffect
   useEffect(() => {
@@ -416,6 +503,17 @@ export function SessionPlayPage() {
     navigate('/settings');
   }, [navigate]);
   
+  // A share link's play token that was already used or has expired
+  if (linkPlayError) {
+    return (
+      <div className="flex flex-col items-center justify-center h-screen p-4 text-center">
+        <h2 className="text-xl font-semibold mb-4">Can't play this session</h2>
+        <p className="mb-4">{linkPlayError}</p>
+        <Button onClick={() => navigate(-1)}>Go back</Button>
+      </div>
+    );
+  }
+
   // Redirect if session not found
   if (notFound) {
     console.log('SESSION NOT FOUND - Redirecting to /sessions', { 
@@ -524,13 +622,47 @@ export function SessionPlayPage() {
                 </div>
                 
                 <div className="flex items-center gap-4">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setIsTranscriptOpen(true)}
+                    title="Caption transcript"
+                  >
+                    <ScrollText className="h-4 w-4" />
+                    <span className="sr-only">Open caption transcript</span>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={cycleRepeat}
+                    title={
+                      repeat === 'all' ? 'Looping all posts'
+                        : repeat === 'one' ? 'Repeating current post'
+                        : 'Stopping at the end'
+                    }
+                    className={cn(repeat === 'off' && 'text-muted-foreground')}
+                  >
+                    {repeat === 'one' ? <Repeat1 className="h-4 w-4" /> : <Repeat className="h-4 w-4" />}
+                    <span className="sr-only">Change repeat mode</span>
+                  </Button>
+                  <VideoAudioControl
+                    muted={videoAudio.muted}
+                    volume={videoAudio.volume}
+                    onToggleMuted={videoAudio.toggleMuted}
+                    onVolumeChange={videoAudio.setVolume}
+                  />
                   <Button 
                     variant="outline" 
                     size="sm"
-                    onClick={togglePause}
+                    onClick={joipPlayer.hasEnded ? joipPlayer.restart : togglePause}
                     className="gap-1"
                   >
-                    {isPaused ? (
+                    {joipPlayer.hasEnded ? (
+                      <>
+                        <RotateCcw className="h-4 w-4" />
+                        <span>Replay</span>
+                      </>
+                    ) : isPaused ? (
                       <>
                         <Play className="h-4 w-4" />
                         <span>Resume</span>
@@ -600,6 +732,27 @@ export function SessionPlayPage() {
                 
                 {/* Right controls with consistent spacing */}
                 <div className="flex items-center space-x-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-10 w-10 p-0"
+                    onClick={() => {
+                      setIsTranscriptOpen(true);
+                      setIsMobileHeaderVisible(false);
+                    }}
+                    aria-label="Open caption transcript"
+                  >
+                    <ScrollText className="h-5 w-5" />
+                  </Button>
+
+                  <VideoAudioControl
+                    compact
+                    muted={videoAudio.muted}
+                    volume={videoAudio.volume}
+                    onToggleMuted={videoAudio.toggleMuted}
+                    onVolumeChange={videoAudio.setVolume}
+                  />
+
                   <div className="w-10 h-10 flex items-center justify-center">
                     <ThemeToggle />
                   </div>
@@ -649,10 +802,22 @@ export function SessionPlayPage() {
                   transitionDirection={joipPlayer.transitionDirection}
                   transition={sessionData.transition}
                   totalPosts={joipPlayer.totalPosts}
+                  galleryIndex={joipPlayer.galleryIndex}
                   error={error}
                   isLoading={isLoading}
                   paused={isPaused}
                   onTogglePause={togglePause}
+                  onVideoFrame={sessionData.vision_captions ? handleVideoFrame : undefined}
+                  muted={videoAudio.muted}
+                  volume={videoAudio.volume}
+                  soundBlocked={videoAudio.soundBlocked}
+                  onAutoplayBlocked={videoAudio.handleAutoplayBlocked}
+                  onUnmute={videoAudio.unmute}
+                  loopVideo={joipPlayer.loopVideo}
+                  onMediaEvent={joipPlayer.reportMedia}
+                  upcoming={joipPlayer.upNext}
+                  dataSaver={preferences.dataSaver}
+                  onPreloadFailed={joipPlayer.skipPost}
                 />
               ) : (
                 <div className="flex items-center justify-center h-full">
@@ -691,6 +856,18 @@ export function SessionPlayPage() {
           </ResizablePanel>
         </ResizablePanelGroup>
       </div>
+
+      <TranscriptDrawer
+        open={isTranscriptOpen}
+        onOpenChange={setIsTranscriptOpen}
+        title={sessionData.title}
+        interval={sessionData.interval ?? DEFAULT_INTERVAL}
+        entries={transcript.entries}
+        pastPlays={transcript.pastPlays}
+        loadingPlays={transcript.loadingPlays}
+        onLoadPastPlays={transcript.fetchPastPlays}
+        canSave={transcript.canSave}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -26,6 +26,7 @@ import { toast } from 'sonner';
 import { Loader2, Save, ArrowLeft, Plus, X } from 'lucide-react';
 import { JoiSession, TransitionEffect } from '@/types';
 import { TRANSITION_EFFECTS } from '@/lib/constants';
+import { resolveSubredditSources } from '@/lib/utils/subreddit-sources';
 import { supabase } from '@/lib/supabase';
 import React from 'react';
 
@@ -276,6 +277,17 @@ export function SessionSavePage() {
         system_prompt: systemPrompt.trim(),
         is_public: false,
         is_favorite: false,
+        // Carry over the original's per-subreddit settings for subreddits that were kept
+        subreddit_settings: resolveSubredditSources(subreddits, originalSession?.subreddit_settings),
+        vision_captions: originalSession?.vision_captions || false,
+        video_audio: originalSession?.video_audio ?? null,
+        video_timing: originalSession?.video_timing,
+        video_max_seconds: originalSession?.video_max_seconds,
+        gallery_interval: originalSession?.gallery_interval,
+        content_filters: originalSession?.content_filters,
+        tags: originalSession?.tags,
+        // Counts as a save of the original in Explore
+        forked_from: originalSession?.id,
       };
       
       const savedSession = await createSession(newSession);
@@ -1,6 +1,8 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { useJoiSessions } from '@/hooks/useJoiSessions';
+import { useSessionCollaborators } from '@/hooks/useSessionCollaborators';
+import { ShareLinksPanel } from '@/components/ShareLinksPanel';
 import { useAuth } from '@/contexts/AuthContext';
 import { 
   Card, 
@@ -22,9 +24,18 @@ import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { toast } from 'sonner';
-import { Loader2, Link as LinkIcon, Users, ArrowLeft, Copy, Share } from 'lucide-react';
-import { JoiSession } from '@/types';
+import { Loader2, Link as LinkIcon, Users, ArrowLeft, Copy, Share, X, KeyRound } from 'lucide-react';
+import { JoiSession, SessionCollaborator, ShareRole } from '@/types';
+import { SHARE_ROLES } from '@/lib/constants';
 import { supabase } from '@/lib/supabase';
 import React from 'react';
 
@@ -32,10 +43,11 @@ export function SessionSharePage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { user, profile } = useAuth();
-  const { sessions, loading, error, getSessionById, shareSession, togglePublic } = useJoiSessions();
+  const { sessions, loading, error, getSessionById, shareSession, unshareSession, togglePublic } = useJoiSessions();
+  const collaborators = useSessionCollaborators(id);
   
   const [session, setSession] = useState<JoiSession | null>(null);
-  const [sharingMode, setSharingMode] = useState<'link' | 'users'>('link');
+  const [sharingMode, setSharingMode] = useState<'link' | 'users' | 'private'>('link');
   const [shareableLink, setShareableLink] = useState<string>('');
   const [username, setUsername] = useState<string>('');
   const [isPublic, setIsPublic] = useState<boolean>(false);
@@ -236,6 +248,7 @@ export function SessionSharePage() {
       if (success) {
         toast.success(`Session shared with ${username}`);
         setUsername('');
+        await collaborators.refetch();
       } else {
         throw new Error('Share operation failed');
       }
@@ -247,6 +260,26 @@ export function SessionSharePage() {
     }
   };
 
+  const handleRoleChange = async (collaborator: SessionCollaborator, role: ShareRole) => {
+    const success = await collaborators.setRole(collaborator.share_id, role);
+    if (success) {
+      toast.success(`Role updated for ${collaborator.display_name ?? collaborator.username ?? 'Unknown user'}`);
+    }
+  };
+
+  const handleRemoveCollaborator = async (collaborator: SessionCollaborator) => {
+    if (!session || !collaborator.username) return;
+
+    setIsProcessing(true);
+    try {
+      if (await unshareSession(session.id, collaborator.username)) {
+        await collaborators.refetch();
+      }
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-screen">
@@ -342,7 +375,7 @@ export function SessionSharePage() {
             </span>
           </div>
           
-          <Tabs defaultValue="link" value={sharingMode} onValueChange={(v) => setSharingMode(v as 'link' | 'users')}>
+          <Tabs defaultValue="link" value={sharingMode} onValueChange={(v) => setSharingMode(v as 'link' | 'users' | 'private')}>
             <TabsList className="mb-4">
               <TabsTrigger value="link" disabled={!isPublic}>
                 <LinkIcon className="h-4 w-4 mr-2" />
@@ -352,6 +385,10 @@ export function SessionSharePage() {
                 <Users className="h-4 w-4 mr-2" />
                 Share with Users
               </TabsTrigger>
+              <TabsTrigger value="private">
+                <KeyRound className="h-4 w-4 mr-2" />
+                Private Links
+              </TabsTrigger>
             </TabsList>
             
             <TabsContent value="link">
@@ -397,11 +434,70 @@ export function SessionSharePage() {
                     </Button>
                   </div>
                   <p className="text-sm text-muted-foreground mt-1">
-                    The user will be able to view and save this session to their account
+                    The user will be able to view and save this session to their account. Make them an editor or co-owner below to let them change it too
                   </p>
                 </div>
+
+                {collaborators.loading && collaborators.collaborators.length === 0 ? (
+                  <div className="flex justify-center py-4">
+                    <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                  </div>
+                ) : collaborators.error ? (
+                  <p className="text-sm text-destructive">{collaborators.error}</p>
+                ) : collaborators.collaborators.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Shared with</Label>
+                    {collaborators.collaborators.map((collaborator) => {
+                      const name = collaborator.display_name ?? collaborator.username ?? 'Unknown user';
+                      return (
+                        <div key={collaborator.share_id} className="flex items-center gap-3 rounded-md border p-2">
+                          <Avatar className="h-8 w-8">
+                            <AvatarImage src={collaborator.avatar_url || undefined} alt={name} />
+                            <AvatarFallback>{name.substring(0, 2).toUpperCase()}</AvatarFallback>
+                          </Avatar>
+                          <span className="flex-1 text-sm font-medium truncate">{name}</span>
+                          <Select
+                            value={collaborator.role}
+                            onValueChange={(value) => { void handleRoleChange(collaborator, value as ShareRole); }}
+                          >
+                            <SelectTrigger className="w-32">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {SHARE_ROLES.map((role) => (
+                                <SelectItem key={role.value} value={role.value}>
+                                  {role.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Stop sharing"
+                            disabled={isProcessing || !collaborator.username}
+                            onClick={() => { void handleRemoveCollaborator(collaborator); }}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      );
+                    })}
+                    <ul className="text-xs text-muted-foreground space-y-0.5">
+                      {SHARE_ROLES.map((role) => (
+                        <li key={role.value}>
+                          <span className="font-medium">{role.label}:</span> {role.description}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
               </div>
             </TabsContent>
+
+            <TabsContent value="private">
+              {id && <ShareLinksPanel sessionId={id} />}
+            </TabsContent>
           </Tabs>
         </CardContent>
         
@@ -5,8 +5,9 @@ import { UserAvatar } from '@/components/UserAvatar';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/contexts/AuthContext';
 import { useJoiSessions } from '@/hooks/useJoiSessions';
+import { useSessionLineage } from '@/hooks/useSessionLineage';
 import { JoiSession } from '@/types';
-import { ArrowLeft, Plus, Search } from 'lucide-react';
+import { ArrowLeft, Compass, Plus, Search } from 'lucide-react';
 import { useTheme } from '@/hooks/useTheme';
 import { Input } from '@/components/ui/input';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -22,6 +23,7 @@ import {
 // import { format } from 'date-fns';
 import { toast } from 'sonner';
 import { SessionCard, SharedSessionCard } from '@/components/SessionCard';
+import { PullChangesDialog } from '@/components/PullChangesDialog';
 
 // Import logo images
 import logoLight from '../assets/Joip App Logo Light.png';
@@ -37,13 +39,16 @@ export function SessionsPage() {
     sharedWithMe, 
     loading: sessionsLoading, 
     // toggleFavorite is no longer needed here as it's used in the SessionCard component
-    deleteSession
+    deleteSession,
+    updateSession
   } = useJoiSessions();
+  const { lineage, refetch: refetchLineage, fetchUpstream } = useSessionLineage(sessions);
   
   // State for search and filtering
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedFilter, setSelectedFilter] = useState<'all' | 'favorites' | 'shared'>('all');
   const [sessionToDelete, setSessionToDelete] = useState<JoiSession | null>(null);
+  const [sessionToPull, setSessionToPull] = useState<JoiSession | null>(null);
 
   // Handle navigation state from SessionPlayPage
   useEffect(() => {
@@ -97,6 +102,12 @@ export function SessionsPage() {
     setSessionToDelete(null);
   };
 
+  // Save the merged fields into the copy, then recheck whether it's up to date
+  const handlePullChanges = async (sessionId: string, updates: Partial<JoiSession>) => {
+    await updateSession(sessionId, updates);
+    await refetchLineage();
+  };
+
   // Loading state
   if (loading || sessionsLoading) {
     return (
@@ -147,12 +158,20 @@ export function SessionsPage() {
                 Create and manage your JOIP sessions
               </p>
             </div>
-            <Link to="/session/new">
-              <Button className="flex items-center gap-2">
-                <Plus className="h-4 w-4" />
-                <span>New Session</span>
-              </Button>
-            </Link>
+            <div className="flex gap-2">
+              <Link to="/explore">
+                <Button variant="outline" className="flex items-center gap-2">
+                  <Compass className="h-4 w-4" />
+                  <span>Explore</span>
+                </Button>
+              </Link>
+              <Link to="/session/new">
+                <Button className="flex items-center gap-2">
+                  <Plus className="h-4 w-4" />
+                  <span>New Session</span>
+                </Button>
+              </Link>
+            </div>
           </div>
           
           <div className="bg-card rounded-xl border shadow-sm p-4 md:p-6 mb-8">
@@ -203,7 +222,9 @@ export function SessionsPage() {
                       >
                         <SessionCard 
                           session={session} 
+                          lineage={lineage[session.id]}
                           onDeleteClick={(session) => setSessionToDelete(session)} 
+                          onPullChanges={setSessionToPull}
                         />
                       </div>
                     ))}
@@ -228,7 +249,9 @@ export function SessionsPage() {
                       >
                         <SessionCard 
                           session={session} 
+                          lineage={lineage[session.id]}
                           onDeleteClick={(session) => setSessionToDelete(session)} 
+                          onPullChanges={setSessionToPull}
                         />
                       </div>
                     ))}
@@ -301,6 +324,14 @@ export function SessionsPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <PullChangesDialog
+        session={sessionToPull}
+        lineage={sessionToPull ? lineage[sessionToPull.id] : undefined}
+        fetchUpstream={fetchUpstream}
+        onApply={handlePullChanges}
+        onClose={() => setSessionToPull(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
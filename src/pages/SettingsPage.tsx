@@ -1,5 +1,5 @@
-import { useEffect } from 'react';
 import { AccountSettings } from '@/components/AccountSettings';
+import { PlaybackSettings } from '@/components/PlaybackSettings';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { UserAvatar } from '@/components/UserAvatar';
 import { Button } from '@/components/ui/button';
@@ -10,7 +10,6 @@ import { useTheme } from '@/hooks/useTheme';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { RedditConnect } from '@/components/RedditConnect';
 import { PatreonConnect } from '@/components/PatreonConnect';
-import { toast } from 'sonner';
 
 // Import logo images properly
 import logoLight from '../assets/Joip App Logo Light.png';
@@ -20,22 +19,6 @@ export function SettingsPage() {
   const { user, loading } = useAuth();
   const { theme } = useTheme();
   
-  // Check for reddit_success parameter and show toast if present
-  useEffect(() => {
-    const urlParams = new URLSearchParams(window.location.search);
-    if (urlParams.has('reddit_success')) {
-      // Show success toast message
-      toast.success('Reddit account successfully connected!', {
-        description: 'You can now view content from your Reddit account.',
-        duration: 5000,
-      });
-      
-      // Clean URL
-      const cleanUrl = window.location.pathname;
-      window.history.replaceState({}, document.title, cleanUrl);
-    }
-  }, []);
-  
   if (loading) {
     return (
       <div className="flex items-center justify-center h-screen">
@@ -97,6 +80,7 @@ export function SettingsPage() {
             
             <TabsContent value="account" className="mt-0 space-y-6 animate-in fade-in-50 data-[state=inactive]:animate-out data-[state=inactive]:fade-out-0 data-[state=active]:duration-300">
               <AccountSettings />
+              <PlaybackSettings />
             </TabsContent>
             
             <TabsContent value="connections" className="mt-0 space-y-6 animate-in fade-in-50 data-[state=inactive]:animate-out data-[state=inactive]:fade-out-0 data-[state=active]:duration-300">
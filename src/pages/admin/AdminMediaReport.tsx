@@ -0,0 +1,80 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+export interface MediaFailureRow {
+  kind: 'domain' | 'subreddit';
+  name: string;
+  seen_posts: number;
+  dead_posts: number;
+  failure_rate: number; // 0-1
+}
+
+interface AdminMediaReportProps {
+  rows: MediaFailureRow[];
+  days: number;
+}
+
+// Rows shown per table; the report is sorted worst first
+const MAX_ROWS = 25;
+
+function FailureTable({ title, description, label, rows }: {
+  title: string;
+  description: string;
+  label: string;
+  rows: MediaFailureRow[];
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        {rows.length === 0 ? (
+          <p className="px-6 pb-6 text-sm text-muted-foreground">No failures reported.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="px-4 py-3 text-left font-medium">{label}</th>
+                  <th className="px-4 py-3 text-right font-medium">Failed</th>
+                  <th className="px-4 py-3 text-right font-medium">Fetched</th>
+                  <th className="px-4 py-3 text-right font-medium">Failure Rate</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.slice(0, MAX_ROWS).map((row) => (
+                  <tr key={row.name} className="border-b">
+                    <td className="px-4 py-3 font-medium">{row.kind === 'subreddit' ? `r/${row.name}` : row.name}</td>
+                    <td className="px-4 py-3 text-right tabular-nums">{row.dead_posts}</td>
+                    <td className="px-4 py-3 text-right tabular-nums">{row.seen_posts}</td>
+                    <td className="px-4 py-3 text-right tabular-nums">{(row.failure_rate * 100).toFixed(1)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function AdminMediaReport({ rows, days }: AdminMediaReportProps) {
+  return (
+    <div className="grid gap-4 lg:grid-cols-2">
+      <FailureTable
+        title="Media Hosts"
+        description={`Posts fetched in the last ${days} days whose media players reported as broken, by host`}
+        label="Host"
+        rows={rows.filter(row => row.kind === 'domain')}
+      />
+      <FailureTable
+        title="Subreddits"
+        description={`The same failures by subreddit; broken posts are no longer served to anyone`}
+        label="Subreddit"
+        rows={rows.filter(row => row.kind === 'subreddit')}
+      />
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import { Search } from 'lucide-react';
 import { toast } from 'sonner';
 import { ChangeEvent } from 'react';
 import { AdminUserTable } from './AdminUserTable';
+import { AdminMediaReport, MediaFailureRow } from './AdminMediaReport';
 
 interface AdminStats {
   userCount: number;
@@ -34,6 +35,9 @@ interface UserProfile {
 interface GlobalSettings {
   openrouter_api_key: string;
   openrouter_model: string;
+  openrouter_vision_model: string;
+  openrouter_allowed_models: string; // Comma-separated while editing
+  openrouter_max_tokens: number;
   default_system_prompt: string;
 }
 
@@ -48,6 +52,8 @@ interface AdminTabsProps {
   deleteUser: (userId: string) => void;
   makeUserAdmin: (userId: string) => void;
   setSettings: (value: GlobalSettings) => void;
+  mediaReport: MediaFailureRow[];
+  mediaReportDays: number;
 }
 
 export function AdminTabs({
@@ -61,6 +67,8 @@ export function AdminTabs({
   deleteUser,
   makeUserAdmin,
   setSettings,
+  mediaReport,
+  mediaReportDays,
 }: AdminTabsProps) {
   const filteredUsers = users.filter((user) => {
     const searchLower = searchTerm.toLowerCase();
@@ -73,13 +81,16 @@ export function AdminTabs({
 
   return (
     <Tabs defaultValue="dashboard" className="w-full">
-      <TabsList className="grid w-full grid-cols-3 mb-8">
+      <TabsList className="grid w-full grid-cols-4 mb-8">
         <TabsTrigger value="dashboard" className="flex items-center gap-2">
           <span>Dashboard</span>
         </TabsTrigger>
         <TabsTrigger value="users" className="flex items-center gap-2">
           <span>Users</span>
         </TabsTrigger>
+        <TabsTrigger value="media" className="flex items-center gap-2">
+          <span>Media</span>
+        </TabsTrigger>
         <TabsTrigger value="settings" className="flex items-center gap-2">
           <span>Settings</span>
         </TabsTrigger>
@@ -172,6 +183,12 @@ export function AdminTabs({
         />
       </TabsContent>
 
+      {/* Broken Media Tab */}
+      <TabsContent value="media" className="space-y-6">
+        <h2 className="text-2xl font-bold">Broken Media</h2>
+        <AdminMediaReport rows={mediaReport} days={mediaReportDays} />
+      </TabsContent>
+
       {/* Settings Tab */}
       <TabsContent value="settings" className="space-y-6">
         <Card>
@@ -201,6 +218,46 @@ export function AdminTabs({
                 }
               />
             </div>
+            <div className="grid gap-2">
+              <Label htmlFor="openrouter_vision_model">OpenRouter Vision Model</Label>
+              <Input
+                id="openrouter_vision_model"
+                placeholder="Leave empty to use the model above"
+                value={settings.openrouter_vision_model}
+                onChange={(e: ChangeEvent<HTMLInputElement>) =>
+                  setSettings({ ...settings, openrouter_vision_model: e.target.value })
+                }
+              />
+              <p className="text-sm text-muted-foreground">
+                Used for sessions that caption from the image. Must accept image input, otherwise captions fall back to text only.
+              </p>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="openrouter_allowed_models">Other Allowed Models</Label>
+              <Input
+                id="openrouter_allowed_models"
+                placeholder="Comma-separated, e.g. openai/gpt-4o-mini"
+                value={settings.openrouter_allowed_models}
+                onChange={(e: ChangeEvent<HTMLInputElement>) =>
+                  setSettings({ ...settings, openrouter_allowed_models: e.target.value })
+                }
+              />
+              <p className="text-sm text-muted-foreground">
+                The caption proxy rejects any model that isn't listed here or set above.
+              </p>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="openrouter_max_tokens">Max Tokens per Caption</Label>
+              <Input
+                id="openrouter_max_tokens"
+                type="number"
+                min={1}
+                value={settings.openrouter_max_tokens}
+                onChange={(e: ChangeEvent<HTMLInputElement>) =>
+                  setSettings({ ...settings, openrouter_max_tokens: Math.max(1, parseInt(e.target.value, 10) || 1) })
+                }
+              />
+            </div>
             <div className="grid gap-2">
               <Label htmlFor="default_system_prompt">Default Prompt</Label>
               <Textarea
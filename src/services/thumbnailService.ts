@@ -1,4 +1,5 @@
 import { supabase } from '@/lib/supabase';
+import { normalizeRedditListing } from '@/lib/utils/reddit-normalize';
 
 /**
  * Fetches a thumbnail URL from one of the given subreddits
@@ -19,19 +20,11 @@ export const fetchSubredditThumbnail = async (subreddits: string[]): Promise<str
       throw new Error(`Failed to fetch from subreddit: ${response.statusText}`);
     }
     
-    const data = await response.json();
+    // Same media extraction the player uses; the post's display image makes the best thumbnail
+    const posts = normalizeRedditListing(await response.json());
+    const selectedPost = posts.find(post => post.url.startsWith('http'));
     
-    // Filter posts that have an image thumbnail
-    const postsWithThumbnails = data.data.children.filter((post: any) => {
-      const thumbnail = post.data.thumbnail;
-      return thumbnail && 
-             thumbnail !== 'self' && 
-             thumbnail !== 'default' && 
-             thumbnail !== 'nsfw' &&
-             thumbnail.startsWith('http');
-    });
-    
-    if (postsWithThumbnails.length === 0) {
+    if (!selectedPost) {
       // If no thumbnails found in this subreddit, try another one recursively
       // But remove the current subreddit from the list to avoid infinite loops
       const remainingSubreddits = subreddits.filter(s => s !== randomSubreddit);
@@ -41,21 +34,7 @@ export const fetchSubredditThumbnail = async (subreddits: string[]): Promise<str
       return null;
     }
     
-    // Select the top post with a thumbnail
-    const selectedPost = postsWithThumbnails[0];
-    
-    // Prefer the preview image over the thumbnail for better quality if available
-    let thumbnailUrl = selectedPost.data.thumbnail;
-    
-    if (selectedPost.data.preview && 
-        selectedPost.data.preview.images && 
-        selectedPost.data.preview.images[0] &&
-        selectedPost.data.preview.images[0].source &&
-        selectedPost.data.preview.images[0].source.url) {
-      thumbnailUrl = selectedPost.data.preview.images[0].source.url.replace(/&amp;/g, '&');
-    }
-    
-    return thumbnailUrl;
+    return selectedPost.url;
   } catch (error) {
     console.error('Error fetching subreddit thumbnail:', error);
     return null;
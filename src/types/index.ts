@@ -1,29 +1,21 @@
+import type { ContentFilters, RedditPost } from '../../supabase/functions/_shared/media-types.ts';
+
+// Defined next to the normalizer so the reddit-proxy function can bundle them
+export type { ContentFilters, MediaItem, NsfwMode, PostMediaType, RedditPost } from '../../supabase/functions/_shared/media-types.ts';
+
 export interface Subreddit {
   name: string;
   posts: RedditPost[];
   error?: string;
+  weight?: number; // Relative share of the play queue (defaults to 1)
 }
 
-export interface RedditPost {
-  id: string;
-  title: string;
-  url: string;
-  permalink: string;
-  author: string;
-  subreddit: string;
-  created: number;
-  isImage: boolean;
-  isVideo: boolean;
-  videoUrl?: string;
-  thumbnailUrl?: string;
-  isNSFW?: boolean;
-}
-
+// The browser only ever holds a short-lived access token; the refresh token stays server-side
 export interface RedditAuthState {
   accessToken: string | null;
-  refreshToken: string | null;
   expiresAt: number | null;
   scope: string | null;
+  username: string | null;
   isAuthenticated: boolean;
 }
 
@@ -33,6 +25,19 @@ export interface ApiKeys {
 
 export type TransitionEffect = 'fade' | 'slide' | 'zoom' | 'flip';
 
+export type RedditSort = 'hot' | 'new' | 'top' | 'rising';
+
+export type RedditTimeWindow = 'hour' | 'day' | 'week' | 'month' | 'year' | 'all';
+
+// Per-subreddit fetch and mix settings for a session
+export interface SubredditSource {
+  name: string;
+  sort?: RedditSort; // Omitted = the default mix of hot + top of the day
+  time?: RedditTimeWindow; // Only used with the 'top' sort
+  limit?: number; // Posts per listing request
+  weight?: number; // Relative share of the play queue
+}
+
 export interface UserPreferences {
   subreddits: string[];
   interval: number;
@@ -40,12 +45,65 @@ export interface UserPreferences {
   systemPrompt: string;
   apiKeys: ApiKeys;
   redditAuth?: RedditAuthState;
+  videoMuted?: boolean; // Last mute choice in the player
+  videoVolume?: number; // 0-1
+  dataSaver?: boolean; // Don't load upcoming slides ahead of time
+}
+
+// How a session starts its videos; unset follows the viewer's own player setting
+export type VideoAudioDefault = 'muted' | 'sound';
+
+/**
+ * How long a video slide stays on screen:
+ * - 'complete': until the clip has played once, however long it is
+ * - 'interval': looping until the slide interval is up, like an image
+ * - 'max': once through, but cut off after the session's maximum length
+ */
+export type VideoTiming = 'complete' | 'interval' | 'max';
+
+// A still grabbed from a playing video, used for vision captions
+export interface VideoFrame {
+  postId: string;
+  dataUrl: string; // JPEG data URL
 }
 
 export interface AIResponse {
   caption: string;
   loading: boolean;
+  streaming?: boolean; // Caption is still being written
+  model?: string; // Model that wrote the caption, as reported by OpenRouter
   error?: string;
+  quota?: CaptionQuota; // Set when the error is the daily caption quota running out
+}
+
+// Daily caption allowance that was used up, as reported by the caption proxy
+export interface CaptionQuota {
+  tier: string;
+  kind: 'requests' | 'tokens';
+  limit: number;
+  used: number;
+  resetsAt: string; // ISO time the allowance resets (midnight UTC)
+}
+
+// One caption shown during a play of a session
+export interface TranscriptEntry {
+  postId: string;
+  permalink: string;
+  subreddit: string;
+  title: string;
+  caption: string;
+  model?: string;
+  timestamp: string; // ISO time the caption was shown
+}
+
+// A single run of a session, with every caption shown during it
+export interface SessionPlay {
+  id: string;
+  session_id: string;
+  user_id: string;
+  started_at: string;
+  updated_at: string;
+  transcript: TranscriptEntry[];
 }
 
 export interface User {
@@ -99,13 +157,148 @@ export interface JoiSession {
   shared_url_id?: string;
   tts_enabled?: boolean; // Flag for future TTS implementation
   thumbnail_url?: string; // URL to the custom thumbnail image
+  subreddit_settings?: SubredditSource[]; // Per-subreddit sort/limit/weight, matched to subreddits by name
+  vision_captions?: boolean; // Send the media itself to a vision model when captioning
+  video_audio?: VideoAudioDefault | null; // Whether videos start muted or with sound
+  video_timing?: VideoTiming; // How long video slides stay on screen
+  video_max_seconds?: number; // Cap for the 'max' video timing
+  gallery_interval?: number; // Seconds per gallery item
+  content_filters?: ContentFilters | null; // Which fetched posts are played
+  tags?: string[]; // Lower-case tags for browsing in Explore
+  is_listed?: boolean; // Public sessions show up in Explore unless unlisted
+  play_count?: number; // Plays by other users
+  save_count?: number; // Copies other users saved
+  forked_from?: string | null; // Session this one was saved as a copy of
+  forked_from_revision?: string | null; // Revision of that session the copy started from
+}
+
+// One saved version of a session. Written by the database on every save and never changed
+export interface SessionRevision {
+  id: string;
+  session_id: string;
+  revision: number; // Counts up from 1 per session
+  created_at: string;
+  created_by: string | null;
+  subreddits: string[];
+  subreddit_settings: SubredditSource[];
+  system_prompt: string;
+  interval: number;
+  transition: TransitionEffect;
+  content_filters: ContentFilters;
+  thumbnail_url: string | null;
+  author_name?: string | null; // Display name of whoever saved it
+}
+
+// Where one of the user's copies came from, as returned by `session_lineage()`
+export interface SessionLineage {
+  session_id: string; // The copy
+  parent_id: string;
+  parent_title: string | null; // Null, like the owner and latest revision, once the original can't be seen
+  parent_owner_name: string | null;
+  forked_revision: number | null; // Revision of the original the copy is based on
+  latest_revision: number | null;
+  upstream_visible: boolean; // False once the original is no longer public or shared with the user
+  update_available: boolean; // The original has subreddit or prompt changes the copy doesn't have
+}
+
+// What a copy is based on and the original's latest version, as returned by `session_upstream()`
+export interface SessionUpstream {
+  base_subreddits: string[] | null; // Null for copies saved before revisions were kept
+  base_system_prompt: string | null;
+  latest_revision_id: string;
+  latest_revision: number;
+  latest_subreddits: string[];
+  latest_subreddit_settings: SubredditSource[];
+  latest_system_prompt: string;
 }
 
+// How the Explore gallery orders public sessions
+export type ExploreSort = 'newest' | 'played' | 'saved';
+
+// A public session as listed in Explore
+export interface PublicSession extends Pick<JoiSession,
+  'id' | 'user_id' | 'title' | 'description' | 'subreddits' | 'tags' | 'thumbnail_url' | 'interval' | 'transition'
+  | 'play_count' | 'save_count' | 'created_at' | 'updated_at'> {
+  owner_name: string | null;
+}
+
+// What someone a session is shared with may do: play and copy it, also change its
+// subreddits and prompt, or change every setting except visibility
+export type ShareRole = 'viewer' | 'editor' | 'co_owner';
+
+// The current user's access to a session
+export type SessionRole = 'owner' | ShareRole;
+
+// Someone a session is shared with, as listed for its owner
+export interface SessionCollaborator {
+  share_id: string;
+  user_id: string;
+  display_name: string | null;
+  username: string | null;
+  avatar_url: string | null;
+  role: ShareRole;
+  created_at: string;
+}
+
+// Someone who has a session's edit form open right now
+export interface SessionEditorPresence {
+  user_id: string;
+  name: string;
+  avatar_url: string | null;
+}
+
+// A share link as listed for the session's owner. Counters leave out the owner's own use
+export interface ShareLink {
+  id: string;
+  token: string; // Secret part of the link's URL
+  created_at: string;
+  expires_at: string | null;
+  has_passphrase: boolean;
+  allow_save: boolean; // False for "play only" links
+  max_plays: number | null; // Null = unlimited
+  max_saves: number | null;
+  view_count: number;
+  play_count: number;
+  save_count: number;
+  revoked_at: string | null;
+}
+
+// Settings for a new share link
+export interface ShareLinkOptions {
+  expiresAt: string | null; // ISO time, or null for a link that doesn't expire
+  passphrase?: string;
+  allowSave: boolean;
+  maxPlays: number | null;
+  maxSaves: number | null;
+}
+
+// A session opened through a share link, with what the link still allows
+export interface ShareLinkAccess {
+  session: Pick<JoiSession, 'id' | 'title' | 'description' | 'subreddits' | 'interval' | 'transition'>;
+  expires_at: string | null;
+  allow_save: boolean;
+  plays_left: number | null; // Null = unlimited
+  saves_left: number | null;
+  play_token?: string; // Set by `play_share_link()`: trades for the session once, in the player
+}
+
+// What the player gets of a session for one play of a share link, as returned by `redeem_share_play()`
+export type ShareLinkPlaySession = Pick<JoiSession,
+  'id' | 'title' | 'description' | 'subreddits' | 'subreddit_settings' | 'system_prompt' | 'interval'
+  | 'transition' | 'thumbnail_url' | 'vision_captions' | 'video_audio' | 'video_timing'
+  | 'video_max_seconds' | 'gallery_interval' | 'content_filters'>;
+
+// Why the database refused a share link (the HINT of its error)
+export type ShareLinkErrorCode =
+  | 'not_found' | 'revoked' | 'expired' | 'passphrase_required' | 'passphrase_incorrect'
+  | 'too_many_attempts' | 'play_limit' | 'play_used' | 'save_not_allowed' | 'save_limit';
+
 export interface SharedSession {
   id: string;
   session_id: string;
   owner_id: string;
   shared_with_id: string;
+  role: ShareRole;
   created_at: string;
   session?: JoiSession;
   owner?: UserProfile;
@@ -0,0 +1,132 @@
+// A session's content filter rules (see `ContentFilters`). Runs in the reddit-proxy edge
+// function (Deno) and in the browser (through `src/lib/utils/content-filters.ts`), so it
+// imports nothing outside `_shared`.
+import type { ContentFilters, NsfwMode, PostMediaType, RedditPost } from './media-types.ts';
+
+const NSFW_MODES: NsfwMode[] = ['only', 'mixed', 'exclude'];
+const MEDIA_TYPES: PostMediaType[] = ['image', 'video', 'gallery'];
+
+// Longest list and entry accepted, to keep stored rules and requests small
+const MAX_LIST_LENGTH = 50;
+const MAX_ENTRY_LENGTH = 100;
+
+/**
+ * What a post shows, for the media type rule.
+ *
+ * @param post A normalized post
+ * @returns 'gallery' for several items, else 'video' or 'image'
+ */
+export function postMediaType(post: Pick<RedditPost, 'isVideo' | 'gallery'>): PostMediaType {
+  if (post.gallery.length > 1) return 'gallery';
+  return post.isVideo ? 'video' : 'image';
+}
+
+// Trimmed, lower-cased entries without blanks and duplicates; `u/` prefixes are dropped from authors
+function cleanList(value: unknown, stripPrefix?: RegExp): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const entries = value
+    .filter((entry): entry is string => typeof entry === 'string')
+    .map(entry => (stripPrefix ? entry.trim().replace(stripPrefix, '') : entry.trim()).toLowerCase().slice(0, MAX_ENTRY_LENGTH))
+    .filter(entry => entry.length > 0);
+  const unique = Array.from(new Set(entries)).slice(0, MAX_LIST_LENGTH);
+  return unique.length > 0 ? unique : undefined;
+}
+
+function cleanNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.round(value) : undefined;
+}
+
+/**
+ * Reads filter rules from untrusted input (a request body or a stored row), keeping only
+ * well-formed rules. Rules that restrict nothing are left out, so an empty object means
+ * every post passes.
+ *
+ * @param value Anything; only a plain object yields rules
+ * @returns The cleaned rules
+ */
+export function parseContentFilters(value: unknown): ContentFilters {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  const raw = value as Record<string, unknown>;
+  const filters: ContentFilters = {};
+
+  const titleInclude = cleanList(raw.titleInclude);
+  if (titleInclude) filters.titleInclude = titleInclude;
+  const titleExclude = cleanList(raw.titleExclude);
+  if (titleExclude) filters.titleExclude = titleExclude;
+  const authorBlocklist = cleanList(raw.authorBlocklist, /^\/?u\//i);
+  if (authorBlocklist) filters.authorBlocklist = authorBlocklist;
+  const flairInclude = cleanList(raw.flairInclude);
+  if (flairInclude) filters.flairInclude = flairInclude;
+  const flairExclude = cleanList(raw.flairExclude);
+  if (flairExclude) filters.flairExclude = flairExclude;
+
+  const minScore = cleanNumber(raw.minScore);
+  if (minScore !== undefined) filters.minScore = minScore;
+  const minResolution = cleanNumber(raw.minResolution);
+  if (minResolution !== undefined && minResolution > 0) filters.minResolution = minResolution;
+
+  // All three kinds is the same as no rule; none at all would play nothing, so it's ignored too
+  if (Array.isArray(raw.mediaTypes)) {
+    const mediaTypes = MEDIA_TYPES.filter(type => (raw.mediaTypes as unknown[]).includes(type));
+    if (mediaTypes.length > 0 && mediaTypes.length < MEDIA_TYPES.length) filters.mediaTypes = mediaTypes;
+  }
+
+  if (typeof raw.nsfw === 'string' && NSFW_MODES.includes(raw.nsfw as NsfwMode) && raw.nsfw !== 'mixed') {
+    filters.nsfw = raw.nsfw as NsfwMode;
+  }
+
+  return filters;
+}
+
+/**
+ * Whether any rule is set, i.e. whether filtering can drop posts at all.
+ */
+export function hasContentFilters(filters: ContentFilters | null | undefined): boolean {
+  return Object.keys(parseContentFilters(filters)).length > 0;
+}
+
+/**
+ * Checks one post against a session's rules. Rules about values a post doesn't have
+ * (score, size) let it through; include lists for text it doesn't have (flair) don't.
+ *
+ * @param post A normalized post
+ * @param filters Rules, as cleaned by `parseContentFilters`
+ * @returns True when the post may be played
+ */
+export function passesContentFilters(post: RedditPost, filters: ContentFilters): boolean {
+  const nsfw = filters.nsfw ?? 'mixed';
+  if (nsfw === 'only' && !post.isNSFW) return false;
+  if (nsfw === 'exclude' && post.isNSFW) return false;
+
+  if (filters.mediaTypes && !filters.mediaTypes.includes(postMediaType(post))) return false;
+
+  if (filters.minScore !== undefined && post.score !== undefined && post.score < filters.minScore) return false;
+
+  if (filters.minResolution && post.width && post.height
+    && Math.min(post.width, post.height) < filters.minResolution) return false;
+
+  if (filters.authorBlocklist?.includes(post.author.toLowerCase())) return false;
+
+  const title = post.title.toLowerCase();
+  if (filters.titleInclude && !filters.titleInclude.some(keyword => title.includes(keyword))) return false;
+  if (filters.titleExclude?.some(keyword => title.includes(keyword))) return false;
+
+  const flair = post.flair?.toLowerCase();
+  if (filters.flairInclude && (!flair || !filters.flairInclude.includes(flair))) return false;
+  if (flair && filters.flairExclude?.includes(flair)) return false;
+
+  return true;
+}
+
+/**
+ * The posts that pass a session's rules, in their original order.
+ *
+ * @param posts Normalized posts
+ * @param filters Rules in any shape; malformed ones are ignored
+ * @returns The posts to play
+ */
+export function applyContentFilters(posts: RedditPost[], filters: ContentFilters | null | undefined): RedditPost[] {
+  const rules = parseContentFilters(filters);
+  if (Object.keys(rules).length === 0) return posts;
+  return posts.filter(post => passesContentFilters(post, rules));
+}
@@ -0,0 +1,265 @@
+// Turns links to external media hosts into playable items. Each host registers a
+// resolver: offline resolvers work from the URL alone and run wherever posts are
+// normalized; network resolvers call the host's API and only run in the reddit-proxy
+// edge function, which keeps API keys and tokens server-side and isn't bound by CORS.
+// The browser imports it through `src/lib/utils/media-resolvers.ts`.
+import type { MediaItem } from './media-types.ts';
+
+export interface ResolverContext {
+  // Imgur API client ID; album links stay unresolved without it
+  imgurClientId?: string;
+  // Bearer token for the redgifs API, cached by the caller
+  getRedgifsToken: () => Promise<string | null>;
+}
+
+export interface MediaResolver {
+  name: string;
+  matches: (url: URL) => boolean;
+  // Derives the media from the URL alone
+  resolve?: (url: URL) => MediaItem[] | null;
+  // Looks the media up with the host's API
+  fetchMedia?: (url: URL, context: ResolverContext) => Promise<MediaItem[] | null>;
+}
+
+// A host's API taking longer than this is skipped; the post falls back to Reddit's preview
+const RESOLVER_TIMEOUT_MS = 5000;
+// At most this many host API lookups run at once for one listing page
+const MAX_CONCURRENT_LOOKUPS = 4;
+
+const REDGIFS_API_URL = 'https://api.redgifs.com/v2';
+const IMGUR_API_URL = 'https://api.imgur.com/3';
+
+function isHost(url: URL, domain: string): boolean {
+  return url.hostname === domain || url.hostname.endsWith(`.${domain}`);
+}
+
+// Path segments without the empty ones from leading and trailing slashes
+function pathParts(url: URL): string[] {
+  return url.pathname.split('/').filter(Boolean);
+}
+
+async function fetchJson<T>(url: string, headers: Record<string, string> = {}): Promise<T | null> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), RESOLVER_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, { headers, signal: controller.signal });
+    if (!response.ok) {
+      console.warn(`[Resolvers] ${url} answered ${response.status}`);
+      return null;
+    }
+    return await response.json() as T;
+  } catch (error) {
+    console.warn(`[Resolvers] ${url} failed:`, error);
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+interface ImgurImage {
+  id: string;
+  link: string;
+  type?: string; // MIME type, e.g. 'image/gif' or 'video/mp4'
+  animated?: boolean;
+  mp4?: string;
+  width?: number;
+  height?: number;
+  description?: string | null;
+}
+
+function imgurItem(image: ImgurImage): MediaItem {
+  const videoUrl = image.animated || image.type?.startsWith('video/') ? image.mp4 || image.link : undefined;
+  return {
+    id: image.id,
+    url: videoUrl ? `https://i.imgur.com/${image.id}.jpg` : image.link,
+    isVideo: Boolean(videoUrl),
+    videoUrl,
+    thumbnailUrl: `https://i.imgur.com/${image.id}m.jpg`,
+    caption: image.description || undefined,
+    width: image.width,
+    height: image.height,
+  };
+}
+
+// `i.imgur.com/<id>.gifv` is an HTML page around an MP4 with the same ID
+const imgurGifvResolver: MediaResolver = {
+  name: 'imgur-gifv',
+  matches: url => isHost(url, 'imgur.com') && /\.gifv$/i.test(url.pathname),
+  resolve: url => {
+    const id = pathParts(url).pop()?.replace(/\.gifv$/i, '');
+    if (!id) return null;
+    return [{
+      id,
+      url: `https://i.imgur.com/${id}.jpg`,
+      isVideo: true,
+      videoUrl: `https://i.imgur.com/${id}.mp4`,
+      thumbnailUrl: `https://i.imgur.com/${id}m.jpg`,
+    }];
+  },
+};
+
+// `imgur.com/a/<id>` and `imgur.com/gallery/<id>` hold one or more images
+const imgurAlbumResolver: MediaResolver = {
+  name: 'imgur-album',
+  matches: url => url.hostname.replace(/^(www|m)\./, '') === 'imgur.com' && ['a', 'gallery'].includes(pathParts(url)[0]),
+  fetchMedia: async (url, context) => {
+    if (!context.imgurClientId) return null;
+
+    // Gallery slugs end in the ID after the last dash, e.g. /gallery/some-title-AbC12
+    const id = pathParts(url)[1]?.split('-').pop();
+    if (!id) return null;
+
+    const headers = { Authorization: `Client-ID ${context.imgurClientId}` };
+    const album = await fetchJson<{ data?: { images?: ImgurImage[] } }>(`${IMGUR_API_URL}/album/${id}`, headers);
+    if (album?.data?.images?.length) {
+      return album.data.images.map(imgurItem);
+    }
+
+    // A gallery can also be a single image
+    const image = await fetchJson<{ data?: ImgurImage }>(`${IMGUR_API_URL}/image/${id}`, headers);
+    return image?.data?.link ? [imgurItem(image.data)] : null;
+  },
+};
+
+// `imgur.com/<id>` is the page of a single image; the file itself is on i.imgur.com
+const imgurImageResolver: MediaResolver = {
+  name: 'imgur-image',
+  matches: url => url.hostname.replace(/^(www|m)\./, '') === 'imgur.com' && /^[a-zA-Z0-9]{5,8}$/.test(pathParts(url)[0] ?? '') && pathParts(url).length === 1,
+  resolve: url => {
+    const id = pathParts(url)[0];
+    return [{ id, url: `https://i.imgur.com/${id}.jpg`, isVideo: false, thumbnailUrl: `https://i.imgur.com/${id}m.jpg` }];
+  },
+};
+
+interface RedgifsGif {
+  id: string;
+  width?: number;
+  height?: number;
+  urls?: {
+    hd?: string;
+    sd?: string;
+    poster?: string;
+    thumbnail?: string;
+  };
+}
+
+async function fetchRedgif(id: string, context: ResolverContext): Promise<MediaItem[] | null> {
+  const token = await context.getRedgifsToken();
+  if (!token) return null;
+
+  const result = await fetchJson<{ gif?: RedgifsGif }>(`${REDGIFS_API_URL}/gifs/${id.toLowerCase()}`, {
+    Authorization: `Bearer ${token}`,
+  });
+  const gif = result?.gif;
+  const videoUrl = gif?.urls?.hd || gif?.urls?.sd;
+  if (!gif || !videoUrl) return null;
+
+  return [{
+    id: gif.id,
+    url: gif.urls?.poster || gif.urls?.thumbnail || videoUrl,
+    isVideo: true,
+    videoUrl,
+    thumbnailUrl: gif.urls?.thumbnail,
+    width: gif.width,
+    height: gif.height,
+  }];
+}
+
+// redgifs.com/watch/<id>, /ifr/<id> and i.redgifs.com/i/<id>.jpg all name the same clip
+const redgifsResolver: MediaResolver = {
+  name: 'redgifs',
+  matches: url => isHost(url, 'redgifs.com') && ['watch', 'ifr', 'i'].includes(pathParts(url)[0]) && pathParts(url).length >= 2,
+  fetchMedia: (url, context) => {
+    const id = pathParts(url)[1].replace(/\.\w+$/, '').split('-')[0];
+    return fetchRedgif(id, context);
+  },
+};
+
+// Gfycat shut down in 2023; the adult clips that moved to redgifs kept their IDs
+const gfycatResolver: MediaResolver = {
+  name: 'gfycat',
+  matches: url => isHost(url, 'gfycat.com') && pathParts(url).length >= 1,
+  fetchMedia: (url, context) => {
+    const parts = pathParts(url);
+    // gfycat.com/<id>-title, gfycat.com/ifr/<id> and gfycat.com/gifs/detail/<id>
+    const id = parts[parts.length - 1].split('-')[0];
+    return fetchRedgif(id, context);
+  },
+};
+
+/**
+ * Every registered resolver, tried in order; the first one whose `matches` accepts a
+ * link handles it. Register new hosts here.
+ */
+export const MEDIA_RESOLVERS: MediaResolver[] = [
+  imgurGifvResolver,
+  imgurAlbumResolver,
+  imgurImageResolver,
+  redgifsResolver,
+  gfycatResolver,
+];
+
+/**
+ * The resolver responsible for a link, or undefined when no host claims it.
+ *
+ * @param link Absolute URL of a link post
+ * @returns The first matching resolver
+ */
+export function findMediaResolver(link: string | undefined): { resolver: MediaResolver; url: URL } | undefined {
+  if (!link) return undefined;
+
+  let url: URL;
+  try {
+    url = new URL(link);
+  } catch {
+    return undefined;
+  }
+
+  const resolver = MEDIA_RESOLVERS.find(candidate => candidate.matches(url));
+  return resolver ? { resolver, url } : undefined;
+}
+
+/**
+ * Resolves a link with the resolvers that need no network access.
+ *
+ * @param link Absolute URL of a link post
+ * @returns The media behind the link, or null when it takes a network resolver (or nothing) to tell
+ */
+export function resolveMediaOffline(link: string | undefined): MediaItem[] | null {
+  const match = findMediaResolver(link);
+  return match?.resolver.resolve?.(match.url) ?? null;
+}
+
+/**
+ * Looks up links with the network resolvers, a few at a time. Links that fail or time
+ * out are left out of the result.
+ *
+ * @param links Link URL per key (e.g. per post ID)
+ * @param context Credentials for the hosts' APIs
+ * @returns The media found per key
+ */
+export async function resolveMediaLinks(
+  links: Map<string, string>,
+  context: ResolverContext
+): Promise<Map<string, MediaItem[]>> {
+  const pending = Array.from(links.entries()).flatMap(([key, link]) => {
+    const match = findMediaResolver(link);
+    const fetchMedia = match?.resolver.fetchMedia;
+    return match && fetchMedia ? [{ key, name: match.resolver.name, url: match.url, fetchMedia }] : [];
+  });
+
+  const resolved = new Map<string, MediaItem[]>();
+  for (let i = 0; i < pending.length; i += MAX_CONCURRENT_LOOKUPS) {
+    const batch = pending.slice(i, i + MAX_CONCURRENT_LOOKUPS);
+    const results = await Promise.all(batch.map(({ name, url, fetchMedia }) =>
+      fetchMedia(url, context).catch(error => {
+        console.warn(`[Resolvers] ${name} failed for ${url.href}:`, error);
+        return null;
+      })
+    ));
+    results.forEach((items, index) => {
+      if (items && items.length > 0) resolved.set(batch[index].key, items);
+    });
+  }
+  return resolved;
+}
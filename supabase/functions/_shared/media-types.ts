@@ -0,0 +1,61 @@
+// Post and media types shared by the app and the edge functions that normalize and
+// filter Reddit listings. Types only, so both sides can import it.
+
+export interface RedditPost {
+  id: string;
+  title: string;
+  url: string;
+  permalink: string;
+  author: string;
+  subreddit: string;
+  created: number;
+  isImage: boolean;
+  isVideo: boolean;
+  videoUrl?: string;
+  hlsUrl?: string; // Adaptive stream with sound; videoUrl is the silent fallback
+  hasAudio?: boolean; // Whether Reddit says the video has a sound track
+  thumbnailUrl?: string;
+  isNSFW?: boolean;
+  score?: number; // Upvotes minus downvotes when fetched
+  flair?: string; // The post's link flair text
+  width?: number; // Size of the media in pixels (the first item for galleries), when Reddit says
+  height?: number;
+  gallery: MediaItem[]; // Every item of a Reddit gallery, in order; empty for single-media posts
+}
+
+// One image or video inside a post, e.g. a single item of a Reddit gallery
+export interface MediaItem {
+  id: string;
+  url: string; // Image URL (the still frame for animated items)
+  isVideo: boolean;
+  videoUrl?: string;
+  hlsUrl?: string;
+  hasAudio?: boolean;
+  thumbnailUrl?: string;
+  caption?: string; // Caption the poster gave this item
+  width?: number;
+  height?: number;
+}
+
+// What a post shows: a single image, a single video, or a gallery of several items
+export type PostMediaType = 'image' | 'video' | 'gallery';
+
+// Whether a session plays NSFW posts only, alongside everything else, or not at all
+export type NsfwMode = 'only' | 'mixed' | 'exclude';
+
+/**
+ * Rules a post has to pass to be played in a session. Every rule is optional and an
+ * empty list means "no restriction". Text matches ignore case; keywords match anywhere
+ * in the title, authors and flairs match whole.
+ */
+export interface ContentFilters {
+  titleInclude?: string[]; // Title has to contain at least one of these
+  titleExclude?: string[]; // Title must contain none of these
+  authorBlocklist?: string[];
+  minScore?: number;
+  minResolution?: number; // Shorter side in pixels; media of unknown size passes
+  mediaTypes?: PostMediaType[]; // Kinds of posts to play
+  flairInclude?: string[]; // Flair has to be one of these
+  flairExclude?: string[];
+  nsfw?: NsfwMode; // Defaults to 'mixed'
+}
@@ -0,0 +1,234 @@
+// OAuth `state` handling shared by the reddit-auth and patreon-auth functions.
+//
+// A state is `<payload>.<signature>`: the payload (provider, Supabase user, return path,
+// expiry and a random nonce) is HMAC-signed so it can't be forged, and the nonce is
+// stored in `oauth_states` so each state is redeemed exactly once. For providers that
+// support PKCE, the code verifier lives in the same row and never leaves the server.
+//
+// The provider's callback doesn't know whose browser it landed in, so it only hands the
+// code and state back to the app. The app finishes the flow with the signed-in user's JWT,
+// and the state is only redeemed for the user who started it: a consent URL sent to
+// someone else can't link their provider account to the sender.
+
+import { createClient } from "npm:@supabase/supabase-js@2.39.8";
+
+export type OAuthProvider = "reddit" | "patreon";
+
+type SupabaseAdmin = ReturnType<typeof createClient>;
+
+interface StatePayload {
+  n: string; // nonce
+  p: OAuthProvider;
+  u: string; // Supabase user ID
+  r: string; // return path
+  e: number; // expiry, ms since epoch
+}
+
+export interface IssuedOAuthState {
+  state: string;
+  // Present when PKCE was requested; send as `code_challenge` with method S256
+  codeChallenge?: string;
+}
+
+// What a callback may read from a state before the app finishes the flow
+export interface PendingOAuthState {
+  returnPath: string;
+}
+
+export interface VerifiedOAuthState {
+  userId: string;
+  returnPath: string;
+  // Send as `code_verifier` in the token exchange; null when PKCE wasn't used
+  codeVerifier: string | null;
+}
+
+// How long a user has to finish the provider's consent screen
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+const STATE_SECRET = Deno.env.get("OAUTH_STATE_SECRET") ?? Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): string {
+  const padded = value.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(value.length / 4) * 4, "=");
+  return new TextDecoder().decode(Uint8Array.from(atob(padded), char => char.charCodeAt(0)));
+}
+
+function randomToken(): string {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+async function sign(value: string): Promise<string> {
+  if (!STATE_SECRET) {
+    throw new Error("OAUTH_STATE_SECRET is not set");
+  }
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(STATE_SECRET),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  return toBase64Url(new Uint8Array(await crypto.subtle.sign("HMAC", key, encoder.encode(value))));
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let mismatch = 0;
+  for (let i = 0; i < a.length; i++) {
+    mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return mismatch === 0;
+}
+
+async function pkceChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", encoder.encode(verifier));
+  return toBase64Url(new Uint8Array(digest));
+}
+
+/**
+ * A frontend path that is safe to redirect to: same-origin only, so a crafted
+ * return path can't bounce the user to another site.
+ */
+export function sanitizeReturnPath(path: unknown, fallback = "/"): string {
+  if (typeof path !== "string" || !path.startsWith("/") || path.startsWith("//") || path.includes("\\")) {
+    return fallback;
+  }
+  return path;
+}
+
+/**
+ * The signed-in Supabase user making the request, or null for anon keys and bad tokens.
+ */
+export async function getRequestUser(req: Request, supabaseAdmin: SupabaseAdmin) {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader || !authHeader.startsWith("Bearer ")) return null;
+
+  const { data: { user }, error } = await supabaseAdmin.auth.getUser(authHeader.slice("Bearer ".length));
+  return error ? null : user;
+}
+
+/**
+ * Starts an OAuth flow for a user: records a single-use nonce and returns the signed
+ * state to put in the provider's authorize URL.
+ */
+export async function issueOAuthState(
+  supabaseAdmin: SupabaseAdmin,
+  { provider, userId, returnPath, pkce = false }: {
+    provider: OAuthProvider;
+    userId: string;
+    returnPath: string;
+    pkce?: boolean;
+  }
+): Promise<IssuedOAuthState> {
+  const nonce = randomToken();
+  const expiresAt = Date.now() + STATE_TTL_MS;
+  const codeVerifier = pkce ? randomToken() : null;
+  const safeReturnPath = sanitizeReturnPath(returnPath);
+
+  // Expired states are never redeemable; tidy them up as new ones are made
+  await supabaseAdmin
+    .from("oauth_states")
+    .delete()
+    .lt("expires_at", new Date().toISOString());
+
+  const { error } = await supabaseAdmin
+    .from("oauth_states")
+    .insert({
+      nonce,
+      provider,
+      user_id: userId,
+      return_path: safeReturnPath,
+      code_verifier: codeVerifier,
+      expires_at: new Date(expiresAt).toISOString(),
+    });
+
+  if (error) {
+    throw new Error(`Failed to store OAuth state: ${error.message}`);
+  }
+
+  const payload: StatePayload = { n: nonce, p: provider, u: userId, r: safeReturnPath, e: expiresAt };
+  const encoded = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  return {
+    state: `${encoded}.${await sign(encoded)}`,
+    codeChallenge: codeVerifier ? await pkceChallenge(codeVerifier) : undefined,
+  };
+}
+
+// The payload of a genuine, unexpired state for the provider, or null
+async function decodeOAuthState(provider: OAuthProvider, state: string | undefined): Promise<StatePayload | null> {
+  if (!state) return null;
+
+  const [encoded, signature] = state.split(".");
+  if (!encoded || !signature || !timingSafeEqual(await sign(encoded), signature)) {
+    return null;
+  }
+
+  let payload: StatePayload;
+  try {
+    payload = JSON.parse(fromBase64Url(encoded));
+  } catch {
+    return null;
+  }
+  if (payload.p !== provider || payload.e < Date.now()) {
+    return null;
+  }
+  return payload;
+}
+
+/**
+ * Checks a state arriving at a callback without redeeming it, so the callback knows
+ * where in the app to send the code. Returns null when the state is forged, expired
+ * or meant for another provider.
+ */
+export async function readOAuthState(
+  provider: OAuthProvider,
+  state: string | undefined
+): Promise<PendingOAuthState | null> {
+  const payload = await decodeOAuthState(provider, state);
+  return payload ? { returnPath: sanitizeReturnPath(payload.r) } : null;
+}
+
+/**
+ * Redeems a state for the signed-in user finishing the flow. Returns null when the state
+ * is forged, expired, meant for another provider or another user, or was already used.
+ */
+export async function verifyOAuthState(
+  supabaseAdmin: SupabaseAdmin,
+  provider: OAuthProvider,
+  state: string | undefined,
+  userId: string
+): Promise<VerifiedOAuthState | null> {
+  const payload = await decodeOAuthState(provider, state);
+  if (!payload || payload.u !== userId) {
+    return null;
+  }
+
+  // Single use: only the first redemption finds the row unused
+  const { data, error } = await supabaseAdmin
+    .from("oauth_states")
+    .update({ used_at: new Date().toISOString() })
+    .eq("nonce", payload.n)
+    .eq("provider", provider)
+    .eq("user_id", payload.u)
+    .is("used_at", null)
+    .gt("expires_at", new Date().toISOString())
+    .select("code_verifier")
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error redeeming OAuth state:", error);
+    return null;
+  }
+  if (!data) return null;
+
+  return {
+    userId: payload.u,
+    returnPath: sanitizeReturnPath(payload.r),
+    codeVerifier: (data.code_verifier as string | null) ?? null,
+  };
+}
@@ -0,0 +1,563 @@
+// Turns raw Reddit listing JSON into the app's `RedditPost` shape. Runs in the reddit-proxy
+// edge function (Deno) and in the browser (through `src/lib/utils/reddit-normalize.ts`),
+// so it stays free of DOM APIs and imports nothing outside `_shared`.
+import type { MediaItem, RedditPost } from './media-types.ts';
+import { findMediaResolver, resolveMediaOffline } from './media-resolvers.ts';
+
+// Title markers people use on posts that aren't flagged over_18
+const NSFW_TITLE_MARKERS = ['nsfw', '[over 18]', 'over18', 'over 18', '18+', 'adult'];
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+};
+
+// Decodes the HTML entities Reddit leaves in URLs and titles. Unknown entities are left as they are
+function decodeHTMLEntities(html: string): string {
+  return html.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(codePoint) && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Decodes and tidies a media URL from Reddit's JSON: HTML entities, escaped slashes,
+ * preview.redd.it links rewritten to i.redd.it, and tracking parameters dropped.
+ *
+ * @param url URL as it appears in the listing
+ * @returns A URL that can be loaded directly, or '' for an empty input
+ */
+export function cleanRedditUrl(url: string): string {
+  if (!url) return '';
+  
+  // First decode any HTML entities
+  let cleanUrl = decodeHTMLEntities(url);
+  
+  // Reddit often has escaped characters in URLs
+  cleanUrl = cleanUrl.replace(/&amp;/g, '&');
+  
+  // Fix common URL escaping issues
+  cleanUrl = cleanUrl.replace(/\\"/g, '"')
+                     .replace(/\\\//g, '/');
+  
+  // Transform preview.redd.it URLs to i.redd.it for direct image access
+  // This often gives better quality and avoids CORS issues.
+  // external-preview.redd.it has no such counterpart and only serves signed URLs
+  const signedPreview = cleanUrl.includes('external-preview.redd.it');
+  if (/^https?:\/\/preview\.redd\.it\//.test(cleanUrl)) {
+    cleanUrl = cleanUrl.replace('preview.redd.it', 'i.redd.it');
+    // Remove all query parameters after the transformation
+    cleanUrl = cleanUrl.split('?')[0];
+  }
+  
+  // Remove query parameters that break image loading
+  // but preserve video parameters for Reddit videos that need them
+  if ((cleanUrl.includes('.jpg?') || 
+       cleanUrl.includes('.png?') || 
+       cleanUrl.includes('.gif?') || 
+       cleanUrl.includes('.webp?')) && 
+      !cleanUrl.includes('v.redd.it') &&
+      !signedPreview) {
+    cleanUrl = cleanUrl.split('?')[0];
+  }
+  
+  // For v.redd.it video URLs, keep only necessary parameters
+  if (cleanUrl.includes('v.redd.it') && cleanUrl.includes('?')) {
+    // Extract the base URL and parameters
+    const [baseUrl, params] = cleanUrl.split('?');
+    // Parse parameters
+    const paramPairs = params.split('&');
+    // Keep only necessary parameters (like 'source' but not tracking params)
+    const necessaryParams = paramPairs.filter(pair => 
+      pair.startsWith('source=') || 
+      pair.startsWith('x=') || 
+      pair.startsWith('is_copy_url=')
+    );
+    
+    // Reconstruct the URL with only necessary parameters
+    cleanUrl = necessaryParams.length > 0 
+      ? `${baseUrl}?${necessaryParams.join('&')}` 
+      : baseUrl;
+  }
+  
+  // Ensure HTTPS
+  if (cleanUrl.startsWith('http://')) {
+    cleanUrl = cleanUrl.replace('http://', 'https://');
+  }
+  
+  return cleanUrl;
+}
+
+export interface NormalizedListingPage {
+  posts: RedditPost[];
+  removedIds: string[];
+  after: string | null; // Cursor for the next page, null on the last page
+}
+
+// Shape of a listing response; `after` is the cursor for the next page (null on the last page)
+export interface RedditListingResponse {
+  data?: {
+    children?: Record<string, unknown>[];
+    after?: string | null;
+  };
+}
+
+// A v.redd.it video. `fallback_url` is a single MP4 without sound; the HLS and DASH
+// manifests carry the same renditions plus the audio track
+interface RedditVideo {
+  fallback_url?: string;
+  hls_url?: string;
+  dash_url?: string;
+  has_audio?: boolean;
+}
+
+interface RedditApiPost {
+  id: string;
+  title: string;
+  url: string;
+  permalink: string;
+  author: string;
+  subreddit: string;
+  created_utc: number;
+  over_18: boolean;
+  score?: number;
+  link_flair_text?: string | null;
+  removed_by_category?: unknown;
+  removed?: boolean;
+  post_hint?: string;
+  is_video?: boolean;
+  is_gallery?: boolean;
+  media?: {
+    reddit_video?: RedditVideo;
+    oembed?: {
+      thumbnail_url?: string;
+    };
+  };
+  preview?: {
+    images?: Array<{
+      source?: {
+        url?: string;
+        width?: number;
+        height?: number;
+      };
+      variants?: {
+        nsfw?: {
+          source?: {
+            url?: string;
+          };
+        };
+        mp4?: {
+          source?: {
+            url?: string;
+          };
+        };
+      };
+    }>;
+    reddit_video_preview?: {
+      fallback_url?: string;
+    };
+  };
+  gallery_data?: {
+    items?: Array<{
+      media_id: string;
+      caption?: string;
+    }>;
+  };
+  media_metadata?: Record<string, {
+    status?: string; // 'valid' once Reddit has processed the upload
+    e?: string; // 'Image' or 'AnimatedImage'
+    s?: {
+      u?: string;
+      gif?: string;
+      mp4?: string;
+      x?: number;
+      y?: number;
+    };
+    p?: Array<{
+      u: string;
+      x: number;
+      y: number;
+    }>;
+  }>;
+  thumbnail?: string;
+  crosspost_parent_list?: RedditApiPost[];
+}
+
+// Besides URLs, Reddit puts placeholders like 'self', 'default', 'nsfw' and 'spoiler' in `thumbnail`
+function usableThumbnail(thumbnail: string | undefined): string | undefined {
+  return thumbnail?.startsWith('http') ? thumbnail : undefined;
+}
+
+// The HLS manifest of a Reddit video. Its query string signs the request, so unlike
+// other URLs it is only decoded, never trimmed
+function streamUrl(video: RedditVideo): string | undefined {
+  return video.hls_url ? decodeHTMLEntities(video.hls_url) : undefined;
+}
+
+// Pixel size of a post's media: the first gallery item, else the preview Reddit made of it
+// (previews keep the original's size), else the crossposted original's
+function mediaSize(post: RedditApiPost, lead: MediaItem | undefined): { width?: number; height?: number } {
+  if (lead?.width && lead.height) return { width: lead.width, height: lead.height };
+  const source = post.preview?.images?.[0]?.source ?? post.crosspost_parent_list?.[0]?.preview?.images?.[0]?.source;
+  return source?.width && source.height ? { width: source.width, height: source.height } : {};
+}
+
+function isNSFWPost(post: RedditApiPost): boolean {
+  const title = post.title?.toLowerCase() ?? '';
+  return Boolean(post.over_18) || NSFW_TITLE_MARKERS.some(marker => title.includes(marker));
+}
+
+/**
+ * Builds every item of a Reddit gallery: order and captions come from `gallery_data`,
+ * the media itself from `media_metadata`. Items Reddit hasn't finished processing or
+ * that have no usable URL are skipped.
+ */
+function buildGalleryItems(post: RedditApiPost): MediaItem[] {
+  const items = post.gallery_data?.items ?? [];
+  const metadata = post.media_metadata ?? {};
+
+  return items.flatMap(item => {
+    const meta = metadata[item.media_id];
+    if (!meta || (meta.status && meta.status !== 'valid')) return [];
+
+    const largestPreview = meta.p && meta.p.length > 0 ? meta.p[meta.p.length - 1] : undefined;
+    const url = meta.s?.u || meta.s?.gif || largestPreview?.u;
+    if (!url) return [];
+
+    // Animated items come with an MP4 rendition that plays far better than the GIF. It is
+    // the GIF's URL plus format=mp4 and a signature, so it is only decoded, never trimmed
+    const videoUrl = meta.e === 'AnimatedImage' && meta.s?.mp4 ? decodeHTMLEntities(meta.s.mp4) : undefined;
+
+    return [{
+      id: item.media_id,
+      url: cleanRedditUrl(url),
+      isVideo: Boolean(videoUrl),
+      videoUrl,
+      thumbnailUrl: meta.p?.[0]?.u ? cleanRedditUrl(meta.p[0].u) : undefined,
+      caption: item.caption || undefined,
+      width: meta.s?.x,
+      height: meta.s?.y
+    }];
+  });
+}
+
+/**
+ * Maps one raw listing child to a RedditPost, or null when it has no usable media.
+ * Posts Reddit reports as removed are recorded in `removedIds` so merges can drop them.
+ * Media already looked up for link posts (see `collectMediaLinks`) wins over what Reddit
+ * has, since Reddit's previews of external hosts are low quality or missing.
+ */
+function processListingChild(
+  child: Record<string, unknown>,
+  removedIds: Set<string>,
+  resolvedMedia?: Map<string, MediaItem[]>
+): RedditPost | null {
+  const post = child.data as RedditApiPost;
+  
+  // Skip if the post is removed or deleted
+  if (post.removed_by_category || post.removed) {
+    removedIds.add(post.id);
+    return null;
+  }
+  
+  // --- Start Refactored Media Logic ---
+
+  let imageUrl: string | undefined = undefined;
+  let videoUrl: string | undefined = undefined;
+  let hlsUrl: string | undefined = undefined;
+  let hasAudio: boolean | undefined = undefined;
+  let isImage = false;
+  let isVideo = false;
+  let gallery: MediaItem[] = [];
+  let thumbnailUrl: string | undefined = usableThumbnail(post.thumbnail);
+  const linkMedia = resolvedMedia?.get(post.id)
+    ?? resolveMediaOffline(post.url)
+    ?? resolveMediaOffline(post.crosspost_parent_list?.[0]?.url);
+
+  // 0. Handle links an external host resolver turned into media (imgur, redgifs, ...)
+  if (linkMedia && linkMedia.length > 0) {
+      const [first] = linkMedia;
+      isVideo = first.isVideo;
+      isImage = !first.isVideo;
+      imageUrl = first.url;
+      videoUrl = first.videoUrl;
+      // Albums play like Reddit galleries
+      gallery = linkMedia.length > 1 ? linkMedia : [];
+      thumbnailUrl = thumbnailUrl || first.thumbnailUrl || first.url;
+  }
+  // 1. Handle Reddit-Hosted Video (v.redd.it)
+  else if (post.is_video && post.media?.reddit_video) {
+      // Process the video content
+      isVideo = true;
+      const fallbackUrl = post.media.reddit_video.fallback_url;
+      hlsUrl = streamUrl(post.media.reddit_video);
+      hasAudio = post.media.reddit_video.has_audio;
+      
+      if (fallbackUrl) {
+          videoUrl = fallbackUrl;
+          
+          // Handle DASH playlist URLs
+          if (videoUrl && videoUrl.includes('DASHPlaylist.mpd')) {
+              const baseUrl = videoUrl.split('DASHPlaylist.mpd')[0];
+              // Try to get the highest quality version available (720p preferred)
+              videoUrl = `${baseUrl}DASH_720.mp4`;
+          }
+          
+          // Remove redundant parameters
+          if (videoUrl) {
+              videoUrl = videoUrl.replace('?source=fallback', '');
+          }
+      }
+      
+      // Handle video thumbnails - prioritize NSFW variants for NSFW content
+      if (post.over_18) {
+          
+          // First priority: Use NSFW variant if available
+          if (post.preview?.images?.[0]?.variants?.nsfw?.source?.url) {
+              imageUrl = cleanRedditUrl(post.preview.images[0].variants.nsfw.source.url);
+          } 
+          // Second: Use normal preview image 
+          else if (post.preview?.images?.[0]?.source?.url) {
+              imageUrl = cleanRedditUrl(post.preview.images[0].source.url);
+          }
+          // Last resort: Use thumbnail
+          else {
+              imageUrl = thumbnailUrl || '';
+          }
+      } 
+      // For SFW videos, use standard thumbnail hierarchy
+      else {
+          if (post.preview?.images?.[0]?.source?.url) {
+              imageUrl = cleanRedditUrl(post.preview.images[0].source.url);
+          } else {
+              imageUrl = thumbnailUrl || '';
+          }
+      }
+      
+      thumbnailUrl = thumbnailUrl || imageUrl;
+  }
+  // 2. Handle Reddit Galleries
+  else if (post.is_gallery && post.gallery_data?.items && post.gallery_data.items.length > 0 && post.media_metadata) {
+      isImage = true;
+      gallery = buildGalleryItems(post);
+
+      // The post itself shows the first item; the rest play as sub-slides
+      if (gallery.length > 0) {
+          imageUrl = gallery[0].url;
+      }
+      
+      thumbnailUrl = thumbnailUrl || imageUrl;
+  }
+  // 3. Handle Rich Videos (Gfycat, Redgifs, Imgur GIFV, Streamable etc.)
+  else if (post.post_hint === 'rich:video' || (post.url && post.url.includes('.gifv'))) {
+       isVideo = true;
+       if (post.preview?.reddit_video_preview?.fallback_url) {
+           videoUrl = cleanRedditUrl(post.preview.reddit_video_preview.fallback_url.replace('?source=fallback', ''));
+       } else if (post.url.includes('.gifv')) {
+           videoUrl = cleanRedditUrl(post.url.replace('.gifv', '.mp4'));
+       } else if (post.preview?.images?.[0]?.variants?.mp4?.source?.url) {
+           videoUrl = cleanRedditUrl(post.preview.images[0].variants.mp4.source.url);
+       }
+       imageUrl = cleanRedditUrl(post.media?.oembed?.thumbnail_url || thumbnailUrl || '');
+       thumbnailUrl = thumbnailUrl || imageUrl;
+  }
+  // 4. Handle Direct Image Links (including i.redd.it, imgur direct)
+  else if (post.post_hint === 'image' || (post.url && /\.(jpg|jpeg|png|gif|webp)$/i.test(post.url))) {
+      isImage = true;
+      
+      // Check for NSFW content first - prefer NSFW variants when available
+      if (post.over_18) {
+        
+        // 1. Check for NSFW variant in preview (highest priority for NSFW content)
+        if (post.preview?.images?.[0]?.variants?.nsfw?.source?.url) {
+          imageUrl = cleanRedditUrl(post.preview.images[0].variants.nsfw.source.url);
+        } 
+        // 2. Check for direct NSFW URL
+        else if (post.url && (
+          post.url.includes('i.redd.it') ||
+          post.url.includes('i.imgur.com') ||
+          /\.(jpg|jpeg|png|gif|webp)$/i.test(post.url)
+        )) {
+          imageUrl = cleanRedditUrl(post.url);
+        }
+        // 3. Fall back to regular source
+        else if (post.preview?.images?.[0]?.source?.url) {
+          imageUrl = cleanRedditUrl(post.preview.images[0].source.url);
+        }
+        // 4. Last resort, use any URL provided
+        else {
+          imageUrl = cleanRedditUrl(post.url || '');
+        }
+      }
+      // For SFW content, use normal logic
+      else {
+        if (post.url && (
+          post.url.includes('i.redd.it') ||
+          post.url.includes('i.imgur.com') ||
+          /\.(jpg|jpeg|png|gif|webp)$/i.test(post.url)
+        )) {
+          imageUrl = cleanRedditUrl(post.url);
+        } else if (post.preview?.images?.[0]?.source?.url) {
+          imageUrl = cleanRedditUrl(post.preview.images[0].source.url);
+        } else {
+          imageUrl = cleanRedditUrl(post.url || '');
+        }
+      }
+      
+      thumbnailUrl = thumbnailUrl || imageUrl;
+  }
+  // 5. Handle Linked Videos (MP4/WebM direct links, less common)
+  else if (post.post_hint === 'link' && post.url && /\.(mp4|webm)$/i.test(post.url)) {
+      isVideo = true;
+      videoUrl = cleanRedditUrl(post.url);
+      imageUrl = thumbnailUrl;
+  }
+  // 6. Handle Crossposts if no media found yet
+  else if (!isVideo && !isImage && post.crosspost_parent_list && post.crosspost_parent_list.length > 0) {
+      const parent = post.crosspost_parent_list[0];
+      if (parent.is_video && parent.media?.reddit_video?.fallback_url) {
+          isVideo = true;
+          videoUrl = cleanRedditUrl(parent.media.reddit_video.fallback_url.replace('?source=fallback', ''));
+          hlsUrl = streamUrl(parent.media.reddit_video);
+          hasAudio = parent.media.reddit_video.has_audio;
+          imageUrl = cleanRedditUrl(parent.preview?.images?.[0]?.source?.url || usableThumbnail(parent.thumbnail) || '');
+      } else if (parent.is_gallery && parent.gallery_data?.items?.length && parent.media_metadata) {
+          gallery = buildGalleryItems(parent);
+          if (gallery.length > 0) {
+              isImage = true;
+              imageUrl = gallery[0].url;
+          }
+      } else if (parent.post_hint === 'image' || /\.(jpg|jpeg|png|gif|webp)$/i.test(parent.url)) {
+          isImage = true;
+          imageUrl = cleanRedditUrl(parent.preview?.images?.[0]?.source?.url || parent.url || '');
+      }
+      thumbnailUrl = thumbnailUrl || imageUrl || usableThumbnail(parent.thumbnail);
+  }
+
+  // 7. Final Fallback - Use thumbnail as image if nothing else worked
+  if (!isImage && !isVideo && thumbnailUrl) {
+     isImage = true;
+     imageUrl = thumbnailUrl;
+  }
+
+  imageUrl = imageUrl || undefined;
+  videoUrl = videoUrl || undefined;
+  thumbnailUrl = thumbnailUrl || imageUrl;
+
+  if (!isImage && !isVideo) {
+      return null;
+  }
+
+  // --- End Refactored Media Logic ---
+
+  // Final check: Ensure we have a usable URL for display
+  if (!imageUrl) {
+      return null;
+  }
+
+  return {
+    id: post.id,
+    title: post.title,
+    url: imageUrl, // Now guaranteed to be string here
+    permalink: `https://reddit.com${post.permalink}`,
+    author: post.author,
+    subreddit: post.subreddit,
+    created: post.created_utc,
+    isImage,
+    isVideo,
+    videoUrl, // Specific URL for video playback
+    hlsUrl, // Adaptive stream with sound, when Reddit hosts the video
+    hasAudio,
+    thumbnailUrl, // Thumbnail specific URL
+    gallery, // Every gallery item, empty for single-media posts
+    isNSFW: isNSFWPost(post),
+    score: post.score,
+    flair: post.link_flair_text ? decodeHTMLEntities(post.link_flair_text).trim() || undefined : undefined,
+    ...mediaSize(post, gallery[0] ?? linkMedia?.[0]),
+  };
+}
+
+/**
+ * Links in a listing that only a network resolver can turn into media, e.g. imgur albums
+ * and redgifs pages. Look them up with `resolveMediaLinks` and pass the result to
+ * `normalizeListingPage`.
+ *
+ * @param listing Listing JSON as returned by Reddit
+ * @returns Link URL per post ID
+ */
+export function collectMediaLinks(listing: RedditListingResponse): Map<string, string> {
+  const links = new Map<string, string>();
+
+  for (const child of listing.data?.children ?? []) {
+    const post = child.data as RedditApiPost | undefined;
+    if (!post?.id || post.removed_by_category || post.removed) continue;
+
+    const link = [post.url, post.crosspost_parent_list?.[0]?.url].find(candidate => findMediaResolver(candidate)?.resolver.fetchMedia);
+    if (link) links.set(post.id, link);
+  }
+  return links;
+}
+
+/**
+ * Normalizes one page of a subreddit listing: media posts only, deduplicated, in
+ * Reddit's order. Ordering for playback is left to the player.
+ *
+ * @param listing Listing JSON as returned by Reddit (`/r/<name>/<sort>.json`)
+ * @param resolvedMedia Media network resolvers found for link posts, by post ID
+ * @returns The posts, the IDs of posts Reddit reported as removed, and the next-page cursor
+ */
+export function normalizeListingPage(
+  listing: RedditListingResponse,
+  resolvedMedia?: Map<string, MediaItem[]>
+): NormalizedListingPage {
+  const removedIds = new Set<string>();
+  const posts = new Map<string, RedditPost>();
+
+  for (const child of listing.data?.children ?? []) {
+    const post = processListingChild(child, removedIds, resolvedMedia);
+    if (post && !posts.has(post.id)) {
+      posts.set(post.id, post);
+    }
+  }
+
+  return {
+    posts: Array.from(posts.values()),
+    removedIds: Array.from(removedIds),
+    after: listing.data?.after ?? null,
+  };
+}
+
+/**
+ * The media posts of a Reddit listing, in Reddit's order.
+ *
+ * @param json Listing JSON as returned by Reddit
+ * @returns One `RedditPost` per post with usable media
+ */
+export function normalizeRedditListing(json: unknown): RedditPost[] {
+  return normalizeListingPage((json ?? {}) as RedditListingResponse).posts;
+}
+
+/**
+ * Host serving a post's media (its first item for galleries), e.g. 'i.redd.it' or
+ * 'v.redd.it'. Groups media failures by where the files live.
+ *
+ * @param post A normalized post
+ * @returns The lower-cased host without 'www.', or null when the URL can't be parsed
+ */
+export function mediaDomain(post: Pick<RedditPost, 'url' | 'videoUrl' | 'gallery'>): string | null {
+  const lead = post.gallery[0] ?? post;
+  try {
+    return new URL(lead.videoUrl || lead.url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,132 @@
+// Reddit token custody shared by the reddit-auth and reddit-proxy functions.
+//
+// Tokens live in `reddit_auth_tokens` and never leave the server except as short-lived
+// access tokens. Whoever needs one asks `getRedditTokens`, which refreshes it with the
+// stored refresh token when it is about to expire.
+
+import { createClient } from "npm:@supabase/supabase-js@2.39.8";
+import queryString from "npm:query-string@9.0.0";
+import base64 from "npm:base-64@1.0.0";
+
+type SupabaseAdmin = ReturnType<typeof createClient>;
+
+export interface RedditTokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in: number;
+  scope: string;
+  token_type: string;
+}
+
+export interface StoredRedditTokens {
+  access_token: string | null;
+  refresh_token: string;
+  expires_at: string | null;
+  scope: string | null;
+  username: string | null;
+}
+
+export type RedditTokenResult =
+  | { ok: true; tokens: StoredRedditTokens }
+  | { ok: false; code: "not_connected" | "read_failed" | "rate_limited" | "reddit_server_error" | "unknown_error"; status?: number };
+
+export const REDDIT_CLIENT_ID = Deno.env.get("REDDIT_CLIENT_ID");
+export const REDDIT_CLIENT_SECRET = Deno.env.get("REDDIT_CLIENT_SECRET");
+
+export const REDDIT_TOKEN_URL = "https://www.reddit.com/api/v1/access_token";
+
+// Reddit API requires a proper User-Agent following format:
+// <platform>:<app ID>:<version string> (by /u/<reddit username>)
+export const REDDIT_USER_AGENT = "web:com.joip.slideshow:v1.0.0 (by /u/joip_dev)";
+
+// Access tokens this close to expiring are refreshed before being handed out
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+/**
+ * Basic auth header for calls made as the Reddit app itself (token exchange and revocation).
+ */
+export function redditClientAuthorization(): string {
+  return "Basic " + base64.encode(`${REDDIT_CLIENT_ID}:${REDDIT_CLIENT_SECRET}`);
+}
+
+export function redditTokenRequest(params: Record<string, string>): Promise<Response> {
+  return fetch(REDDIT_TOKEN_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      "Authorization": redditClientAuthorization(),
+      "User-Agent": REDDIT_USER_AGENT
+    },
+    body: queryString.stringify(params),
+  });
+}
+
+/**
+ * The user's stored Reddit tokens with an access token that is valid for at least another
+ * minute. A grant Reddit no longer honours is deleted and reported as `not_connected`.
+ */
+export async function getRedditTokens(supabaseAdmin: SupabaseAdmin, userId: string): Promise<RedditTokenResult> {
+  const { data: stored, error: readError } = await supabaseAdmin
+    .from("reddit_auth_tokens")
+    .select("access_token, refresh_token, expires_at, scope, username")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (readError) {
+    console.error("Error reading Reddit tokens:", readError);
+    return { ok: false, code: "read_failed" };
+  }
+  if (!stored?.refresh_token) {
+    return { ok: false, code: "not_connected" };
+  }
+
+  const tokens = stored as StoredRedditTokens;
+  const expiresAt = tokens.expires_at ? new Date(tokens.expires_at).getTime() : 0;
+  if (tokens.access_token && expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+    return { ok: true, tokens };
+  }
+
+  const tokenResponse = await redditTokenRequest({
+    refresh_token: tokens.refresh_token,
+    grant_type: "refresh_token",
+  });
+
+  if (!tokenResponse.ok) {
+    const errorText = await tokenResponse.text();
+    console.error("Reddit token refresh failed:", tokenResponse.status, errorText);
+
+    // Reddit no longer honours the grant (revoked or expired): forget it
+    if (tokenResponse.status === 400 || tokenResponse.status === 401) {
+      await supabaseAdmin.from("reddit_auth_tokens").delete().eq("user_id", userId);
+      return { ok: false, code: "not_connected" };
+    }
+
+    return {
+      ok: false,
+      code: tokenResponse.status === 429 ? "rate_limited"
+        : tokenResponse.status >= 500 ? "reddit_server_error"
+        : "unknown_error",
+      status: tokenResponse.status,
+    };
+  }
+
+  const refreshed = await tokenResponse.json() as RedditTokenResponse;
+  const updated: StoredRedditTokens = {
+    access_token: refreshed.access_token,
+    refresh_token: refreshed.refresh_token || tokens.refresh_token, // Reddit doesn't always rotate it
+    expires_at: new Date(Date.now() + refreshed.expires_in * 1000).toISOString(),
+    scope: refreshed.scope || tokens.scope,
+    username: tokens.username,
+  };
+
+  const { error: updateError } = await supabaseAdmin
+    .from("reddit_auth_tokens")
+    .update({ ...updated, updated_at: new Date().toISOString() })
+    .eq("user_id", userId);
+
+  if (updateError) {
+    console.error("Error saving refreshed Reddit tokens:", updateError);
+  }
+
+  return { ok: true, tokens: updated };
+}
@@ -7,10 +7,215 @@ const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
   'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Expose-Headers': 'X-Vision-Fallback, Retry-After',
 };
 
 // URL for OpenRouter API
 const OPENROUTER_API_URL = 'https://openrouter.ai/api/v1/chat/completions';
+const OPENROUTER_MODELS_URL = 'https://openrouter.ai/api/v1/models';
+
+// How long the list of image-capable models is trusted before it is fetched again
+const MODEL_LIST_TTL_MS = 60 * 60 * 1000;
+
+// Used when app_settings has no openrouter_max_tokens
+const DEFAULT_MAX_TOKENS = 300;
+
+// Quota tier for users without a patron tier, or with one that has no row in ai_quota_tiers
+const FREE_TIER = 'free';
+
+interface OpenRouterModel {
+  id: string;
+  architecture?: {
+    modality?: string; // e.g. "text+image->text"
+    input_modalities?: string[];
+  };
+}
+
+type MessageContent = string | Array<{ type: string; text?: string; image_url?: { url: string } }>;
+
+interface ChatMessage {
+  role: string;
+  content: MessageContent;
+}
+
+interface TokenUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+interface QuotaTier {
+  tier: string;
+  daily_requests: number;
+  daily_tokens: number;
+}
+
+type SupabaseAdmin = ReturnType<typeof createClient>;
+
+// Cached per function instance
+let visionModels: { ids: Set<string>; fetchedAt: number } | null = null;
+
+// Whether OpenRouter lists the model as accepting image input
+async function supportsVision(model: string): Promise<boolean> {
+  if (!visionModels || Date.now() - visionModels.fetchedAt > MODEL_LIST_TTL_MS) {
+    try {
+      const response = await fetch(OPENROUTER_MODELS_URL);
+      if (!response.ok) {
+        throw new Error(`Model list request failed: ${response.status}`);
+      }
+      const { data } = await response.json() as { data: OpenRouterModel[] };
+      const ids = data
+        .filter(entry =>
+          entry.architecture?.input_modalities?.includes('image') ||
+          entry.architecture?.modality?.split('->')[0].includes('image')
+        )
+        .map(entry => entry.id);
+      visionModels = { ids: new Set(ids), fetchedAt: Date.now() };
+    } catch (error) {
+      console.error('Error fetching OpenRouter model list:', error);
+      // Without the list we can't tell, so stay on the safe text-only path
+      return visionModels?.ids.has(model) ?? false;
+    }
+  }
+  return visionModels.ids.has(model);
+}
+
+// Drop image parts so a text-only model can still answer
+function toTextOnly(messages: ChatMessage[]): ChatMessage[] {
+  return messages.map(message => {
+    if (typeof message.content === 'string') return message;
+    const text = message.content
+      .filter(part => part.type === 'text' && part.text)
+      .map(part => part.text)
+      .join('\n');
+    return { ...message, content: text };
+  });
+}
+
+// Error body shared by every failure: `code` is stable for the client to branch on,
+// `message` is safe to show to the user
+function errorResponse(
+  status: number,
+  code: string,
+  message: string,
+  extra: Record<string, unknown> = {},
+  headers: Record<string, string> = {}
+): Response {
+  return new Response(
+    JSON.stringify({ error: { code, message, ...extra } }),
+    {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json', ...headers },
+    }
+  );
+}
+
+// Quotas reset at midnight UTC
+function nextQuotaReset(): Date {
+  const reset = new Date();
+  reset.setUTCHours(24, 0, 0, 0);
+  return reset;
+}
+
+// The caller's daily allowance, from their patron tier
+async function getQuotaTier(supabaseAdmin: SupabaseAdmin, userId: string): Promise<QuotaTier | null> {
+  const { data: profile } = await supabaseAdmin
+    .from('profiles')
+    .select('patron_tier')
+    .eq('id', userId)
+    .maybeSingle();
+
+  const tierName = (profile?.patron_tier as string | null) || FREE_TIER;
+  const { data: tiers, error } = await supabaseAdmin
+    .from('ai_quota_tiers')
+    .select('tier, daily_requests, daily_tokens')
+    .in('tier', [tierName, FREE_TIER]);
+
+  if (error) {
+    console.error('Error fetching quota tiers:', error);
+    return null;
+  }
+
+  const rows = (tiers ?? []) as QuotaTier[];
+  return rows.find(row => row.tier === tierName) ?? rows.find(row => row.tier === FREE_TIER) ?? null;
+}
+
+// Replaces a request's reserved tokens with what OpenRouter reported. Without a report
+// (e.g. the stream was cut off first) the reservation stands
+async function recordUsage(
+  supabaseAdmin: SupabaseAdmin,
+  usageId: string,
+  model: string,
+  usage: TokenUsage | undefined
+): Promise<void> {
+  if (!usage) return;
+
+  const promptTokens = usage.prompt_tokens ?? 0;
+  const completionTokens = usage.completion_tokens ?? 0;
+  const { error } = await supabaseAdmin
+    .from('ai_usage')
+    .update({
+      model,
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: usage.total_tokens ?? promptTokens + completionTokens,
+    })
+    .eq('id', usageId);
+
+  if (error) {
+    console.error('Error recording usage:', error);
+  }
+}
+
+// A request OpenRouter turned down costs the user nothing
+async function releaseUsage(supabaseAdmin: SupabaseAdmin, usageId: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('ai_usage')
+    .delete()
+    .eq('id', usageId);
+
+  if (error) {
+    console.error('Error releasing usage:', error);
+  }
+}
+
+// Passes an SSE stream through unchanged, picking up the usage OpenRouter sends in its
+// final chunk and recording it when the stream ends or the client goes away
+function trackStreamUsage(
+  body: ReadableStream<Uint8Array>,
+  onDone: (usage: TokenUsage | undefined, model: string | undefined) => Promise<void>
+): ReadableStream<Uint8Array> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let usage: TokenUsage | undefined;
+  let model: string | undefined;
+
+  return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      controller.enqueue(chunk);
+
+      buffer += decoder.decode(chunk, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (!line.startsWith('data:')) continue;
+        try {
+          const data = JSON.parse(line.slice(5).trim());
+          model = data.model || model;
+          if (data.usage) usage = data.usage;
+        } catch {
+          // [DONE] and partial payloads carry no usage
+        }
+      }
+    },
+    async flush() {
+      await onDone(usage, model);
+    },
+    async cancel() {
+      await onDone(usage, model);
+    },
+  }));
+}
 
 Deno.serve(async (req) => {
   // Handle CORS preflight request
@@ -23,71 +228,151 @@ Deno.serve(async (req) => {
 
   // Only accept POST requests
   if (req.method !== 'POST') {
-    return new Response(
-      JSON.stringify({ error: 'Method not allowed' }),
-      {
-        status: 405,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
-    );
+    return errorResponse(405, 'method_not_allowed', 'Method not allowed');
   }
 
   // Verify authorization
   const authHeader = req.headers.get('Authorization');
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return new Response(
-      JSON.stringify({ error: 'Missing or invalid authorization header' }),
-      {
-        status: 401,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
-    );
+    return errorResponse(401, 'unauthorized', 'Missing or invalid authorization header');
   }
 
   try {
-    // Parse the incoming request body
-    const requestData = await req.json();
-
     // Create a Supabase client with service role key
     const supabaseAdmin = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
+    // Only signed-in users may spend tokens; the anon key is not a user session
+    const token = authHeader.slice('Bearer '.length);
+    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(token);
+    if (userError || !user) {
+      return errorResponse(401, 'unauthorized', 'Sign in to generate captions');
+    }
+
+    // Parse the incoming request body
+    const requestData = await req.json();
+    if (!Array.isArray(requestData.messages) || requestData.messages.length === 0) {
+      return errorResponse(400, 'invalid_request', 'messages must be a non-empty array');
+    }
+
     // Fetch the OpenRouter API key from app_settings table
     const { data: settings, error: settingsError } = await supabaseAdmin
       .from('app_settings')
-      .select('openrouter_api_key, openrouter_model')
+      .select('openrouter_api_key, openrouter_model, openrouter_vision_model, openrouter_allowed_models, openrouter_max_tokens')
       .single();
 
     if (settingsError) {
       console.error('Error fetching OpenRouter API key:', settingsError);
-      return new Response(
-        JSON.stringify({ error: 'Failed to retrieve API configuration' }),
-        {
-          status: 500,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
+      return errorResponse(500, 'configuration_error', 'Failed to retrieve API configuration');
     }
 
     // Get API key from settings
     const apiKey = settings.openrouter_api_key;
     if (!apiKey) {
-      return new Response(
-        JSON.stringify({ error: 'OpenRouter API key not configured' }),
+      return errorResponse(500, 'configuration_error', 'OpenRouter API key not configured');
+    }
+
+    // Callers may only pick from the configured models; without a choice the default is used
+    const allowedModels = new Set<string>(
+      [settings.openrouter_model, settings.openrouter_vision_model, ...(settings.openrouter_allowed_models ?? [])]
+        .filter(Boolean)
+    );
+    if (requestData.model && !allowedModels.has(requestData.model)) {
+      return errorResponse(400, 'model_not_allowed', `Model ${requestData.model} is not available`, {
+        allowed_models: [...allowedModels],
+      });
+    }
+    let model: string | undefined = requestData.model || settings.openrouter_model;
+    if (!model) {
+      return errorResponse(500, 'configuration_error', 'No OpenRouter model configured');
+    }
+
+    const maxTokensLimit: number = settings.openrouter_max_tokens ?? DEFAULT_MAX_TOKENS;
+    const maxTokens = requestData.max_tokens ?? maxTokensLimit;
+    if (!Number.isInteger(maxTokens) || maxTokens < 1 || maxTokens > maxTokensLimit) {
+      return errorResponse(400, 'max_tokens_not_allowed', `max_tokens must be between 1 and ${maxTokensLimit}`, {
+        max_tokens_limit: maxTokensLimit,
+      });
+    }
+
+    // Daily quota, by patron tier
+    const tier = await getQuotaTier(supabaseAdmin, user.id);
+    if (!tier) {
+      return errorResponse(500, 'configuration_error', 'Caption quotas are not configured');
+    }
+
+    // Vision requests go to the vision model when it accepts images; otherwise the
+    // images are dropped and the caption is written from the text alone
+    const wantsVision = requestData.vision === true;
+    let messages: ChatMessage[] = requestData.messages;
+    let visionFallback = false;
+    if (wantsVision) {
+      const visionModel = settings.openrouter_vision_model || settings.openrouter_model || model;
+      if (visionModel && await supportsVision(visionModel)) {
+        model = visionModel;
+      } else {
+        console.warn(`Model ${visionModel} does not accept images, falling back to text-only`);
+        messages = toTextOnly(messages);
+        visionFallback = true;
+      }
+    }
+
+    // The request is recorded before it goes upstream, so aborting it or sending
+    // several at once still counts against the quota
+    const stream = requestData.stream === true;
+    const { data: reservation, error: reserveError } = await supabaseAdmin
+      .rpc('reserve_ai_usage', {
+        p_user_id: user.id,
+        p_model: model,
+        p_streamed: stream,
+        p_reserved_tokens: maxTokens,
+        p_daily_requests: tier.daily_requests,
+        p_daily_tokens: tier.daily_tokens,
+      });
+    if (reserveError) {
+      console.error('Error reserving usage:', reserveError);
+      return errorResponse(500, 'usage_unavailable', 'Failed to check caption quota');
+    }
+    const { usage_id: usageId, exceeded, used } = (reservation?.[0] ?? {}) as {
+      usage_id: string | null;
+      exceeded: 'requests' | 'tokens' | null;
+      used: number | null;
+    };
+    if (exceeded) {
+      const resetsAt = nextQuotaReset();
+      const retryAfter = Math.ceil((resetsAt.getTime() - Date.now()) / 1000);
+      return errorResponse(
+        429,
+        'quota_exceeded',
+        `Daily caption ${exceeded === 'requests' ? 'request' : 'token'} limit reached`,
         {
-          status: 500,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
+          quota: {
+            tier: tier.tier,
+            kind: exceeded,
+            limit: exceeded === 'requests' ? tier.daily_requests : tier.daily_tokens,
+            used: Number(used ?? 0),
+            resets_at: resetsAt.toISOString(),
+          },
+        },
+        { 'Retry-After': String(retryAfter) }
       );
     }
-
-    // Use default model from settings if not specified in request
-    if (!requestData.model && settings.openrouter_model) {
-      requestData.model = settings.openrouter_model;
+    if (!usageId) {
+      return errorResponse(500, 'usage_unavailable', 'Failed to check caption quota');
     }
 
+    // Only the fields we vouch for are forwarded
+    const upstreamBody = {
+      model,
+      messages,
+      max_tokens: maxTokens,
+      stream,
+      // Streams only report token counts when asked to
+      ...(stream ? { usage: { include: true } } : {}),
+    };
+
     // Forward the request to OpenRouter
     const openRouterResponse = await fetch(OPENROUTER_API_URL, {
       method: 'POST',
@@ -97,14 +382,50 @@ Deno.serve(async (req) => {
         'HTTP-Referer': req.headers.get('origin') || 'https://joip.app',
         'X-Title': 'Joip AI App'
       },
-      body: JSON.stringify(requestData),
+      body: JSON.stringify(upstreamBody),
+      // Closing the client connection (e.g. the slide changed) cancels the upstream request
+      signal: req.signal,
     });
 
+    // OpenRouter itself is rate limiting the shared key
+    if (openRouterResponse.status === 429) {
+      await releaseUsage(supabaseAdmin, usageId);
+      const retryAfter = openRouterResponse.headers.get('Retry-After');
+      return errorResponse(
+        429,
+        'upstream_rate_limited',
+        'The caption service is busy, try again shortly',
+        {},
+        retryAfter ? { 'Retry-After': retryAfter } : {}
+      );
+    }
+
+    // Streaming: pass OpenRouter's SSE stream straight through
+    if (stream && openRouterResponse.ok && openRouterResponse.body) {
+      const body = trackStreamUsage(openRouterResponse.body, (usage, streamedModel) =>
+        recordUsage(supabaseAdmin, usageId, streamedModel || model, usage)
+      );
+      return new Response(body, {
+        status: openRouterResponse.status,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          'X-Vision-Fallback': String(visionFallback),
+        },
+      });
+    }
+
     // Return the OpenRouter response
     const openRouterData = await openRouterResponse.json();
+    if (openRouterResponse.ok) {
+      await recordUsage(supabaseAdmin, usageId, openRouterData.model || model, openRouterData.usage);
+    } else {
+      await releaseUsage(supabaseAdmin, usageId);
+    }
     
     return new Response(
-      JSON.stringify(openRouterData),
+      JSON.stringify(wantsVision ? { ...openRouterData, vision_fallback: visionFallback } : openRouterData),
       {
         status: openRouterResponse.status,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -112,12 +433,6 @@ Deno.serve(async (req) => {
     );
   } catch (error) {
     console.error('Error in OpenRouter proxy:', error);
-    return new Response(
-      JSON.stringify({ error: error.message || 'An error occurred' }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
-    );
+    return errorResponse(500, 'internal_error', error.message || 'An error occurred');
   }
-}); 
\ No newline at end of file
+});
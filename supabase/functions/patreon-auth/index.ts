@@ -3,6 +3,7 @@
 import { createClient } from "npm:@supabase/supabase-js@2.39.8";
 import { patreon as patreonAPI } from "npm:patreon@0.4.1";
 import queryString from "npm:query-string@9.0.0";
+import { getRequestUser, issueOAuthState, readOAuthState, verifyOAuthState } from "../_shared/oauth-state.ts";
 
 interface PatreonTokenResponse {
   access_token: string;
@@ -86,12 +87,30 @@ const REDIRECT_URI = `${SUPABASE_URL}/functions/v1/patreon-auth/callback`;
 // Define the frontend app URL for redirects
 const FRONTEND_URL = Deno.env.get("FRONTEND_URL") || "http://localhost:5173"; // Fallback to common local dev port
 
+// Patreon doesn't document PKCE support; the signed state covers CSRF
+const PATREON_SUPPORTS_PKCE = false;
+
+// Frontend URL for a return path with one extra query parameter
+function frontendUrl(returnPath: string, param: string): string {
+  return `${FRONTEND_URL}${returnPath}${returnPath.includes("?") ? "&" : "?"}${param}`;
+}
+
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
   "Access-Control-Allow-Headers": "Content-Type, Authorization",
 };
 
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+    },
+  });
+}
+
 Deno.serve(async (req) => {
   // Handle CORS preflight request
   if (req.method === "OPTIONS") {
@@ -128,11 +147,12 @@ Deno.serve(async (req) => {
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
     );
 
-    // Handle OAuth callback
+    // Patreon's redirect after the consent screen. It can't tell whose browser it landed in,
+    // so the code goes back to the app, which finishes the flow as the signed-in user
     if (path === "callback") {
       const params = queryString.parse(url.search);
       const code = params.code as string;
-      const state = params.state as string;
+      const state = params.state as string | undefined;
       
       if (!code) {
         return new Response(
@@ -147,6 +167,48 @@ Deno.serve(async (req) => {
         );
       }
 
+      const pending = await readOAuthState("patreon", state);
+      if (!pending) {
+        return new Response(null, {
+          status: 302,
+          headers: {
+            ...corsHeaders,
+            "Location": `${FRONTEND_URL}/?patreonError=invalid_state`,
+          },
+        });
+      }
+
+      return new Response(null, {
+        status: 302,
+        headers: {
+          ...corsHeaders,
+          "Location": frontendUrl(
+            pending.returnPath,
+            `patreon_code=${encodeURIComponent(code)}&patreon_state=${encodeURIComponent(state ?? "")}`
+          ),
+        },
+      });
+    }
+
+    // Finish the OAuth flow: redeem the state for the signed-in user who started it and link their Patreon account
+    else if (path === "complete") {
+      const user = await getRequestUser(req, supabaseClient);
+      if (!user) {
+        return jsonResponse(401, { code: 401, message: "Missing or invalid authorization header" });
+      }
+
+      const { code, state } = await req.json().catch(() => ({}));
+      if (typeof code !== "string" || !code) {
+        return jsonResponse(400, { error: "No code provided", error_code: "missing_code" });
+      }
+
+      // The state says which Supabase user started the flow; only that user can finish it,
+      // or a consent URL sent to someone else would link their Patreon account to the sender
+      const verified = await verifyOAuthState(supabaseClient, "patreon", state, user.id);
+      if (!verified) {
+        return jsonResponse(400, { error: "Patreon connection expired or was started by another account", error_code: "invalid_state" });
+      }
+
       // Exchange authorization code for tokens
       const tokenResponse = await fetch("https://www.patreon.com/api/oauth2/token", {
         method: "POST",
@@ -159,6 +221,7 @@ Deno.serve(async (req) => {
           client_id: PATREON_CLIENT_ID,
           client_secret: PATREON_CLIENT_SECRET,
           redirect_uri: REDIRECT_URI,
+          ...(verified.codeVerifier ? { code_verifier: verified.codeVerifier } : {}),
         }),
       });
 
@@ -166,27 +229,9 @@ Deno.serve(async (req) => {
         const errorText = await tokenResponse.text();
         try {
           const error = JSON.parse(errorText);
-          return new Response(
-            JSON.stringify({ error: "Failed to exchange code for tokens", details: error }),
-            {
-              status: 400,
-              headers: {
-                ...corsHeaders,
-                "Content-Type": "application/json",
-              },
-            }
-          );
+          return jsonResponse(400, { error: "Failed to exchange code for tokens", error_code: "token_exchange_failed", details: error });
         } catch (error) {
-          return new Response(
-            JSON.stringify({ error: "Failed to exchange code for tokens", rawResponse: errorText }),
-            {
-              status: 400,
-              headers: {
-                ...corsHeaders,
-                "Content-Type": "application/json",
-              },
-            }
-          );
+          return jsonResponse(400, { error: "Failed to exchange code for tokens", error_code: "token_exchange_failed", rawResponse: errorText });
         }
       }
 
@@ -212,27 +257,6 @@ Deno.serve(async (req) => {
           }
         }
 
-        // We need to retrieve the user from the Supabase database using the email
-        // since the state parameter might not be reliable
-        const { data: userProfiles, error: userLookupError } = await supabaseClient
-          .from('profiles')
-          .select('id')
-          .eq('email', userData.attributes.email)
-          .limit(1);
-
-        if (userLookupError || !userProfiles || userProfiles.length === 0) {
-          // Redirect to frontend with error
-          return new Response(null, {
-            status: 302,
-            headers: {
-              ...corsHeaders,
-              "Location": `${FRONTEND_URL}/?patreonError=user_not_found`,
-            },
-          });
-        }
-
-        const userId = userProfiles[0].id;
-
         // Update the user's profile with Patreon information
         const { error: updateError } = await supabaseClient
           .from('profiles')
@@ -246,42 +270,23 @@ Deno.serve(async (req) => {
             patreon_image_url: userData.attributes.image_url,
             patron_since: memberData?.attributes.patron_status === 'active_patron' ? new Date().toISOString() : null,
           })
-          .eq('id', userId);
+          .eq('id', verified.userId);
 
         if (updateError) {
-          return new Response(null, {
-            status: 302,
-            headers: {
-              ...corsHeaders,
-              "Location": `${FRONTEND_URL}/?patreonError=update_failed`,
-            },
-          });
+          return jsonResponse(500, { error: "Failed to update profile", error_code: "update_failed" });
         }
 
-        // Redirect back to the frontend with a success message
-        return new Response(null, {
-          status: 302,
-          headers: {
-            ...corsHeaders,
-            "Location": `${FRONTEND_URL}/?patreonConnected=true`,
-          },
-        });
+        return jsonResponse(200, { connected: true });
       } catch (apiError) {
-        return new Response(null, {
-          status: 302,
-          headers: {
-            ...corsHeaders,
-            "Location": `${FRONTEND_URL}/?patreonError=api_error`,
-          },
-        });
+        return jsonResponse(502, { error: "Failed to read Patreon account", error_code: "api_error" });
       }
     }
     
     // Endpoint to initiate OAuth flow
     else if (path === "connect") {
-      // Verify authorization
-      const authHeader = req.headers.get("Authorization");
-      if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      // Verify authorization: the state is tied to the signed-in user, not to anything in the body
+      const user = await getRequestUser(req, supabaseClient);
+      if (!user) {
         return new Response(
           JSON.stringify({ 
             code: 401, 
@@ -297,26 +302,28 @@ Deno.serve(async (req) => {
         );
       }
       
-      const { userId } = await req.json();
-      
-      if (!userId) {
-        return new Response(
-          JSON.stringify({ error: "User ID is required" }),
-          {
-            status: 400,
-            headers: {
-              ...corsHeaders,
-              "Content-Type": "application/json",
-            },
-          }
-        );
-      }
+      const { returnPath } = await req.json().catch(() => ({}));
+      const { state, codeChallenge } = await issueOAuthState(supabaseClient, {
+        provider: "patreon",
+        userId: user.id,
+        returnPath: returnPath ?? "/",
+        pkce: PATREON_SUPPORTS_PKCE,
+      });
 
       // Generate the OAuth URL with the fixed redirect URI
-      const oauthUrl = `https://www.patreon.com/oauth2/authorize?response_type=code&client_id=${PATREON_CLIENT_ID}&redirect_uri=${encodeURIComponent(REDIRECT_URI)}&state=${userId}&scope=identity%20identity.memberships`;
+      const oauthUrl = new URL("https://www.patreon.com/oauth2/authorize");
+      oauthUrl.searchParams.append("response_type", "code");
+      oauthUrl.searchParams.append("client_id", PATREON_CLIENT_ID);
+      oauthUrl.searchParams.append("redirect_uri", REDIRECT_URI);
+      oauthUrl.searchParams.append("state", state);
+      oauthUrl.searchParams.append("scope", "identity identity.memberships");
+      if (codeChallenge) {
+        oauthUrl.searchParams.append("code_challenge", codeChallenge);
+        oauthUrl.searchParams.append("code_challenge_method", "S256");
+      }
 
       return new Response(
-        JSON.stringify({ url: oauthUrl }),
+        JSON.stringify({ url: oauthUrl.toString() }),
         {
           status: 200,
           headers: {
@@ -482,7 +489,7 @@ Deno.serve(async (req) => {
     // Default response for the root endpoint
     return new Response(
       JSON.stringify({ 
-        message: "Patreon OAuth API. Available endpoints: /connect, /callback, /webhook",
+        message: "Patreon OAuth API. Available endpoints: /connect, /callback, /complete, /webhook",
         version: "2.0",
         redirectUri: REDIRECT_URI,
         frontendUrl: FRONTEND_URL
@@ -2,19 +2,17 @@
 
 import { createClient } from "npm:@supabase/supabase-js@2.39.8";
 import queryString from "npm:query-string@9.0.0";
-import base64 from "npm:base-64@1.0.0";
-
-interface RedditTokenResponse {
-  access_token: string;
-  refresh_token: string;
-  expires_in: number;
-  scope: string;
-  token_type: string;
-}
-
-// Read secrets from environment variables
-const REDDIT_CLIENT_ID = Deno.env.get("REDDIT_CLIENT_ID");
-const REDDIT_CLIENT_SECRET = Deno.env.get("REDDIT_CLIENT_SECRET");
+import { getRequestUser, issueOAuthState, readOAuthState, verifyOAuthState } from "../_shared/oauth-state.ts";
+import {
+  REDDIT_CLIENT_ID,
+  REDDIT_CLIENT_SECRET,
+  REDDIT_USER_AGENT,
+  RedditTokenResponse,
+  StoredRedditTokens,
+  getRedditTokens,
+  redditClientAuthorization,
+  redditTokenRequest,
+} from "../_shared/reddit-token.ts";
 
 // Frontend app URL for redirects - use the deployed Netlify URL
 const FRONTEND_URL = Deno.env.get("FRONTEND_URL") || "http://localhost:5173"; // Fallback to common local dev port
@@ -31,9 +29,15 @@ if (!SUPABASE_URL) {
 // as a valid Redirect URI in your Reddit application settings.
 const REDIRECT_URI = `${SUPABASE_URL}/functions/v1/reddit-auth/callback`; // Ensure SUPABASE_URL is set
 
-// Reddit API requires a proper User-Agent following format:
-// <platform>:<app ID>:<version string> (by /u/<reddit username>)
-const REDDIT_USER_AGENT = 'web:com.joip.slideshow:v1.0.0 (by /u/joip_dev)';
+const REDDIT_AUTHORIZE_URL = "https://www.reddit.com/api/v1/authorize";
+const REDDIT_REVOKE_URL = "https://www.reddit.com/api/v1/revoke_token";
+const REDDIT_OAUTH_SCOPES = "read identity history";
+
+// Reddit doesn't document PKCE for confidential web apps; the signed state covers CSRF
+const REDDIT_SUPPORTS_PKCE = false;
+
+// Where the user lands after connecting when the app didn't say
+const DEFAULT_RETURN_PATH = "/settings";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -41,6 +45,65 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "Content-Type, Authorization",
 };
 
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+    },
+  });
+}
+
+function redirect(location: string): Response {
+  return new Response(null, {
+    status: 302,
+    headers: {
+      ...corsHeaders,
+      "Location": location,
+    },
+  });
+}
+
+// Frontend URL for a return path with one extra query parameter
+function frontendUrl(returnPath: string, param: string): string {
+  return `${FRONTEND_URL}${returnPath}${returnPath.includes("?") ? "&" : "?"}${param}`;
+}
+
+async function fetchRedditUsername(accessToken: string): Promise<string | null> {
+  try {
+    const response = await fetch("https://oauth.reddit.com/api/v1/me", {
+      headers: {
+        "Authorization": `Bearer ${accessToken}`,
+        "User-Agent": REDDIT_USER_AGENT
+      }
+    });
+    if (!response.ok) return null;
+    const data = await response.json();
+    return data.name || null;
+  } catch {
+    return null;
+  }
+}
+
+function errorCodeForStatus(status: number): string {
+  if (status === 401) return "unauthorized";
+  if (status === 403) return "forbidden";
+  if (status === 429) return "rate_limited";
+  if (status >= 500) return "server_error";
+  return "failed";
+}
+
+// What the browser is allowed to see: never the refresh token
+function toClientToken(tokens: StoredRedditTokens) {
+  return {
+    access_token: tokens.access_token,
+    expires_at: tokens.expires_at ? new Date(tokens.expires_at).getTime() : null,
+    scope: tokens.scope,
+    username: tokens.username,
+  };
+}
+
 Deno.serve(async (req) => {
   // Handle CORS preflight request
   if (req.method === "OPTIONS") {
@@ -58,297 +121,259 @@ Deno.serve(async (req) => {
     // Check for missing critical environment variables
     if (!REDDIT_CLIENT_ID || !REDDIT_CLIENT_SECRET || !SUPABASE_URL) {
       console.error("Missing critical environment variables: REDDIT_CLIENT_ID, REDDIT_CLIENT_SECRET, or SUPABASE_URL");
-      return new Response(
-        JSON.stringify({ error: "Server configuration error: Missing required environment variables." }),
-        {
-          status: 500,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        }
-      );
+      return jsonResponse(500, { error: "Server configuration error: Missing required environment variables." });
     }
 
-    // Create a Supabase client - we don't use this for these operations, but might use it later
-    // for direct database access
-    const _supabaseClient = createClient(
+    // Service role client: Reddit tokens are only ever read and written here
+    const supabaseAdmin = createClient(
       Deno.env.get("SUPABASE_URL") ?? "",
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
     );
-    
 
-    // Handle OAuth callback - THIS IS THE CRITICAL PATH
-    if (path === "callback") {
+    // Start the OAuth flow: issue a signed, single-use state for this user and hand back Reddit's consent URL
+    if (path === "authorize") {
+      if (req.method !== "POST") {
+        return jsonResponse(405, { error: "Method not allowed" });
+      }
+
+      const user = await getRequestUser(req, supabaseAdmin);
+      if (!user) {
+        return jsonResponse(401, { code: 401, message: "Missing or invalid authorization header" });
+      }
+
+      const { returnPath } = await req.json().catch(() => ({}));
+
+      let issued;
+      try {
+        issued = await issueOAuthState(supabaseAdmin, {
+          provider: "reddit",
+          userId: user.id,
+          returnPath: returnPath ?? DEFAULT_RETURN_PATH,
+          pkce: REDDIT_SUPPORTS_PKCE,
+        });
+      } catch (stateError) {
+        console.error("Error issuing OAuth state:", stateError);
+        return jsonResponse(500, { error: "Failed to start Reddit authentication" });
+      }
+
+      const authUrl = new URL(REDDIT_AUTHORIZE_URL);
+      authUrl.searchParams.append("client_id", REDDIT_CLIENT_ID);
+      authUrl.searchParams.append("response_type", "code");
+      authUrl.searchParams.append("state", issued.state);
+      authUrl.searchParams.append("redirect_uri", REDIRECT_URI);
+      authUrl.searchParams.append("duration", "permanent");
+      authUrl.searchParams.append("scope", REDDIT_OAUTH_SCOPES);
+      if (issued.codeChallenge) {
+        authUrl.searchParams.append("code_challenge", issued.codeChallenge);
+        authUrl.searchParams.append("code_challenge_method", "S256");
+      }
+
+      return jsonResponse(200, { url: authUrl.toString() });
+    }
+
+    // Reddit's redirect after the consent screen. It can't tell whose browser it landed in,
+    // so the code goes back to the app, which finishes the flow as the signed-in user
+    else if (path === "callback") {
       // For GET requests (from Reddit's OAuth redirect)
-      if (req.method === "GET") {
-        // Parse the query parameters
-        const params = queryString.parse(url.search);
-        
-        const code = params.code as string;
-        const state = params.state as string;
-        
-        if (!code) {
-          return new Response("No authorization code provided", {
-            status: 400,
-            headers: corsHeaders,
+      if (req.method !== "GET") {
+        return jsonResponse(405, { error: "Method not allowed" });
+      }
+
+      // Parse the query parameters
+      const params = queryString.parse(url.search);
+
+      const code = params.code as string | undefined;
+      const state = params.state as string | undefined;
+
+      // The user declined on Reddit's consent screen
+      if (params.error) {
+        return redirect(`${FRONTEND_URL}/?reddit_auth_error=${encodeURIComponent(String(params.error))}`);
+      }
+
+      if (!code || !state) {
+        return new Response("No authorization code provided", {
+          status: 400,
+          headers: corsHeaders,
+        });
+      }
+
+      const pending = await readOAuthState("reddit", state);
+      if (!pending) {
+        return redirect(`${FRONTEND_URL}/?reddit_auth_error=invalid_state`);
+      }
+
+      return redirect(frontendUrl(
+        pending.returnPath,
+        `reddit_code=${encodeURIComponent(code)}&reddit_state=${encodeURIComponent(state)}`
+      ));
+    }
+
+    // Finish the OAuth flow: redeem the state for the signed-in user who started it and store their tokens
+    else if (path === "complete") {
+      if (req.method !== "POST") {
+        return jsonResponse(405, { error: "Method not allowed" });
+      }
+
+      const user = await getRequestUser(req, supabaseAdmin);
+      if (!user) {
+        return jsonResponse(401, { code: 401, message: "Missing or invalid authorization header" });
+      }
+
+      const { code, state } = await req.json().catch(() => ({}));
+      if (typeof code !== "string" || !code) {
+        return jsonResponse(400, { error: "No authorization code provided", error_code: "missing_code" });
+      }
+
+      // Only the user who started the flow can finish it
+      const verified = await verifyOAuthState(supabaseAdmin, "reddit", state, user.id);
+      if (!verified) {
+        return jsonResponse(400, { error: "Reddit authentication expired or was started by another account", error_code: "invalid_state" });
+      }
+
+      try {
+        // Exchange code for tokens
+        const tokenResponse = await redditTokenRequest({
+          code,
+          grant_type: "authorization_code",
+          redirect_uri: REDIRECT_URI,
+          ...(verified.codeVerifier ? { code_verifier: verified.codeVerifier } : {}),
+        });
+
+        if (!tokenResponse.ok) {
+          console.error("Reddit code exchange failed:", tokenResponse.status, await tokenResponse.text());
+          return jsonResponse(502, {
+            error: "Reddit refused the authorization code",
+            error_code: errorCodeForStatus(tokenResponse.status),
+            status: tokenResponse.status,
           });
         }
 
+        const tokens = await tokenResponse.json() as RedditTokenResponse;
+        if (!tokens.access_token || !tokens.refresh_token) {
+          return jsonResponse(502, { error: "Reddit sent no usable tokens", error_code: "invalid_token_response" });
+        }
+
+        const username = tokens.scope?.includes("identity")
+          ? await fetchRedditUsername(tokens.access_token)
+          : null;
+
+        const stored: StoredRedditTokens = {
+          access_token: tokens.access_token,
+          refresh_token: tokens.refresh_token,
+          expires_at: new Date(Date.now() + tokens.expires_in * 1000).toISOString(),
+          scope: tokens.scope,
+          username,
+        };
+
+        const { error: saveError } = await supabaseAdmin
+          .from("reddit_auth_tokens")
+          .upsert({
+            user_id: user.id,
+            ...stored,
+            updated_at: new Date().toISOString(),
+          }, { onConflict: "user_id" });
+
+        if (saveError) {
+          console.error("Error saving Reddit tokens:", saveError);
+          return jsonResponse(500, { error: "Failed to save Reddit tokens", error_code: "save_failed" });
+        }
+
+        // The refresh token stays here
+        return jsonResponse(200, toClientToken(stored));
+      } catch (error) {
+        console.error("Error processing Reddit authentication:", error);
+        return jsonResponse(500, { error: "Failed to finish Reddit authentication", error_code: "server_error" });
+      }
+    }
+
+    // Hand the signed-in user a valid access token, refreshing it with the stored refresh token when needed
+    else if (path === "token") {
+      if (req.method !== "POST" && req.method !== "GET") {
+        return jsonResponse(405, { error: "Method not allowed" });
+      }
+
+      const user = await getRequestUser(req, supabaseAdmin);
+      if (!user) {
+        return jsonResponse(401, { code: 401, message: "Missing or invalid authorization header" });
+      }
+
+      const result = await getRedditTokens(supabaseAdmin, user.id);
+      if (result.ok) {
+        return jsonResponse(200, toClientToken(result.tokens));
+      }
+
+      if (result.code === "read_failed") {
+        return jsonResponse(500, { error: "Failed to read Reddit tokens" });
+      }
+      if (result.code === "not_connected") {
+        return jsonResponse(404, { error: "Reddit account not connected", error_code: "not_connected" });
+      }
+      return jsonResponse(result.code === "rate_limited" ? 429 : 502, {
+        error: "Failed to refresh token",
+        error_code: result.code,
+        status: result.status,
+      });
+    }
+
+    // Revoke the grant at Reddit and forget the stored tokens
+    else if (path === "disconnect") {
+      if (req.method !== "POST") {
+        return jsonResponse(405, { error: "Method not allowed" });
+      }
+
+      const user = await getRequestUser(req, supabaseAdmin);
+      if (!user) {
+        return jsonResponse(401, { code: 401, message: "Missing or invalid authorization header" });
+      }
+
+      const { data: stored } = await supabaseAdmin
+        .from("reddit_auth_tokens")
+        .select("refresh_token")
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (stored?.refresh_token) {
         try {
-          // Exchange code for tokens
-          
-          // Create basic auth header
-          const authHeader = "Basic " + base64.encode(`${REDDIT_CLIENT_ID}:${REDDIT_CLIENT_SECRET}`);
-          
-          const tokenResponse = await fetch("https://www.reddit.com/api/v1/access_token", {
+          await fetch(REDDIT_REVOKE_URL, {
             method: "POST",
             headers: {
               "Content-Type": "application/x-www-form-urlencoded",
-              "Authorization": authHeader,
+              "Authorization": redditClientAuthorization(),
               "User-Agent": REDDIT_USER_AGENT
             },
             body: queryString.stringify({
-              code,
-              grant_type: "authorization_code",
-              redirect_uri: REDIRECT_URI,
+              token: stored.refresh_token,
+              token_type_hint: "refresh_token",
             }),
           });
-
-          if (!tokenResponse.ok) {
-            const errorText = await tokenResponse.text();
-            
-            // Handle specific error cases
-            const redirectPath = '/';
-            let errorMessage = '';
-            
-            if (tokenResponse.status === 401) {
-              errorMessage = "reddit_auth_error=unauthorized";
-            } else if (tokenResponse.status === 403) {
-              errorMessage = "reddit_auth_error=forbidden";
-            } else if (tokenResponse.status === 429) {
-              errorMessage = "reddit_auth_error=rate_limited";
-            } else if (tokenResponse.status >= 500) {
-              errorMessage = "reddit_auth_error=server_error";
-            } else {
-              errorMessage = `reddit_auth_error=failed&code=${tokenResponse.status}`;
-            }
-            
-            // Redirect back to the frontend with error information
-            const redirectUrl = `${FRONTEND_URL}${redirectPath}?${errorMessage}&state=${state}`;
-            
-            return new Response(null, {
-              status: 302,
-              headers: {
-                ...corsHeaders,
-                "Location": redirectUrl,
-              },
-            });
-          }
-
-          const tokens = await tokenResponse.json() as RedditTokenResponse;
-          
-          // Encode tokens for safe transport
-          // Using base64.encode from npm:base-64 to ensure compatibility
-          const encodedTokens = base64.encode(JSON.stringify(tokens));
-          
-          // Prepare redirect URL back to the frontend 
-          const redirectUrl = `${FRONTEND_URL}/?reddit_tokens=${encodedTokens}&state=${state}`;
-          
-          // Redirect back to the frontend with encoded tokens
-          return new Response(null, {
-            status: 302,
-            headers: {
-              ...corsHeaders,
-              "Location": redirectUrl,
-            },
-          });
-          
         } catch (error) {
-          return new Response(
-            `Error processing Reddit authentication: ${error.message}\n${error.stack}`,
-            {
-              status: 500,
-              headers: {
-                ...corsHeaders,
-                "Content-Type": "text/plain",
-              },
-            }
-          );
-        }
-      }
-      
-      // If we get here, it's an unsupported method
-      return new Response(
-        JSON.stringify({ error: "Method not allowed" }),
-        {
-          status: 405,
-          headers: {
-            ...corsHeaders,
-            "Content-Type": "application/json",
-          },
+          // The local copy is removed regardless
+          console.warn("Failed to revoke Reddit token:", error);
         }
-      );
-    }
-    
-    // Endpoint to refresh an access token
-    else if (path === "refresh") {
-      if (req.method !== "POST") {
-        return new Response(
-          JSON.stringify({ error: "Method not allowed" }),
-          {
-            status: 405,
-            headers: {
-              ...corsHeaders,
-              "Content-Type": "application/json",
-            },
-          }
-        );
       }
-      
-      // Verify authorization - CRITICAL for security
-      const authHeader = req.headers.get("Authorization");
-      if (!authHeader || !authHeader.startsWith("Bearer ")) {
-        return new Response(
-          JSON.stringify({ 
-            code: 401, 
-            message: "Missing or invalid authorization header"
-          }),
-          {
-            status: 401,
-            headers: {
-              ...corsHeaders,
-              "Content-Type": "application/json",
-            },
-          }
-        );
-      }
-      
-      try {
-        const { refreshToken } = await req.json();
-        
-        if (!refreshToken) {
-          return new Response(
-            JSON.stringify({ error: "Refresh token is required" }),
-            {
-              status: 400,
-              headers: {
-                ...corsHeaders,
-                "Content-Type": "application/json",
-              },
-            }
-          );
-        }
-        
-        // Exchange refresh token for a new access token
-        const authHeaderValue = "Basic " + base64.encode(`${REDDIT_CLIENT_ID}:${REDDIT_CLIENT_SECRET}`);
-        const tokenResponse = await fetch("https://www.reddit.com/api/v1/access_token", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/x-www-form-urlencoded",
-            "Authorization": authHeaderValue,
-            "User-Agent": REDDIT_USER_AGENT
-          },
-          body: queryString.stringify({
-            refresh_token: refreshToken,
-            grant_type: "refresh_token",
-          }),
-        });
-        
-        if (!tokenResponse.ok) {
-          const errorText = await tokenResponse.text();
-          
-          // Enhanced error response with more details
-          let errorCode = 'unknown_error';
-          let httpStatus = 400;
-          
-          if (tokenResponse.status === 401) {
-            errorCode = 'unauthorized';
-            httpStatus = 401;
-          } else if (tokenResponse.status === 403) {
-            errorCode = 'forbidden';
-            httpStatus = 403;
-          } else if (tokenResponse.status === 429) {
-            errorCode = 'rate_limited';
-            httpStatus = 429;
-          } else if (tokenResponse.status >= 500) {
-            errorCode = 'reddit_server_error';
-            httpStatus = 502; // Using 502 Bad Gateway to indicate upstream service error
-          }
-          
-          return new Response(
-            JSON.stringify({ 
-              error: "Failed to refresh token", 
-              error_code: errorCode,
-              details: errorText,
-              status: tokenResponse.status,
-            }),
-            {
-              status: httpStatus,
-              headers: {
-                ...corsHeaders,
-                "Content-Type": "application/json",
-              },
-            }
-          );
-        }
-        
-        const tokens = await tokenResponse.json();
-        
-        return new Response(
-          JSON.stringify(tokens),
-          {
-            status: 200,
-            headers: {
-              ...corsHeaders,
-              "Content-Type": "application/json",
-            },
-          }
-        );
-      } catch (refreshError) {
-        return new Response(
-          JSON.stringify({ 
-            error: "Token refresh error", 
-            message: refreshError.message,
-          }),
-          {
-            status: 500,
-            headers: {
-              ...corsHeaders,
-              "Content-Type": "application/json",
-            },
-          }
-        );
+
+      const { error: deleteError } = await supabaseAdmin
+        .from("reddit_auth_tokens")
+        .delete()
+        .eq("user_id", user.id);
+
+      if (deleteError) {
+        console.error("Error deleting Reddit tokens:", deleteError);
+        return jsonResponse(500, { error: "Failed to disconnect Reddit" });
       }
+
+      return jsonResponse(200, { disconnected: true });
     }
 
     // Default response for the root endpoint
-    return new Response(
-      JSON.stringify({ 
-        message: "Reddit OAuth API. Available endpoints: /callback, /refresh",
-        version: "2.0",
-        redirectUri: REDIRECT_URI,
-        frontendUrl: FRONTEND_URL
-      }),
-      {
-        status: 200,
-        headers: {
-          ...corsHeaders,
-          "Content-Type": "application/json",
-        },
-      }
-    );
+    return jsonResponse(200, {
+      message: "Reddit OAuth API. Available endpoints: /authorize, /callback, /complete, /token, /disconnect",
+      version: "3.0",
+      redirectUri: REDIRECT_URI,
+      frontendUrl: FRONTEND_URL
+    });
   } catch (error) {
-    return new Response(
-      JSON.stringify({ 
-        error: error.message,
-        stack: error.stack,
-        name: error.name
-      }),
-      {
-        status: 500,
-        headers: {
-          ...corsHeaders,
-          "Content-Type": "application/json",
-        },
-      }
-    );
+    console.error("Error in reddit-auth:", error);
+    return jsonResponse(500, { error: error.message, name: error.name });
   }
-});
\ No newline at end of file
+});
@@ -0,0 +1,428 @@
+// Follow this setup guide to integrate the Deno runtime and Supabase functions: https://deno.land/manual/supabase_runtime
+
+import { createClient } from 'npm:@supabase/supabase-js@2.39.8';
+import { getRequestUser } from '../_shared/oauth-state.ts';
+import { REDDIT_USER_AGENT, getRedditTokens } from '../_shared/reddit-token.ts';
+import { NormalizedListingPage, RedditListingResponse, collectMediaLinks, mediaDomain, normalizeListingPage } from '../_shared/reddit-normalize.ts';
+import { ResolverContext, resolveMediaLinks } from '../_shared/media-resolvers.ts';
+import { applyContentFilters, parseContentFilters } from '../_shared/content-filters.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Expose-Headers': 'Retry-After',
+};
+
+const REDDIT_API_URL = 'https://oauth.reddit.com';
+
+// How long a fetched page is served from the cache before Reddit is asked again
+const LISTING_CACHE_TTL_MS = 2 * 60 * 1000;
+// Expired pages are kept this long as a fallback while Reddit is unavailable or rate limited
+const STALE_CACHE_RETENTION_MS = 60 * 60 * 1000;
+
+// Posts fetched are remembered this long, as the base for the admin media failure report
+const SEEN_POSTS_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Stop calling Reddit for an account once this few requests are left in its window,
+// leaving some headroom for requests already in flight
+const RATE_LIMIT_RESERVE = 5;
+// Used when Reddit rate limits us without saying for how long
+const DEFAULT_RETRY_AFTER_SECONDS = 60;
+
+const MAX_PAGE_SIZE = 100;
+
+const REDGIFS_AUTH_URL = 'https://api.redgifs.com/v2/auth/temporary';
+// redgifs temporary tokens last a day; fetch a new one well before that
+const REDGIFS_TOKEN_TTL_MS = 12 * 60 * 60 * 1000;
+
+// Reddit has several parameters for NSFW content; the player has always sent all of them
+const NSFW_PARAMS = {
+  include_over_18: 'true',
+  include_nsfw: '1',
+  nsfw: '1',
+  allow_over18: '1',
+  over_18: 'true',
+  show_media: '1',
+};
+
+// Subreddit types whose listings look the same to every account; anything else is cached per user
+const PUBLIC_SUBREDDIT_TYPES = ['public', 'restricted', 'archived', 'user'];
+
+const SORTS = ['hot', 'new', 'top', 'rising'];
+const TIME_WINDOWS = ['hour', 'day', 'week', 'month', 'year', 'all'];
+
+type SupabaseAdmin = ReturnType<typeof createClient>;
+
+// Cached per function instance
+let redgifsToken: { token: string; fetchedAt: number } | null = null;
+
+interface ListingRequest {
+  subreddit: string;
+  sort: string;
+  time: string | null; // Only for the 'top' sort
+  limit: number;
+  after: string | null;
+}
+
+interface CachedListing {
+  posts: NormalizedListingPage['posts'];
+  removed_ids: string[];
+  next_after: string | null;
+  fetched_at: string;
+  expires_at: string;
+}
+
+// Error body shared by every failure: `code` is stable for the client to branch on,
+// `message` is safe to show to the user
+function errorResponse(
+  status: number,
+  code: string,
+  message: string,
+  headers: Record<string, string> = {}
+): Response {
+  return new Response(
+    JSON.stringify({ error: { code, message } }),
+    {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json', ...headers },
+    }
+  );
+}
+
+function listingResponse(page: NormalizedListingPage, fetchedAt: string, source: 'reddit' | 'cache' | 'stale'): Response {
+  return new Response(
+    JSON.stringify({ ...page, fetchedAt, source }),
+    {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    }
+  );
+}
+
+// Leaves out posts enough players recently reported as unplayable. Checked on every
+// response, since a cached page may predate the reports; the client drops them like
+// removed posts.
+async function withoutDeadMedia(supabaseAdmin: SupabaseAdmin, page: NormalizedListingPage): Promise<NormalizedListingPage> {
+  if (page.posts.length === 0) return page;
+
+  const { data, error } = await supabaseAdmin
+    .from('dead_media_confirmed')
+    .select('post_id')
+    .in('post_id', page.posts.map(post => post.id));
+
+  if (error) {
+    console.error('Error checking dead media:', error);
+    return page;
+  }
+  if (!data?.length) return page;
+
+  const deadIds = new Set((data as { post_id: string }[]).map(row => row.post_id));
+  return {
+    ...page,
+    posts: page.posts.filter(post => !deadIds.has(post.id)),
+    removedIds: [...page.removedIds, ...deadIds],
+  };
+}
+
+function fromCache(row: CachedListing): NormalizedListingPage {
+  return { posts: row.posts, removedIds: row.removed_ids, after: row.next_after };
+}
+
+// Validates the request body; returns an error message for anything Reddit shouldn't be asked
+function parseListingRequest(body: Record<string, unknown>): ListingRequest | string {
+  const { subreddit, sort, time, limit, after } = body;
+
+  if (typeof subreddit !== 'string' || !/^[A-Za-z0-9_]{2,21}$/.test(subreddit)) {
+    return 'Invalid subreddit name';
+  }
+  if (typeof sort !== 'string' || !SORTS.includes(sort)) {
+    return `sort must be one of: ${SORTS.join(', ')}`;
+  }
+  if (time !== undefined && time !== null && (typeof time !== 'string' || !TIME_WINDOWS.includes(time))) {
+    return `time must be one of: ${TIME_WINDOWS.join(', ')}`;
+  }
+  if (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return `limit must be a whole number between 1 and ${MAX_PAGE_SIZE}`;
+  }
+  if (after !== undefined && after !== null && (typeof after !== 'string' || !/^t3_[a-z0-9]+$/i.test(after))) {
+    return 'Invalid after cursor';
+  }
+
+  return {
+    subreddit: subreddit.toLowerCase(),
+    sort,
+    time: sort === 'top' ? (time as string | undefined) ?? 'day' : null,
+    limit,
+    after: (after as string | undefined) ?? null,
+  };
+}
+
+// One cache row per (subreddit, sort, window, page size, page), and per user for pages
+// not everyone can see
+function cacheKey(listing: ListingRequest, userId: string | null): string {
+  const key = [listing.subreddit, listing.sort, listing.time ?? '', listing.limit, listing.after ?? ''].join('|');
+  return userId ? `${userId}|${key}` : key;
+}
+
+// Whether every post on the page comes from a subreddit any account can read. Private,
+// quarantined and premium-only pages were only fetched with this user's access
+function isPublicListing(json: RedditListingResponse): boolean {
+  return (json.data?.children ?? []).every(child => {
+    const post = child.data as { subreddit_type?: string; quarantine?: boolean } | undefined;
+    return PUBLIC_SUBREDDIT_TYPES.includes(post?.subreddit_type ?? '') && !post?.quarantine;
+  });
+}
+
+function listingUrl(listing: ListingRequest): string {
+  const params = new URLSearchParams({ limit: String(listing.limit), raw_json: '1', ...NSFW_PARAMS });
+  if (listing.time) params.set('t', listing.time);
+  if (listing.after) params.set('after', listing.after);
+
+  return `${REDDIT_API_URL}/r/${listing.subreddit}/${listing.sort}?${params.toString()}`;
+}
+
+// Seconds until the account's rate limit window resets, from Retry-After or X-Ratelimit-Reset
+function retryAfterSeconds(response: Response): number {
+  const retryAfter = response.headers.get('Retry-After');
+  if (retryAfter) {
+    if (/^\d+$/.test(retryAfter)) return parseInt(retryAfter, 10);
+    const retryDate = new Date(retryAfter).getTime();
+    if (!Number.isNaN(retryDate)) return Math.max(1, Math.ceil((retryDate - Date.now()) / 1000));
+  }
+  const reset = Number(response.headers.get('X-Ratelimit-Reset'));
+  return Number.isFinite(reset) && reset > 0 ? Math.ceil(reset) : DEFAULT_RETRY_AFTER_SECONDS;
+}
+
+// Remembers what Reddit said about the account's rate limit so the next request, from any browser, can honour it
+async function recordRateLimit(supabaseAdmin: SupabaseAdmin, userId: string, response: Response): Promise<void> {
+  let remaining = 0;
+  let resetSeconds: number;
+  if (response.status === 429) {
+    resetSeconds = retryAfterSeconds(response);
+  } else {
+    remaining = Number(response.headers.get('X-Ratelimit-Remaining') ?? NaN);
+    resetSeconds = Number(response.headers.get('X-Ratelimit-Reset') ?? NaN);
+    if (!Number.isFinite(remaining) || !Number.isFinite(resetSeconds)) return;
+  }
+
+  const { error } = await supabaseAdmin
+    .from('reddit_auth_tokens')
+    .update({
+      ratelimit_remaining: remaining,
+      ratelimit_reset_at: new Date(Date.now() + resetSeconds * 1000).toISOString(),
+    })
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Error recording Reddit rate limit:', error);
+  }
+}
+
+// Seconds until the account may call Reddit again, or 0 when it has requests to spare
+async function rateLimitWait(supabaseAdmin: SupabaseAdmin, userId: string): Promise<number> {
+  const { data } = await supabaseAdmin
+    .from('reddit_auth_tokens')
+    .select('ratelimit_remaining, ratelimit_reset_at')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (!data || data.ratelimit_remaining === null || !data.ratelimit_reset_at) return 0;
+
+  const resetAt = new Date(data.ratelimit_reset_at as string).getTime();
+  if (resetAt <= Date.now() || (data.ratelimit_remaining as number) >= RATE_LIMIT_RESERVE) return 0;
+  return Math.ceil((resetAt - Date.now()) / 1000);
+}
+
+async function getRedgifsToken(): Promise<string | null> {
+  if (redgifsToken && Date.now() - redgifsToken.fetchedAt < REDGIFS_TOKEN_TTL_MS) {
+    return redgifsToken.token;
+  }
+  try {
+    const response = await fetch(REDGIFS_AUTH_URL);
+    if (!response.ok) {
+      throw new Error(`Token request failed: ${response.status}`);
+    }
+    const { token } = await response.json() as { token?: string };
+    if (!token) return null;
+    redgifsToken = { token, fetchedAt: Date.now() };
+    return token;
+  } catch (error) {
+    console.error('Error fetching redgifs token:', error);
+    return null;
+  }
+}
+
+const resolverContext: ResolverContext = {
+  imgurClientId: Deno.env.get('IMGUR_CLIENT_ID'),
+  getRedgifsToken,
+};
+
+async function storeListing(
+  supabaseAdmin: SupabaseAdmin,
+  listing: ListingRequest,
+  userId: string | null,
+  page: NormalizedListingPage,
+  fetchedAt: string
+) {
+  const { error } = await supabaseAdmin
+    .from('reddit_listing_cache')
+    .upsert({
+      cache_key: cacheKey(listing, userId),
+      user_id: userId,
+      subreddit: listing.subreddit,
+      sort: listing.sort,
+      time_window: listing.time,
+      page_size: listing.limit,
+      after_cursor: listing.after ?? '',
+      posts: page.posts,
+      removed_ids: page.removedIds,
+      next_after: page.after,
+      fetched_at: fetchedAt,
+      expires_at: new Date(Date.parse(fetchedAt) + LISTING_CACHE_TTL_MS).toISOString(),
+    }, { onConflict: 'cache_key' });
+
+  if (error) {
+    console.error('Error caching Reddit listing:', error);
+  }
+
+  // Pages too old to be useful even as a fallback are dropped as new ones come in
+  await supabaseAdmin
+    .from('reddit_listing_cache')
+    .delete()
+    .lt('expires_at', new Date(Date.now() - STALE_CACHE_RETENTION_MS).toISOString());
+}
+
+// Counts the page's posts towards their subreddit's and media domain's totals
+async function recordSeenPosts(supabaseAdmin: SupabaseAdmin, subreddit: string, page: NormalizedListingPage) {
+  if (page.posts.length > 0) {
+    const { error } = await supabaseAdmin
+      .from('reddit_posts_seen')
+      .upsert(
+        page.posts.map(post => ({ post_id: post.id, subreddit, media_domain: mediaDomain(post) })),
+        { onConflict: 'post_id', ignoreDuplicates: true }
+      );
+
+    if (error) {
+      console.error('Error recording seen posts:', error);
+    }
+  }
+
+  await supabaseAdmin
+    .from('reddit_posts_seen')
+    .delete()
+    .lt('first_seen_at', new Date(Date.now() - SEEN_POSTS_RETENTION_MS).toISOString());
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight request
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  if (req.method !== 'POST') {
+    return errorResponse(405, 'method_not_allowed', 'Method not allowed');
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const user = await getRequestUser(req, supabaseAdmin);
+    if (!user) {
+      return errorResponse(401, 'unauthorized', 'Sign in to load subreddits');
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = parseListingRequest(body);
+    if (typeof parsed === 'string') {
+      return errorResponse(400, 'invalid_request', parsed);
+    }
+    const listing = parsed;
+    // The session's content rules; pages are cached unfiltered and filtered per request
+    const filters = parseContentFilters(body.filters);
+
+    // The shared page, or the one fetched for this user if the subreddit isn't public;
+    // the fresher of the two if both exist
+    const { data: cached } = await supabaseAdmin
+      .from('reddit_listing_cache')
+      .select('posts, removed_ids, next_after, fetched_at, expires_at')
+      .in('cache_key', [cacheKey(listing, null), cacheKey(listing, user.id)])
+      .order('fetched_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    const cachedRow = cached as CachedListing | null;
+
+    const respond = async (page: NormalizedListingPage, fetchedAt: string, source: 'reddit' | 'cache' | 'stale') => {
+      const playable = await withoutDeadMedia(supabaseAdmin, page);
+      return listingResponse({ ...playable, posts: applyContentFilters(playable.posts, filters) }, fetchedAt, source);
+    };
+
+    if (cachedRow && new Date(cachedRow.expires_at).getTime() > Date.now()) {
+      return respond(fromCache(cachedRow), cachedRow.fetched_at, 'cache');
+    }
+
+    // Past this point Reddit has to be asked, as this user
+    const tokenResult = await getRedditTokens(supabaseAdmin, user.id);
+    if (!tokenResult.ok) {
+      if (cachedRow) return respond(fromCache(cachedRow), cachedRow.fetched_at, 'stale');
+      if (tokenResult.code === 'not_connected') {
+        return errorResponse(403, 'not_connected', 'Please connect your Reddit account to view content');
+      }
+      if (tokenResult.code === 'rate_limited') {
+        return errorResponse(429, 'rate_limited', 'Rate limited by Reddit API', { 'Retry-After': String(DEFAULT_RETRY_AFTER_SECONDS) });
+      }
+      return errorResponse(502, 'token_unavailable', 'Could not get a Reddit access token');
+    }
+
+    const wait = await rateLimitWait(supabaseAdmin, user.id);
+    if (wait > 0) {
+      if (cachedRow) return respond(fromCache(cachedRow), cachedRow.fetched_at, 'stale');
+      return errorResponse(429, 'rate_limited', `Rate limited by Reddit API. Retry after ${wait} seconds.`, { 'Retry-After': String(wait) });
+    }
+
+    const response = await fetch(listingUrl(listing), {
+      headers: {
+        'Authorization': `Bearer ${tokenResult.tokens.access_token}`,
+        'User-Agent': REDDIT_USER_AGENT,
+      },
+    });
+    await recordRateLimit(supabaseAdmin, user.id, response);
+
+    if (!response.ok) {
+      console.error(`Reddit listing request failed for r/${listing.subreddit}/${listing.sort}:`, response.status, await response.text());
+      if (cachedRow) return respond(fromCache(cachedRow), cachedRow.fetched_at, 'stale');
+
+      if (response.status === 429) {
+        const seconds = retryAfterSeconds(response);
+        return errorResponse(429, 'rate_limited', `Rate limited by Reddit API. Retry after ${seconds} seconds.`, { 'Retry-After': String(seconds) });
+      }
+      if (response.status === 403) {
+        return errorResponse(403, 'forbidden', `Unable to access r/${listing.subreddit} - private or quarantined?`);
+      }
+      if (response.status === 404) {
+        return errorResponse(404, 'not_found', `Subreddit r/${listing.subreddit} not found.`);
+      }
+      return errorResponse(502, 'upstream_error', `Reddit server error for r/${listing.subreddit}.`);
+    }
+
+    // Links to imgur albums, redgifs etc. are looked up before the page is cached, so
+    // everyone served from the cache gets the playable media
+    const json = await response.json() as RedditListingResponse;
+    const resolvedMedia = await resolveMediaLinks(collectMediaLinks(json), resolverContext);
+    const page = normalizeListingPage(json, resolvedMedia);
+    const fetchedAt = new Date().toISOString();
+    await storeListing(supabaseAdmin, listing, isPublicListing(json) ? null : user.id, page, fetchedAt);
+    await recordSeenPosts(supabaseAdmin, listing.subreddit, page);
+
+    return respond(page, fetchedAt, 'reddit');
+  } catch (error) {
+    console.error('Error in reddit-proxy function:', error);
+    return errorResponse(500, 'internal_error', 'Failed to load subreddit');
+  }
+});
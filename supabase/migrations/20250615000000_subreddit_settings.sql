@@ -0,0 +1,23 @@
+/*
+  # Per-subreddit session settings
+
+  1. Changes to joi_sessions table
+    - Add `subreddit_settings` JSONB column holding one entry per subreddit:
+      { "name": text, "sort": "hot" | "new" | "top" | "rising",
+        "time": "hour" | "day" | "week" | "month" | "year" | "all",
+        "limit": integer, "weight": number }
+    - Entries are matched to `subreddits` by name; subreddits without an
+      entry use the default mix (hot + top of the day, 15 posts, weight 1)
+*/
+
+ALTER TABLE joi_sessions
+ADD COLUMN IF NOT EXISTS subreddit_settings JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE joi_sessions
+DROP CONSTRAINT IF EXISTS joi_sessions_subreddit_settings_is_array;
+
+ALTER TABLE joi_sessions
+ADD CONSTRAINT joi_sessions_subreddit_settings_is_array
+CHECK (jsonb_typeof(subreddit_settings) = 'array');
+
+COMMENT ON COLUMN joi_sessions.subreddit_settings IS 'Per-subreddit sort, time window, post limit and mix weight';
@@ -0,0 +1,22 @@
+/*
+  # Vision captions
+
+  1. Changes to joi_sessions table
+    - Add `vision_captions` flag: when on, the player sends the image (or a
+      video frame) to the caption model instead of only the post text
+
+  2. Changes to app_settings table
+    - Add `openrouter_vision_model`: the model used for vision captions.
+      When empty, `openrouter_model` is used if it accepts images; otherwise
+      the proxy falls back to a text-only request
+*/
+
+ALTER TABLE joi_sessions
+ADD COLUMN IF NOT EXISTS vision_captions BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN joi_sessions.vision_captions IS 'Send post media to a vision model when generating captions';
+
+ALTER TABLE app_settings
+ADD COLUMN IF NOT EXISTS openrouter_vision_model TEXT;
+
+COMMENT ON COLUMN app_settings.openrouter_vision_model IS 'OpenRouter model used for image-aware captions';
@@ -0,0 +1,45 @@
+/*
+  # Post caption cache
+
+  1. New table `post_captions`
+    - One generated caption per user, post and prompt. `cache_key` is the post ID
+      plus a hash of the system prompt and caption mode, computed by the client
+    - Lets revisits and session replays show captions instantly without
+      another model request
+
+  2. Security
+    - RLS: users can only read and write their own captions
+*/
+
+CREATE TABLE IF NOT EXISTS post_captions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  post_id TEXT NOT NULL,
+  cache_key TEXT NOT NULL,
+  caption TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, cache_key)
+);
+
+CREATE INDEX IF NOT EXISTS post_captions_user_post_idx ON post_captions (user_id, post_id);
+
+ALTER TABLE post_captions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their own captions" ON post_captions;
+CREATE POLICY "Users can read their own captions"
+  ON post_captions FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert their own captions" ON post_captions;
+CREATE POLICY "Users can insert their own captions"
+  ON post_captions FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own captions" ON post_captions;
+CREATE POLICY "Users can update their own captions"
+  ON post_captions FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,61 @@
+/*
+  # Session play transcripts
+
+  1. New table `session_plays`
+    - One row per play of a session, owned by the user who played it
+    - `transcript` JSONB array with one entry per caption shown:
+      { "postId": text, "permalink": text, "subreddit": text, "title": text,
+        "caption": text, "model": text, "timestamp": ISO time }
+    - Rows are removed with their session
+
+  2. Changes to post_captions table
+    - Add `model`: the model that wrote the cached caption, so replayed
+      captions keep their attribution in transcripts
+
+  3. Security
+    - RLS: users can only read, write and delete their own plays
+*/
+
+CREATE TABLE IF NOT EXISTS session_plays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES joi_sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  transcript JSONB NOT NULL DEFAULT '[]'::jsonb,
+  CONSTRAINT session_plays_transcript_is_array CHECK (jsonb_typeof(transcript) = 'array')
+);
+
+CREATE INDEX IF NOT EXISTS session_plays_user_session_idx ON session_plays (user_id, session_id, started_at DESC);
+
+ALTER TABLE session_plays ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their own plays" ON session_plays;
+CREATE POLICY "Users can read their own plays"
+  ON session_plays FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert their own plays" ON session_plays;
+CREATE POLICY "Users can insert their own plays"
+  ON session_plays FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own plays" ON session_plays;
+CREATE POLICY "Users can update their own plays"
+  ON session_plays FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own plays" ON session_plays;
+CREATE POLICY "Users can delete their own plays"
+  ON session_plays FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+ALTER TABLE post_captions
+ADD COLUMN IF NOT EXISTS model TEXT;
+
+COMMENT ON COLUMN post_captions.model IS 'OpenRouter model that generated the caption';
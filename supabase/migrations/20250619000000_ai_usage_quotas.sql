@@ -0,0 +1,130 @@
+/*
+  # Caption proxy quotas and usage
+
+  1. New table `ai_quota_tiers`
+    - Daily request and token allowance per patron tier. `free` applies to
+      users without a `profiles.patron_tier` (or with a tier not listed here)
+
+  2. New table `ai_usage`
+    - One row per request the openrouter-proxy forwarded: model, token counts
+      as reported by OpenRouter, and whether it was streamed
+    - The row is written before the request goes upstream, holding the
+      request's `max_tokens` until OpenRouter reports the real counts. A request
+      that is aborted before then keeps that reservation
+    - Written by the proxy with the service role; users can read their own rows
+
+  3. New functions
+    - `ai_usage_today`: requests and tokens a user has used since midnight UTC
+    - `reserve_ai_usage`: checks the user's usage today against their tier and
+      records the request in one step, one request per user at a time, so
+      concurrent requests can't all slip under the limit
+
+  4. Changes to app_settings table
+    - Add `openrouter_allowed_models`: models callers may ask for in addition
+      to `openrouter_model` and `openrouter_vision_model`
+    - Add `openrouter_max_tokens`: the largest `max_tokens` a caller may request
+*/
+
+CREATE TABLE IF NOT EXISTS ai_quota_tiers (
+  tier TEXT PRIMARY KEY,
+  daily_requests INTEGER NOT NULL CHECK (daily_requests >= 0),
+  daily_tokens INTEGER NOT NULL CHECK (daily_tokens >= 0)
+);
+
+INSERT INTO ai_quota_tiers (tier, daily_requests, daily_tokens) VALUES
+  ('free', 100, 50000),
+  ('basic', 500, 250000),
+  ('premium', 2000, 1000000)
+ON CONFLICT (tier) DO NOTHING;
+
+ALTER TABLE ai_quota_tiers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone signed in can read quota tiers" ON ai_quota_tiers;
+CREATE POLICY "Anyone signed in can read quota tiers"
+  ON ai_quota_tiers FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  streamed BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS ai_usage_user_created_idx ON ai_usage (user_id, created_at DESC);
+
+ALTER TABLE ai_usage ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their own usage" ON ai_usage;
+CREATE POLICY "Users can read their own usage"
+  ON ai_usage FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION ai_usage_today(p_user_id UUID)
+RETURNS TABLE (requests BIGINT, tokens BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT count(*), coalesce(sum(total_tokens), 0)
+  FROM ai_usage
+  WHERE user_id = p_user_id
+    AND created_at >= date_trunc('day', now() AT TIME ZONE 'utc') AT TIME ZONE 'utc';
+$$;
+
+REVOKE EXECUTE ON FUNCTION ai_usage_today(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Returns the new usage row, or which limit is reached (and how much of it is used) without recording anything
+CREATE OR REPLACE FUNCTION reserve_ai_usage(
+  p_user_id UUID,
+  p_model TEXT,
+  p_streamed BOOLEAN,
+  p_reserved_tokens INTEGER,
+  p_daily_requests INTEGER,
+  p_daily_tokens INTEGER
+)
+RETURNS TABLE (usage_id UUID, exceeded TEXT, used BIGINT)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_requests BIGINT;
+  v_tokens BIGINT;
+  v_id UUID;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtextextended('ai_usage:' || p_user_id::TEXT, 0));
+
+  SELECT t.requests, t.tokens INTO v_requests, v_tokens FROM ai_usage_today(p_user_id) t;
+
+  IF v_requests >= p_daily_requests THEN
+    RETURN QUERY SELECT NULL::UUID, 'requests'::TEXT, v_requests;
+    RETURN;
+  END IF;
+  IF v_tokens >= p_daily_tokens THEN
+    RETURN QUERY SELECT NULL::UUID, 'tokens'::TEXT, v_tokens;
+    RETURN;
+  END IF;
+
+  INSERT INTO ai_usage (user_id, model, completion_tokens, total_tokens, streamed)
+  VALUES (p_user_id, p_model, p_reserved_tokens, p_reserved_tokens, p_streamed)
+  RETURNING id INTO v_id;
+
+  RETURN QUERY SELECT v_id, NULL::TEXT, NULL::BIGINT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reserve_ai_usage(UUID, TEXT, BOOLEAN, INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+ALTER TABLE app_settings
+ADD COLUMN IF NOT EXISTS openrouter_allowed_models TEXT[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN app_settings.openrouter_allowed_models IS 'Extra OpenRouter models callers of the caption proxy may request';
+
+ALTER TABLE app_settings
+ADD COLUMN IF NOT EXISTS openrouter_max_tokens INTEGER NOT NULL DEFAULT 300;
+
+COMMENT ON COLUMN app_settings.openrouter_max_tokens IS 'Largest max_tokens a caption proxy request may ask for';
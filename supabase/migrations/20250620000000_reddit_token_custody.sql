@@ -0,0 +1,67 @@
+/*
+  # Server-side Reddit token custody
+
+  1. New table `reddit_oauth_states`
+    - One row per Reddit connect attempt: the nonce carried (signed) in the
+      OAuth `state` parameter, the user who started it, and when it expires
+    - `used_at` is set when the callback redeems it, so a state works once
+    - Only the reddit-auth edge function (service role) reads or writes it
+
+  2. Changes to reddit_auth_tokens table
+    - Add `scope`: the scopes Reddit granted
+    - One row per user (older duplicates are removed), so the edge function
+      can upsert on `user_id`
+    - Tokens are written and refreshed by the reddit-auth edge function only.
+      Browsers lose all direct access: they get short-lived access tokens from
+      `reddit-auth/token` and disconnect through `reddit-auth/disconnect`
+    - Remove the RPC helpers browsers used to read and write tokens
+*/
+
+CREATE TABLE IF NOT EXISTS reddit_oauth_states (
+  nonce TEXT PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT now() + interval '10 minutes',
+  used_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS reddit_oauth_states_expires_idx ON reddit_oauth_states (expires_at);
+
+-- RLS without policies: only the service role can touch it
+ALTER TABLE reddit_oauth_states ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE reddit_auth_tokens
+ADD COLUMN IF NOT EXISTS scope TEXT;
+
+DELETE FROM reddit_auth_tokens older
+USING reddit_auth_tokens newer
+WHERE older.user_id = newer.user_id
+  AND (older.updated_at, older.id) < (newer.updated_at, newer.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS reddit_auth_tokens_user_id_key ON reddit_auth_tokens (user_id);
+
+ALTER TABLE reddit_auth_tokens ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON reddit_auth_tokens FROM anon, authenticated;
+
+DO $$
+DECLARE
+  policy_name TEXT;
+  function_signature TEXT;
+BEGIN
+  FOR policy_name IN
+    SELECT policyname FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'reddit_auth_tokens'
+  LOOP
+    EXECUTE format('DROP POLICY %I ON reddit_auth_tokens', policy_name);
+  END LOOP;
+
+  FOR function_signature IN
+    SELECT p.oid::regprocedure::text FROM pg_proc p
+    JOIN pg_namespace n ON n.oid = p.pronamespace
+    WHERE n.nspname = 'public'
+      AND p.proname IN ('insert_reddit_token', 'get_reddit_tokens_for_user')
+  LOOP
+    EXECUTE format('DROP FUNCTION %s', function_signature);
+  END LOOP;
+END $$;
@@ -0,0 +1,53 @@
+/*
+  # Shared OAuth state for Reddit and Patreon
+
+  1. Rename `reddit_oauth_states` to `oauth_states`
+    - Both the reddit-auth and patreon-auth flows now redeem states from it.
+      The app redeems a state with the signed-in user's JWT after the provider's
+      callback, and only for the user who started the flow
+
+  2. New columns
+    - `provider`: which OAuth flow issued the state ('reddit' or 'patreon');
+      a state is only accepted by the flow of the provider that issued it
+    - `return_path`: frontend path to send the user back to afterwards
+    - `code_verifier`: PKCE verifier for providers that support PKCE. It never
+      leaves the server
+
+  3. Security
+    - Unchanged: RLS without policies, so only the edge functions (service
+      role) can read or write states
+*/
+
+ALTER TABLE IF EXISTS reddit_oauth_states RENAME TO oauth_states;
+
+ALTER INDEX IF EXISTS reddit_oauth_states_expires_idx RENAME TO oauth_states_expires_idx;
+
+CREATE TABLE IF NOT EXISTS oauth_states (
+  nonce TEXT PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT now() + interval '10 minutes',
+  used_at TIMESTAMPTZ
+);
+
+ALTER TABLE oauth_states
+ADD COLUMN IF NOT EXISTS provider TEXT NOT NULL DEFAULT 'reddit';
+
+ALTER TABLE oauth_states
+ALTER COLUMN provider DROP DEFAULT;
+
+ALTER TABLE oauth_states
+ADD COLUMN IF NOT EXISTS return_path TEXT NOT NULL DEFAULT '/';
+
+ALTER TABLE oauth_states
+ADD COLUMN IF NOT EXISTS code_verifier TEXT;
+
+ALTER TABLE oauth_states
+DROP CONSTRAINT IF EXISTS oauth_states_provider_check;
+
+ALTER TABLE oauth_states
+ADD CONSTRAINT oauth_states_provider_check CHECK (provider IN ('reddit', 'patreon'));
+
+CREATE INDEX IF NOT EXISTS oauth_states_expires_idx ON oauth_states (expires_at);
+
+ALTER TABLE oauth_states ENABLE ROW LEVEL SECURITY;
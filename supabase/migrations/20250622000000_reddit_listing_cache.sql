@@ -0,0 +1,54 @@
+/*
+  # Shared Reddit listing cache
+
+  1. New table `reddit_listing_cache`
+    - One row per listing page the reddit-proxy edge function fetched:
+      subreddit, sort, time window, page size and the `after` cursor the page
+      starts at (empty for the first page), keyed by `cache_key`
+    - `posts` holds the page already normalized into the app's post shape,
+      `removed_ids` the posts Reddit reported as removed, `next_after` the
+      cursor of the following page
+    - Pages of public subreddits are shared by every user (`user_id` NULL).
+      Pages only some accounts can see (private, quarantined or premium-only
+      subreddits) are kept per user, with the user's ID in `user_id` and in
+      the key
+    - A page is served from here until `expires_at`, and past it only when
+      Reddit can't be asked
+
+  2. Changes to reddit_auth_tokens table
+    - `ratelimit_remaining` / `ratelimit_reset_at`: the last `X-Ratelimit-*`
+      headers Reddit sent for this account, so the proxy stops calling Reddit
+      before the account runs dry instead of each browser finding out on its own
+
+  3. Security
+    - RLS without policies: only the edge functions (service role) can read
+      or write the cache
+*/
+
+CREATE TABLE IF NOT EXISTS reddit_listing_cache (
+  cache_key TEXT PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  subreddit TEXT NOT NULL,
+  sort TEXT NOT NULL,
+  time_window TEXT,
+  page_size INTEGER NOT NULL,
+  after_cursor TEXT NOT NULL DEFAULT '',
+  posts JSONB NOT NULL DEFAULT '[]'::jsonb,
+  removed_ids TEXT[] NOT NULL DEFAULT '{}',
+  next_after TEXT,
+  fetched_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  CONSTRAINT reddit_listing_cache_posts_is_array CHECK (jsonb_typeof(posts) = 'array')
+);
+
+CREATE INDEX IF NOT EXISTS reddit_listing_cache_expires_idx ON reddit_listing_cache (expires_at);
+
+ALTER TABLE reddit_listing_cache ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON reddit_listing_cache FROM anon, authenticated;
+
+ALTER TABLE reddit_auth_tokens
+ADD COLUMN IF NOT EXISTS ratelimit_remaining REAL;
+
+ALTER TABLE reddit_auth_tokens
+ADD COLUMN IF NOT EXISTS ratelimit_reset_at TIMESTAMPTZ;
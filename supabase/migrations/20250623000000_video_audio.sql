@@ -0,0 +1,19 @@
+/*
+  # Video sound
+
+  1. Changes to joi_sessions table
+    - Add `video_audio`: how the session starts its videos, 'muted' or
+      'sound'. NULL follows the viewer's own player setting, which is stored
+      in their preferences (`videoMuted`, `videoVolume`)
+*/
+
+ALTER TABLE joi_sessions
+ADD COLUMN IF NOT EXISTS video_audio TEXT;
+
+ALTER TABLE joi_sessions
+DROP CONSTRAINT IF EXISTS joi_sessions_video_audio_check;
+
+ALTER TABLE joi_sessions
+ADD CONSTRAINT joi_sessions_video_audio_check CHECK (video_audio IN ('muted', 'sound'));
+
+COMMENT ON COLUMN joi_sessions.video_audio IS 'Whether videos start muted or with sound; NULL follows the viewer''s setting';
@@ -0,0 +1,43 @@
+/*
+  # Slide timing per media type
+
+  1. Changes to joi_sessions table
+    - Add `video_timing`: how long video slides stay up. 'complete' plays the
+      clip to its end, 'interval' loops it for the slide interval, 'max' plays
+      it once but no longer than `video_max_seconds`
+    - Add `video_max_seconds`: the cap for 'max'
+    - Add `gallery_interval`: seconds per gallery item
+
+  2. Existing sessions get 'interval' so their videos keep looping as before;
+     new sessions default to 'max'
+*/
+
+ALTER TABLE joi_sessions
+ADD COLUMN IF NOT EXISTS video_timing TEXT NOT NULL DEFAULT 'interval';
+
+ALTER TABLE joi_sessions
+ALTER COLUMN video_timing SET DEFAULT 'max';
+
+ALTER TABLE joi_sessions
+ADD COLUMN IF NOT EXISTS video_max_seconds INTEGER NOT NULL DEFAULT 60;
+
+ALTER TABLE joi_sessions
+ADD COLUMN IF NOT EXISTS gallery_interval INTEGER NOT NULL DEFAULT 4;
+
+ALTER TABLE joi_sessions
+DROP CONSTRAINT IF EXISTS joi_sessions_video_timing_check;
+
+ALTER TABLE joi_sessions
+ADD CONSTRAINT joi_sessions_video_timing_check CHECK (video_timing IN ('complete', 'interval', 'max'));
+
+ALTER TABLE joi_sessions
+DROP CONSTRAINT IF EXISTS joi_sessions_video_max_seconds_check;
+
+ALTER TABLE joi_sessions
+ADD CONSTRAINT joi_sessions_video_max_seconds_check CHECK (video_max_seconds > 0);
+
+ALTER TABLE joi_sessions
+DROP CONSTRAINT IF EXISTS joi_sessions_gallery_interval_check;
+
+ALTER TABLE joi_sessions
+ADD CONSTRAINT joi_sessions_gallery_interval_check CHECK (gallery_interval > 0);
@@ -0,0 +1,163 @@
+/*
+  # Dead media
+
+  1. New table `dead_media`
+    - One row per Reddit post whose media failed to load in a player, after
+      every fallback: `subreddit`, `media_domain` (host of the media, e.g.
+      i.redd.it or i.imgur.com) and the `media_url` that failed
+    - `report_count` is the number of different players who reported it in the
+      last 14 days, `last_reported_at` the latest of their reports
+    - Once three players have reported a post, the reddit-proxy function leaves
+      it out of every listing it serves. A post nobody reports for 14 days is
+      shown again
+
+  2. New table `dead_media_reports`
+    - One row per post and reporting player, so one account can't hide a post
+      on its own. Reports older than 14 days are dropped as new ones come in
+
+  3. New view `dead_media_confirmed`
+    - The posts that are hidden right now: enough recent reporters
+
+  4. New table `reddit_posts_seen`
+    - One row per post the reddit-proxy fetched from Reddit, with its subreddit
+      and media domain; the denominator for failure rates. Rows older than
+      30 days are dropped by the function
+
+  5. New functions
+    - `report_dead_media`: called by signed-in players to record a failure
+    - `dead_media_report`: failure rates per media domain and subreddit over
+      the last days, counting confirmed posts only, for admins only
+
+  6. Security
+    - RLS without policies on the tables: only the service role reads and
+      writes them directly; players go through `report_dead_media`
+*/
+
+CREATE TABLE IF NOT EXISTS dead_media (
+  post_id TEXT PRIMARY KEY,
+  subreddit TEXT NOT NULL,
+  media_domain TEXT,
+  media_url TEXT,
+  report_count INTEGER NOT NULL DEFAULT 1,
+  first_reported_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_reported_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS dead_media_reported_idx ON dead_media (first_reported_at);
+
+ALTER TABLE dead_media ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON dead_media FROM anon, authenticated;
+
+CREATE TABLE IF NOT EXISTS dead_media_reports (
+  post_id TEXT NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reported_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (post_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS dead_media_reports_reported_idx ON dead_media_reports (reported_at);
+
+ALTER TABLE dead_media_reports ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON dead_media_reports FROM anon, authenticated;
+
+CREATE OR REPLACE VIEW dead_media_confirmed AS
+  SELECT post_id, subreddit, media_domain
+  FROM dead_media
+  WHERE report_count >= 3
+    AND last_reported_at >= now() - interval '14 days';
+
+REVOKE ALL ON dead_media_confirmed FROM anon, authenticated;
+
+CREATE TABLE IF NOT EXISTS reddit_posts_seen (
+  post_id TEXT PRIMARY KEY,
+  subreddit TEXT NOT NULL,
+  media_domain TEXT,
+  first_seen_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS reddit_posts_seen_first_seen_idx ON reddit_posts_seen (first_seen_at);
+
+ALTER TABLE reddit_posts_seen ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON reddit_posts_seen FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION report_dead_media(
+  p_post_id TEXT,
+  p_subreddit TEXT,
+  p_media_domain TEXT,
+  p_media_url TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in' USING ERRCODE = '42501';
+  END IF;
+  IF p_post_id !~ '^[a-z0-9]{1,16}$' OR p_subreddit !~ '^[A-Za-z0-9_]{2,21}$' THEN
+    RAISE EXCEPTION 'Invalid post' USING ERRCODE = '22023';
+  END IF;
+
+  DELETE FROM dead_media_reports WHERE reported_at < now() - interval '14 days';
+
+  INSERT INTO dead_media_reports (post_id, user_id)
+  VALUES (p_post_id, auth.uid())
+  ON CONFLICT (post_id, user_id) DO UPDATE
+    SET reported_at = now();
+
+  INSERT INTO dead_media (post_id, subreddit, media_domain, media_url)
+  VALUES (p_post_id, lower(p_subreddit), left(lower(p_media_domain), 253), left(p_media_url, 2048))
+  ON CONFLICT (post_id) DO UPDATE
+    SET last_reported_at = now();
+
+  UPDATE dead_media
+  SET report_count = (SELECT count(*) FROM dead_media_reports WHERE post_id = p_post_id)
+  WHERE post_id = p_post_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION report_dead_media(TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION report_dead_media(TEXT, TEXT, TEXT, TEXT) TO authenticated;
+
+-- One row per media domain and per subreddit: posts fetched in the window and how many of them died
+CREATE OR REPLACE FUNCTION dead_media_report(p_days INTEGER DEFAULT 30)
+RETURNS TABLE (kind TEXT, name TEXT, seen_posts BIGINT, dead_posts BIGINT, failure_rate NUMERIC)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin) THEN
+    RAISE EXCEPTION 'Admins only' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH window_posts AS (
+    SELECT s.post_id, s.subreddit, coalesce(s.media_domain, 'unknown') AS media_domain, d.post_id IS NOT NULL AS dead
+    FROM reddit_posts_seen s
+    LEFT JOIN dead_media_confirmed d ON d.post_id = s.post_id
+    WHERE s.first_seen_at >= now() - make_interval(days => p_days)
+  ),
+  grouped AS (
+    SELECT 'domain'::TEXT AS kind, media_domain AS name, count(*) AS seen_posts, count(*) FILTER (WHERE dead) AS dead_posts
+    FROM window_posts
+    GROUP BY media_domain
+    UNION ALL
+    SELECT 'subreddit'::TEXT, subreddit, count(*), count(*) FILTER (WHERE dead)
+    FROM window_posts
+    GROUP BY subreddit
+  )
+  SELECT g.kind, g.name, g.seen_posts, g.dead_posts, round(g.dead_posts::NUMERIC / g.seen_posts, 4)
+  FROM grouped g
+  WHERE g.dead_posts > 0
+  ORDER BY g.kind, g.dead_posts::NUMERIC / g.seen_posts DESC, g.dead_posts DESC;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION dead_media_report(INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION dead_media_report(INTEGER) TO authenticated;
@@ -0,0 +1,18 @@
+/*
+  # Content filter rules per session
+
+  1. Changes to joi_sessions table
+    - Add `content_filters`: the rules a post has to pass to be played (title
+      keywords, blocked authors, minimum score and resolution, media types,
+      flairs and the NSFW mode). Stored as a JSON object; an empty object
+      plays everything, which is what existing sessions keep doing
+*/
+
+ALTER TABLE joi_sessions
+ADD COLUMN IF NOT EXISTS content_filters JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE joi_sessions
+DROP CONSTRAINT IF EXISTS joi_sessions_content_filters_check;
+
+ALTER TABLE joi_sessions
+ADD CONSTRAINT joi_sessions_content_filters_check CHECK (jsonb_typeof(content_filters) = 'object');
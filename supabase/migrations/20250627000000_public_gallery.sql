@@ -0,0 +1,254 @@
+/*
+  # Public session gallery
+
+  1. Changes to joi_sessions table
+    - Add `tags`: up to 10 lower-case tags for browsing
+    - Add `is_listed`: whether a public session shows up in Explore. Unlisted
+      public sessions still open from a link
+    - Add `play_count` and `save_count`: how often other users played the
+      session and saved a copy of it. Only the functions below change them
+    - Add `forked_from`: the session a copy was saved from
+
+  2. Counters
+    - `record_session_play(p_session_id)`: counts a play by anyone but the
+      owner who can see the session (it's public or shared with them)
+    - Saving a copy (inserting a session with `forked_from`) counts a save on
+      the original, under the same conditions
+    - Each user counts once per session for plays and once for saves; new
+      table `session_engagements` remembers who was counted
+    - Users can't write the counters or the table directly
+
+  3. Browsing
+    - `explore_sessions(...)`: public, listed sessions matching a search over
+      title, description and subreddits and carrying all the given tags,
+      sorted by 'newest', 'played' or 'saved', with the owner's display name
+    - `explore_tags(p_limit)`: the most used tags of listed sessions
+*/
+
+ALTER TABLE joi_sessions
+ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE joi_sessions
+ADD COLUMN IF NOT EXISTS is_listed BOOLEAN NOT NULL DEFAULT true;
+
+ALTER TABLE joi_sessions
+ADD COLUMN IF NOT EXISTS play_count INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE joi_sessions
+ADD COLUMN IF NOT EXISTS save_count INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE joi_sessions
+ADD COLUMN IF NOT EXISTS forked_from UUID REFERENCES joi_sessions(id) ON DELETE SET NULL;
+
+ALTER TABLE joi_sessions
+DROP CONSTRAINT IF EXISTS joi_sessions_tags_check;
+
+ALTER TABLE joi_sessions
+ADD CONSTRAINT joi_sessions_tags_check CHECK (cardinality(tags) <= 10);
+
+CREATE INDEX IF NOT EXISTS joi_sessions_tags_idx ON joi_sessions USING GIN (tags);
+
+CREATE INDEX IF NOT EXISTS joi_sessions_listed_idx ON joi_sessions (created_at DESC)
+  WHERE is_public AND is_listed;
+
+-- The counters belong to the functions below; requests through the API keep the stored values
+CREATE OR REPLACE FUNCTION protect_session_counters()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.play_count := 0;
+      NEW.save_count := 0;
+    ELSE
+      NEW.play_count := OLD.play_count;
+      NEW.save_count := OLD.save_count;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS joi_sessions_protect_counters ON joi_sessions;
+CREATE TRIGGER joi_sessions_protect_counters
+  BEFORE INSERT OR UPDATE ON joi_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_session_counters();
+
+CREATE TABLE IF NOT EXISTS session_engagements (
+  session_id UUID NOT NULL REFERENCES joi_sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('play', 'save')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (session_id, user_id, kind)
+);
+
+ALTER TABLE session_engagements ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON session_engagements FROM anon, authenticated;
+
+-- Counts a play or save of someone else's session the user can see, the first time only
+CREATE OR REPLACE FUNCTION count_session_engagement(p_session_id UUID, p_user_id UUID, p_kind TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM joi_sessions s
+    WHERE s.id = p_session_id
+      AND s.user_id <> p_user_id
+      AND (
+        s.is_public
+        OR EXISTS (SELECT 1 FROM shared_sessions ss WHERE ss.session_id = s.id AND ss.shared_with_id = p_user_id)
+      )
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO session_engagements (session_id, user_id, kind)
+  VALUES (p_session_id, p_user_id, p_kind)
+  ON CONFLICT DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF p_kind = 'play' THEN
+    UPDATE joi_sessions SET play_count = play_count + 1 WHERE id = p_session_id;
+  ELSE
+    UPDATE joi_sessions SET save_count = save_count + 1 WHERE id = p_session_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION count_session_engagement(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION count_session_save()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM count_session_engagement(NEW.forked_from, NEW.user_id, 'save');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS joi_sessions_count_save ON joi_sessions;
+CREATE TRIGGER joi_sessions_count_save
+  AFTER INSERT ON joi_sessions
+  FOR EACH ROW
+  WHEN (NEW.forked_from IS NOT NULL)
+  EXECUTE FUNCTION count_session_save();
+
+CREATE OR REPLACE FUNCTION record_session_play(p_session_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM count_session_engagement(p_session_id, auth.uid(), 'play');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_session_play(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_session_play(UUID) TO authenticated;
+
+CREATE OR REPLACE FUNCTION explore_sessions(
+  p_search TEXT DEFAULT NULL,
+  p_tags TEXT[] DEFAULT '{}',
+  p_sort TEXT DEFAULT 'newest',
+  p_limit INTEGER DEFAULT 24,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  title TEXT,
+  description TEXT,
+  subreddits TEXT[],
+  tags TEXT[],
+  thumbnail_url TEXT,
+  "interval" INTEGER,
+  transition TEXT,
+  play_count INTEGER,
+  save_count INTEGER,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  owner_name TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH params AS (
+    -- LIKE wildcards in the search are matched literally
+    SELECT '%' || replace(replace(replace(lower(trim(coalesce(p_search, ''))), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern
+  )
+  SELECT
+    s.id,
+    s.user_id,
+    s.title,
+    s.description,
+    s.subreddits,
+    s.tags,
+    s.thumbnail_url,
+    s.interval,
+    s.transition::TEXT,
+    s.play_count,
+    s.save_count,
+    s.created_at,
+    s.updated_at,
+    p.display_name
+  FROM joi_sessions s
+  CROSS JOIN params
+  LEFT JOIN profiles p ON p.id = s.user_id
+  WHERE s.is_public
+    AND s.is_listed
+    AND s.tags @> coalesce(p_tags, '{}')
+    AND (
+      params.pattern = '%%'
+      OR lower(s.title) LIKE params.pattern
+      OR lower(coalesce(s.description, '')) LIKE params.pattern
+      OR EXISTS (SELECT 1 FROM unnest(s.subreddits) AS sub WHERE lower(sub) LIKE params.pattern)
+    )
+  ORDER BY
+    CASE WHEN p_sort = 'played' THEN s.play_count END DESC,
+    CASE WHEN p_sort = 'saved' THEN s.save_count END DESC,
+    s.created_at DESC
+  LIMIT least(greatest(p_limit, 1), 100)
+  OFFSET greatest(p_offset, 0);
+$$;
+
+REVOKE EXECUTE ON FUNCTION explore_sessions(TEXT, TEXT[], TEXT, INTEGER, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION explore_sessions(TEXT, TEXT[], TEXT, INTEGER, INTEGER) TO authenticated;
+
+CREATE OR REPLACE FUNCTION explore_tags(p_limit INTEGER DEFAULT 30)
+RETURNS TABLE (tag TEXT, sessions BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT t.tag, count(*) AS sessions
+  FROM joi_sessions s
+  CROSS JOIN LATERAL unnest(s.tags) AS t(tag)
+  WHERE s.is_public AND s.is_listed
+  GROUP BY t.tag
+  ORDER BY count(*) DESC, t.tag
+  LIMIT least(greatest(p_limit, 1), 100);
+$$;
+
+REVOKE EXECUTE ON FUNCTION explore_tags(INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION explore_tags(INTEGER) TO authenticated;
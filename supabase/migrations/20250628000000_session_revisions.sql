@@ -0,0 +1,150 @@
+/*
+  # Session revision history
+
+  1. New table `session_revisions`
+    - One immutable row per saved version of a session: subreddits (with their
+      per-subreddit settings), prompt, interval, transition, content filters and
+      thumbnail. `revision` counts up from 1 per session
+    - Written by a trigger whenever a session is created or one of those fields
+      changes, so every way of saving is covered. The trigger locks the session
+      row while it numbers the revision, so concurrent saves don't collide
+    - Rows are removed with their session
+
+  2. Changes to joi_sessions table
+    - Add `forked_from_revision`: the revision of `forked_from` a copy was saved
+      from, filled in by the database when the copy is created
+
+  3. Security
+    - RLS: owners can read their sessions' revisions. Nobody can change or
+      delete a revision; restoring one saves it again as a new revision
+
+  4. Existing sessions get their current state as revision 1
+*/
+
+CREATE TABLE IF NOT EXISTS session_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES joi_sessions(id) ON DELETE CASCADE,
+  revision INTEGER NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  subreddits TEXT[] NOT NULL DEFAULT '{}',
+  subreddit_settings JSONB NOT NULL DEFAULT '[]'::jsonb,
+  system_prompt TEXT NOT NULL DEFAULT '',
+  "interval" INTEGER NOT NULL,
+  transition TEXT NOT NULL,
+  content_filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  thumbnail_url TEXT,
+  CONSTRAINT session_revisions_session_revision_key UNIQUE (session_id, revision)
+);
+
+ALTER TABLE session_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Owners can read their session revisions" ON session_revisions;
+CREATE POLICY "Owners can read their session revisions"
+  ON session_revisions FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM joi_sessions s
+    WHERE s.id = session_revisions.session_id
+      AND s.user_id = auth.uid()
+  ));
+
+REVOKE INSERT, UPDATE, DELETE ON session_revisions FROM anon, authenticated;
+
+ALTER TABLE joi_sessions
+ADD COLUMN IF NOT EXISTS forked_from_revision UUID REFERENCES session_revisions(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION record_session_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.subreddits IS NOT DISTINCT FROM OLD.subreddits
+    AND NEW.subreddit_settings IS NOT DISTINCT FROM OLD.subreddit_settings
+    AND NEW.system_prompt IS NOT DISTINCT FROM OLD.system_prompt
+    AND NEW.interval IS NOT DISTINCT FROM OLD.interval
+    AND NEW.transition IS NOT DISTINCT FROM OLD.transition
+    AND NEW.content_filters IS NOT DISTINCT FROM OLD.content_filters
+    AND NEW.thumbnail_url IS NOT DISTINCT FROM OLD.thumbnail_url
+  THEN
+    RETURN NEW;
+  END IF;
+
+  -- Saves of the same session take turns, so two of them can't both pick the next number
+  PERFORM 1 FROM joi_sessions WHERE id = NEW.id FOR UPDATE;
+
+  INSERT INTO session_revisions (
+    session_id, revision, created_by, subreddits, subreddit_settings,
+    system_prompt, "interval", transition, content_filters, thumbnail_url
+  )
+  SELECT
+    NEW.id,
+    coalesce(max(r.revision), 0) + 1,
+    coalesce(auth.uid(), NEW.user_id),
+    coalesce(NEW.subreddits, '{}'),
+    coalesce(NEW.subreddit_settings, '[]'::jsonb),
+    coalesce(NEW.system_prompt, ''),
+    NEW.interval,
+    NEW.transition::TEXT,
+    coalesce(NEW.content_filters, '{}'::jsonb),
+    NEW.thumbnail_url
+  FROM session_revisions r
+  WHERE r.session_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS joi_sessions_record_revision ON joi_sessions;
+CREATE TRIGGER joi_sessions_record_revision
+  AFTER INSERT OR UPDATE ON joi_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION record_session_revision();
+
+-- A copy remembers the version of the original it started from
+CREATE OR REPLACE FUNCTION set_forked_from_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.forked_from_revision := (
+    SELECT r.id
+    FROM session_revisions r
+    WHERE r.session_id = NEW.forked_from
+    ORDER BY r.revision DESC
+    LIMIT 1
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS joi_sessions_set_forked_from_revision ON joi_sessions;
+CREATE TRIGGER joi_sessions_set_forked_from_revision
+  BEFORE INSERT ON joi_sessions
+  FOR EACH ROW
+  WHEN (NEW.forked_from IS NOT NULL)
+  EXECUTE FUNCTION set_forked_from_revision();
+
+INSERT INTO session_revisions (
+  session_id, revision, created_by, created_at, subreddits, subreddit_settings,
+  system_prompt, "interval", transition, content_filters, thumbnail_url
+)
+SELECT
+  s.id,
+  1,
+  s.user_id,
+  s.updated_at,
+  coalesce(s.subreddits, '{}'),
+  coalesce(s.subreddit_settings, '[]'::jsonb),
+  coalesce(s.system_prompt, ''),
+  s.interval,
+  s.transition::TEXT,
+  coalesce(s.content_filters, '{}'::jsonb),
+  s.thumbnail_url
+FROM joi_sessions s
+WHERE NOT EXISTS (SELECT 1 FROM session_revisions r WHERE r.session_id = s.id);
@@ -0,0 +1,202 @@
+/*
+  # Fork lineage
+
+  1. `session_lineage()`
+    - For each of the caller's sessions that was saved as a copy: the original's
+      title and owner, the revision the copy is based on, the original's latest
+      revision and whether it brings subreddit or prompt changes the copy
+      doesn't have yet
+    - The original's title, owner, latest revision and changes are only
+      returned while the caller can still see it (public, shared with them or
+      their own)
+
+  2. `session_upstream(p_session_id)`
+    - Subreddits and prompt of the revision a copy is based on and of the
+      original's latest revision, for merging them into the copy
+
+  3. Changes to joi_sessions table
+    - `forked_from` can only be set, through the API, to a session the caller
+      can see
+    - `forked_from_revision` can only point at a revision of `forked_from`.
+      Pulling changes moves it to the revision they came from
+*/
+
+CREATE OR REPLACE FUNCTION check_forked_from_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.forked_from_revision IS NOT NULL AND NOT EXISTS (
+    SELECT 1
+    FROM session_revisions r
+    WHERE r.id = NEW.forked_from_revision
+      AND r.session_id = NEW.forked_from
+  ) THEN
+    RAISE EXCEPTION 'Revision does not belong to the original session'
+      USING ERRCODE = '22023';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS joi_sessions_check_forked_from_revision ON joi_sessions;
+CREATE TRIGGER joi_sessions_check_forked_from_revision
+  BEFORE INSERT OR UPDATE OF forked_from, forked_from_revision ON joi_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION check_forked_from_revision();
+
+-- Whether the caller may see what changed in a session they copied
+CREATE OR REPLACE FUNCTION can_follow_session(p_session_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM joi_sessions s
+    WHERE s.id = p_session_id
+      AND (
+        s.is_public
+        OR s.user_id = auth.uid()
+        OR EXISTS (
+          SELECT 1 FROM shared_sessions ss
+          WHERE ss.session_id = s.id
+            AND ss.shared_with_id = auth.uid()
+        )
+      )
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION can_follow_session(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION can_follow_session(UUID) TO authenticated;
+
+-- A copy can't name a session its owner can't see as its original. Not SECURITY DEFINER:
+-- current_user tells requests through the API from functions like save_share_link
+CREATE OR REPLACE FUNCTION check_forked_from()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated')
+    AND NEW.forked_from IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.forked_from IS DISTINCT FROM OLD.forked_from)
+    AND NOT can_follow_session(NEW.forked_from)
+  THEN
+    RAISE EXCEPTION 'Original session not found'
+      USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS joi_sessions_check_forked_from ON joi_sessions;
+CREATE TRIGGER joi_sessions_check_forked_from
+  BEFORE INSERT OR UPDATE OF forked_from ON joi_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION check_forked_from();
+
+CREATE OR REPLACE FUNCTION session_lineage()
+RETURNS TABLE (
+  session_id UUID,
+  parent_id UUID,
+  parent_title TEXT,
+  parent_owner_name TEXT,
+  forked_revision INTEGER,
+  latest_revision INTEGER,
+  upstream_visible BOOLEAN,
+  update_available BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    parent.id,
+    CASE WHEN v.visible THEN parent.title END,
+    CASE WHEN v.visible THEN owner.display_name END,
+    base.revision,
+    CASE WHEN v.visible THEN latest.revision END,
+    v.visible,
+    v.visible
+      AND latest.id IS DISTINCT FROM s.forked_from_revision
+      AND (
+        (latest.subreddits IS DISTINCT FROM coalesce(base.subreddits, s.subreddits)
+          AND latest.subreddits IS DISTINCT FROM s.subreddits)
+        OR (latest.system_prompt IS DISTINCT FROM coalesce(base.system_prompt, s.system_prompt)
+          AND latest.system_prompt IS DISTINCT FROM s.system_prompt)
+      )
+  FROM joi_sessions s
+  JOIN joi_sessions parent ON parent.id = s.forked_from
+  CROSS JOIN LATERAL (SELECT can_follow_session(parent.id) AS visible) v
+  LEFT JOIN profiles owner ON owner.id = parent.user_id
+  LEFT JOIN session_revisions base ON base.id = s.forked_from_revision
+  LEFT JOIN LATERAL (
+    SELECT r.id, r.revision, r.subreddits, r.system_prompt
+    FROM session_revisions r
+    WHERE r.session_id = parent.id
+    ORDER BY r.revision DESC
+    LIMIT 1
+  ) latest ON true
+  WHERE s.user_id = auth.uid();
+$$;
+
+REVOKE EXECUTE ON FUNCTION session_lineage() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION session_lineage() TO authenticated;
+
+CREATE OR REPLACE FUNCTION session_upstream(p_session_id UUID)
+RETURNS TABLE (
+  base_subreddits TEXT[],
+  base_system_prompt TEXT,
+  latest_revision_id UUID,
+  latest_revision INTEGER,
+  latest_subreddits TEXT[],
+  latest_subreddit_settings JSONB,
+  latest_system_prompt TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session joi_sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_session
+  FROM joi_sessions
+  WHERE id = p_session_id
+    AND user_id = auth.uid();
+
+  IF NOT FOUND OR v_session.forked_from IS NULL THEN
+    RAISE EXCEPTION 'Session is not a copy of another session';
+  END IF;
+
+  IF NOT can_follow_session(v_session.forked_from) THEN
+    RAISE EXCEPTION 'The original session is no longer available';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    base.subreddits,
+    base.system_prompt,
+    latest.id,
+    latest.revision,
+    latest.subreddits,
+    latest.subreddit_settings,
+    latest.system_prompt
+  FROM session_revisions latest
+  LEFT JOIN session_revisions base ON base.id = v_session.forked_from_revision
+  WHERE latest.session_id = v_session.forked_from
+  ORDER BY latest.revision DESC
+  LIMIT 1;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION session_upstream(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION session_upstream(UUID) TO authenticated;
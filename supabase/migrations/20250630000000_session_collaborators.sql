@@ -0,0 +1,245 @@
+/*
+  # Collaborators on shared sessions
+
+  1. Changes to shared_sessions table
+    - Add `role`: 'viewer' (play and save a copy, as before), 'editor' (also
+      change the subreddits and the prompt) or 'co_owner' (change every setting
+      except visibility, tags and the owner's favorite, and restore old
+      versions). Existing shares stay viewers
+    - Only the owner shares, unshares and changes roles
+
+  2. Security
+    - `session_role(p_session_id)`: 'owner', the caller's share role or NULL
+    - `session_owner(p_session_id)`: who owns the session before the update
+    - RLS: editors and co-owners can update the session but never change its
+      owner. A trigger rejects changes to fields their role doesn't cover
+    - Realtime: only the owner and people who can edit join a session's
+      private `session-editors:<id>` presence channel
+
+  3. Functions
+    - `session_collaborators(p_session_id)`: the owner's view of who a session
+      is shared with and in which role
+    - `set_share_role(p_share_id, p_role)`: change a collaborator's role
+    - `session_revision_history(p_session_id)`: the session's revisions with
+      the name of whoever saved each one, for the owner and editors
+*/
+
+ALTER TABLE shared_sessions
+ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'viewer';
+
+ALTER TABLE shared_sessions
+DROP CONSTRAINT IF EXISTS shared_sessions_role_check;
+
+ALTER TABLE shared_sessions
+ADD CONSTRAINT shared_sessions_role_check CHECK (role IN ('viewer', 'editor', 'co_owner'));
+
+CREATE OR REPLACE FUNCTION session_role(p_session_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    (SELECT 'owner' FROM joi_sessions WHERE id = p_session_id AND user_id = auth.uid()),
+    (SELECT role FROM shared_sessions WHERE session_id = p_session_id AND shared_with_id = auth.uid() LIMIT 1)
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION session_role(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION session_role(UUID) TO authenticated;
+
+-- Reads the row as it was before the statement, so a policy can compare against it
+CREATE OR REPLACE FUNCTION session_owner(p_session_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT user_id FROM joi_sessions WHERE id = p_session_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION session_owner(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION session_owner(UUID) TO authenticated;
+
+DROP POLICY IF EXISTS "Collaborators can update shared sessions" ON joi_sessions;
+CREATE POLICY "Collaborators can update shared sessions"
+  ON joi_sessions FOR UPDATE
+  TO authenticated
+  USING (session_role(id) IN ('editor', 'co_owner'))
+  WITH CHECK (
+    session_role(id) IN ('editor', 'co_owner')
+    AND user_id = session_owner(id)
+  );
+
+-- Collaborators only change what their role covers; the owner is unaffected.
+-- Not SECURITY DEFINER: current_user has to be the API role for the first check
+CREATE OR REPLACE FUNCTION guard_collaborator_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_role TEXT;
+  v_changed BOOLEAN;
+  -- Set by the database, not by the form
+  v_managed TEXT[] := ARRAY['updated_at', 'play_count', 'save_count'];
+  v_editor_fields TEXT[] := ARRAY['subreddits', 'subreddit_settings', 'system_prompt'];
+  v_owner_fields TEXT[] := ARRAY['user_id', 'is_favorite', 'is_public', 'is_listed', 'tags',
+    'shared_url_id', 'forked_from', 'forked_from_revision'];
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') OR OLD.user_id = auth.uid() THEN
+    RETURN NEW;
+  END IF;
+
+  v_role := session_role(OLD.id);
+
+  IF v_role = 'editor' THEN
+    v_changed := (to_jsonb(NEW) - v_editor_fields - v_managed)
+      IS DISTINCT FROM (to_jsonb(OLD) - v_editor_fields - v_managed);
+  ELSIF v_role = 'co_owner' THEN
+    SELECT coalesce(bool_or(to_jsonb(NEW) -> f IS DISTINCT FROM to_jsonb(OLD) -> f), false)
+    INTO v_changed
+    FROM unnest(v_owner_fields) AS f;
+  ELSE
+    v_changed := true;
+  END IF;
+
+  IF v_changed THEN
+    RAISE EXCEPTION 'Your role on this session does not allow this change'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS joi_sessions_guard_collaborators ON joi_sessions;
+CREATE TRIGGER joi_sessions_guard_collaborators
+  BEFORE UPDATE ON joi_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_collaborator_update();
+
+-- Presence on the edit form: private channels named session-editors:<session id>
+DROP POLICY IF EXISTS "Session editors can read presence" ON realtime.messages;
+CREATE POLICY "Session editors can read presence"
+  ON realtime.messages FOR SELECT
+  TO authenticated
+  USING (
+    realtime.messages.extension = 'presence'
+    AND CASE
+      WHEN realtime.topic() ~ '^session-editors:[0-9a-f-]{36}$'
+        THEN session_role(substring(realtime.topic() FROM 17)::UUID) IN ('owner', 'editor', 'co_owner')
+      ELSE false
+    END
+  );
+
+DROP POLICY IF EXISTS "Session editors can track presence" ON realtime.messages;
+CREATE POLICY "Session editors can track presence"
+  ON realtime.messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    realtime.messages.extension = 'presence'
+    AND CASE
+      WHEN realtime.topic() ~ '^session-editors:[0-9a-f-]{36}$'
+        THEN session_role(substring(realtime.topic() FROM 17)::UUID) IN ('owner', 'editor', 'co_owner')
+      ELSE false
+    END
+  );
+
+CREATE OR REPLACE FUNCTION session_collaborators(p_session_id UUID)
+RETURNS TABLE (
+  share_id UUID,
+  user_id UUID,
+  display_name TEXT,
+  username TEXT,
+  avatar_url TEXT,
+  role TEXT,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT ss.id, ss.shared_with_id, p.display_name, p.username, p.avatar_url, ss.role, ss.created_at
+  FROM shared_sessions ss
+  JOIN joi_sessions s ON s.id = ss.session_id
+  LEFT JOIN profiles p ON p.id = ss.shared_with_id
+  WHERE ss.session_id = p_session_id
+    AND s.user_id = auth.uid()
+  ORDER BY ss.created_at;
+$$;
+
+REVOKE EXECUTE ON FUNCTION session_collaborators(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION session_collaborators(UUID) TO authenticated;
+
+CREATE OR REPLACE FUNCTION set_share_role(p_share_id UUID, p_role TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_role NOT IN ('viewer', 'editor', 'co_owner') THEN
+    RAISE EXCEPTION 'Unknown role: %', p_role;
+  END IF;
+
+  UPDATE shared_sessions ss
+  SET role = p_role
+  FROM joi_sessions s
+  WHERE ss.id = p_share_id
+    AND s.id = ss.session_id
+    AND s.user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Share not found or you are not the owner of the session';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_share_role(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_share_role(UUID, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION session_revision_history(p_session_id UUID)
+RETURNS TABLE (
+  id UUID,
+  session_id UUID,
+  revision INTEGER,
+  created_at TIMESTAMPTZ,
+  created_by UUID,
+  subreddits TEXT[],
+  subreddit_settings JSONB,
+  system_prompt TEXT,
+  "interval" INTEGER,
+  transition TEXT,
+  content_filters JSONB,
+  thumbnail_url TEXT,
+  author_name TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF coalesce(session_role(p_session_id), 'viewer') = 'viewer' THEN
+    RAISE EXCEPTION 'Session not found or you cannot edit it';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    r.id, r.session_id, r.revision, r.created_at, r.created_by,
+    r.subreddits, r.subreddit_settings, r.system_prompt, r.interval,
+    r.transition, r.content_filters, r.thumbnail_url,
+    p.display_name
+  FROM session_revisions r
+  LEFT JOIN profiles p ON p.id = r.created_by
+  WHERE r.session_id = p_session_id
+  ORDER BY r.revision DESC;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION session_revision_history(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION session_revision_history(UUID) TO authenticated;
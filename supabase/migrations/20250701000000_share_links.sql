@@ -0,0 +1,525 @@
+/*
+  # Share links
+
+  1. New table `session_share_links`
+    - A secret `token` that opens one session for anyone signed in who has the
+      link, without making the session public
+    - Optional expiry, passphrase (stored as a bcrypt hash), maximum number of
+      plays and saves, and whether the link allows saving a copy at all
+    - `view_count`, `play_count` and `save_count`: how many people other than
+      the owner opened the link, and how often they played and copied it
+    - `revoked_at`: set when the owner turns the link off. Rows are removed
+      with their session
+
+  2. New table `session_share_link_visitors`
+    - One row per link and user: when they got past the passphrase
+      (`opened_at`) and their recent wrong passphrases. After 5 wrong ones in
+      a row the link is locked for them for 15 minutes
+
+  3. New table `session_share_link_plays`
+    - A one-time `token` for each play of a link. The player trades it for the
+      session once, within 10 minutes, so a play can't be started again from
+      the browser's history
+
+  4. Security
+    - RLS without policies: the tables are only reached through the functions
+      below, which check the link on every use
+
+  5. Functions for the owner
+    - `create_share_link(...)`: returns the new link's token
+    - `list_share_links(p_session_id)`: the session's links and their counters
+    - `revoke_share_link(p_link_id)`
+
+  6. Functions for whoever has the link
+    - `open_share_link(p_token, p_passphrase)`: checks the passphrase and
+      returns the session's title, description and settings with what the
+      link allows; counts a view the first time each user gets in. A wrong
+      passphrase is returned as `{ "error": "passphrase_incorrect" }` instead
+      of raised, so the attempt is kept
+    - `play_share_link(p_token)`: counts a play against the link's limit and
+      returns a play token
+    - `redeem_share_play(p_play_token)`: what the player needs of the session,
+      once per play token
+    - `save_share_link(p_token)`: saves a copy of the session for the caller,
+      counting a save against the link's limit, and returns its id
+    - Playing and saving a link with a passphrase need it opened first
+    - Failures carry a HINT the app maps to a message: 'not_found', 'revoked',
+      'expired', 'passphrase_required', 'passphrase_incorrect',
+      'too_many_attempts', 'play_limit', 'play_used', 'save_not_allowed' or
+      'save_limit'
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS session_share_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES joi_sessions(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(16), 'hex'),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ,
+  passphrase_hash TEXT,
+  allow_save BOOLEAN NOT NULL DEFAULT false,
+  max_plays INTEGER,
+  max_saves INTEGER,
+  view_count INTEGER NOT NULL DEFAULT 0,
+  play_count INTEGER NOT NULL DEFAULT 0,
+  save_count INTEGER NOT NULL DEFAULT 0,
+  revoked_at TIMESTAMPTZ,
+  CONSTRAINT session_share_links_limits_check CHECK (
+    (max_plays IS NULL OR max_plays > 0) AND (max_saves IS NULL OR max_saves > 0)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS session_share_links_session_idx
+  ON session_share_links (session_id, created_at DESC);
+
+ALTER TABLE session_share_links ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON session_share_links FROM anon, authenticated;
+
+CREATE TABLE IF NOT EXISTS session_share_link_visitors (
+  link_id UUID NOT NULL REFERENCES session_share_links(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  opened_at TIMESTAMPTZ,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  last_failed_at TIMESTAMPTZ,
+  PRIMARY KEY (link_id, user_id)
+);
+
+ALTER TABLE session_share_link_visitors ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON session_share_link_visitors FROM anon, authenticated;
+
+CREATE TABLE IF NOT EXISTS session_share_link_plays (
+  token TEXT PRIMARY KEY DEFAULT encode(extensions.gen_random_bytes(16), 'hex'),
+  link_id UUID NOT NULL REFERENCES session_share_links(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  redeemed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS session_share_link_plays_created_idx
+  ON session_share_link_plays (created_at);
+
+ALTER TABLE session_share_link_plays ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON session_share_link_plays FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION create_share_link(
+  p_session_id UUID,
+  p_expires_at TIMESTAMPTZ DEFAULT NULL,
+  p_passphrase TEXT DEFAULT NULL,
+  p_allow_save BOOLEAN DEFAULT false,
+  p_max_plays INTEGER DEFAULT NULL,
+  p_max_saves INTEGER DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_token TEXT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM joi_sessions WHERE id = p_session_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Session not found or you are not its owner';
+  END IF;
+
+  IF p_expires_at IS NOT NULL AND p_expires_at <= now() THEN
+    RAISE EXCEPTION 'The expiry date has to be in the future';
+  END IF;
+
+  INSERT INTO session_share_links (session_id, expires_at, passphrase_hash, allow_save, max_plays, max_saves)
+  VALUES (
+    p_session_id,
+    p_expires_at,
+    CASE WHEN coalesce(p_passphrase, '') = '' THEN NULL
+      ELSE extensions.crypt(p_passphrase, extensions.gen_salt('bf')) END,
+    coalesce(p_allow_save, false),
+    p_max_plays,
+    p_max_saves
+  )
+  RETURNING token INTO v_token;
+
+  RETURN v_token;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_share_link(UUID, TIMESTAMPTZ, TEXT, BOOLEAN, INTEGER, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_share_link(UUID, TIMESTAMPTZ, TEXT, BOOLEAN, INTEGER, INTEGER) TO authenticated;
+
+CREATE OR REPLACE FUNCTION list_share_links(p_session_id UUID)
+RETURNS TABLE (
+  id UUID,
+  token TEXT,
+  created_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  has_passphrase BOOLEAN,
+  allow_save BOOLEAN,
+  max_plays INTEGER,
+  max_saves INTEGER,
+  view_count INTEGER,
+  play_count INTEGER,
+  save_count INTEGER,
+  revoked_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    l.id, l.token, l.created_at, l.expires_at, l.passphrase_hash IS NOT NULL,
+    l.allow_save, l.max_plays, l.max_saves, l.view_count, l.play_count,
+    l.save_count, l.revoked_at
+  FROM session_share_links l
+  JOIN joi_sessions s ON s.id = l.session_id
+  WHERE l.session_id = p_session_id
+    AND s.user_id = auth.uid()
+  ORDER BY l.created_at DESC;
+$$;
+
+REVOKE EXECUTE ON FUNCTION list_share_links(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION list_share_links(UUID) TO authenticated;
+
+CREATE OR REPLACE FUNCTION revoke_share_link(p_link_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE session_share_links l
+  SET revoked_at = coalesce(l.revoked_at, now())
+  FROM joi_sessions s
+  WHERE l.id = p_link_id
+    AND s.id = l.session_id
+    AND s.user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Share link not found or you are not the owner of the session';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION revoke_share_link(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION revoke_share_link(UUID) TO authenticated;
+
+
+-- The link behind a token if it can be used right now, locked for updating its counters
+CREATE OR REPLACE FUNCTION check_share_link(p_token TEXT)
+RETURNS session_share_links
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_link session_share_links%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_link
+  FROM session_share_links
+  WHERE token = p_token
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Share link not found' USING HINT = 'not_found';
+  END IF;
+
+  IF v_link.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This share link was turned off' USING HINT = 'revoked';
+  END IF;
+
+  IF v_link.expires_at IS NOT NULL AND v_link.expires_at <= now() THEN
+    RAISE EXCEPTION 'This share link has expired' USING HINT = 'expired';
+  END IF;
+
+  RETURN v_link;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION check_share_link(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Playing and saving need a link with a passphrase opened by the caller first
+CREATE OR REPLACE FUNCTION check_share_link_opened(p_link session_share_links)
+RETURNS VOID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_link.passphrase_hash IS NOT NULL AND NOT EXISTS (
+    SELECT 1
+    FROM session_share_link_visitors
+    WHERE link_id = p_link.id
+      AND user_id = auth.uid()
+      AND opened_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'This share link needs a passphrase' USING HINT = 'passphrase_required';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION check_share_link_opened(session_share_links) FROM PUBLIC, anon, authenticated;
+
+-- What the app gets back from opening or playing a link. Only what the link's
+-- page shows of the session; the player gets the rest from redeem_share_play
+CREATE OR REPLACE FUNCTION share_link_payload(p_link session_share_links, p_session joi_sessions)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'session', jsonb_build_object(
+      'id', p_session.id,
+      'title', p_session.title,
+      'description', p_session.description,
+      'subreddits', p_session.subreddits,
+      'interval', p_session.interval,
+      'transition', p_session.transition
+    ),
+    'expires_at', p_link.expires_at,
+    'allow_save', p_link.allow_save,
+    'plays_left', CASE WHEN p_link.max_plays IS NULL THEN NULL
+      ELSE greatest(p_link.max_plays - p_link.play_count, 0) END,
+    'saves_left', CASE WHEN p_link.max_saves IS NULL THEN NULL
+      ELSE greatest(p_link.max_saves - p_link.save_count, 0) END
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION share_link_payload(session_share_links, joi_sessions) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION open_share_link(p_token TEXT, p_passphrase TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_link session_share_links%ROWTYPE;
+  v_session joi_sessions%ROWTYPE;
+  v_visitor session_share_link_visitors%ROWTYPE;
+BEGIN
+  v_link := check_share_link(p_token);
+
+  SELECT * INTO v_session FROM joi_sessions WHERE id = v_link.session_id;
+
+  SELECT * INTO v_visitor
+  FROM session_share_link_visitors
+  WHERE link_id = v_link.id
+    AND user_id = auth.uid();
+
+  IF v_link.passphrase_hash IS NOT NULL AND v_visitor.opened_at IS NULL THEN
+    IF v_visitor.failed_attempts >= 5 AND v_visitor.last_failed_at > now() - interval '15 minutes' THEN
+      RAISE EXCEPTION 'Too many wrong passphrases. Try again in 15 minutes' USING HINT = 'too_many_attempts';
+    END IF;
+
+    IF coalesce(p_passphrase, '') = '' THEN
+      RAISE EXCEPTION 'This share link needs a passphrase' USING HINT = 'passphrase_required';
+    END IF;
+
+    IF extensions.crypt(p_passphrase, v_link.passphrase_hash) <> v_link.passphrase_hash THEN
+      INSERT INTO session_share_link_visitors (link_id, user_id, failed_attempts, last_failed_at)
+      VALUES (v_link.id, auth.uid(), 1, now())
+      ON CONFLICT (link_id, user_id) DO UPDATE
+      SET failed_attempts = CASE
+            WHEN session_share_link_visitors.last_failed_at > now() - interval '15 minutes'
+            THEN session_share_link_visitors.failed_attempts + 1
+            ELSE 1
+          END,
+          last_failed_at = now();
+
+      -- Returned rather than raised: raising would roll back the attempt just recorded
+      RETURN jsonb_build_object('error', 'passphrase_incorrect', 'message', 'Wrong passphrase');
+    END IF;
+  END IF;
+
+  IF v_visitor.opened_at IS NULL THEN
+    INSERT INTO session_share_link_visitors (link_id, user_id, opened_at)
+    VALUES (v_link.id, auth.uid(), now())
+    ON CONFLICT (link_id, user_id) DO UPDATE
+    SET opened_at = now(), failed_attempts = 0, last_failed_at = NULL;
+
+    IF v_session.user_id <> auth.uid() THEN
+      UPDATE session_share_links
+      SET view_count = view_count + 1
+      WHERE id = v_link.id
+      RETURNING * INTO v_link;
+    END IF;
+  END IF;
+
+  RETURN share_link_payload(v_link, v_session);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION open_share_link(TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION open_share_link(TEXT, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION play_share_link(p_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_link session_share_links%ROWTYPE;
+  v_session joi_sessions%ROWTYPE;
+  v_play_token TEXT;
+BEGIN
+  v_link := check_share_link(p_token);
+  PERFORM check_share_link_opened(v_link);
+
+  SELECT * INTO v_session FROM joi_sessions WHERE id = v_link.session_id;
+
+  IF v_session.user_id <> auth.uid() THEN
+    IF v_link.max_plays IS NOT NULL AND v_link.play_count >= v_link.max_plays THEN
+      RAISE EXCEPTION 'This share link has no plays left' USING HINT = 'play_limit';
+    END IF;
+
+    UPDATE session_share_links
+    SET play_count = play_count + 1
+    WHERE id = v_link.id
+    RETURNING * INTO v_link;
+  END IF;
+
+  -- Play tokens are only good for 10 minutes; drop the ones nobody will use
+  DELETE FROM session_share_link_plays
+  WHERE created_at < now() - interval '1 day';
+
+  INSERT INTO session_share_link_plays (link_id, user_id)
+  VALUES (v_link.id, auth.uid())
+  RETURNING token INTO v_play_token;
+
+  RETURN share_link_payload(v_link, v_session) || jsonb_build_object('play_token', v_play_token);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION play_share_link(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION play_share_link(TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION redeem_share_play(p_play_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_link session_share_links%ROWTYPE;
+  v_session joi_sessions%ROWTYPE;
+  v_link_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE session_share_link_plays
+  SET redeemed_at = now()
+  WHERE token = p_play_token
+    AND user_id = auth.uid()
+    AND redeemed_at IS NULL
+    AND created_at > now() - interval '10 minutes'
+  RETURNING link_id INTO v_link_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This play has already started or has expired. Open the share link again to play it'
+      USING HINT = 'play_used';
+  END IF;
+
+  SELECT * INTO v_link FROM session_share_links WHERE id = v_link_id;
+
+  IF v_link.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This share link was turned off' USING HINT = 'revoked';
+  END IF;
+
+  IF v_link.expires_at IS NOT NULL AND v_link.expires_at <= now() THEN
+    RAISE EXCEPTION 'This share link has expired' USING HINT = 'expired';
+  END IF;
+
+  SELECT * INTO v_session FROM joi_sessions WHERE id = v_link.session_id;
+
+  RETURN jsonb_build_object(
+    'id', v_session.id,
+    'title', v_session.title,
+    'description', v_session.description,
+    'subreddits', v_session.subreddits,
+    'subreddit_settings', v_session.subreddit_settings,
+    'system_prompt', v_session.system_prompt,
+    'interval', v_session.interval,
+    'transition', v_session.transition,
+    'thumbnail_url', v_session.thumbnail_url,
+    'vision_captions', v_session.vision_captions,
+    'video_audio', v_session.video_audio,
+    'video_timing', v_session.video_timing,
+    'video_max_seconds', v_session.video_max_seconds,
+    'gallery_interval', v_session.gallery_interval,
+    'content_filters', v_session.content_filters
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION redeem_share_play(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION redeem_share_play(TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION save_share_link(p_token TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_link session_share_links%ROWTYPE;
+  v_session joi_sessions%ROWTYPE;
+  v_title TEXT;
+  v_copy INTEGER := 1;
+  v_new_id UUID;
+BEGIN
+  v_link := check_share_link(p_token);
+  PERFORM check_share_link_opened(v_link);
+
+  IF NOT v_link.allow_save THEN
+    RAISE EXCEPTION 'This share link is for playing only' USING HINT = 'save_not_allowed';
+  END IF;
+
+  IF v_link.max_saves IS NOT NULL AND v_link.save_count >= v_link.max_saves THEN
+    RAISE EXCEPTION 'This share link has no saves left' USING HINT = 'save_limit';
+  END IF;
+
+  SELECT * INTO v_session FROM joi_sessions WHERE id = v_link.session_id;
+
+  -- Titles are unique per user
+  v_title := 'Copy of ' || v_session.title;
+  WHILE EXISTS (SELECT 1 FROM joi_sessions WHERE user_id = auth.uid() AND title = v_title) LOOP
+    v_copy := v_copy + 1;
+    v_title := 'Copy of ' || v_session.title || ' (' || v_copy || ')';
+  END LOOP;
+
+  INSERT INTO joi_sessions (
+    user_id, title, description, subreddits, system_prompt, "interval", transition,
+    thumbnail_url, subreddit_settings, vision_captions, video_audio, video_timing,
+    video_max_seconds, gallery_interval, content_filters, is_public, is_favorite, forked_from
+  )
+  VALUES (
+    auth.uid(), v_title, v_session.description, v_session.subreddits, v_session.system_prompt,
+    v_session.interval, v_session.transition, v_session.thumbnail_url, v_session.subreddit_settings,
+    v_session.vision_captions, v_session.video_audio, v_session.video_timing,
+    v_session.video_max_seconds, v_session.gallery_interval, v_session.content_filters,
+    false, false, v_session.id
+  )
+  RETURNING id INTO v_new_id;
+
+  IF v_session.user_id <> auth.uid() THEN
+    UPDATE session_share_links
+    SET save_count = save_count + 1
+    WHERE id = v_link.id;
+  END IF;
+
+  RETURN v_new_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION save_share_link(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION save_share_link(TEXT) TO authenticated;